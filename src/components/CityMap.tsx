@@ -1,5 +1,6 @@
 import React, { useMemo, useState } from 'react';
 import { generateCityLayout, type CityLayout, type DistrictType, type CityDistrict } from '../utils/cityGenerator';
+import { useLanguage } from '../hooks/useLanguage';
 
 interface CityMapProps {
   cityName: string;
@@ -9,9 +10,11 @@ interface CityMapProps {
 }
 
 const CityMap: React.FC<CityMapProps> = ({ cityName, cityType, seed, onBack }) => {
+  const { language } = useLanguage();
+  // Раскладка зависит только от seed - при смене языка меняются лишь названия кварталов
   const layout = useMemo(() => {
-    return generateCityLayout(seed, cityName, cityType);
-  }, [seed, cityName, cityType]);
+    return generateCityLayout(seed, cityName, cityType, language);
+  }, [seed, cityName, cityType, language]);
 
   const [hoveredDistrict, setHoveredDistrict] = useState<CityDistrict | null>(null);
 
@@ -6,6 +6,9 @@ import StoryLog, { type LogEntry } from './ui/StoryLog';
 import StatusBar from './ui/StatusBar';
 import GameDebugPanel from './ui/GameDebugPanel';
 import SceneView from './ui/SceneView';
+import EpilogueView from './ui/EpilogueView';
+import BranchBrowser from './ui/BranchBrowser';
+import InventoryView from './ui/InventoryView';
 import PlayerStatsBar from './ui/PlayerStatsBar';
 import './ui/GameUI.css';
 import type { POI, Kingdom, WorldData, CellData, Point2D } from '../types/world';
@@ -16,7 +19,7 @@ import { useWorldLore } from '../hooks/useWorldLore';
 import { initializeImageAssignments, updateCityImageFromLore, getAssignmentCounts } from '../utils/locationImages';
 import { getAvatarById } from '../utils/characterAssets';
 import type { WorldLore, WorldScenario, PlayableCharacter } from '../services/llmService';
-import type { SceneChoice } from '../types/agents';
+import type { SceneChoice, RecordedSession } from '../types/agents';
 import type { TravelRoute } from '../types/travel';
 import TravelView from './ui/TravelView';
 import { 
@@ -25,6 +28,10 @@ import {
   createPathLines
 } from '../utils/travelSystem';
 import type { TravelPath } from './WorldMap';
+import { createSessionRecording, downloadSession, startReplay, stopReplay, isReplayActive } from '../services/sessionRecorder';
+import { REST_COST, canRestAt, canVisitHealerAt, getHealerCost, needsHealing, hasRestedAt } from '../services/health';
+import { getMarket } from '../services/trade';
+import type { Market } from '../types/trade';
 
 const DebugPanel: React.FC<{ data: any; title: string }> = ({ data, title }) => {
   const [isOpen, setIsOpen] = useState(false);
@@ -963,14 +970,20 @@ const GameInterface: React.FC = () => {
     characterContext,
     // Scene state (Showrunner)
     currentScene,
+    streamingScene,
     sceneNumber,
     isGameStarted,
     // Player state
     playerState,
     lastAppliedEffects,
+    lastCheckResult,
     // Story state (Director)
     storyState,
     lastDirective,
+    // Epilogue
+    epilogue,
+    // Checkpoints & branches
+    storyTree,
     // Travel & Quest state
     travelState,
     quests,
@@ -987,6 +1000,15 @@ const GameInterface: React.FC = () => {
     generateWorldScenario,
     startGame,
     continueWithChoice,
+    startNewGameInSameWorld,
+    rewindToCheckpoint,
+    restAtLocation,
+    visitLocationHealer,
+    applyItem,
+    equipItem,
+    buyItem,
+    sellItem,
+    clear: clearLore,
     // Debug
     debugStore,
     clearDebugLogs
@@ -999,6 +1021,8 @@ const GameInterface: React.FC = () => {
   const [isLorePanelOpen, setIsLorePanelOpen] = useState(false);
   const [isCharacterPanelOpen, setIsCharacterPanelOpen] = useState(false);
   const [isScenarioPanelOpen, setIsScenarioPanelOpen] = useState(false);
+  const [isBranchBrowserOpen, setIsBranchBrowserOpen] = useState(false);
+  const [isInventoryOpen, setIsInventoryOpen] = useState(false);
 
   const handleGenerateLore = async () => {
     if (!worldData || !worldState) return;
@@ -1363,6 +1387,23 @@ const GameInterface: React.FC = () => {
     if (!worldData || !travelState?.travelQuest) return null;
     return getPOIById(worldData, travelState.travelQuest.targetLocationId) || null;
   }, [worldData, travelState]);
+
+  // Market in the hero's current city: stock from city lore, prices from the simulated kingdom
+  const currentMarket = React.useMemo((): Market | null => {
+    if (!isGameStarted || !worldData || !worldState || !currentPlayerLocation) return null;
+    const kingdomLore = worldLore?.kingdoms.find(k => k.id === currentPlayerLocation.kingdomId);
+    const cityLore = currentPlayerLocation.type === 'capital'
+      ? kingdomLore?.capital
+      : kingdomLore?.cities.find(c => c.id === currentPlayerLocation.id);
+    return getMarket({
+      location: currentPlayerLocation,
+      cityLore,
+      worldState,
+      hero: selectedCharacter || undefined,
+      seed: worldData.seed,
+      trades: playerState.trades
+    });
+  }, [isGameStarted, worldData, worldState, worldLore, currentPlayerLocation, selectedCharacter, playerState.trades]);
   
   // Handle travel selection from map - clicking on a city
   const handleTravelSelect = (toLocationId: string) => {
@@ -1427,10 +1468,8 @@ const GameInterface: React.FC = () => {
         distance: selectedRoute.distance,
         cost: selectedRoute.cost,
         danger: selectedRoute.danger
-      },
-      effects: [
-        { type: 'stat', stat: { attribute: 'gold', change: -selectedRoute.cost, target: 'player' } }
-      ]
+      }
+      // Gold for the road is deducted from travelTo.cost in continueWithChoice
     };
     
     // Clear selection
@@ -1517,6 +1556,67 @@ const GameInterface: React.FC = () => {
     }
   };
 
+  // --- BRANCHES: rewind to an earlier scene ---
+  const handleRewind = (checkpointId: string) => {
+    if (!worldData) return;
+    const snapshot = rewindToCheckpoint(checkpointId);
+    if (!snapshot) return;
+    
+    // Мир и выбранная локация - как в той сцене
+    simulationActions.restoreWorld(snapshot.worldState);
+    const location = getPOIById(worldData, snapshot.travelState.currentLocationId);
+    if (location) {
+      setSelectedLocation(location);
+      setSelectedKingdom(worldData.kingdoms.find(k => k.id === location.kingdomId) || null);
+    }
+    setShowTravelView(false);
+    setSelectedTravelDestination(null);
+    addLog('system', `⏪ Возврат к сцене ${snapshot.sceneNumber}: ${snapshot.scene.location}. Новый выбор создаст ветку.`);
+  };
+
+  // --- EPILOGUE: new game in the same world ---
+  const handleNewGameInSameWorld = () => {
+    startNewGameInSameWorld();
+    setIsBranchBrowserOpen(false);
+    setIsInventoryOpen(false);
+    setViewMode('WORLD');
+    setShowTravelView(false);
+    setSelectedTravelDestination(null);
+    setIsScenarioPanelOpen(false);
+    setIsCharacterPanelOpen(true);
+    addLog('system', `🔄 Новая история в мире **${worldLore?.worldName}**: выберите героя.`);
+  };
+
+  // --- RECORD & REPLAY ---
+  const handleExportSession = () => {
+    if (!worldData) return;
+    downloadSession(createSessionRecording(worldData.seed));
+  };
+
+  // Агенты снова ходят к настоящему провайдеру; мир и история остаются
+  const handleStopReplay = () => {
+    stopReplay();
+    addLog('system', '⏹ Replay остановлен: агенты снова используют провайдер LLM.');
+  };
+
+  // Пересоздаём мир с записанным seed и переключаем агентов на записанные ответы
+  const handleImportSession = (session: RecordedSession) => {
+    clearLore();
+    startReplay(session);
+    
+    const data = generateWorld({ ...DEFAULT_WORLD_CONFIG, seed: session.worldSeed });
+    initializeImageAssignments(data.kingdoms, data.seed);
+    setWorldData(data);
+    simulationActions.resetWorld(data);
+    
+    setSelectedLocation(null);
+    setSelectedKingdom(null);
+    setViewMode('WORLD');
+    setShowTravelView(false);
+    setSelectedTravelDestination(null);
+    addLog('system', `⏪ Replay: загружена сессия мира #${session.worldSeed} (${session.logs.length} вызовов агентов)`);
+  };
+
   if (!worldData || !worldState) {
       return <div className="loading-screen">Forging the world...</div>;
   }
@@ -1538,6 +1638,10 @@ const GameInterface: React.FC = () => {
         isGameStarted={isGameStarted}
         storyState={storyState}
         lastDirective={lastDirective}
+        onExportSession={handleExportSession}
+        onImportSession={handleImportSession}
+        onStopReplay={handleStopReplay}
+        isReplaying={isReplayActive()}
       />
 
       <DebugPanel 
@@ -1797,6 +1901,24 @@ const GameInterface: React.FC = () => {
                    {isGeneratingScenario ? '⏳ Narrator...' : worldScenario ? '📖 Сценарий' : '⏳ Генерация...'}
                  </button>
                )}
+
+               {/* Branches Button - after the first checkpoint */}
+               {storyTree.rootIds.length > 0 && (
+                 <button
+                   style={{
+                     padding: '8px 16px',
+                     backgroundColor: isBranchBrowserOpen ? 'rgba(78, 205, 196, 0.3)' : 'rgba(78, 205, 196, 0.15)',
+                     border: '1px solid #4ecdc4',
+                     borderRadius: '6px',
+                     color: '#4ecdc4',
+                     cursor: 'pointer',
+                     fontSize: '14px'
+                   }}
+                   onClick={() => setIsBranchBrowserOpen(open => !open)}
+                 >
+                   🌿 Ветки
+                 </button>
+               )}
             </div>
             
             {hoveredKingdom && !selectedLocation && !warMode && (
@@ -1923,6 +2045,7 @@ const GameInterface: React.FC = () => {
                 characterName={selectedCharacter.name}
                 currentLocation={currentPlayerLocation?.name || startingLocation?.name}
                 lastEffects={lastAppliedEffects}
+                onOpenInventory={() => setIsInventoryOpen(open => !open)}
               />
             )}
             
@@ -2113,14 +2236,48 @@ const GameInterface: React.FC = () => {
             )}
 
             {/* SCENE VIEW - modal window over the map */}
-            {isGameStarted && currentScene && selectedCharacter && (
+            {/* Первая сцена стримится ещё до isGameStarted */}
+            {((isGameStarted && currentScene) || streamingScene) && selectedCharacter && (
               <SceneView
                 scene={currentScene}
+                streamingScene={streamingScene}
                 characterName={selectedCharacter.name}
                 onChoice={handleSceneChoice}
                 isLoading={isGeneratingScene}
                 playerState={playerState}
+                travelState={travelState}
                 lastEffects={lastAppliedEffects}
+                checkResult={lastCheckResult}
+              />
+            )}
+
+            {/* BRANCH BROWSER - tree of explored paths */}
+            <BranchBrowser
+              tree={storyTree}
+              isOpen={isBranchBrowserOpen}
+              isBusy={isGeneratingScene}
+              onRewind={handleRewind}
+              onClose={() => setIsBranchBrowserOpen(false)}
+            />
+
+            {/* INVENTORY - use and equip items between scenes */}
+            {isGameStarted && playerState && (
+              <InventoryView
+                inventory={playerState.inventory}
+                isOpen={isInventoryOpen && !epilogue}
+                isBusy={isGeneratingScene}
+                onUse={itemId => applyItem(itemId) && addLog('system', `📦 ${playerState.inventory.find(i => i.id === itemId)?.name}`)}
+                onEquip={equipItem}
+                onClose={() => setIsInventoryOpen(false)}
+              />
+            )}
+
+            {/* EPILOGUE - end of story screen */}
+            {epilogue && selectedCharacter && (
+              <EpilogueView
+                epilogue={epilogue}
+                characterName={selectedCharacter.name}
+                onNewGame={handleNewGameInSameWorld}
               />
             )}
           </>
@@ -2135,6 +2292,19 @@ const GameInterface: React.FC = () => {
           isStartingLocation={selectedLocation?.id === startingLocation?.id}
           canEnter={isGameStarted && selectedLocation?.id === startingLocation?.id}
           onEnterCity={handleEnterCity}
+          services={isGameStarted && !epilogue && currentPlayerLocation && selectedLocation?.id === currentPlayerLocation.id ? {
+            gold: playerState.stats.gold,
+            restCost: canRestAt(currentPlayerLocation.type) ? REST_COST : undefined,
+            rested: hasRestedAt(playerState, currentPlayerLocation.id),
+            healerCost: canVisitHealerAt(currentPlayerLocation.type) ? getHealerCost(playerState) : undefined,
+            needsHealing: needsHealing(playerState),
+            onRest: () => restAtLocation(currentPlayerLocation) && addLog('system', `🛏️ Отдых в **${currentPlayerLocation.name}**`),
+            onVisitHealer: () => visitLocationHealer(currentPlayerLocation) && addLog('system', `⚕️ Лекарь в **${currentPlayerLocation.name}**`),
+            market: currentMarket || undefined,
+            inventory: playerState.inventory,
+            onBuy: itemId => currentMarket && buyItem(currentMarket, itemId),
+            onSell: itemId => currentMarket && sellItem(currentMarket, itemId)
+          } : undefined}
         />
         {selectedLocation && (
             <div style={{ padding: '1rem', fontSize: '0.8rem', color: '#888' }}>
@@ -2148,6 +2318,7 @@ const GameInterface: React.FC = () => {
         year={worldState.date.year} 
         gold={currentKingdomState?.resources.gold ?? 0} 
         mana={currentKingdomState?.resources.mana ?? 0} 
+        onOpenInventory={isGameStarted ? () => setIsInventoryOpen(open => !open) : undefined}
       />
     </div>
   );
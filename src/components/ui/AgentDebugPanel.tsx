@@ -1,5 +1,8 @@
 import React, { useState } from 'react';
 import type { AgentDebugStore, AgentCallLog, AgentRole } from '../../types/agents';
+import { getCacheStore, clearResponseCache } from '../../services/responseCache';
+import { runPromptPlayground, injectPlaygroundResult, renderPlaygroundPrompts } from '../../services/llmService';
+import { diffLines, formatResponseForDiff } from '../../utils/textDiff';
 
 interface AgentDebugPanelProps {
   debugStore: AgentDebugStore;
@@ -11,14 +14,186 @@ const AGENT_COLORS: Record<AgentRole, { bg: string; border: string; text: string
   GOLEM: { bg: 'rgba(155, 89, 182, 0.15)', border: '#9b59b6', text: '#d4a5e8' },
   CHARACTER_GENERATOR: { bg: 'rgba(78, 205, 196, 0.15)', border: '#4ecdc4', text: '#7eeee6' },
   NARRATOR: { bg: 'rgba(230, 184, 0, 0.15)', border: '#e6b800', text: '#ffe066' },
-  SHOWRUNNER: { bg: 'rgba(231, 76, 60, 0.15)', border: '#e74c3c', text: '#ff8a80' }
+  DIRECTOR: { bg: 'rgba(52, 152, 219, 0.15)', border: '#3498db', text: '#85c1e9' },
+  SHOWRUNNER: { bg: 'rgba(231, 76, 60, 0.15)', border: '#e74c3c', text: '#ff8a80' },
+  CRITIC: { bg: 'rgba(46, 204, 113, 0.15)', border: '#2ecc71', text: '#82e0aa' },
+  CHRONICLER: { bg: 'rgba(149, 165, 166, 0.15)', border: '#95a5a6', text: '#d5dbdb' }
 };
 
 const AGENT_LABELS: Record<AgentRole, string> = {
   GOLEM: '🌍 Golem (World Generator)',
   CHARACTER_GENERATOR: '🎭 Character Generator',
   NARRATOR: '📜 Narrator',
-  SHOWRUNNER: '🎬 Showrunner (Scene Writer)'
+  DIRECTOR: '🎯 Director (Story Pacing)',
+  SHOWRUNNER: '🎬 Showrunner (Scene Writer)',
+  CRITIC: '🧐 Critic (Continuity Check)',
+  CHRONICLER: '📖 Chronicler (Epilogue)'
+};
+
+const textareaStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  fontFamily: 'monospace',
+  fontSize: '11px',
+  lineHeight: 1.4,
+  color: '#c0c0c0',
+  backgroundColor: 'rgba(0,0,0,0.3)',
+  border: '1px solid #333',
+  borderRadius: '4px',
+  padding: '6px',
+  resize: 'vertical',
+  marginBottom: '10px'
+};
+
+// Playground: правка промпта и контекста, повторная отправка, diff с исходным ответом
+const PlaygroundTab: React.FC<{ log: AgentCallLog; colors: { bg: string; border: string; text: string } }> = ({ log, colors }) => {
+  const [systemPrompt, setSystemPrompt] = useState(log.systemPrompt);
+  const [userPrompt, setUserPrompt] = useState(log.userPrompt);
+  const [contextText, setContextText] = useState(() => JSON.stringify(log.context, null, 2));
+  // Контекст, из которого собраны промпты в полях: правленый контекст пересобирает их перед отправкой
+  const [renderedContext, setRenderedContext] = useState(contextText);
+  const [model, setModel] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<AgentCallLog | null>(null);
+  const [injected, setInjected] = useState(false);
+
+  const handleSend = async () => {
+    let context: Record<string, unknown>;
+    try {
+      context = JSON.parse(contextText);
+    } catch (e) {
+      setError(`Context is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    setIsRunning(true);
+    setError(null);
+    setInjected(false);
+    try {
+      let prompts = { systemPrompt, userPrompt };
+      if (contextText !== renderedContext) {
+        prompts = renderPlaygroundPrompts(log.id, context) || prompts;
+        setSystemPrompt(prompts.systemPrompt);
+        setUserPrompt(prompts.userPrompt);
+        setRenderedContext(contextText);
+      }
+      setResult(await runPromptPlayground(log.id, { ...prompts, context, model: model.trim() }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Playground call failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleInject = async () => {
+    if (!result) return;
+    setError(null);
+    try {
+      await injectPlaygroundResult(result.id);
+      setInjected(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Inject failed');
+    }
+  };
+
+  const handleReset = () => {
+    setSystemPrompt(log.systemPrompt);
+    setUserPrompt(log.userPrompt);
+    setContextText(JSON.stringify(log.context, null, 2));
+    setRenderedContext(JSON.stringify(log.context, null, 2));
+    setModel('');
+  };
+
+  const labelStyle = { color: colors.text, margin: '0 0 6px 0', fontSize: '12px' };
+  const diff = result ? diffLines(formatResponseForDiff(log.rawResponse), formatResponseForDiff(result.rawResponse)) : [];
+
+  return (
+    <div>
+      <h4 style={labelStyle}>System Prompt:</h4>
+      <textarea value={systemPrompt} onChange={e => setSystemPrompt(e.target.value)} rows={6} style={textareaStyle} />
+      <h4 style={labelStyle}>User Prompt:</h4>
+      <textarea value={userPrompt} onChange={e => setUserPrompt(e.target.value)} rows={10} style={textareaStyle} />
+      <h4 style={labelStyle}>Context (JSON):</h4>
+      <textarea value={contextText} onChange={e => setContextText(e.target.value)} rows={6} style={textareaStyle} />
+
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '10px' }}>
+        <input
+          value={model}
+          onChange={e => setModel(e.target.value)}
+          placeholder={log.model}
+          style={{ flex: 1, padding: '4px 8px', fontSize: '11px', backgroundColor: 'rgba(0,0,0,0.3)', border: '1px solid #333', borderRadius: '4px', color: '#c0c0c0' }}
+        />
+        <button
+          onClick={handleReset}
+          style={{ padding: '4px 10px', fontSize: '11px', backgroundColor: 'rgba(255,255,255,0.1)', border: '1px solid #555', borderRadius: '4px', color: '#aaa', cursor: 'pointer' }}
+        >
+          Reset
+        </button>
+        <button
+          onClick={handleSend}
+          disabled={isRunning}
+          style={{ padding: '4px 12px', fontSize: '11px', backgroundColor: colors.bg, border: `1px solid ${colors.border}`, borderRadius: '4px', color: colors.text, cursor: isRunning ? 'wait' : 'pointer' }}
+        >
+          {isRunning ? '⏳ Sending...' : '▶ Send'}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ color: '#e74c3c', fontSize: '11px', marginBottom: '10px' }}>{error}</div>
+      )}
+
+      {result && (
+        <>
+          <div style={{ display: 'flex', gap: '12px', alignItems: 'center', fontSize: '11px', color: '#888', marginBottom: '6px' }}>
+            <span style={{ color: result.validation?.valid ? '#2ecc71' : '#e74c3c' }} title={result.validation?.errors.join('\n')}>
+              {result.validation?.valid ? '✓ valid' : `✗ ${result.validation?.errors.length ?? 0} errors`}
+            </span>
+            <span>{result.model}</span>
+            {result.durationMs && <span>{(result.durationMs / 1000).toFixed(1)}s</span>}
+            {result.usage && <span>{result.usage.promptTokens}/{result.usage.completionTokens} tok</span>}
+            <span style={{ flex: 1 }} />
+            {injected ? (
+              <span style={{ color: '#2ecc71' }}>✓ Injected into game</span>
+            ) : (
+              <button
+                onClick={handleInject}
+                disabled={!result.validation?.valid}
+                title="Заменить результат исходного вызова в игре"
+                style={{
+                  padding: '3px 10px',
+                  fontSize: '11px',
+                  backgroundColor: 'transparent',
+                  border: '1px solid #2ecc71',
+                  borderRadius: '4px',
+                  color: '#2ecc71',
+                  cursor: result.validation?.valid ? 'pointer' : 'not-allowed',
+                  opacity: result.validation?.valid ? 1 : 0.4
+                }}
+              >
+                Inject into game
+              </button>
+            )}
+          </div>
+          <h4 style={labelStyle}>Diff (original → playground):</h4>
+          <pre style={{ margin: 0, fontSize: '10px', lineHeight: 1.4, maxHeight: '300px', overflow: 'auto', backgroundColor: 'rgba(0,0,0,0.2)', padding: '6px', borderRadius: '4px' }}>
+            {diff.map((line, i) => (
+              <div
+                key={i}
+                style={{
+                  whiteSpace: 'pre-wrap',
+                  wordBreak: 'break-word',
+                  color: line.kind === 'added' ? '#2ecc71' : line.kind === 'removed' ? '#e74c3c' : '#777',
+                  backgroundColor: line.kind === 'added' ? 'rgba(46, 204, 113, 0.08)' : line.kind === 'removed' ? 'rgba(231, 76, 60, 0.08)' : 'transparent'
+                }}
+              >
+                {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}{line.text}
+              </div>
+            ))}
+          </pre>
+        </>
+      )}
+    </div>
+  );
 };
 
 // Компонент для одного лога
@@ -27,7 +202,7 @@ const LogEntry: React.FC<{ log: AgentCallLog; isExpanded: boolean; onToggle: ()
   isExpanded, 
   onToggle 
 }) => {
-  const [activeTab, setActiveTab] = useState<'system' | 'user' | 'context' | 'response'>('context');
+  const [activeTab, setActiveTab] = useState<'system' | 'user' | 'context' | 'response' | 'playground'>('context');
   const colors = AGENT_COLORS[log.agent];
   
   return (
@@ -66,9 +241,49 @@ const LogEntry: React.FC<{ log: AgentCallLog; isExpanded: boolean; onToggle: ()
           }}>
             {log.status.toUpperCase()}
           </span>
+          {log.playgroundOf && (
+            <span style={{ 
+              fontSize: '11px', 
+              padding: '2px 8px', 
+              borderRadius: '4px',
+              backgroundColor: 'rgba(155, 89, 182, 0.3)',
+              color: '#d4a5e8'
+            }}>
+              🧪 PLAYGROUND
+            </span>
+          )}
+          {log.adoptedFrom && (
+            <span
+              title={`${log.model} вместо ${log.adoptedFrom.originalModel}`}
+              style={{ 
+                fontSize: '11px', 
+                padding: '2px 8px', 
+                borderRadius: '4px',
+                backgroundColor: 'rgba(46, 204, 113, 0.3)',
+                color: '#2ecc71'
+              }}
+            >
+              🔀 ADOPTED
+            </span>
+          )}
+          {log.cacheHit && (
+            <span
+              title={log.cacheKey}
+              style={{ 
+                fontSize: '11px', 
+                padding: '2px 8px', 
+                borderRadius: '4px',
+                backgroundColor: 'rgba(52, 152, 219, 0.3)',
+                color: '#5dade2'
+              }}
+            >
+              💾 CACHE
+            </span>
+          )}
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: '16px', fontSize: '11px', color: '#888' }}>
           <span>Model: {log.model}</span>
+          {log.promptTemplate && <span>Prompt: {log.promptTemplate.id}@v{log.promptTemplate.version} ({log.promptTemplate.language})</span>}
           {log.durationMs && <span>{(log.durationMs / 1000).toFixed(1)}s</span>}
           {log.tokenEstimate && <span>~{log.tokenEstimate} tokens</span>}
           <span style={{ color: '#666' }}>{isExpanded ? '▼' : '▶'}</span>
@@ -84,7 +299,7 @@ const LogEntry: React.FC<{ log: AgentCallLog; isExpanded: boolean; onToggle: ()
             borderBottom: `1px solid ${colors.border}`,
             backgroundColor: 'rgba(0,0,0,0.2)'
           }}>
-            {(['context', 'system', 'user', 'response'] as const).map(tab => (
+            {(['context', 'system', 'user', 'response', 'playground'] as const).map(tab => (
               <button
                 key={tab}
                 onClick={(e) => { e.stopPropagation(); setActiveTab(tab); }}
@@ -102,7 +317,8 @@ const LogEntry: React.FC<{ log: AgentCallLog; isExpanded: boolean; onToggle: ()
               >
                 {tab === 'context' ? '📋 Context' :
                  tab === 'system' ? '⚙️ System' :
-                 tab === 'user' ? '👤 User' : '💬 Response'}
+                 tab === 'user' ? '👤 User' :
+                 tab === 'response' ? '💬 Response' : '🧪 Playground'}
               </button>
             ))}
           </div>
@@ -168,6 +384,8 @@ const LogEntry: React.FC<{ log: AgentCallLog; isExpanded: boolean; onToggle: ()
               </div>
             )}
 
+            {activeTab === 'playground' && <PlaygroundTab log={log} colors={colors} />}
+
             {activeTab === 'response' && (
               <div>
                 {log.error ? (
@@ -229,6 +447,8 @@ const LogEntry: React.FC<{ log: AgentCallLog; isExpanded: boolean; onToggle: ()
 export const AgentDebugPanel: React.FC<AgentDebugPanelProps> = ({ debugStore, onClear }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [expandedLogs, setExpandedLogs] = useState<Set<string>>(new Set());
+  const cacheStore = getCacheStore();
+  const cacheHits = debugStore.logs.filter(l => l.cacheHit).length;
 
   const toggleLog = (logId: string) => {
     setExpandedLogs(prev => {
@@ -336,9 +556,11 @@ export const AgentDebugPanel: React.FC<AgentDebugPanelProps> = ({ debugStore, on
               </h3>
               <div style={{ fontSize: '11px', color: '#888', marginTop: '4px' }}>
                 {debugStore.totalCalls} calls | {(debugStore.totalDurationMs / 1000).toFixed(1)}s total
+                {cacheStore && <> | 💾 {cacheHits} from cache ({cacheStore.kind})</>}
                 {debugStore.currentPhase !== 'IDLE' && (
                   <span style={{ color: '#f1c40f', marginLeft: '8px' }}>
-                    Current: {debugStore.currentPhase}
+                    Current: {debugStore.activePhases.map(p => p.phase).join(', ')}
+                    {debugStore.queue.length > 0 && ` | queue ${debugStore.queue.length}`}
                   </span>
                 )}
               </div>
@@ -372,6 +594,22 @@ export const AgentDebugPanel: React.FC<AgentDebugPanelProps> = ({ debugStore, on
               >
                 Collapse All
               </button>
+              {cacheStore && (
+                <button
+                  onClick={() => clearResponseCache()}
+                  style={{
+                    padding: '4px 8px',
+                    fontSize: '11px',
+                    backgroundColor: 'rgba(52, 152, 219, 0.2)',
+                    border: '1px solid #3498db',
+                    borderRadius: '4px',
+                    color: '#5dade2',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Clear Cache
+                </button>
+              )}
               <button
                 onClick={onClear}
                 style={{
@@ -0,0 +1,153 @@
+import React from 'react';
+import type { StoryTree, StoryBranchNode } from '../../types/checkpoints';
+import type { DirectorDirective } from '../../types/agents';
+import { buildBranchTree, countBranches } from '../../services/storyCheckpoints';
+import { useLanguage } from '../../hooks/useLanguage';
+
+interface BranchBrowserProps {
+  tree: StoryTree;
+  isOpen: boolean;
+  isBusy?: boolean;             // Идёт генерация - перемотка её отменит
+  onRewind: (checkpointId: string) => void;
+  onClose: () => void;
+}
+
+const PACING_COLORS: Record<DirectorDirective['pacing'], string> = {
+  slow_down: '#3498db',
+  maintain: '#95a5a6',
+  build_tension: '#f39c12',
+  climax: '#e74c3c',
+  resolution: '#2ecc71'
+};
+
+const BranchNode: React.FC<{
+  node: StoryBranchNode;
+  depth: number;
+  onRewind: (checkpointId: string) => void;
+}> = ({ node, depth, onRewind }) => {
+  const { strings } = useLanguage();
+  const t = strings.branches;
+  const { checkpoint, children, isCurrent, isOnCurrentPath } = node;
+  const { snapshot } = checkpoint;
+  const directive = snapshot.lastDirective;
+  const hasFork = children.length > 1;
+
+  return (
+    <div style={{ marginLeft: depth > 0 ? '10px' : 0 }}>
+      <div
+        title={checkpoint.reasoning}
+        style={{
+          padding: '6px 8px',
+          marginBottom: '4px',
+          borderRadius: '4px',
+          borderLeft: `2px solid ${isCurrent ? '#4ecdc4' : isOnCurrentPath ? 'rgba(78, 205, 196, 0.4)' : '#30363d'}`,
+          backgroundColor: isCurrent ? 'rgba(78, 205, 196, 0.1)' : 'rgba(255,255,255,0.02)'
+        }}
+      >
+        {checkpoint.choice && (
+          <div style={{ fontSize: '11px', color: '#c9d1d9', marginBottom: '3px' }}>
+            ▶ {checkpoint.choice.text}
+          </div>
+        )}
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '10px' }}>
+          <span style={{ color: '#4ecdc4', fontWeight: 600 }}>{t.scene(snapshot.sceneNumber)}</span>
+          <span style={{ color: '#888', flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {snapshot.scene.location}
+          </span>
+          <span style={{ color: '#666' }}>{t.act(snapshot.storyState.currentAct)}</span>
+          {hasFork && <span style={{ color: '#f1c40f' }}>⑂{children.length}</span>}
+        </div>
+        {directive && (
+          <div style={{ fontSize: '10px', marginTop: '3px', color: '#888' }}>
+            <span style={{ color: PACING_COLORS[directive.pacing] }}>{directive.pacing}</span> · {directive.focus}
+          </div>
+        )}
+        <div style={{ marginTop: '4px', textAlign: 'right' }}>
+          {isCurrent ? (
+            <span style={{ fontSize: '10px', color: '#4ecdc4' }}>● {t.current}</span>
+          ) : (
+            <button
+              onClick={() => onRewind(checkpoint.id)}
+              title={t.rewindHint}
+              style={{
+                padding: '2px 8px',
+                fontSize: '10px',
+                backgroundColor: 'transparent',
+                color: '#c9d1d9',
+                border: '1px solid #30363d',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              {t.rewind}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {children.length > 0 && (
+        <div style={{ borderLeft: hasFork ? '1px dashed #30363d' : 'none', paddingLeft: hasFork ? '4px' : 0 }}>
+          {children.map(child => (
+            <BranchNode key={child.checkpoint.id} node={child} depth={hasFork ? depth + 1 : depth} onRewind={onRewind} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Дерево исследованных веток: возврат к любой сцене и другой выбор
+const BranchBrowser: React.FC<BranchBrowserProps> = ({ tree, isOpen, isBusy = false, onRewind, onClose }) => {
+  const { strings } = useLanguage();
+  const t = strings.branches;
+  if (!isOpen) return null;
+
+  const roots = buildBranchTree(tree);
+  const { scenes, leaves } = countBranches(tree);
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: 70,
+      right: 20,
+      bottom: 20,
+      width: '340px',
+      backgroundColor: 'rgba(13, 17, 23, 0.97)',
+      border: '1px solid #30363d',
+      borderRadius: '8px',
+      zIndex: 120,
+      display: 'flex',
+      flexDirection: 'column',
+      boxShadow: '0 8px 32px rgba(0,0,0,0.6)'
+    }}>
+      <div style={{
+        padding: '10px 14px',
+        borderBottom: '1px solid #30363d',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between'
+      }}>
+        <div>
+          <div style={{ color: '#fff', fontSize: '13px', fontWeight: 600 }}>{t.title}</div>
+          <div style={{ color: '#666', fontSize: '10px' }}>{t.summary(scenes, leaves)}</div>
+        </div>
+        <button
+          onClick={onClose}
+          style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', fontSize: '18px' }}
+        >
+          ×
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflow: 'auto', padding: '10px', opacity: isBusy ? 0.6 : 1 }}>
+        {roots.length === 0 ? (
+          <div style={{ color: '#666', fontSize: '12px', textAlign: 'center', marginTop: '20px' }}>{t.empty}</div>
+        ) : (
+          roots.map(root => <BranchNode key={root.checkpoint.id} node={root} depth={0} onRewind={onRewind} />)
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BranchBrowser;
@@ -0,0 +1,201 @@
+import React from 'react';
+import type { Epilogue, EndingKind, EpilogueStats } from '../../types/agents';
+import { useLanguage } from '../../hooks/useLanguage';
+
+interface EpilogueViewProps {
+  epilogue: Epilogue;
+  characterName: string;
+  onNewGame: () => void;
+}
+
+const ENDING_COLORS: Record<EndingKind, string> = {
+  triumph: '#f1c40f',
+  bittersweet: '#85c1e9',
+  tragic: '#e74c3c'
+};
+
+// Порядок и формат строк итогов; milestones и линии - "x / всего"
+const STAT_ROWS: { key: keyof EpilogueStats; total?: keyof EpilogueStats }[] = [
+  { key: 'scenes' },
+  { key: 'gold' },
+  { key: 'reputation' },
+  { key: 'influence' },
+  { key: 'health' },
+  { key: 'items' },
+  { key: 'allies' },
+  { key: 'enemies' },
+  { key: 'fallen' },
+  { key: 'locationsVisited' },
+  { key: 'questsCompleted' },
+  { key: 'milestonesReached', total: 'milestonesTotal' },
+  { key: 'threadsPaidOff', total: 'threadsTotal' }
+];
+
+const sectionTitleStyle: React.CSSProperties = {
+  color: '#888',
+  fontSize: '11px',
+  textTransform: 'uppercase',
+  letterSpacing: '1px',
+  margin: '20px 0 8px'
+};
+
+const fateStyle: React.CSSProperties = {
+  color: '#ccc',
+  fontSize: '13px',
+  lineHeight: 1.6,
+  margin: '0 0 8px'
+};
+
+const EpilogueView: React.FC<EpilogueViewProps> = ({ epilogue, characterName, onNewGame }) => {
+  const { strings } = useLanguage();
+  const t = strings.epilogue;
+  const { chronicle, stats } = epilogue;
+  const endingColor = ENDING_COLORS[epilogue.ending];
+
+  return (
+    <>
+      {/* Overlay */}
+      <div style={{
+        position: 'absolute',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.85)',
+        zIndex: 99
+      }} />
+
+      {/* Modal */}
+      <div style={{
+        position: 'absolute',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)',
+        width: '92%',
+        maxWidth: '760px',
+        maxHeight: '86vh',
+        backgroundColor: '#0f0f14',
+        borderRadius: '12px',
+        border: `1px solid ${endingColor}`,
+        boxShadow: '0 20px 60px rgba(0,0,0,0.8)',
+        zIndex: 100,
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden'
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: '16px 24px',
+          borderBottom: '1px solid #2a2a35',
+          textAlign: 'center'
+        }}>
+          <div style={{ color: '#666', fontSize: '12px' }}>{t.title}</div>
+          <div style={{ color: '#fff', fontSize: '20px', fontFamily: "'Georgia', serif", margin: '6px 0' }}>
+            {chronicle.title}
+          </div>
+          <div style={{ color: endingColor, fontSize: '13px', fontWeight: 600 }}>{t.endings[epilogue.ending]}</div>
+          {epilogue.death && (
+            <div style={{ color: '#999', fontSize: '12px', marginTop: '4px' }}>
+              {t.death(epilogue.death.cause, epilogue.death.sceneNumber)}
+            </div>
+          )}
+        </div>
+
+        {/* Content */}
+        <div style={{ flex: 1, overflow: 'auto', padding: '8px 24px 20px' }}>
+          {epilogue.endingText && (
+            <p style={{ color: '#999', fontSize: '13px', fontStyle: 'italic', lineHeight: 1.6, margin: '12px 0 0' }}>
+              {epilogue.endingText}
+            </p>
+          )}
+
+          <div style={sectionTitleStyle}>{t.hero} — {characterName}</div>
+          <div style={{ color: '#e8e8e8', fontSize: '15px', lineHeight: 1.75, fontFamily: "'Georgia', serif" }}>
+            {chronicle.hero.split('\n').map((p, i) => (
+              p.trim() && <p key={i} style={{ margin: '0 0 12px 0' }}>{p}</p>
+            ))}
+          </div>
+
+          {chronicle.npcs.length > 0 && (
+            <>
+              <div style={sectionTitleStyle}>{t.npcs}</div>
+              {chronicle.npcs.map((npc, i) => (
+                <p key={i} style={fateStyle}>
+                  <span style={{ color: '#4ecdc4', fontWeight: 600 }}>{npc.name}</span> — {npc.fate}
+                </p>
+              ))}
+            </>
+          )}
+
+          {chronicle.kingdoms.length > 0 && (
+            <>
+              <div style={sectionTitleStyle}>{t.kingdoms}</div>
+              {chronicle.kingdoms.map((kingdom, i) => (
+                <p key={i} style={fateStyle}>
+                  <span style={{ color: '#e6b800', fontWeight: 600 }}>{kingdom.name}</span> — {kingdom.fate}
+                </p>
+              ))}
+            </>
+          )}
+
+          {chronicle.closingLine && (
+            <p style={{ color: endingColor, fontSize: '14px', fontStyle: 'italic', textAlign: 'center', margin: '20px 0 0' }}>
+              {chronicle.closingLine}
+            </p>
+          )}
+
+          {/* Statistics */}
+          <div style={sectionTitleStyle}>{t.statistics}</div>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))',
+            gap: '6px'
+          }}>
+            {STAT_ROWS.map(({ key, total }) => (
+              <div key={key} style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                padding: '6px 10px',
+                backgroundColor: 'rgba(255,255,255,0.03)',
+                borderRadius: '4px',
+                fontSize: '12px'
+              }}>
+                <span style={{ color: '#888' }}>{t.stats[key]}</span>
+                <span style={{ color: '#fff', fontWeight: 600 }}>
+                  {stats[key]}{total !== undefined && ` / ${stats[total]}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: '14px 24px',
+          borderTop: '1px solid #2a2a35',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: '16px'
+        }}>
+          <span style={{ color: '#666', fontSize: '11px' }}>{t.newGameHint}</span>
+          <button
+            onClick={onNewGame}
+            style={{
+              padding: '10px 24px',
+              fontSize: '14px',
+              fontWeight: 600,
+              backgroundColor: '#238636',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '8px',
+              cursor: 'pointer',
+              whiteSpace: 'nowrap'
+            }}
+          >
+            ▶ {t.newGame}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default EpilogueView;
@@ -1,6 +1,12 @@
-import React, { useState } from 'react';
-import type { AgentDebugStore, AgentCallLog, AgentRole, PlayerState, StoryState, DirectorDirective } from '../../types/agents';
+import React, { useState, useRef } from 'react';
+import type { AgentDebugStore, AgentCallLog, AgentRole, PlayerState, StoryState, DirectorDirective, RecordedSession, UsageTotals, ModelComparison, AgentPriority, CriticVerdict, StoryThreadStatus } from '../../types/agents';
 import type { WorldLore, WorldScenario, PlayableCharacter } from '../../services/llmService';
+import { compareAgentCall, adoptComparisonResult } from '../../services/llmService';
+import { getComparisonVariants, parseComparisonVariants, formatComparisonVariant } from '../../services/llmProviders';
+import { parseSession } from '../../services/sessionRecorder';
+import { summarizeUsage, getSpendingCap, setSpendingCap } from '../../services/usageTracker';
+import { getSchedulerConfig, setSchedulerConfig } from '../../services/agentScheduler';
+import { isThreadOpen, isThreadOverdue, getThreadDeadline } from '../../services/storyThreads';
 
 interface GameDebugPanelProps {
   // Agent logs
@@ -18,6 +24,12 @@ interface GameDebugPanelProps {
   // Director state
   storyState?: StoryState | null;
   lastDirective?: DirectorDirective | null;
+  
+  // Record & replay
+  onExportSession?: () => void;
+  onImportSession?: (session: RecordedSession) => void;
+  onStopReplay?: () => void;
+  isReplaying?: boolean;
 }
 
 // Цвета для разных агентов
@@ -26,7 +38,9 @@ const AGENT_COLORS: Record<AgentRole, { bg: string; border: string; text: string
   CHARACTER_GENERATOR: { bg: 'rgba(78, 205, 196, 0.15)', border: '#4ecdc4', text: '#7eeee6' },
   NARRATOR: { bg: 'rgba(230, 184, 0, 0.15)', border: '#e6b800', text: '#ffe066' },
   DIRECTOR: { bg: 'rgba(52, 152, 219, 0.15)', border: '#3498db', text: '#85c1e9' },
-  SHOWRUNNER: { bg: 'rgba(231, 76, 60, 0.15)', border: '#e74c3c', text: '#ff8a80' }
+  SHOWRUNNER: { bg: 'rgba(231, 76, 60, 0.15)', border: '#e74c3c', text: '#ff8a80' },
+  CRITIC: { bg: 'rgba(46, 204, 113, 0.15)', border: '#2ecc71', text: '#82e0aa' },
+  CHRONICLER: { bg: 'rgba(149, 165, 166, 0.15)', border: '#95a5a6', text: '#d5dbdb' }
 };
 
 const AGENT_LABELS: Record<AgentRole, string> = {
@@ -34,12 +48,15 @@ const AGENT_LABELS: Record<AgentRole, string> = {
   CHARACTER_GENERATOR: '🎭 Characters',
   NARRATOR: '📜 Narrator',
   DIRECTOR: '🎯 Director',
-  SHOWRUNNER: '🎬 Showrunner'
+  SHOWRUNNER: '🎬 Showrunner',
+  CRITIC: '🧐 Critic',
+  CHRONICLER: '📖 Chronicler'
 };
 
 // Компактный лог агента
 const CompactLogEntry: React.FC<{ log: AgentCallLog; onExpand: () => void }> = ({ log, onExpand }) => {
   const colors = AGENT_COLORS[log.agent];
+  const verdict = log.agent === 'CRITIC' ? log.parsedResponse as CriticVerdict | undefined : undefined;
   
   return (
     <div 
@@ -72,17 +89,461 @@ const CompactLogEntry: React.FC<{ log: AgentCallLog; onExpand: () => void }> = (
         }}>
           {log.status}
         </span>
+        {log.repairOf && (
+          <span style={{ fontSize: '10px', color: '#f39c12' }} title="Repair re-prompt">🔧 repair</span>
+        )}
+        {log.validation && !log.validation.valid && (
+          <span style={{ fontSize: '10px', color: '#e74c3c' }} title={log.validation.errors.join('\n')}>
+            ⚠ {log.validation.errors.length}
+          </span>
+        )}
+        {verdict?.violations && (
+          <span
+            style={{ fontSize: '10px', color: verdict.violations.length > 0 ? '#e74c3c' : '#2ecc71' }}
+            title={verdict.violations.map(v => `${v.kind}: ${v.message}`).join('\n') || 'No violations'}
+          >
+            🧐 {verdict.violations.length > 0 ? `${verdict.violations.length} violations` : 'ok'}
+          </span>
+        )}
+        {log.validation && log.validation.defaulted.length > 0 && (
+          <span style={{ fontSize: '10px', color: '#888' }} title={log.validation.defaulted.join('\n')}>
+            ⋯{log.validation.defaulted.length}
+          </span>
+        )}
+        {log.budget && log.budget.trimmed.length > 0 && (
+          <span
+            style={{ fontSize: '10px', color: '#e67e22' }}
+            title={log.budget.trimmed.map(t => `${t.id}: ${t.action} ${t.tokensBefore}→${t.tokensAfter}`).join('\n')}
+          >
+            ✂ {log.budget.trimmed.length}
+          </span>
+        )}
+        {log.promptTemplate && (
+          <span style={{ fontSize: '10px', color: '#9b59b6' }} title={`Prompt template ${log.promptTemplate.id}@v${log.promptTemplate.version}, ${log.promptTemplate.language}`}>
+            📝 v{log.promptTemplate.version}
+          </span>
+        )}
+        {log.adoptedFrom && (
+          <span style={{ fontSize: '10px', color: '#2ecc71' }} title={`Adopted ${log.model} instead of ${log.adoptedFrom.originalModel}`}>🔀 adopted</span>
+        )}
+        {log.cacheHit && (
+          <span style={{ fontSize: '10px', color: '#5dade2' }} title={log.cacheKey}>💾 cache</span>
+        )}
+        {log.queueWaitMs && (
+          <span style={{ fontSize: '10px', color: '#95a5a6' }} title={`Waited in scheduler queue (${log.priority} priority)`}>
+            ⏸ {(log.queueWaitMs / 1000).toFixed(1)}s
+          </span>
+        )}
+        {log.retries && log.retries.length > 0 && (
+          <span style={{ fontSize: '10px', color: '#f39c12' }} title={log.retries.map(r => `${r.error} (+${r.delayMs}ms)`).join('\n')}>
+            ↻ {log.retries.length}
+          </span>
+        )}
+        {log.streamChunks && log.streamChunks.length > 0 && (
+          <span style={{ fontSize: '10px', color: '#4ecdc4' }} title={`${log.streamChunks.length} chunks, first after ${log.firstChunkMs}ms`}>
+            ⚡ {log.firstChunkMs}ms
+          </span>
+        )}
       </div>
       <span style={{ fontSize: '10px', color: '#666' }}>
         {log.durationMs ? `${(log.durationMs / 1000).toFixed(1)}s` : '...'}
+        {log.costUsd ? ` · ${formatUsd(log.costUsd)}` : ''}
       </span>
     </div>
   );
 };
 
+const PRIORITY_COLORS: Record<AgentPriority, string> = {
+  high: '#e74c3c',
+  normal: '#f1c40f',
+  low: '#7f8c8d'
+};
+
+const THREAD_STATUS: Record<StoryThreadStatus, { icon: string; color: string }> = {
+  pending: { icon: '○', color: '#888' },
+  introduced: { icon: '◐', color: '#f1c40f' },
+  paid_off: { icon: '✓', color: '#2ecc71' },
+  dropped: { icon: '✗', color: '#555' }
+};
+
+// Ружья Чехова и побочные конфликты: статус, дедлайн и просрочка
+const StoryThreadsView: React.FC<{ storyState: StoryState }> = ({ storyState }) => (
+  <div style={{
+    marginBottom: '12px',
+    padding: '10px',
+    backgroundColor: 'rgba(241, 196, 15, 0.05)',
+    borderRadius: '6px',
+    borderLeft: '3px solid #f1c40f'
+  }}>
+    <div style={{ fontSize: '10px', color: '#f1c40f', marginBottom: '6px', fontWeight: 500 }}>
+      🔫 STORY THREADS
+    </div>
+    {storyState.threads.map(thread => {
+      const { icon, color } = THREAD_STATUS[thread.status];
+      const overdue = isThreadOverdue(thread, storyState);
+      return (
+        <div
+          key={thread.id}
+          title={`${thread.setup}\n→ ${thread.payoff}`}
+          style={{ display: 'flex', gap: '6px', alignItems: 'baseline', fontSize: '10px', marginBottom: '3px' }}
+        >
+          <span style={{ color, width: '10px' }}>{icon}</span>
+          <span style={{ color: thread.status === 'dropped' ? '#555' : '#ccc', flex: 1 }}>
+            {thread.kind === 'chekhovs_gun' ? '🔫' : '⚔️'} {thread.name}
+          </span>
+          <span style={{ color }}>{thread.status}</span>
+          {isThreadOpen(thread) ? (
+            <span style={{ color: overdue ? '#e74c3c' : '#666' }}>
+              {overdue ? '⚠ overdue' : 'by'} act {getThreadDeadline(thread)}
+            </span>
+          ) : (
+            <span style={{ color: '#666' }}>#{thread.resolvedAtScene}</span>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+// Очередь планировщика: активные фазы, выполняющиеся и ожидающие вызовы
+const QueueView: React.FC<{ debugStore: AgentDebugStore }> = ({ debugStore }) => {
+  const [maxConcurrency, setMaxConcurrency] = useState(() => getSchedulerConfig().maxConcurrency);
+  const { activePhases, queue } = debugStore;
+  const queuedCount = queue.filter(call => call.status === 'queued').length;
+
+  const changeConcurrency = (delta: number) => {
+    setSchedulerConfig({ maxConcurrency: maxConcurrency + delta });
+    setMaxConcurrency(getSchedulerConfig().maxConcurrency);
+  };
+
+  return (
+    <div style={{ marginBottom: '12px', padding: '8px', backgroundColor: 'rgba(0,0,0,0.3)', borderRadius: '6px', fontSize: '11px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '6px' }}>
+        <span style={{ color: '#4ecdc4' }}>
+          ⚙ Queue: {queue.length - queuedCount} running • {queuedCount} waiting
+        </span>
+        <span style={{ display: 'flex', alignItems: 'center', gap: '4px', color: '#888' }}>
+          slots
+          <button onClick={() => changeConcurrency(-1)} disabled={maxConcurrency <= 1} style={{ padding: '0 6px', fontSize: '11px', backgroundColor: 'transparent', border: '1px solid #555', borderRadius: '3px', color: '#aaa', cursor: 'pointer' }}>−</button>
+          <span style={{ color: '#ccc', minWidth: '12px', textAlign: 'center' }}>{maxConcurrency}</span>
+          <button onClick={() => changeConcurrency(1)} style={{ padding: '0 6px', fontSize: '11px', backgroundColor: 'transparent', border: '1px solid #555', borderRadius: '3px', color: '#aaa', cursor: 'pointer' }}>+</button>
+        </span>
+      </div>
+
+      {activePhases.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '6px' }}>
+          {activePhases.map(phase => (
+            <span key={phase.id} style={{ padding: '1px 6px', borderRadius: '3px', backgroundColor: 'rgba(241, 196, 15, 0.2)', color: '#f1c40f', fontSize: '10px' }}>
+              ⏳ {phase.phase}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {queue.map(call => (
+        <div key={call.id} style={{ display: 'flex', gap: '8px', alignItems: 'center', padding: '2px 0' }}>
+          <span style={{ width: '14px' }}>{call.status === 'running' ? '▶' : '⏸'}</span>
+          <span style={{ color: call.agent ? AGENT_COLORS[call.agent].text : '#aaa', flex: 1 }}>
+            {call.agent ? AGENT_LABELS[call.agent] : 'LLM'}
+          </span>
+          <span style={{ color: PRIORITY_COLORS[call.priority], fontSize: '10px' }}>{call.priority}</span>
+          <span style={{ color: '#666', fontSize: '10px' }}>{call.provider}</span>
+          {call.waitingFor && (
+            <span style={{ color: call.waitingFor === 'rate_limit' ? '#e67e22' : '#888', fontSize: '10px' }}>
+              {call.waitingFor === 'rate_limit' ? 'rate limit' : 'no slot'}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const formatUsd = (usd: number) => `$${usd.toFixed(usd < 0.01 ? 4 : 2)}`;
+
+// Строка таблицы расходов
+const UsageRow: React.FC<{ label: string; totals: UsageTotals; color?: string }> = ({ label, totals, color = '#ccc' }) => (
+  <div style={{ 
+    display: 'flex', 
+    justifyContent: 'space-between', 
+    padding: '4px 8px', 
+    backgroundColor: 'rgba(255,255,255,0.03)', 
+    borderRadius: '4px',
+    marginBottom: '3px',
+    fontSize: '11px'
+  }}>
+    <span style={{ color }}>{label}</span>
+    <span style={{ color: '#888' }}>
+      {totals.calls} calls • {totals.promptTokens.toLocaleString()}/{totals.completionTokens.toLocaleString()} tok
+      {totals.estimatedCalls > 0 && <span title="Оценка: провайдер не вернул usage"> ~</span>}
+      <span style={{ color: '#f1c40f', marginLeft: '6px' }}>{formatUsd(totals.costUsd)}</span>
+    </span>
+  </div>
+);
+
+// Расходы: сессия, текущая игра по агентам и сценам, все игры, лимит
+const UsageSection: React.FC = () => {
+  const [capInput, setCapInput] = useState(() => getSpendingCap()?.toString() || '');
+  const [, setCapVersion] = useState(0);
+  const summary = summarizeUsage();
+
+  const applyCap = (cap: number | null) => {
+    setSpendingCap(cap);
+    setCapInput(cap?.toString() || '');
+    setCapVersion(v => v + 1);
+  };
+
+  return (
+    <>
+      {summary.isPaused && (
+        <div style={{ 
+          marginBottom: '12px', 
+          padding: '8px', 
+          backgroundColor: 'rgba(231, 76, 60, 0.15)', 
+          border: '1px solid #e74c3c', 
+          borderRadius: '6px',
+          color: '#e74c3c',
+          fontSize: '11px'
+        }}>
+          ⏸ Лимит расходов исчерпан - генерация остановлена. Повысьте лимит, чтобы продолжить.
+        </div>
+      )}
+
+      <div style={{ marginBottom: '16px' }}>
+        <h4 style={{ color: '#4ecdc4', margin: '0 0 8px 0', fontSize: '12px' }}>💰 SESSION</h4>
+        <UsageRow label="Всего" totals={summary.session} color="#4ecdc4" />
+        <UsageRow label="Текущая игра" totals={summary.currentGame} />
+        <div style={{ display: 'flex', gap: '4px', alignItems: 'center', marginTop: '8px', fontSize: '11px', color: '#888' }}>
+          <span>Лимит $</span>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={capInput}
+            placeholder="нет"
+            onChange={e => setCapInput(e.target.value)}
+            style={{ width: '70px', padding: '3px 6px', fontSize: '11px', backgroundColor: '#111', border: '1px solid #333', borderRadius: '4px', color: '#ccc' }}
+          />
+          <button onClick={() => applyCap(Number(capInput) || null)} style={{
+            padding: '3px 8px',
+            fontSize: '10px',
+            backgroundColor: 'rgba(78, 205, 196, 0.2)',
+            border: '1px solid #4ecdc4',
+            borderRadius: '4px',
+            color: '#4ecdc4',
+            cursor: 'pointer'
+          }}>Set</button>
+          {summary.spendingCapUsd !== null && (
+            <button onClick={() => applyCap(null)} style={{
+              padding: '3px 8px',
+              fontSize: '10px',
+              backgroundColor: 'transparent',
+              border: '1px solid #555',
+              borderRadius: '4px',
+              color: '#888',
+              cursor: 'pointer'
+            }}>Remove</button>
+          )}
+        </div>
+      </div>
+
+      <div style={{ marginBottom: '16px' }}>
+        <h4 style={{ color: '#4ecdc4', margin: '0 0 8px 0', fontSize: '12px' }}>🤖 BY AGENT</h4>
+        {Object.keys(summary.byAgent).length === 0 ? (
+          <div style={{ color: '#555', fontSize: '11px' }}>No calls yet</div>
+        ) : (
+          (Object.entries(summary.byAgent) as [AgentRole, UsageTotals][]).map(([agent, totals]) => (
+            <UsageRow key={agent} label={AGENT_LABELS[agent]} totals={totals} color={AGENT_COLORS[agent].text} />
+          ))
+        )}
+      </div>
+
+      <div style={{ marginBottom: '16px' }}>
+        <h4 style={{ color: '#4ecdc4', margin: '0 0 8px 0', fontSize: '12px' }}>🎬 BY SCENE</h4>
+        {Object.entries(summary.byScene).map(([scene, totals]) => (
+          <UsageRow key={scene} label={scene === '0' ? 'Подготовка' : `Сцена ${scene}`} totals={totals} />
+        ))}
+      </div>
+
+      {Object.keys(summary.byGame).length > 1 && (
+        <div>
+          <h4 style={{ color: '#4ecdc4', margin: '0 0 8px 0', fontSize: '12px' }}>🎮 BY GAME</h4>
+          {Object.entries(summary.byGame).map(([gameId, totals], i) => (
+            <UsageRow 
+              key={gameId} 
+              label={`Игра ${i + 1}${gameId === summary.currentGameId ? ' (текущая)' : ''}`} 
+              totals={totals} 
+            />
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+// Колонка сравнения: модель, парсинг, задержка, токены, стоимость, ответ
+const ComparisonColumn: React.FC<{
+  title: string;
+  status: AgentCallLog['status'];
+  valid?: boolean;
+  errors?: string[];
+  durationMs?: number;
+  tokens?: { promptTokens: number; completionTokens: number; estimated: boolean };
+  costUsd?: number;
+  response?: string;
+  highlight?: boolean;
+  action?: React.ReactNode;
+}> = ({ title, status, valid, errors = [], durationMs, tokens, costUsd, response, highlight, action }) => (
+  <div style={{
+    minWidth: 0,
+    padding: '8px',
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    border: `1px solid ${highlight ? '#2ecc71' : '#333'}`,
+    borderRadius: '4px',
+    fontSize: '11px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px'
+  }}>
+    <div style={{ color: '#ccc', fontWeight: 600, wordBreak: 'break-all' }}>{title}</div>
+    {status === 'pending' ? (
+      <div style={{ color: '#f1c40f' }}>⏳ pending...</div>
+    ) : status === 'error' ? (
+      <div style={{ color: '#e74c3c' }}>✗ {errors[0] || 'error'}</div>
+    ) : (
+      <div style={{ color: valid ? '#2ecc71' : '#e74c3c' }} title={errors.join('\n')}>
+        {valid ? '✓ parsed' : `✗ ${errors.length} errors`}
+      </div>
+    )}
+    <div style={{ color: '#888' }}>
+      {durationMs !== undefined ? `${(durationMs / 1000).toFixed(1)}s` : '...'}
+      {tokens && ` · ${tokens.promptTokens}/${tokens.completionTokens} tok${tokens.estimated ? ' ~' : ''}`}
+      {costUsd !== undefined && <span style={{ color: '#f1c40f' }}> · {formatUsd(costUsd)}</span>}
+    </div>
+    {response && (
+      <pre style={{ margin: 0, fontSize: '10px', color: '#aaa', whiteSpace: 'pre-wrap', maxHeight: '240px', overflow: 'auto' }}>
+        {response}
+      </pre>
+    )}
+    {action}
+  </div>
+);
+
+// Сравнение моделей: тот же вызов на других моделях/температурах, принятие альтернативы
+const ComparisonTab: React.FC<{ log: AgentCallLog; comparisons: ModelComparison[] }> = ({ log, comparisons }) => {
+  const [spec, setSpec] = useState(() => getComparisonVariants(log.agent).map(formatComparisonVariant).join(', '));
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      await compareAgentCall(log.id, parseComparisonVariants(spec, log.agent));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const adopt = async (comparisonId: string, index: number) => {
+    setError(null);
+    try {
+      await adoptComparisonResult(comparisonId, index);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Adopt failed');
+    }
+  };
+
+  return (
+    <>
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+        <input
+          value={spec}
+          onChange={e => setSpec(e.target.value)}
+          placeholder="[provider:]model[@temperature], ..."
+          style={{ flex: 1, padding: '4px 8px', fontSize: '11px', backgroundColor: '#111', border: '1px solid #333', borderRadius: '4px', color: '#ccc' }}
+        />
+        <button onClick={run} disabled={isRunning || !spec.trim()} style={{
+          padding: '4px 12px',
+          fontSize: '11px',
+          backgroundColor: 'rgba(78, 205, 196, 0.2)',
+          border: '1px solid #4ecdc4',
+          borderRadius: '4px',
+          color: '#4ecdc4',
+          cursor: isRunning ? 'wait' : 'pointer'
+        }}>
+          {isRunning ? '⏳ Running...' : '▶ Compare'}
+        </button>
+      </div>
+      <div style={{ marginBottom: '12px', fontSize: '10px', color: '#666' }}>
+        Те же сообщения, что у этого вызова. Расход учитывается в сцене вызова.
+      </div>
+      {error && (
+        <div style={{ marginBottom: '12px', color: '#e74c3c', fontSize: '11px' }}>{error}</div>
+      )}
+      {[...comparisons].reverse().map(comparison => (
+        <div key={comparison.id} style={{ marginBottom: '16px' }}>
+          <h4 style={{ color: '#888', margin: '0 0 6px 0', fontSize: '11px' }}>
+            {new Date(comparison.startedAt).toLocaleTimeString()} · {comparison.results.length} variants
+          </h4>
+          <div style={{ display: 'grid', gridTemplateColumns: `repeat(${comparison.results.length + 1}, minmax(0, 1fr))`, gap: '6px' }}>
+            <ComparisonColumn
+              title={`${log.adoptedFrom ? log.adoptedFrom.originalModel : log.model} (original)`}
+              status={log.status}
+              valid={log.validation?.valid}
+              errors={log.validation?.errors || (log.error ? [log.error] : [])}
+              durationMs={log.durationMs}
+              tokens={log.usage}
+              costUsd={log.costUsd}
+              response={log.adoptedFrom ? log.adoptedFrom.originalResponse : log.rawResponse}
+              highlight={comparison.adoptedIndex === undefined && !log.adoptedFrom}
+            />
+            {comparison.results.map((result, i) => (
+              <ComparisonColumn
+                key={i}
+                title={formatComparisonVariant(result.variant)}
+                status={result.status}
+                valid={result.validation?.valid}
+                errors={result.validation?.errors || (result.error ? [result.error] : [])}
+                durationMs={result.durationMs}
+                tokens={result.usage}
+                costUsd={result.costUsd}
+                response={result.rawResponse}
+                highlight={comparison.adoptedIndex === i}
+                action={comparison.adoptedIndex === i ? (
+                  <div style={{ color: '#2ecc71' }}>✓ adopted</div>
+                ) : (
+                  <button
+                    onClick={() => adopt(comparison.id, i)}
+                    disabled={!result.validation?.valid}
+                    style={{
+                      padding: '3px 8px',
+                      fontSize: '10px',
+                      backgroundColor: 'transparent',
+                      border: '1px solid #2ecc71',
+                      borderRadius: '4px',
+                      color: '#2ecc71',
+                      cursor: result.validation?.valid ? 'pointer' : 'not-allowed',
+                      opacity: result.validation?.valid ? 1 : 0.4
+                    }}
+                  >
+                    Adopt
+                  </button>
+                )}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+};
+
 // Детальный просмотр лога
-const DetailedLogView: React.FC<{ log: AgentCallLog; onClose: () => void }> = ({ log, onClose }) => {
-  const [tab, setTab] = useState<'context' | 'prompts' | 'response'>('context');
+const DetailedLogView: React.FC<{ log: AgentCallLog; comparisons: ModelComparison[]; onClose: () => void }> = ({ log, comparisons, onClose }) => {
+  const [tab, setTab] = useState<'context' | 'prompts' | 'response' | 'compare'>('context');
   const colors = AGENT_COLORS[log.agent];
   
   return (
@@ -126,7 +587,7 @@ const DetailedLogView: React.FC<{ log: AgentCallLog; onClose: () => void }> = ({
         
         {/* Tabs */}
         <div style={{ display: 'flex', borderBottom: '1px solid #333' }}>
-          {(['context', 'prompts', 'response'] as const).map(t => (
+          {(['context', 'prompts', 'response', 'compare'] as const).map(t => (
             <button key={t} onClick={() => setTab(t)} style={{
               flex: 1,
               padding: '8px',
@@ -138,7 +599,7 @@ const DetailedLogView: React.FC<{ log: AgentCallLog; onClose: () => void }> = ({
               fontSize: '12px',
               textTransform: 'uppercase'
             }}>
-              {t === 'context' ? '📋 Context' : t === 'prompts' ? '💬 Prompts' : '✅ Response'}
+              {t === 'context' ? '📋 Context' : t === 'prompts' ? '💬 Prompts' : t === 'response' ? '✅ Response' : `🔀 Compare${comparisons.length > 0 ? ` (${comparisons.length})` : ''}`}
             </button>
           ))}
         </div>
@@ -152,6 +613,27 @@ const DetailedLogView: React.FC<{ log: AgentCallLog; onClose: () => void }> = ({
           )}
           {tab === 'prompts' && (
             <>
+              {log.promptTemplate && (
+                <div style={{ marginBottom: '8px', fontSize: '11px', color: '#9b59b6' }}>
+                  TEMPLATE: {log.promptTemplate.id}@v{log.promptTemplate.version} · {log.promptTemplate.language}
+                </div>
+              )}
+              {log.budget && (
+                <div style={{ marginBottom: '12px', padding: '8px', backgroundColor: 'rgba(0,0,0,0.3)', borderRadius: '4px', fontSize: '11px' }}>
+                  <h4 style={{ color: log.budget.tokensAfter > log.budget.budget ? '#e74c3c' : '#888', margin: '0 0 4px 0', fontSize: '11px' }}>
+                    TOKEN BUDGET: {log.budget.tokensAfter} / {log.budget.budget}
+                    {log.budget.tokensBefore !== log.budget.tokensAfter && ` (было ${log.budget.tokensBefore})`}
+                  </h4>
+                  <div style={{ color: '#666' }}>
+                    {log.budget.sections.map(section => `${section.id} ${section.tokens}`).join(' · ')}
+                  </div>
+                  {log.budget.trimmed.map(t => (
+                    <div key={t.id} style={{ color: '#e67e22' }}>
+                      ✂ {t.id}: {t.action === 'dropped' ? 'выброшено' : 'сжато'} ({t.tokensBefore} → {t.tokensAfter})
+                    </div>
+                  ))}
+                </div>
+              )}
               <h4 style={{ color: '#888', margin: '0 0 8px 0', fontSize: '11px' }}>SYSTEM:</h4>
               <pre style={{ margin: '0 0 16px 0', fontSize: '10px', color: '#888', whiteSpace: 'pre-wrap', backgroundColor: 'rgba(0,0,0,0.3)', padding: '8px', borderRadius: '4px', maxHeight: '200px', overflow: 'auto' }}>
                 {log.systemPrompt}
@@ -163,10 +645,50 @@ const DetailedLogView: React.FC<{ log: AgentCallLog; onClose: () => void }> = ({
             </>
           )}
           {tab === 'response' && (
-            <pre style={{ margin: 0, fontSize: '11px', color: '#aaa', whiteSpace: 'pre-wrap' }}>
-              {log.parsedResponse ? JSON.stringify(log.parsedResponse, null, 2) : log.rawResponse || 'No response'}
-            </pre>
+            <>
+              {log.validation && (log.validation.errors.length > 0 || log.validation.defaulted.length > 0) && (
+                <div style={{ marginBottom: '12px', padding: '8px', backgroundColor: 'rgba(0,0,0,0.3)', borderRadius: '4px', fontSize: '11px' }}>
+                  {log.validation.errors.length > 0 && (
+                    <>
+                      <h4 style={{ color: '#e74c3c', margin: '0 0 4px 0', fontSize: '11px' }}>VALIDATION ERRORS:</h4>
+                      {log.validation.errors.map((e, i) => (
+                        <div key={i} style={{ color: '#e74c3c' }}>• {e}</div>
+                      ))}
+                    </>
+                  )}
+                  {log.validation.defaulted.length > 0 && (
+                    <>
+                      <h4 style={{ color: '#888', margin: '8px 0 4px 0', fontSize: '11px' }}>DEFAULTED FIELDS:</h4>
+                      <div style={{ color: '#888' }}>{log.validation.defaulted.join(', ')}</div>
+                    </>
+                  )}
+                </div>
+              )}
+              {log.streamChunks && log.streamChunks.length > 0 && (
+                <div style={{ marginBottom: '12px', padding: '8px', backgroundColor: 'rgba(0,0,0,0.3)', borderRadius: '4px', fontSize: '11px' }}>
+                  <h4 style={{ color: '#4ecdc4', margin: '0 0 4px 0', fontSize: '11px' }}>
+                    STREAM: {log.streamChunks.length} chunks, first after {log.firstChunkMs}ms, last after {log.streamChunks[log.streamChunks.length - 1].atMs}ms
+                  </h4>
+                  <div style={{ maxHeight: '120px', overflow: 'auto', fontFamily: 'monospace', fontSize: '10px', color: '#888' }}>
+                    {log.streamChunks.map((chunk, i) => (
+                      <div key={i} style={{ whiteSpace: 'pre-wrap' }}>
+                        <span style={{ color: '#4ecdc4' }}>+{chunk.atMs}ms</span> {chunk.text}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {log.adoptedFrom && (
+                <div style={{ marginBottom: '8px', fontSize: '11px', color: '#2ecc71' }}>
+                  🔀 Принят ответ {log.model} (исходно {log.adoptedFrom.originalModel})
+                </div>
+              )}
+              <pre style={{ margin: 0, fontSize: '11px', color: '#aaa', whiteSpace: 'pre-wrap' }}>
+                {log.parsedResponse ? JSON.stringify(log.parsedResponse, null, 2) : log.rawResponse || 'No response'}
+              </pre>
+            </>
           )}
+          {tab === 'compare' && <ComparisonTab log={log} comparisons={comparisons} />}
         </div>
       </div>
     </div>
@@ -183,14 +705,33 @@ export const GameDebugPanel: React.FC<GameDebugPanelProps> = ({
   sceneNumber = 0,
   isGameStarted = false,
   storyState,
-  lastDirective
+  lastDirective,
+  onExportSession,
+  onImportSession,
+  onStopReplay,
+  isReplaying = false
 }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [activeSection, setActiveSection] = useState<'agents' | 'player' | 'scenario' | 'world'>('agents');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [activeSection, setActiveSection] = useState<'agents' | 'usage' | 'player' | 'scenario' | 'world'>('agents');
   const [expandedLog, setExpandedLog] = useState<AgentCallLog | null>(null);
 
   const hasActivity = debugStore.logs.length > 0 || debugStore.currentPhase !== 'IDLE';
 
+  const handleSessionFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onImportSession) return;
+    
+    try {
+      onImportSession(parseSession(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to import session');
+    }
+  };
+
   return (
     <>
       {/* Toggle Button */}
@@ -254,7 +795,7 @@ export const GameDebugPanel: React.FC<GameDebugPanelProps> = ({
             borderBottom: '1px solid #333',
             backgroundColor: 'rgba(0,0,0,0.3)'
           }}>
-            {(['agents', 'player', 'scenario', 'world'] as const).map(section => (
+            {(['agents', 'usage', 'player', 'scenario', 'world'] as const).map(section => (
               <button
                 key={section}
                 onClick={() => setActiveSection(section)}
@@ -270,7 +811,7 @@ export const GameDebugPanel: React.FC<GameDebugPanelProps> = ({
                   textTransform: 'uppercase'
                 }}
               >
-                {section === 'agents' ? '🤖' : section === 'player' ? '👤' : section === 'scenario' ? '📜' : '🌍'}
+                {section === 'agents' ? '🤖' : section === 'usage' ? '💰' : section === 'player' ? '👤' : section === 'scenario' ? '📜' : '🌍'}
                 <br />{section}
               </button>
             ))}
@@ -285,18 +826,73 @@ export const GameDebugPanel: React.FC<GameDebugPanelProps> = ({
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
                   <span style={{ fontSize: '11px', color: '#666' }}>
                     {debugStore.totalCalls} calls • {(debugStore.totalDurationMs / 1000).toFixed(1)}s
+                    {isReplaying && <span style={{ color: '#f39c12', marginLeft: '6px' }}>⏪ replay</span>}
                   </span>
-                  <button onClick={onClearLogs} style={{
-                    padding: '4px 8px',
-                    fontSize: '10px',
-                    backgroundColor: 'rgba(231, 76, 60, 0.2)',
-                    border: '1px solid #e74c3c',
-                    borderRadius: '4px',
-                    color: '#e74c3c',
-                    cursor: 'pointer'
-                  }}>Clear</button>
+                  <div style={{ display: 'flex', gap: '4px' }}>
+                    {onExportSession && (
+                      <button onClick={onExportSession} disabled={debugStore.logs.length === 0} style={{
+                        padding: '4px 8px',
+                        fontSize: '10px',
+                        backgroundColor: 'rgba(78, 205, 196, 0.2)',
+                        border: '1px solid #4ecdc4',
+                        borderRadius: '4px',
+                        color: '#4ecdc4',
+                        cursor: debugStore.logs.length === 0 ? 'not-allowed' : 'pointer'
+                      }}>Export</button>
+                    )}
+                    {onImportSession && (
+                      <>
+                        <button onClick={() => fileInputRef.current?.click()} style={{
+                          padding: '4px 8px',
+                          fontSize: '10px',
+                          backgroundColor: 'rgba(243, 156, 18, 0.2)',
+                          border: '1px solid #f39c12',
+                          borderRadius: '4px',
+                          color: '#f39c12',
+                          cursor: 'pointer'
+                        }}>Replay</button>
+                        {isReplaying && onStopReplay && (
+                          <button onClick={onStopReplay} style={{
+                            padding: '4px 8px',
+                            fontSize: '10px',
+                            backgroundColor: 'rgba(243, 156, 18, 0.2)',
+                            border: '1px solid #f39c12',
+                            borderRadius: '4px',
+                            color: '#f39c12',
+                            cursor: 'pointer'
+                          }}>Stop</button>
+                        )}
+                        <input
+                          ref={fileInputRef}
+                          type="file"
+                          accept="application/json,.json"
+                          onChange={handleSessionFile}
+                          style={{ display: 'none' }}
+                        />
+                      </>
+                    )}
+                    <button onClick={onClearLogs} style={{
+                      padding: '4px 8px',
+                      fontSize: '10px',
+                      backgroundColor: 'rgba(231, 76, 60, 0.2)',
+                      border: '1px solid #e74c3c',
+                      borderRadius: '4px',
+                      color: '#e74c3c',
+                      cursor: 'pointer'
+                    }}>Clear</button>
+                  </div>
                 </div>
                 
+                {importError && (
+                  <div style={{ color: '#e74c3c', fontSize: '11px', marginBottom: '8px' }}>
+                    ❌ {importError}
+                  </div>
+                )}
+                
+                {(debugStore.queue.length > 0 || debugStore.activePhases.length > 0) && (
+                  <QueueView debugStore={debugStore} />
+                )}
+                
                 {debugStore.logs.length === 0 ? (
                   <div style={{ color: '#555', textAlign: 'center', padding: '20px', fontSize: '12px' }}>
                     No agent calls yet
@@ -309,6 +905,9 @@ export const GameDebugPanel: React.FC<GameDebugPanelProps> = ({
               </>
             )}
 
+            {/* USAGE SECTION */}
+            {activeSection === 'usage' && <UsageSection />}
+
             {/* PLAYER SECTION */}
             {activeSection === 'player' && (
               <>
@@ -505,6 +1104,9 @@ export const GameDebugPanel: React.FC<GameDebugPanelProps> = ({
                       )}
                     </div>
 
+                    {/* Chekhov's Guns & Side Conflicts */}
+                    {storyState && storyState.threads?.length > 0 && <StoryThreadsView storyState={storyState} />}
+
                     {/* Director's Last Directive */}
                     {lastDirective && (
                       <div style={{ 
@@ -640,7 +1242,11 @@ export const GameDebugPanel: React.FC<GameDebugPanelProps> = ({
 
       {/* Detailed Log Modal */}
       {expandedLog && (
-        <DetailedLogView log={expandedLog} onClose={() => setExpandedLog(null)} />
+        <DetailedLogView
+          log={debugStore.logs.find(l => l.id === expandedLog.id) || expandedLog}
+          comparisons={debugStore.comparisons.filter(c => c.logId === expandedLog.id)}
+          onClose={() => setExpandedLog(null)}
+        />
       )}
 
       <style>{`
@@ -0,0 +1,141 @@
+import React from 'react';
+import type { InventoryItem, ItemType } from '../../types/agents';
+import { MAX_CARRY_WEIGHT, canUseItem, getCarriedWeight, isOverloaded } from '../../services/items';
+import { useLanguage } from '../../hooks/useLanguage';
+
+interface InventoryViewProps {
+  inventory: InventoryItem[];
+  isOpen: boolean;
+  isBusy?: boolean;             // Идёт генерация сцены - предметы трогать нельзя
+  onUse: (itemId: string) => void;
+  onEquip: (itemId: string) => void;
+  onClose: () => void;
+}
+
+const TYPE_ICONS: Record<ItemType, string> = {
+  weapon: '⚔️',
+  armor: '🛡️',
+  consumable: '🧪',
+  key: '🗝️',
+  document: '📜',
+  treasure: '💎',
+  goods: '📦'
+};
+
+const actionButtonStyle = (enabled: boolean, accent: string): React.CSSProperties => ({
+  padding: '2px 8px',
+  fontSize: '10px',
+  backgroundColor: 'transparent',
+  color: enabled ? accent : '#555',
+  border: `1px solid ${enabled ? '#30363d' : '#21262d'}`,
+  borderRadius: '4px',
+  cursor: enabled ? 'pointer' : 'not-allowed'
+});
+
+const ItemRow: React.FC<{
+  item: InventoryItem;
+  isBusy: boolean;
+  onUse: (itemId: string) => void;
+  onEquip: (itemId: string) => void;
+}> = ({ item, isBusy, onUse, onEquip }) => {
+  const { strings } = useLanguage();
+  const t = strings.inventory;
+
+  return (
+    <div
+      title={item.id}
+      style={{
+        padding: '8px',
+        marginBottom: '6px',
+        borderRadius: '4px',
+        borderLeft: `2px solid ${item.equipped ? '#4ecdc4' : '#30363d'}`,
+        backgroundColor: item.equipped ? 'rgba(78, 205, 196, 0.08)' : 'rgba(255,255,255,0.02)'
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+        <span style={{ fontSize: '14px' }}>{TYPE_ICONS[item.type]}</span>
+        <span style={{ color: '#e0e0e0', fontSize: '12px', fontWeight: 600, flex: 1 }}>
+          {item.name}{item.quantity > 1 && ` ×${item.quantity}`}
+        </span>
+        {item.equipped && <span style={{ color: '#4ecdc4', fontSize: '10px' }}>● {t.equipped}</span>}
+      </div>
+      {item.description && (
+        <div style={{ color: '#888', fontSize: '11px', margin: '4px 0 0 20px', lineHeight: 1.4 }}>{item.description}</div>
+      )}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', margin: '6px 0 0 20px', fontSize: '10px', color: '#666' }}>
+        <span>{t.types[item.type]}{item.slot && ` · ${t.slots[item.slot]}`}</span>
+        <span>💰 {t.value(item.value)}</span>
+        <span>⚖️ {item.weight}</span>
+        <span style={{ flex: 1 }} />
+        {canUseItem(item) && (
+          <button onClick={() => onUse(item.id)} disabled={isBusy} style={actionButtonStyle(!isBusy, '#2ecc71')}>
+            {t.use}
+          </button>
+        )}
+        {item.slot && (
+          <button onClick={() => onEquip(item.id)} disabled={isBusy} style={actionButtonStyle(!isBusy, '#c9d1d9')}>
+            {item.equipped ? t.unequip : t.equip}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Инвентарь героя: свойства предметов, использование и экипировка между сценами
+const InventoryView: React.FC<InventoryViewProps> = ({ inventory, isOpen, isBusy = false, onUse, onEquip, onClose }) => {
+  const { strings } = useLanguage();
+  const t = strings.inventory;
+  if (!isOpen) return null;
+
+  const items = inventory.filter(item => item.quantity > 0);
+  const overloaded = isOverloaded(items);
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: 70,
+      right: 20,
+      bottom: 20,
+      width: '340px',
+      backgroundColor: 'rgba(13, 17, 23, 0.97)',
+      border: '1px solid #30363d',
+      borderRadius: '8px',
+      zIndex: 120,
+      display: 'flex',
+      flexDirection: 'column',
+      boxShadow: '0 8px 32px rgba(0,0,0,0.6)'
+    }}>
+      <div style={{
+        padding: '10px 14px',
+        borderBottom: '1px solid #30363d',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between'
+      }}>
+        <div>
+          <div style={{ color: '#fff', fontSize: '13px', fontWeight: 600 }}>{t.title}</div>
+          <div style={{ color: overloaded ? '#e67e22' : '#666', fontSize: '10px' }}>
+            {t.weight(getCarriedWeight(items), MAX_CARRY_WEIGHT)}{overloaded && ` · ${t.overloaded}`}
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', fontSize: '18px' }}
+        >
+          ×
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflow: 'auto', padding: '10px', opacity: isBusy ? 0.6 : 1 }}>
+        {items.length === 0 ? (
+          <div style={{ color: '#666', fontSize: '12px', textAlign: 'center', marginTop: '20px' }}>{t.empty}</div>
+        ) : (
+          items.map(item => <ItemRow key={item.id} item={item} isBusy={isBusy} onUse={onUse} onEquip={onEquip} />)
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InventoryView;
@@ -2,6 +2,10 @@ import React from 'react';
 import type { POI, Kingdom, ClimateZone } from '../../types/world';
 import { getLocationImage, hasLocationImage } from '../../utils/locationImages';
 import type { KingdomLore, CityLore } from '../../services/llmService';
+import type { InventoryItem } from '../../types/agents';
+import type { Market } from '../../types/trade';
+import { canSellItem, getSellPrice } from '../../services/trade';
+import { useLanguage } from '../../hooks/useLanguage';
 
 interface LocationCardProps {
   location: POI | null;
@@ -10,9 +14,113 @@ interface LocationCardProps {
   isStartingLocation?: boolean;  // Показывает что это стартовая точка игрока
   canEnter?: boolean; // Может ли игрок войти в этот город (только текущая локация)
   onEnterCity?: () => void; // Callback to enter city view
+  services?: LocationServices; // Таверна, лекарь и рынок - только в текущей локации героя
 }
 
-const LocationCard: React.FC<LocationCardProps> = ({ location, kingdom, kingdomLore, isStartingLocation, canEnter, onEnterCity }) => {
+interface LocationServices {
+  gold: number;
+  restCost?: number;          // undefined - таверны нет
+  rested?: boolean;           // Уже отдыхал здесь за этот визит
+  healerCost?: number;        // undefined - лекаря нет
+  needsHealing: boolean;
+  onRest: () => void;
+  onVisitHealer: () => void;
+  market?: Market;            // undefined - рынка нет
+  inventory: InventoryItem[];
+  onBuy: (itemId: string) => void;
+  onSell: (itemId: string) => void;
+}
+
+const serviceButtonStyle = (enabled: boolean): React.CSSProperties => ({
+  flex: 1,
+  padding: '8px 10px',
+  backgroundColor: 'transparent',
+  border: `1px solid ${enabled ? '#30363d' : '#21262d'}`,
+  borderRadius: '6px',
+  color: enabled ? '#c9d1d9' : '#555',
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  fontSize: '12px'
+});
+
+const tradeButtonStyle = (enabled: boolean): React.CSSProperties => ({
+  ...serviceButtonStyle(enabled),
+  flex: 'none',
+  padding: '2px 8px',
+  fontSize: '11px'
+});
+
+const tradeRowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  padding: '4px 0',
+  fontSize: '12px',
+  borderBottom: '1px solid #21262d'
+};
+
+// Рынок: купить у торговца, продать ему из сумки
+const MarketPanel: React.FC<{ services: LocationServices; market: Market }> = ({ services, market }) => {
+  const { strings } = useLanguage();
+  const t = strings.trade;
+  const sellable = services.inventory.filter(canSellItem);
+
+  return (
+    <div style={{ marginTop: '14px', padding: '10px 12px', border: '1px solid #30363d', borderRadius: '8px' }}>
+      <div style={{ color: '#e0e0e0', fontSize: '13px', fontWeight: 600 }}>{t.title}</div>
+      {market.isTrader && <div style={{ color: '#4ecdc4', fontSize: '11px', marginTop: '2px' }}>{t.trader}</div>}
+      {market.conditions.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '6px' }}>
+          {market.conditions.map(condition => (
+            <span key={condition} style={{ fontSize: '10px', padding: '2px 6px', borderRadius: '4px', backgroundColor: 'rgba(255,255,255,0.06)', color: '#c9ada7' }}>
+              {t.conditions[condition]}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div style={{ color: '#7d8590', fontSize: '10px', margin: '10px 0 2px', textTransform: 'uppercase', letterSpacing: '1px' }}>{t.buy}</div>
+      {market.offers.length === 0 && <div style={{ color: '#666', fontSize: '11px' }}>{t.nothingToBuy}</div>}
+      {market.offers.map(offer => {
+        const canBuy = services.gold >= offer.price;
+        return (
+          <div key={offer.itemId} style={tradeRowStyle}>
+            <span style={{ flex: 1, color: '#c9d1d9' }}>
+              {t.goods[offer.goodId]}
+              <span style={{ color: offer.local ? '#2ecc71' : '#e6b800', fontSize: '10px' }}> · {offer.local ? t.local : t.imported}</span>
+              <span style={{ color: '#666', fontSize: '10px' }}> · {t.stock(offer.stock)}</span>
+            </span>
+            <button
+              onClick={canBuy ? () => services.onBuy(offer.itemId) : undefined}
+              disabled={!canBuy}
+              title={canBuy ? undefined : strings.location.notEnoughGold}
+              style={tradeButtonStyle(canBuy)}
+            >
+              {t.price(offer.price)}
+            </button>
+          </div>
+        );
+      })}
+
+      <div style={{ color: '#7d8590', fontSize: '10px', margin: '10px 0 2px', textTransform: 'uppercase', letterSpacing: '1px' }}>{t.sell}</div>
+      {sellable.length === 0 && <div style={{ color: '#666', fontSize: '11px' }}>{t.nothingToSell}</div>}
+      {sellable.map(item => (
+        <div key={item.id} style={tradeRowStyle}>
+          <span style={{ flex: 1, color: '#c9d1d9' }}>
+            {item.name}{item.quantity > 1 && ` ×${item.quantity}`}
+          </span>
+          <button onClick={() => services.onSell(item.id)} style={tradeButtonStyle(true)}>
+            +{t.price(getSellPrice(market, item))}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const LocationCard: React.FC<LocationCardProps> = ({ location, kingdom, kingdomLore, isStartingLocation, canEnter, onEnterCity, services }) => {
+  const { strings } = useLanguage();
+  const t = strings.location;
+
   // Find city-specific lore
   const getCityLore = (): CityLore | undefined => {
     if (!kingdomLore || !location) return undefined;
@@ -27,8 +135,8 @@ const LocationCard: React.FC<LocationCardProps> = ({ location, kingdom, kingdomL
   if (!location || !kingdom) {
     return (
       <div className="panel-empty-state">
-        <h3>Select a Location</h3>
-        <p>Click on a city or capital on the map to view details.</p>
+        <h3>{t.emptyTitle}</h3>
+        <p>{t.emptyHint}</p>
       </div>
     );
   }
@@ -56,16 +164,7 @@ const LocationCard: React.FC<LocationCardProps> = ({ location, kingdom, kingdomL
   const imageSrc = getImage();
 
   // Climate-based flavor text
-  const getClimateDescription = (): string => {
-    switch (climate) {
-      case 'NORTH':
-        return 'harsh frozen lands';
-      case 'SOUTH':
-        return 'sun-scorched territories';
-      default:
-        return 'temperate heartlands';
-    }
-  };
+  const getClimateDescription = (): string => t.climateLands[climate] || t.climateLands.CENTRAL;
 
   return (
     <div className="location-card">
@@ -81,7 +180,7 @@ const LocationCard: React.FC<LocationCardProps> = ({ location, kingdom, kingdomL
               color: '#fff',
               fontWeight: 500
             }}>
-              ▶ СТАРТ
+              {t.start}
             </span>
           )}
         </div>
@@ -129,7 +228,7 @@ const LocationCard: React.FC<LocationCardProps> = ({ location, kingdom, kingdomL
             padding: '2px 6px',
             borderRadius: '4px'
           }}>
-            Placeholder
+            {t.placeholder}
           </div>
         )}
       </div>
@@ -139,8 +238,12 @@ const LocationCard: React.FC<LocationCardProps> = ({ location, kingdom, kingdomL
         <p className="location-desc">
           {cityLore?.description || 
             location.description || 
-            `A ${location.type === 'capital' ? 'grand capital' : 'bustling settlement'} in the ${getClimateDescription()} of ${kingdom.name}. ` +
-            `Known for its ${location.biome.toLowerCase()} surroundings and ancient heritage.`
+            t.fallbackDescription({
+              isCapital: location.type === 'capital',
+              lands: getClimateDescription(),
+              kingdomName: kingdom.name,
+              biome: location.biome.toLowerCase()
+            })
           }
         </p>
         
@@ -149,7 +252,7 @@ const LocationCard: React.FC<LocationCardProps> = ({ location, kingdom, kingdomL
           <div style={{ marginTop: '12px', fontSize: '14px', lineHeight: 1.6 }}>
             {cityLore.specialty && (
               <div style={{ color: '#c9ada7', marginBottom: '6px' }}>
-                <strong>Известен:</strong> {cityLore.specialty}
+                <strong>{t.knownFor}</strong> {cityLore.specialty}
               </div>
             )}
             {cityLore.landmark && (
@@ -217,7 +320,7 @@ const LocationCard: React.FC<LocationCardProps> = ({ location, kingdom, kingdomL
             borderLeft: `3px solid ${kingdom.color}`
           }}>
             <div style={{ fontSize: '12px', color: '#999', marginBottom: '4px', textTransform: 'uppercase', letterSpacing: '1px' }}>
-              {kingdomLore.initialState.rulerTitle || 'Правитель'}
+              {kingdomLore.initialState.rulerTitle || t.ruler}
             </div>
             <div style={{ fontSize: '16px', fontWeight: 'bold', color: '#e0e0e0' }}>{kingdomLore.initialState.rulerName}</div>
             <div style={{ 
@@ -258,19 +361,19 @@ const LocationCard: React.FC<LocationCardProps> = ({ location, kingdom, kingdomL
 
         <div className="location-stats" style={{ marginTop: '12px' }}>
           <div className="stat-row">
-            <span>Population</span>
+            <span>{t.population}</span>
             <span>{location.type === 'capital' ? '25,000+' : '2,000+'}</span>
           </div>
           <div className="stat-row">
-            <span>Defense</span>
-            <span>{location.type === 'capital' ? 'High' : 'Medium'}</span>
+            <span>{t.defense}</span>
+            <span>{location.type === 'capital' ? t.defenseHigh : t.defenseMedium}</span>
           </div>
           <div className="stat-row">
-            <span>Biome</span>
+            <span>{t.biome}</span>
             <span>{location.biome}</span>
           </div>
           <div className="stat-row">
-            <span>Climate</span>
+            <span>{t.climate}</span>
             <span>{climate}</span>
           </div>
         </div>
@@ -304,10 +407,44 @@ const LocationCard: React.FC<LocationCardProps> = ({ location, kingdom, kingdomL
               if (canEnter) e.currentTarget.style.backgroundColor = '#238636';
             }}
           >
-            🏛️ {canEnter ? 'Исследовать город' : 'Начните игру'}
+            🏛️ {canEnter ? t.enterCity : t.startGameFirst}
           </button>
         )}
 
+        {/* Rest & healer */}
+        {services && (services.restCost !== undefined || services.healerCost !== undefined) && (() => {
+          const { gold, restCost, rested, healerCost, needsHealing } = services;
+          const canRest = restCost !== undefined && !rested && gold >= restCost;
+          const canHeal = healerCost !== undefined && needsHealing && gold >= healerCost;
+          return (
+            <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+              {restCost !== undefined && (
+                <button
+                  onClick={canRest ? services.onRest : undefined}
+                  disabled={!canRest}
+                  title={rested ? t.rested : canRest ? undefined : t.notEnoughGold}
+                  style={serviceButtonStyle(canRest)}
+                >
+                  🛏️ {t.rest(restCost)}
+                </button>
+              )}
+              {healerCost !== undefined && (
+                <button
+                  onClick={canHeal ? services.onVisitHealer : undefined}
+                  disabled={!canHeal}
+                  title={!needsHealing ? t.healthy : canHeal ? undefined : t.notEnoughGold}
+                  style={serviceButtonStyle(canHeal)}
+                >
+                  ⚕️ {needsHealing ? t.healer(healerCost) : t.healthy}
+                </button>
+              )}
+            </div>
+          );
+        })()}
+
+        {/* Market */}
+        {services?.market && <MarketPanel services={services} market={services.market} />}
+
       </div>
     </div>
   );
@@ -1,20 +1,30 @@
 import React from 'react';
-import type { PlayerState, AppliedEffect } from '../../types/agents';
+import type { PlayerState, AppliedEffect, InjurySeverity } from '../../types/agents';
+import { MAX_HEALTH } from '../../services/health';
 
 interface PlayerStatsBarProps {
   playerState: PlayerState;
   characterName: string;
   currentLocation?: string;
   lastEffects?: AppliedEffect[];
+  onOpenInventory?: () => void;
 }
 
+const INJURY_COLORS: Record<InjurySeverity, string> = {
+  light: '#e6b800',
+  serious: '#e67e22',
+  critical: '#e74c3c'
+};
+
 const PlayerStatsBar: React.FC<PlayerStatsBarProps> = ({ 
   playerState, 
   characterName,
   currentLocation,
-  lastEffects = []
+  lastEffects = [],
+  onOpenInventory
 }) => {
-  const { stats, inventory, relationships } = playerState;
+  const { stats, inventory, relationships, injuries } = playerState;
+  const healthColor = stats.health >= 60 ? '#2ecc71' : stats.health >= 30 ? '#e6b800' : '#e74c3c';
 
   // Find recent effect for animation
   const getRecentEffect = (attr: string) => {
@@ -87,6 +97,38 @@ const PlayerStatsBar: React.FC<PlayerStatsBarProps> = ({
           </span>
           <span style={{ color: '#666', fontSize: '10px' }}>влияние</span>
         </div>
+
+        {/* Health */}
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <span style={{ fontSize: '14px' }}>❤️</span>
+          <span style={{ color: healthColor, fontSize: '13px', fontWeight: 500 }}>
+            {stats.health}
+          </span>
+          <div style={{ flex: 1, height: '4px', backgroundColor: '#1a1a22', borderRadius: '2px', overflow: 'hidden' }}>
+            <div style={{
+              width: `${(stats.health / MAX_HEALTH) * 100}%`,
+              height: '100%',
+              backgroundColor: healthColor,
+              transition: 'width 0.3s ease'
+            }} />
+          </div>
+          {getRecentEffect('здоровье') && (
+            <span style={{ 
+              color: getRecentEffect('здоровье')!.type === 'positive' ? '#2ecc71' : '#e74c3c',
+              fontSize: '11px',
+              animation: 'pulse 0.5s ease'
+            }}>
+              {getRecentEffect('здоровье')!.description.includes('+') ? '↑' : '↓'}
+            </span>
+          )}
+        </div>
+
+        {/* Injuries */}
+        {injuries.map(injury => (
+          <div key={injury.id} style={{ fontSize: '10px', color: INJURY_COLORS[injury.severity], paddingLeft: '22px' }}>
+            🩸 {injury.name}
+          </div>
+        ))}
       </div>
 
       {/* Inventory (if any) */}
@@ -96,18 +138,24 @@ const PlayerStatsBar: React.FC<PlayerStatsBarProps> = ({
           paddingTop: '8px', 
           borderTop: '1px solid #2a2a35' 
         }}>
-          <div style={{ color: '#666', fontSize: '10px', marginBottom: '4px' }}>
-            ИНВЕНТАРЬ
+          <div
+            onClick={onOpenInventory}
+            style={{ color: '#666', fontSize: '10px', marginBottom: '4px', cursor: onOpenInventory ? 'pointer' : 'default' }}
+          >
+            ИНВЕНТАРЬ {onOpenInventory && '›'}
           </div>
           <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
-            {inventory.slice(0, 4).map((item, i) => (
-              <span key={i} style={{
-                backgroundColor: '#1a1a22',
-                padding: '2px 6px',
-                borderRadius: '4px',
-                fontSize: '10px',
-                color: '#888'
-              }}>
+            {inventory.slice(0, 4).map(item => (
+              <span
+                key={item.id}
+                style={{
+                  backgroundColor: '#1a1a22',
+                  padding: '2px 6px',
+                  borderRadius: '4px',
+                  fontSize: '10px',
+                  color: item.equipped ? '#4ecdc4' : '#888'
+                }}
+              >
                 {item.name} {item.quantity > 1 && `×${item.quantity}`}
               </span>
             ))}
@@ -1,26 +1,91 @@
 import React, { useState, useEffect } from 'react';
-import type { Scene, SceneChoice, PlayerState, AppliedEffect } from '../../types/agents';
+import type {
+  Scene,
+  SceneChoice,
+  PlayerState,
+  AppliedEffect,
+  ChoiceAvailability,
+  UnmetRequirement,
+  SkillCheckResult
+} from '../../types/agents';
+import type { TravelState } from '../../types/travel';
+import type { UIStrings } from '../../types/i18n';
+import { useLanguage } from '../../hooks/useLanguage';
+import { evaluateChoice } from '../../services/choiceRequirements';
 
 interface SceneViewProps {
-  scene: Scene;
+  scene: Scene | null;
+  streamingScene?: Partial<Scene> | null;  // Сцена, которая ещё приходит стримом
   characterName: string;
   onChoice: (choice: SceneChoice) => void;
   isLoading?: boolean;
   playerState?: PlayerState;
+  travelState?: TravelState | null;        // Для требований unlockedLocation
   lastEffects?: AppliedEffect[];
+  checkResult?: SkillCheckResult | null;   // Бросок выбора в этой сцене
 }
 
+const describeRequirement = (requirement: UnmetRequirement, t: UIStrings['scene']['requirements']): string => {
+  switch (requirement.kind) {
+    case 'gold': return t.gold(requirement.required ?? 0, requirement.current ?? 0);
+    case 'reputation': return t.reputation(requirement.required ?? 0, requirement.current ?? 0);
+    case 'item': return t.item(requirement.label);
+    case 'flag': return t.flag(requirement.label);
+    case 'location': return t.location(requirement.label);
+  }
+};
+
+// Бросок проверки: d20, модификаторы, итог против сложности
+const DiceRoll: React.FC<{ result: SkillCheckResult }> = ({ result }) => {
+  const { strings } = useLanguage();
+  const t = strings.scene.check;
+  const color = result.success ? '#2ecc71' : '#e74c3c';
+  const outcome = result.critical
+    ? (result.success ? t.criticalSuccess : t.criticalFailure)
+    : (result.success ? t.success : t.failure);
+
+  return (
+    <div style={{
+      marginTop: '12px',
+      padding: '10px 14px',
+      borderRadius: '8px',
+      border: `1px solid ${color}`,
+      backgroundColor: `${color}15`,
+      fontSize: '12px',
+      color: '#ccc'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px' }}>
+        <span>{t.title(result.skill)}</span>
+        <span style={{ color, fontWeight: 600 }}>{outcome}</span>
+      </div>
+      <div>
+        <span style={{ color: '#fff', fontWeight: 600 }}>d20: {result.roll}</span>
+        {result.modifiers.map((modifier, i) => (
+          <span key={i} title={t.modifiers[modifier.source]}>
+            {' '}{modifier.value > 0 ? '+' : '−'}{Math.abs(modifier.value)} ({modifier.label})
+          </span>
+        ))}
+        <span> = <b style={{ color: '#fff' }}>{result.total}</b> {t.versus(result.difficulty)}</span>
+      </div>
+    </div>
+  );
+};
+
 const SceneView: React.FC<SceneViewProps> = ({ 
   scene, 
+  streamingScene,
   characterName, 
   onChoice, 
   isLoading,
   playerState,
-  lastEffects = []
+  travelState,
+  lastEffects = [],
+  checkResult
 }) => {
   const [selectedChoice, setSelectedChoice] = useState<string | null>(null);
   const [isMinimized, setIsMinimized] = useState(false);
   const [showEffects, setShowEffects] = useState(false);
+  const { strings } = useLanguage();
 
   // Show effects notification when they change
   useEffect(() => {
@@ -36,7 +101,10 @@ const SceneView: React.FC<SceneViewProps> = ({
     setSelectedChoice(null);
   }, [scene?.id]);
 
-  if (!scene) return null;
+  // Пока Showrunner стримит, показываем уже пришедший текст; выборы заблокированы до конца сцены
+  const isStreaming = Boolean(streamingScene);
+  const displayed = streamingScene || scene;
+  if (!displayed) return null;
 
   const getToneStyle = (tone: SceneChoice['tone']) => {
     const styles: Record<string, { color: string; icon: string }> = {
@@ -49,8 +117,12 @@ const SceneView: React.FC<SceneViewProps> = ({
     return styles[tone] || { color: '#7f8c8d', icon: '•' };
   };
 
+  // Без состояния игрока требования не проверить - выбор доступен
+  const getAvailability = (choice: SceneChoice): ChoiceAvailability =>
+    playerState ? evaluateChoice(choice, playerState, travelState || undefined) : { available: true, unmet: [] };
+
   const handleChoiceClick = (choice: SceneChoice) => {
-    if (isLoading) return;
+    if (isLoading || isStreaming || !getAvailability(choice).available) return;
     setSelectedChoice(choice.id);
     onChoice(choice);
   };
@@ -78,7 +150,7 @@ const SceneView: React.FC<SceneViewProps> = ({
         }}
       >
         <span style={{ fontSize: '14px' }}>📖</span>
-        <span style={{ color: '#fff', fontSize: '13px' }}>Продолжить историю</span>
+        <span style={{ color: '#fff', fontSize: '13px' }}>{strings.scene.continueStory}</span>
       </button>
     );
   }
@@ -153,7 +225,7 @@ const SceneView: React.FC<SceneViewProps> = ({
           alignItems: 'center'
         }}>
           <div style={{ color: '#888', fontSize: '12px' }}>
-            {scene.location || 'Сцена'}
+            {displayed.location || scene?.location || strings.scene.untitled}
           </div>
           <button
             onClick={() => setIsMinimized(true)}
@@ -183,15 +255,15 @@ const SceneView: React.FC<SceneViewProps> = ({
             lineHeight: 1.75,
             fontFamily: "'Georgia', serif"
           }}>
-            {(scene.description || '').split('\n').map((p, i) => (
+            {(displayed.description || '').split('\n').map((p, i) => (
               p.trim() && <p key={i} style={{ margin: '0 0 16px 0' }}>{p}</p>
             ))}
           </div>
 
           {/* Dialogue */}
-          {scene.dialogue && scene.dialogue.length > 0 && (
+          {displayed.dialogue && displayed.dialogue.length > 0 && (
             <div style={{ marginTop: '8px' }}>
-              {scene.dialogue.map((line, i) => {
+              {displayed.dialogue.map((line, i) => {
                 const isHero = line.speaker.toLowerCase() === characterName.toLowerCase();
                 return (
                   <div key={i} style={{
@@ -232,24 +304,28 @@ const SceneView: React.FC<SceneViewProps> = ({
             flexDirection: 'column',
             gap: '8px'
           }}>
-            {(scene.choices || []).map((choice) => {
+            {(displayed.choices || []).map((choice, index) => {
               const style = getToneStyle(choice.tone);
-              const isSelected = selectedChoice === choice.id;
+              const isSelected = !isStreaming && selectedChoice === choice.id;
+              const availability: ChoiceAvailability = isStreaming ? { available: true, unmet: [] } : getAvailability(choice);
+              const isLocked = !availability.available;
               
               return (
                 <button
-                  key={choice.id}
+                  // В недописанной сцене id выбора может ещё не прийти
+                  key={isStreaming ? index : choice.id}
                   onClick={() => handleChoiceClick(choice)}
-                  disabled={isLoading}
+                  disabled={isLoading || isStreaming || isLocked}
+                  title={isLocked ? strings.scene.locked : undefined}
                   style={{
                     padding: '14px 16px',
                     backgroundColor: isSelected ? `${style.color}15` : '#16161c',
                     border: `1px solid ${isSelected ? style.color : '#2a2a35'}`,
                     borderRadius: '8px',
-                    cursor: isLoading ? 'wait' : 'pointer',
+                    cursor: isLoading || isStreaming ? 'wait' : isLocked ? 'not-allowed' : 'pointer',
                     textAlign: 'left',
                     transition: 'all 0.15s',
-                    opacity: isLoading && !isSelected ? 0.4 : 1
+                    opacity: ((isLoading || isStreaming) && !isSelected) || isLocked ? 0.4 : 1
                   }}
                 >
                   <div style={{ 
@@ -258,17 +334,32 @@ const SceneView: React.FC<SceneViewProps> = ({
                     gap: '12px'
                   }}>
                     <span style={{ fontSize: '18px', opacity: 0.8 }}>
-                      {style.icon}
+                      {isStreaming || isLocked ? '🔒' : style.icon}
                     </span>
                     <span style={{ color: '#e0e0e0', fontSize: '14px' }}>
                       {choice.text}
                     </span>
                   </div>
+                  {choice.check && (
+                    <div style={{ color: '#9b59b6', fontSize: '11px', marginTop: '6px', marginLeft: '30px' }}>
+                      {strings.scene.check.hint(choice.check.skill, choice.check.difficulty)}
+                    </div>
+                  )}
+                  {isLocked && (
+                    <div style={{ color: '#e67e22', fontSize: '11px', marginTop: '6px', marginLeft: '30px' }}>
+                      {availability.unmet.map(requirement => describeRequirement(requirement, strings.scene.requirements)).join(' · ')}
+                    </div>
+                  )}
                 </button>
               );
             })}
           </div>
 
+          {/* Dice roll of the choice made in this scene */}
+          {checkResult && checkResult.sceneNumber === displayed.sceneNumber && (
+            <DiceRoll result={checkResult} />
+          )}
+
           {isLoading && (
             <div style={{ 
               textAlign: 'center', 
@@ -276,7 +367,7 @@ const SceneView: React.FC<SceneViewProps> = ({
               color: '#4ecdc4',
               fontSize: '13px'
             }}>
-              ⏳ Генерация...
+              {isStreaming ? strings.scene.writing : strings.scene.generating}
             </div>
           )}
         </div>
@@ -1,32 +1,52 @@
 import React from 'react';
+import { LANGUAGES } from '../../i18n';
+import { useLanguage } from '../../hooks/useLanguage';
 
 interface StatusBarProps {
   year: number;
   gold: number;
   mana: number;
+  onOpenInventory?: () => void;
 }
 
-const StatusBar: React.FC<StatusBarProps> = ({ year, gold, mana }) => {
+const StatusBar: React.FC<StatusBarProps> = ({ year, gold, mana, onOpenInventory }) => {
+  const { language, setLanguage, strings } = useLanguage();
+  const t = strings.status;
+
+  // Переключение по кругу; уже сгенерированный лор остаётся, новые тексты - на новом языке
+  const handleToggleLanguage = () => {
+    const index = LANGUAGES.findIndex(l => l.code === language);
+    setLanguage(LANGUAGES[(index + 1) % LANGUAGES.length].code);
+  };
+
   return (
     <div className="status-bar">
       <div className="status-item">
-        <span className="status-label">Year:</span>
+        <span className="status-label">{t.year}</span>
         <span className="status-value">{year}</span>
       </div>
       <div className="status-divider"></div>
       <div className="status-item">
         <span className="status-icon">🪙</span>
-        <span className="status-value">{gold} Gold</span>
+        <span className="status-value">{gold} {t.gold}</span>
       </div>
       <div className="status-item">
         <span className="status-icon">✨</span>
-        <span className="status-value">{mana} Mana</span>
+        <span className="status-value">{mana} {t.mana}</span>
       </div>
       
       <div className="status-actions">
-        <button className="icon-btn" title="Inventory">🎒</button>
-        <button className="icon-btn" title="Quests">📜</button>
-        <button className="icon-btn" title="Settings">⚙️</button>
+        <button
+          className="icon-btn"
+          title={`${t.language}: ${LANGUAGES.find(l => l.code === language)?.label}`}
+          onClick={handleToggleLanguage}
+          style={{ fontSize: '11px', fontWeight: 600 }}
+        >
+          {language.toUpperCase()}
+        </button>
+        <button className="icon-btn" title={t.inventory} onClick={onOpenInventory}>🎒</button>
+        <button className="icon-btn" title={t.quests}>📜</button>
+        <button className="icon-btn" title={t.settings}>⚙️</button>
       </div>
     </div>
   );
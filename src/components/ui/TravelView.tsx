@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import type { TravelRoute, TravelState, Quest } from '../../types/travel';
 import type { POI } from '../../types/world';
 import { getDangerDescription, getDaysDescription, getTravelDescription } from '../../utils/travelSystem';
+import { useLanguage } from '../../hooks/useLanguage';
 
 interface TravelViewProps {
   currentLocation: POI;
@@ -26,6 +27,8 @@ const TravelView: React.FC<TravelViewProps> = ({
 }) => {
   const [selectedRoute, setSelectedRoute] = useState<TravelRoute | null>(null);
   const [confirmMode, setConfirmMode] = useState(false);
+  const { language, strings } = useLanguage();
+  const t = strings.travel;
 
   // Filter routes - separate unlocked and locked
   const unlockedRoutes = availableRoutes.filter(r => r.isUnlocked);
@@ -111,10 +114,10 @@ const TravelView: React.FC<TravelViewProps> = ({
         }}>
           <div>
             <div style={{ color: '#4ecdc4', fontSize: '11px', textTransform: 'uppercase', letterSpacing: '1px', marginBottom: '4px' }}>
-              🗺️ Путешествие
+              {t.title}
             </div>
             <div style={{ color: '#e8e8e8', fontSize: '16px', fontWeight: 500 }}>
-              Отправиться из {currentLocation.name}
+              {t.departFrom(currentLocation.name)}
             </div>
           </div>
           <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
@@ -150,11 +153,11 @@ const TravelView: React.FC<TravelViewProps> = ({
             <span style={{ fontSize: '16px' }}>⭐</span>
             <div>
               <div style={{ color: '#f1c40f', fontSize: '12px', fontWeight: 500 }}>
-                Квест: {travelState.travelQuest.reason}
+                {t.quest(travelState.travelQuest.reason)}
               </div>
               <div style={{ color: '#888', fontSize: '11px' }}>
-                Цель: доберитесь до локации
-                {travelState.travelQuest.deadline && ` до сцены ${travelState.travelQuest.deadline}`}
+                {t.questGoal}
+                {travelState.travelQuest.deadline && t.untilScene(travelState.travelQuest.deadline)}
               </div>
             </div>
           </div>
@@ -184,13 +187,13 @@ const TravelView: React.FC<TravelViewProps> = ({
                 {getDangerIcon(selectedRoute.danger)}
               </div>
               <h3 style={{ color: '#e8e8e8', fontSize: '18px', margin: '0 0 8px 0' }}>
-                Отправиться в {(selectedRoute as any).targetName}?
+                {t.confirm((selectedRoute as any).targetName)}
               </h3>
               <p style={{ color: '#888', fontSize: '13px', margin: '0 0 16px 0' }}>
-                {getDaysDescription(selectedRoute.distance)} • {selectedRoute.cost} золота
+                {getDaysDescription(selectedRoute.distance, language)} • {t.cost(selectedRoute.cost)}
                 <br />
                 <span style={{ color: getDangerColor(selectedRoute.danger) }}>
-                  {getDangerDescription(selectedRoute.danger)}
+                  {getDangerDescription(selectedRoute.danger, language)}
                 </span>
               </p>
               
@@ -203,7 +206,7 @@ const TravelView: React.FC<TravelViewProps> = ({
                   color: '#f1c40f',
                   fontSize: '12px'
                 }}>
-                  ⭐ Это цель вашего квеста!
+                  {t.questTarget}
                 </div>
               )}
 
@@ -220,7 +223,7 @@ const TravelView: React.FC<TravelViewProps> = ({
                     fontSize: '13px'
                   }}
                 >
-                  Отмена
+                  {t.cancel}
                 </button>
                 <button
                   onClick={handleConfirmTravel}
@@ -237,7 +240,7 @@ const TravelView: React.FC<TravelViewProps> = ({
                     opacity: isLoading ? 0.6 : 1
                   }}
                 >
-                  {isLoading ? '⏳ Путешествие...' : '🚶 Отправиться'}
+                  {isLoading ? t.travelling : t.depart}
                 </button>
               </div>
             </div>
@@ -260,7 +263,7 @@ const TravelView: React.FC<TravelViewProps> = ({
                 letterSpacing: '1px', 
                 marginBottom: '10px' 
               }}>
-                Доступные маршруты
+                {t.availableRoutes}
               </div>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '20px' }}>
                 {unlockedRoutes.map(route => {
@@ -304,10 +307,10 @@ const TravelView: React.FC<TravelViewProps> = ({
                             alignItems: 'center',
                             gap: '8px'
                           }}>
-                            <span>{getDaysDescription(route.distance)}</span>
+                            <span>{getDaysDescription(route.distance, language)}</span>
                             <span>•</span>
                             <span style={{ color: getDangerColor(route.danger) }}>
-                              {getDangerIcon(route.danger)} {getDangerDescription(route.danger)}
+                              {getDangerIcon(route.danger)} {getDangerDescription(route.danger, language)}
                             </span>
                           </div>
                         </div>
@@ -325,7 +328,7 @@ const TravelView: React.FC<TravelViewProps> = ({
                           fontSize: '11px', 
                           marginTop: '6px' 
                         }}>
-                          Недостаточно золота
+                          {t.notEnoughGold}
                         </div>
                       )}
                     </button>
@@ -345,7 +348,7 @@ const TravelView: React.FC<TravelViewProps> = ({
                 letterSpacing: '1px', 
                 marginBottom: '10px' 
               }}>
-                🔒 Заблокированные маршруты
+                {t.lockedRoutes}
               </div>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
                 {lockedRoutes.map(route => (
@@ -364,7 +367,7 @@ const TravelView: React.FC<TravelViewProps> = ({
                         🔒 {route.targetName}
                       </div>
                       <div style={{ color: '#444', fontSize: '11px' }}>
-                        Требуется квест
+                        {t.requiresQuest}
                       </div>
                     </div>
                   </div>
@@ -379,7 +382,7 @@ const TravelView: React.FC<TravelViewProps> = ({
               color: '#555', 
               padding: '40px 20px' 
             }}>
-              Нет доступных маршрутов из этой локации
+              {t.noRoutes}
             </div>
           )}
         </div>
@@ -394,7 +397,7 @@ const TravelView: React.FC<TravelViewProps> = ({
           alignItems: 'center'
         }}>
           <div style={{ color: '#555', fontSize: '11px' }}>
-            Путешествие занимает время и золото
+            {t.hint}
           </div>
           <button
             onClick={onClose}
@@ -408,7 +411,7 @@ const TravelView: React.FC<TravelViewProps> = ({
               fontSize: '12px'
             }}
           >
-            Остаться здесь
+            {t.stay}
           </button>
         </div>
       </div>
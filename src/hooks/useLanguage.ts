@@ -0,0 +1,21 @@
+// ============ LANGUAGE HOOK ============
+// Язык игры для UI (хранилище в src/i18n)
+
+import { useState, useEffect } from 'react';
+import type { GameLanguage } from '../types/i18n';
+import { getLanguage, setLanguage, subscribeToLanguage, getUIStrings } from '../i18n';
+
+/**
+ * Текущий язык игры и строки интерфейса; компонент перерисовывается при смене языка
+ */
+export const useLanguage = () => {
+  const [language, setLanguageState] = useState<GameLanguage>(() => getLanguage());
+
+  useEffect(() => subscribeToLanguage(setLanguageState), []);
+
+  return {
+    language,
+    setLanguage,
+    strings: getUIStrings(language)
+  };
+};
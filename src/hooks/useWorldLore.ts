@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import type { WorldData, POI } from '../types/world';
 import type { WorldState } from '../types/simulation';
 import { 
@@ -7,9 +7,11 @@ import {
   generatePlayableCharacters,
   generateScene,
   generateDirective,
+  generateEpilogue,
   createInitialStoryState,
   getAgentDebugStore,
   subscribeToDebugStore,
+  subscribeToAdoptedResults,
   clearDebugStore,
   type WorldLore, 
   type WorldScenario,
@@ -26,10 +28,17 @@ import type {
   PlayerState,
   AppliedEffect,
   StoryState,
-  DirectorDirective
+  DirectorDirective,
+  DirectorAnalysis,
+  NarrativeMemory,
+  SkillCheckResult,
+  HeroDeath,
+  Epilogue
 } from '../types/agents';
 import { createInitialPlayerState } from '../types/agents';
 import type { TravelState, TravelRoute, Quest } from '../types/travel';
+import type { StoryTree, GameSnapshot } from '../types/checkpoints';
+import type { Market } from '../types/trade';
 import { 
   getKingdomRoutes,
   getKingdomLocationIds,
@@ -37,6 +46,40 @@ import {
   createTravelQuest,
   updateQuestsOnArrival
 } from '../utils/travelSystem';
+import { registerProvider } from '../services/llmProviders';
+import { createMockProvider } from '../services/mockLLM';
+import { startUsageGame } from '../services/usageTracker';
+import { createNarrativeMemory, recordScene } from '../services/narrativeMemory';
+import { createStoryTree, addCheckpoint, moveToCheckpoint, replaceCheckpointScene } from '../services/storyCheckpoints';
+import { evaluateChoice, getLockedChoices, describeUnmetRequirement } from '../services/choiceRequirements';
+import { resolveSkillCheck, getChoiceEffects, rollD20 } from '../services/skillChecks';
+import {
+  MAX_HEALTH,
+  inflictInjury,
+  treatInjury,
+  tickInjuries,
+  getCombatInjury,
+  getRouteHazard,
+  isDead,
+  getDeathCause,
+  treatableUpTo,
+  canRestAt,
+  canVisitHealerAt,
+  needsHealing,
+  restAtInn,
+  visitHealer,
+  type HealthResult
+} from '../services/health';
+import { createItem, addItem, removeItem, findItem, itemIdFromName, canUseItem, toggleEquip } from '../services/items';
+import { buyFromMerchant, sellToMerchant } from '../services/trade';
+import { getUIStrings } from '../i18n';
+
+const STAT_ICONS: Record<keyof PlayerState['stats'], string> = {
+  gold: '💰',
+  reputation: '⭐',
+  influence: '👑',
+  health: '❤️'
+};
 
 // Функция применения эффектов к состоянию игрока
 const applyEffects = (
@@ -44,8 +87,9 @@ const applyEffects = (
   effects: SceneEffect[], 
   sceneNumber: number
 ): { newState: PlayerState; appliedEffects: AppliedEffect[] } => {
-  const newState = JSON.parse(JSON.stringify(state)) as PlayerState;
+  let newState = JSON.parse(JSON.stringify(state)) as PlayerState;
   const appliedEffects: AppliedEffect[] = [];
+  const strings = getUIStrings();
 
   for (const effect of effects) {
     switch (effect.type) {
@@ -54,13 +98,14 @@ const applyEffects = (
           const attr = effect.stat.attribute as keyof typeof newState.stats;
           if (attr in newState.stats) {
             const oldValue = newState.stats[attr];
-            newState.stats[attr] = Math.max(0, oldValue + effect.stat.change);
+            const newValue = Math.max(0, oldValue + effect.stat.change);
+            newState.stats[attr] = attr === 'health' ? Math.min(MAX_HEALTH, newValue) : newValue;
             
             const isPositive = effect.stat.change > 0;
             appliedEffects.push({
-              description: `${attr === 'gold' ? 'Золото' : attr === 'reputation' ? 'Репутация' : 'Влияние'}: ${isPositive ? '+' : ''}${effect.stat.change}`,
+              description: `${strings.stats[attr]}: ${isPositive ? '+' : ''}${effect.stat.change}`,
               type: isPositive ? 'positive' : 'negative',
-              icon: attr === 'gold' ? '💰' : attr === 'reputation' ? '⭐' : '👑'
+              icon: STAT_ICONS[attr]
             });
           }
         }
@@ -68,33 +113,28 @@ const applyEffects = (
 
       case 'item':
         if (effect.item) {
+          // Предмет определяется id; у эффектов без id (старый формат) он выводится из названия
+          const itemId = effect.item.itemId || itemIdFromName(effect.item.itemName);
           if (effect.item.action === 'add') {
-            const existing = newState.inventory.find(i => i.name === effect.item!.itemName);
-            if (existing) {
-              existing.quantity++;
-            } else {
-              newState.inventory.push({
-                id: `item-${Date.now()}`,
-                name: effect.item.itemName,
-                type: 'key',
-                quantity: 1
-              });
-            }
+            newState.inventory = addItem(newState.inventory, createItem({
+              id: itemId,
+              name: effect.item.itemName,
+              type: effect.item.itemType,
+              description: effect.item.description,
+              value: effect.item.value,
+              heal: effect.item.heal
+            }));
             appliedEffects.push({
-              description: `Получено: ${effect.item.itemName}`,
+              description: strings.inventory.received(effect.item.itemName),
               type: 'positive',
               icon: '📦'
             });
           } else {
-            const idx = newState.inventory.findIndex(i => i.name === effect.item!.itemName);
-            if (idx >= 0) {
-              if (newState.inventory[idx].quantity > 1) {
-                newState.inventory[idx].quantity--;
-              } else {
-                newState.inventory.splice(idx, 1);
-              }
+            const owned = findItem(newState.inventory, itemId);
+            if (owned) {
+              newState.inventory = removeItem(newState.inventory, owned.id);
               appliedEffects.push({
-                description: `Потеряно: ${effect.item.itemName}`,
+                description: strings.inventory.lost(owned.name),
                 type: 'negative',
                 icon: '📦'
               });
@@ -113,7 +153,7 @@ const applyEffects = (
             }
           } else {
             newState.relationships.push({
-              npcId: `npc-${Date.now()}`,
+              npcId: effect.relationship.npcId || `npc-${Date.now()}`,
               npcName: effect.relationship.npcName,
               relation: effect.relationship.change,
               status: effect.relationship.newStatus || (effect.relationship.change > 0 ? 'neutral' : 'rival')
@@ -162,6 +202,16 @@ const applyEffects = (
         }
         break;
         
+      case 'injury':
+        if (effect.injury) {
+          const result = effect.injury.action === 'inflict'
+            ? inflictInjury(newState, effect.injury, sceneNumber)
+            : treatInjury(newState, effect.injury.name, effect.injury.severity && treatableUpTo(effect.injury.severity));
+          newState = result.newState;
+          appliedEffects.push(...result.appliedEffects);
+        }
+        break;
+        
       // Travel effects are processed separately in the hook
       case 'travel':
         // Handled in processTravelEffects
@@ -269,6 +319,38 @@ const processTravelEffects = (
   return { newTravelState, appliedEffects, newQuests };
 };
 
+// Process quest effects (start_quest): new dynamic quests
+const processQuestEffects = (
+  effects: SceneEffect[],
+  sceneNumber: number
+): { appliedEffects: AppliedEffect[]; newQuests: Quest[] } => {
+  const appliedEffects: AppliedEffect[] = [];
+  const newQuests: Quest[] = [];
+
+  for (const effect of effects) {
+    if (effect.type !== 'quest' || effect.quest?.action !== 'add') continue;
+    const { questId, title, description, type, objectives, rewards } = effect.quest;
+    newQuests.push({
+      id: questId,
+      title: title || questId,
+      description: description || '',
+      type: type || 'main',
+      status: 'active',
+      objectives: (objectives || []).map(o => ({ ...o, completed: false })),
+      fromScene: sceneNumber,
+      rewards,
+      isFromScenario: false
+    });
+    appliedEffects.push({
+      description: `Квест: ${title || questId}`,
+      type: 'neutral',
+      icon: '📜'
+    });
+  }
+
+  return { appliedEffects, newQuests };
+};
+
 export const useWorldLore = () => {
   const [lore, setLore] = useState<WorldLore | null>(null);
   const [scenario, setScenario] = useState<WorldScenario | null>(null);
@@ -280,6 +362,7 @@ export const useWorldLore = () => {
   
   // Scene state (Showrunner)
   const [currentScene, setCurrentScene] = useState<Scene | null>(null);
+  const [streamingScene, setStreamingScene] = useState<Partial<Scene> | null>(null);  // Сцена, которая ещё стримится
   const [sceneHistory, setSceneHistory] = useState<{ summary: string; lastChoice?: string }[]>([]);
   const [sceneNumber, setSceneNumber] = useState(0);
   const [isGameStarted, setIsGameStarted] = useState(false);
@@ -287,11 +370,21 @@ export const useWorldLore = () => {
   // Player State
   const [playerState, setPlayerState] = useState<PlayerState>(createInitialPlayerState());
   const [lastAppliedEffects, setLastAppliedEffects] = useState<AppliedEffect[]>([]);
+  const [lastCheckResult, setLastCheckResult] = useState<SkillCheckResult | null>(null);  // Бросок последнего выбора
   
   // Story State (Director)
   const [storyState, setStoryState] = useState<StoryState | null>(null);
   const [lastDirective, setLastDirective] = useState<DirectorDirective | null>(null);
   
+  // Narrative Memory - давние сцены для Showrunner и Director
+  const [narrativeMemory, setNarrativeMemory] = useState<NarrativeMemory>(createNarrativeMemory);
+  
+  // Epilogue - финал истории (CHRONICLER)
+  const [epilogue, setEpilogue] = useState<Epilogue | null>(null);
+  
+  // Checkpoints - снимок после каждой сцены, дерево веток
+  const [storyTree, setStoryTree] = useState<StoryTree>(createStoryTree);
+  
   // Travel & Quest State
   const [travelState, setTravelState] = useState<TravelState | null>(null);
   const [quests, setQuests] = useState<Quest[]>([]);
@@ -302,6 +395,10 @@ export const useWorldLore = () => {
   const [isGeneratingScene, setIsGeneratingScene] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
+  // Отмена запросов текущей игры: clear() abort'ит контроллер и создаёт новый.
+  // Ответ, пришедший после отмены, не применяется - он относится к прошлой игре.
+  const abortRef = useRef(new AbortController());
+  
   // Agent Debug Store
   const [debugStore, setDebugStore] = useState<AgentDebugStore>(() => getAgentDebugStore());
   
@@ -317,23 +414,65 @@ export const useWorldLore = () => {
     return unsubscribe;
   }, []);
 
+  // Альтернатива из сравнения моделей, принятая в debug-панели, заменяет результат агента в игре
+  useEffect(() => subscribeToAdoptedResults(({ log, value }) => {
+    console.log(`🔀 ${log.agent}: adopted ${log.model} result`);
+    switch (log.agent) {
+      case 'GOLEM':
+        setLore(value as WorldLore);
+        break;
+      case 'CHARACTER_GENERATOR': {
+        const result = value as CharacterGenerationResult;
+        setCharacters(result.characters);
+        setCharacterContext({ sharedWorld: result.sharedWorld, timeline: result.timeline });
+        setSelectedCharacter(prev => prev && (result.characters.find(c => c.id === prev.id) || null));
+        break;
+      }
+      case 'NARRATOR':
+        setScenario(value as WorldScenario);
+        break;
+      case 'DIRECTOR': {
+        // Следующая сцена будет строиться от принятой директивы
+        const analysis = value as DirectorAnalysis;
+        setStoryState(analysis.updatedStoryState);
+        setLastDirective(analysis.directive);
+        break;
+      }
+      case 'SHOWRUNNER': {
+        const scene = value as Scene;
+        setCurrentScene(prev => prev?.sceneNumber === scene.sceneNumber ? scene : prev);
+        // Чекпоинт этой сцены уже сохранён - откат к нему должен вернуть принятую сцену
+        setStoryTree(prev => replaceCheckpointScene(prev, scene));
+        break;
+      }
+    }
+  }), []);
+
   const generate = useCallback(async (worldData: WorldData, worldState: WorldState) => {
+    const { signal } = abortRef.current;
     setIsGenerating(true);
     setError(null);
 
+    // Мок-провайдер пересоздаётся под текущий мир (используется при VITE_LLM_PROVIDER=mock)
+    registerProvider(createMockProvider(worldData, worldState));
+    // Новый лор = новая игра в учёте расходов
+    startUsageGame();
+
     try {
       console.log('Generating world lore via LLM...');
-      const generatedLore = await generateWorldLore(worldData, worldState);
+      const generatedLore = await generateWorldLore(worldData, worldState, { signal });
+      if (signal.aborted) return null;
       console.log('Lore generated:', generatedLore);
       setLore(generatedLore);
       return generatedLore;
     } catch (err) {
+      if (signal.aborted) return null;
       const errorMsg = err instanceof Error ? err.message : 'Failed to generate lore';
       console.error('Lore generation failed:', errorMsg);
       setError(errorMsg);
       return null;
     } finally {
-      setIsGenerating(false);
+      if (!signal.aborted) setIsGenerating(false);
     }
   }, []);
 
@@ -343,24 +482,27 @@ export const useWorldLore = () => {
     worldState: WorldState,
     existingLore: WorldLore
   ) => {
+    const { signal } = abortRef.current;
     setIsGeneratingCharacters(true);
     setError(null);
     setSelectedCharacter(null);
 
     try {
       console.log('Generating playable characters via LLM...');
-      const result: CharacterGenerationResult = await generatePlayableCharacters(worldData, worldState, existingLore);
+      const result: CharacterGenerationResult = await generatePlayableCharacters(worldData, worldState, existingLore, { signal });
+      if (signal.aborted) return null;
       console.log('Characters generated:', result);
       setCharacters(result.characters);
       setCharacterContext({ sharedWorld: result.sharedWorld, timeline: result.timeline });
       return result;
     } catch (err) {
+      if (signal.aborted) return null;
       const errorMsg = err instanceof Error ? err.message : 'Failed to generate characters';
       console.error('Character generation failed:', errorMsg);
       setError(errorMsg);
       return null;
     } finally {
-      setIsGeneratingCharacters(false);
+      if (!signal.aborted) setIsGeneratingCharacters(false);
     }
   }, []);
 
@@ -380,6 +522,7 @@ export const useWorldLore = () => {
     character: PlayableCharacter,
     allCharacters?: PlayableCharacter[]
   ) => {
+    const { signal } = abortRef.current;
     setIsGeneratingScenario(true);
     setError(null);
 
@@ -396,19 +539,22 @@ export const useWorldLore = () => {
         worldState, 
         existingLore, 
         character,
-        supportingCast
+        supportingCast,
+        { signal }
       );
+      if (signal.aborted) return null;
       
       console.log('Scenario generated:', generatedScenario);
       setScenario(generatedScenario);
       return generatedScenario;
     } catch (err) {
+      if (signal.aborted) return null;
       const errorMsg = err instanceof Error ? err.message : 'Failed to generate scenario';
       console.error('Scenario generation failed:', errorMsg);
       setError(errorMsg);
       return null;
     } finally {
-      setIsGeneratingScenario(false);
+      if (!signal.aborted) setIsGeneratingScenario(false);
     }
   }, [characters]);
 
@@ -423,11 +569,15 @@ export const useWorldLore = () => {
       return null;
     }
     
+    const { signal } = abortRef.current;
     setIsGeneratingScene(true);
     setError(null);
     setSceneNumber(1);
     setSceneHistory([]);
     setLastAppliedEffects([]);
+    setLastCheckResult(null);
+    setNarrativeMemory(createNarrativeMemory());
+    setEpilogue(null);
     
     // Initialize story state from scenario
     const initialStoryState = createInitialStoryState(scenario);
@@ -488,20 +638,38 @@ export const useWorldLore = () => {
         undefined, // No summary yet
         travelContext,
         [],        // No active quests yet
-        'normal'
+        'normal',
+        { signal, storyState: initialStoryState, onProgress: partial => !signal.aborted && setStreamingScene(partial) }
       );
+      if (signal.aborted) return null;
       
       console.log('Scene generated:', scene);
       setCurrentScene(scene);
       setIsGameStarted(true);
+      setStoryTree(prev => addCheckpoint(prev, {
+        scene,
+        sceneNumber: 1,
+        sceneHistory: [],
+        playerState,
+        travelState: initialTravelState,
+        quests: [],
+        storyState: initialStoryState,
+        lastDirective: null,
+        narrativeMemory: createNarrativeMemory(),
+        worldState
+      }));
       return scene;
     } catch (err) {
+      if (signal.aborted) return null;
       const errorMsg = err instanceof Error ? err.message : 'Failed to generate scene';
       console.error('Scene generation failed:', errorMsg);
       setError(errorMsg);
       return null;
     } finally {
-      setIsGeneratingScene(false);
+      if (!signal.aborted) {
+        setStreamingScene(null);
+        setIsGeneratingScene(false);
+      }
     }
   }, [lore, scenario, selectedCharacter, playerState]);
 
@@ -517,33 +685,53 @@ export const useWorldLore = () => {
       return null;
     }
     
+    // Locked choice (requirements not met) - refuse instead of clamping gold to 0
+    const availability = evaluateChoice(choice, playerState, travelState);
+    if (!availability.available) {
+      setError(`Choice unavailable: ${availability.unmet.map(describeUnmetRequirement).join(', ')}`);
+      return null;
+    }
+    
     // Apply effects from the choice
     let updatedPlayerState = playerState;
     let updatedTravelState = travelState;
     let effects: AppliedEffect[] = [];
     let newQuestsFromEffects: Quest[] = [];
     
+    // Skill check: seeded d20 decides which of the check's effect lists applies
+    const checkResult = resolveSkillCheck(choice, selectedCharacter, playerState, { seed: worldData.seed, sceneNumber });
+    const choiceEffects = getChoiceEffects(choice, checkResult);
+    setLastCheckResult(checkResult);
+    if (checkResult) {
+      console.log(`🎲 ${checkResult.skill}: ${checkResult.roll} → ${checkResult.total} vs ${checkResult.difficulty} (${checkResult.success ? 'success' : 'failure'})`);
+    }
+    
     // Check if this choice has a require_travel effect
-    const hasRequireTravelEffect = choice.effects?.some(
+    const hasRequireTravelEffect = choiceEffects.some(
       e => e.type === 'travel' && e.travel?.action === 'require_travel'
     );
     
-    if (choice.effects && choice.effects.length > 0) {
+    if (choiceEffects.length > 0) {
       // Apply player state effects
-      const playerResult = applyEffects(playerState, choice.effects, sceneNumber);
+      const playerResult = applyEffects(playerState, choiceEffects, sceneNumber);
       updatedPlayerState = playerResult.newState;
       effects = [...playerResult.appliedEffects];
       
       // Apply travel effects
-      const travelResult = processTravelEffects(choice.effects, travelState, worldData);
+      const travelResult = processTravelEffects(choiceEffects, travelState, worldData);
       updatedTravelState = travelResult.newTravelState;
       effects = [...effects, ...travelResult.appliedEffects];
-      newQuestsFromEffects = travelResult.newQuests;
+      
+      // Apply quest effects
+      const questResult = processQuestEffects(choiceEffects, sceneNumber);
+      effects = [...effects, ...questResult.appliedEffects];
+      newQuestsFromEffects = [...travelResult.newQuests, ...questResult.newQuests];
       
       setPlayerState(updatedPlayerState);
       setTravelState(updatedTravelState);
       if (newQuestsFromEffects.length > 0) {
-        setQuests(prev => [...prev, ...newQuestsFromEffects]);
+        // Повторный выбор той же сцены (replay) не дублирует квест
+        setQuests(prev => [...prev, ...newQuestsFromEffects.filter(q => !prev.some(p => p.id === q.id))]);
       }
       setLastAppliedEffects(effects);
       console.log('📊 Effects applied:', effects);
@@ -551,6 +739,79 @@ export const useWorldLore = () => {
       setLastAppliedEffects([]);
     }
     
+    // Health: old injuries bleed or heal, a failed fight and a dangerous road wound the hero
+    const wounds = [
+      getCombatInjury(choice, checkResult),
+      choice.travelTo
+        ? getRouteHazard(choice.travelTo.danger, rollD20(`${worldData.seed}:${sceneNumber}:route:${choice.travelTo.locationId}`))
+        : null
+    ];
+    let healthResult: HealthResult = tickInjuries(updatedPlayerState, sceneNumber);
+    for (const wound of wounds) {
+      if (!wound) continue;
+      const wounded = inflictInjury(healthResult.newState, wound, sceneNumber);
+      healthResult = { newState: wounded.newState, appliedEffects: [...healthResult.appliedEffects, ...wounded.appliedEffects] };
+    }
+    if (healthResult.appliedEffects.length > 0) {
+      updatedPlayerState = healthResult.newState;
+      effects = [...effects, ...healthResult.appliedEffects];
+      setPlayerState(updatedPlayerState);
+      setLastAppliedEffects(effects);
+    }
+    
+    // Запоминаем сцену с выбором и последствиями - до возможной остановки на карте
+    const updatedMemory = recordScene(narrativeMemory, {
+      scene: currentScene,
+      choice,
+      appliedEffects: effects,
+      scenario,
+      storyState
+    });
+    setNarrativeMemory(updatedMemory);
+    
+    // ========== DEATH: health reached zero - no Director, no next scene, defeat epilogue ==========
+    if (isDead(updatedPlayerState)) {
+      const death: HeroDeath = { cause: getDeathCause(updatedPlayerState, choice.text), sceneNumber };
+      const finalStoryState: StoryState = { ...storyState, isComplete: true };
+      console.log(`💀 Hero died: ${death.cause}. Chronicler is writing the epilogue...`);
+      setStoryState(finalStoryState);
+      
+      const { signal } = abortRef.current;
+      setIsGeneratingScene(true);
+      setError(null);
+      try {
+        const result = await generateEpilogue(
+          {
+            scenario,
+            lore,
+            hero: selectedCharacter,
+            storyState: finalStoryState,
+            playerState: updatedPlayerState,
+            travelState: updatedTravelState,
+            quests: [...quests, ...newQuestsFromEffects],
+            sceneNumber,
+            endType: 'defeat',
+            lastScene: currentScene.description,
+            death
+          },
+          { signal }
+        );
+        if (signal.aborted) return null;
+        
+        console.log(`📖 Epilogue: ${result.ending}`);
+        setEpilogue(result);
+        setCurrentScene(null);
+      } catch (err) {
+        if (signal.aborted) return null;
+        const errorMsg = err instanceof Error ? err.message : 'Failed to generate epilogue';
+        console.error('Epilogue generation failed:', errorMsg);
+        setError(errorMsg);
+      } finally {
+        if (!signal.aborted) setIsGeneratingScene(false);
+      }
+      return null;
+    }
+    
     // ========== REQUIRE_TRAVEL: Stop and wait for player to select destination on map ==========
     if (hasRequireTravelEffect) {
       console.log('🗺️ Travel quest created! Waiting for player to select destination on map...');
@@ -597,6 +858,7 @@ export const useWorldLore = () => {
       setPlayerState(updatedPlayerState);
     }
     
+    const { signal } = abortRef.current;
     setIsGeneratingScene(true);
     setError(null);
     
@@ -611,8 +873,10 @@ export const useWorldLore = () => {
         currentScene,
         choice.text,
         updatedPlayerState,
-        sceneNumber
+        sceneNumber,
+        { signal, memory: updatedMemory, checkResult: checkResult || undefined }
       );
+      if (signal.aborted) return null;
       
       console.log('📋 Director analysis:', directorAnalysis);
       
@@ -620,10 +884,29 @@ export const useWorldLore = () => {
       setStoryState(directorAnalysis.updatedStoryState);
       setLastDirective(directorAnalysis.directive);
       
-      // Check if story is complete
+      // Story is complete - EPILOGUE: ending + chronicle instead of the next scene
       if (directorAnalysis.updatedStoryState.isComplete) {
-        console.log('🏁 Story is complete!');
-        // Could show epilogue screen here
+        console.log('🏁 Story is complete! Chronicler is writing the epilogue...');
+        const result = await generateEpilogue(
+          {
+            scenario,
+            lore,
+            hero: selectedCharacter,
+            storyState: directorAnalysis.updatedStoryState,
+            playerState: updatedPlayerState,
+            travelState: updatedTravelState,
+            quests: [...quests, ...newQuestsFromEffects],
+            sceneNumber,
+            endType: directorAnalysis.directive.endType,
+            lastScene: currentScene.description
+          },
+          { signal }
+        );
+        if (signal.aborted) return null;
+        
+        console.log(`📖 Epilogue: ${result.ending}`);
+        setEpilogue(result);
+        setCurrentScene(null);
         setIsGeneratingScene(false);
         return null;
       }
@@ -699,8 +982,20 @@ export const useWorldLore = () => {
         directorAnalysis.updatedStoryState.storySummary,  // Pass story summary
         travelContextForScene,              // Pass travel context
         activeQuestsInfo,                   // Pass active quests
-        sceneType                           // Pass scene type
+        sceneType,                          // Pass scene type
+        {
+          signal,
+          storyState: directorAnalysis.updatedStoryState,  // For the Critic (act, epilogue)
+          memory: updatedMemory,                           // Past scenes relevant to this one
+          // Choices the hero still can't take - so the Showrunner stops offering them (same place only)
+          lockedChoices: sceneType === 'normal'
+            ? getLockedChoices(currentScene, updatedPlayerState, updatedTravelState, choice.id)
+            : undefined,
+          checkResult: checkResult || undefined,           // The roll the player saw - narrate it honestly
+          onProgress: partial => !signal.aborted && setStreamingScene(partial)  // Stream description/dialogue into SceneView
+        }
       );
+      if (signal.aborted) return null;
       
       console.log('Scene generated:', scene);
       
@@ -708,6 +1003,7 @@ export const useWorldLore = () => {
       // If the scene specifies a different location, update travelState
       // This handles cases where LLM generates travel/arrival scenes
       let finalTravelState = updatedTravelState;
+      let finalQuests = allQuests;
       
       // Check if scene has a locationId that differs from current
       let sceneLocationId = scene.locationId;
@@ -762,8 +1058,8 @@ export const useWorldLore = () => {
         }
         
         // Update quests on arrival
-        const updatedQuests = updateQuestsOnArrival(allQuests, sceneLocationId);
-        setQuests(updatedQuests);
+        finalQuests = updateQuestsOnArrival(allQuests, sceneLocationId);
+        setQuests(finalQuests);
       }
       // Also handle explicit travel departure  
       else if (updatedTravelState.traveling && sceneType === 'departure') {
@@ -790,8 +1086,14 @@ export const useWorldLore = () => {
         }
         
         // Update quests on arrival
-        const updatedQuests = updateQuestsOnArrival(allQuests, arrivedLocationId);
-        setQuests(updatedQuests);
+        finalQuests = updateQuestsOnArrival(allQuests, arrivedLocationId);
+        setQuests(finalQuests);
+      }
+      
+      // Новый визит: в таверне снова можно отдохнуть (health.restAtInn)
+      if (finalTravelState.currentLocationId !== travelState.currentLocationId && updatedPlayerState.restedAt) {
+        updatedPlayerState = { ...updatedPlayerState, restedAt: undefined };
+        setPlayerState(updatedPlayerState);
       }
       
       // Always update travelState
@@ -800,37 +1102,188 @@ export const useWorldLore = () => {
       setCurrentScene(scene);
       setSceneNumber(nextSceneNumber);
       setSceneHistory(newHistory);
+      
+      // Checkpoint: branch from the scene where the choice was made
+      setStoryTree(prev => addCheckpoint(prev, {
+        scene,
+        sceneNumber: nextSceneNumber,
+        sceneHistory: newHistory,
+        playerState: updatedPlayerState,
+        travelState: finalTravelState,
+        quests: finalQuests,
+        storyState: directorAnalysis.updatedStoryState,
+        lastDirective: directorAnalysis.directive,
+        narrativeMemory: updatedMemory,
+        worldState
+      }, { choice, reasoning: directorAnalysis.reasoning }));
       return scene;
     } catch (err) {
+      if (signal.aborted) return null;
       const errorMsg = err instanceof Error ? err.message : 'Failed to generate scene';
       console.error('Scene generation failed:', errorMsg);
       setError(errorMsg);
       return null;
     } finally {
-      setIsGeneratingScene(false);
+      if (!signal.aborted) {
+        setStreamingScene(null);
+        setIsGeneratingScene(false);
+      }
     }
-  }, [lore, scenario, selectedCharacter, currentScene, sceneNumber, sceneHistory, playerState, storyState]);
+  }, [lore, scenario, selectedCharacter, currentScene, sceneNumber, sceneHistory, playerState, storyState, narrativeMemory, quests]);
 
-  const clear = useCallback(() => {
-    setLore(null);
-    setScenario(null);
-    setCharacters([]);
-    setSelectedCharacter(null);
-    setCharacterContext(null);
+  // Действия с героем между сценами: таверна, лекарь, предметы, рынок. Не во время генерации и не после финала
+  const applyBetweenScenes = useCallback((action: (state: PlayerState) => HealthResult): boolean => {
+    if (isGeneratingScene || epilogue) {
+      setError('Cannot change the hero while the story is busy or finished');
+      return false;
+    }
+    try {
+      const result = action(playerState);
+      setPlayerState(result.newState);
+      if (result.appliedEffects.length > 0) {
+        setLastAppliedEffects(result.appliedEffects);
+      }
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+      return false;
+    }
+  }, [playerState, isGeneratingScene, epilogue]);
+
+  const restAtLocation = useCallback((location: Pick<POI, 'id' | 'type'>) => {
+    if (!canRestAt(location.type)) {
+      setError(`No inn in a ${location.type}`);
+      return false;
+    }
+    return applyBetweenScenes(state => restAtInn(state, location.id));
+  }, [applyBetweenScenes]);
+
+  const visitLocationHealer = useCallback((location: Pick<POI, 'type'>) => {
+    if (!canVisitHealerAt(location.type)) {
+      setError(`No healer in a ${location.type}`);
+      return false;
+    }
+    if (!needsHealing(playerState)) {
+      setError('The hero does not need a healer');
+      return false;
+    }
+    return applyBetweenScenes(visitHealer);
+  }, [applyBetweenScenes, playerState]);
+
+  // Использовать предмет: его useEffects применяются как эффекты выбора, расходник тратится
+  const applyItem = useCallback((itemId: string) =>
+    applyBetweenScenes(state => {
+      const item = findItem(state.inventory, itemId);
+      if (!item || !canUseItem(item)) {
+        throw new Error(`Item cannot be used: ${itemId}`);
+      }
+      const spent = item.type === 'consumable' ? { ...state, inventory: removeItem(state.inventory, item.id) } : state;
+      const result = applyEffects(spent, item.useEffects || [], sceneNumber);
+      return {
+        newState: result.newState,
+        appliedEffects: [{ description: getUIStrings().inventory.used(item.name), type: 'neutral', icon: '📦' }, ...result.appliedEffects]
+      };
+    }), [applyBetweenScenes, sceneNumber]);
+
+  const equipItem = useCallback((itemId: string) =>
+    applyBetweenScenes(state => ({
+      newState: { ...state, inventory: toggleEquip(state.inventory, itemId) },
+      appliedEffects: []
+    })), [applyBetweenScenes]);
+
+  // Рынок строит вызывающий (getMarket): цены зависят от WorldState из useWorldSimulation
+  const buyItem = useCallback((market: Market, itemId: string) =>
+    applyBetweenScenes(state => buyFromMerchant(state, market, itemId)), [applyBetweenScenes]);
+
+  const sellItem = useCallback((market: Market, itemId: string) =>
+    applyBetweenScenes(state => sellToMerchant(state, market, itemId)), [applyBetweenScenes]);
+
+  // Вернуться к сцене из дерева веток: следующий выбор станет новой веткой.
+  // WorldState из снимка восстанавливает вызывающий (симуляция живёт в useWorldSimulation)
+  const rewindToCheckpoint = useCallback((checkpointId: string): GameSnapshot | null => {
+    const checkpoint = storyTree.checkpoints[checkpointId];
+    if (!checkpoint) {
+      setError(`Unknown checkpoint: ${checkpointId}`);
+      return null;
+    }
+    
+    // Сцена, которая ещё генерируется для старой ветки, не должна в неё попасть
+    abortRef.current.abort();
+    abortRef.current = new AbortController();
+    
+    const { snapshot } = checkpoint;
+    setIsGeneratingScene(false);
+    setStreamingScene(null);
+    setCurrentScene(snapshot.scene);
+    setSceneNumber(snapshot.sceneNumber);
+    setSceneHistory(snapshot.sceneHistory);
+    setIsGameStarted(true);
+    setPlayerState(snapshot.playerState);
+    setLastAppliedEffects([]);
+    setLastCheckResult(null);
+    setStoryState(snapshot.storyState);
+    setLastDirective(snapshot.lastDirective);
+    setNarrativeMemory(snapshot.narrativeMemory);
+    setEpilogue(null);
+    setTravelState(snapshot.travelState);
+    setQuests(snapshot.quests);
+    setError(null);
+    setStoryTree(prev => moveToCheckpoint(prev, checkpointId));
+    console.log(`⏪ Rewound to scene #${snapshot.sceneNumber}`);
+    return snapshot;
+  }, [storyTree]);
+
+  // Сброс прохождения: сцены, состояние героя и истории (мир и лор не трогаем)
+  const resetGameState = useCallback(() => {
     setCurrentScene(null);
+    setStreamingScene(null);
     setSceneHistory([]);
     setSceneNumber(0);
     setIsGameStarted(false);
     setPlayerState(createInitialPlayerState());
     setLastAppliedEffects([]);
+    setLastCheckResult(null);
     setStoryState(null);
     setLastDirective(null);
+    setNarrativeMemory(createNarrativeMemory());
+    setEpilogue(null);
+    setStoryTree(createStoryTree());
     setTravelState(null);
     setQuests([]);
     setError(null);
-    clearDebugStore();
   }, []);
 
+  // Новая игра в том же мире: лор и персонажи остаются, герой и сценарий выбираются заново
+  const startNewGameInSameWorld = useCallback(() => {
+    abortRef.current.abort();
+    abortRef.current = new AbortController();
+    startUsageGame();
+    setIsGeneratingScenario(false);
+    setIsGeneratingScene(false);
+    setScenario(null);
+    setSelectedCharacter(null);
+    resetGameState();
+  }, [resetGameState]);
+
+  const clear = useCallback(() => {
+    // Отменяем запросы прошлой игры - их ответы не должны попасть в новую
+    abortRef.current.abort();
+    abortRef.current = new AbortController();
+    startUsageGame();
+    setIsGenerating(false);
+    setIsGeneratingCharacters(false);
+    setIsGeneratingScenario(false);
+    setIsGeneratingScene(false);
+    setLore(null);
+    setScenario(null);
+    setCharacters([]);
+    setSelectedCharacter(null);
+    setCharacterContext(null);
+    resetGameState();
+    clearDebugStore();
+  }, [resetGameState]);
+
   return {
     lore,
     scenario,
@@ -839,15 +1292,22 @@ export const useWorldLore = () => {
     characterContext,
     // Scene state
     currentScene,
+    streamingScene,
     sceneNumber,
     sceneHistory,
     isGameStarted,
     // Player state
     playerState,
     lastAppliedEffects,
+    lastCheckResult,
     // Story state (Director)
     storyState,
     lastDirective,
+    narrativeMemory,
+    // Epilogue
+    epilogue,
+    // Checkpoints & branches
+    storyTree,
     // Travel & Quest state
     travelState,
     quests,
@@ -864,6 +1324,14 @@ export const useWorldLore = () => {
     generateWorldScenario,
     startGame,
     continueWithChoice,
+    startNewGameInSameWorld,
+    rewindToCheckpoint,
+    restAtLocation,
+    visitLocationHealer,
+    applyItem,
+    equipItem,
+    buyItem,
+    sellItem,
     clear,
     // Debug
     debugStore,
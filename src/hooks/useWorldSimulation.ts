@@ -82,6 +82,16 @@ export const useWorldSimulation = (initialWorld: WorldData | null) => {
 
   // --- ACTIONS ---
 
+  // Пересоздать состояние под новый мир (например, при загрузке записанной сессии)
+  const resetWorld = useCallback((world: WorldData) => {
+    setState(generateInitialState(world));
+  }, []);
+
+  // Вернуть состояние из чекпоинта истории (перемотка к прошлой сцене)
+  const restoreWorld = useCallback((snapshot: WorldState) => {
+    setState(snapshot);
+  }, []);
+
   const advanceSeason = useCallback(() => {
     setState(prev => {
       if (!prev) return null;
@@ -352,6 +362,8 @@ export const useWorldSimulation = (initialWorld: WorldData | null) => {
   return {
     state,
     actions: {
+      resetWorld,
+      restoreWorld,
       advanceSeason,
       updateLocationState,
       updateKingdomState,
@@ -0,0 +1,254 @@
+import type { UIStrings } from '../types/i18n';
+
+export const en: UIStrings = {
+  status: {
+    year: 'Year:',
+    gold: 'Gold',
+    mana: 'Mana',
+    inventory: 'Inventory',
+    quests: 'Quests',
+    settings: 'Settings',
+    language: 'Language'
+  },
+
+  stats: {
+    gold: 'Gold',
+    reputation: 'Reputation',
+    influence: 'Influence',
+    health: 'Health'
+  },
+
+  scene: {
+    continueStory: 'Continue the story',
+    untitled: 'Scene',
+    writing: '✍️ Writing the scene...',
+    generating: '⏳ Generating...',
+    locked: 'Unavailable',
+    requirements: {
+      gold: (required, current) => `requires ${required} gold (you have ${current})`,
+      reputation: (required, current) => `requires reputation ${required} (you have ${current})`,
+      item: name => `requires item: ${name}`,
+      flag: flagId => `condition not met: ${flagId}`,
+      location: locationName => `location not unlocked: ${locationName}`
+    },
+    check: {
+      hint: (skill, difficulty) => `🎲 ${skill}, difficulty ${difficulty}`,
+      title: skill => `🎲 Check: ${skill}`,
+      versus: difficulty => `vs ${difficulty}`,
+      success: 'Success',
+      failure: 'Failure',
+      criticalSuccess: 'Critical success!',
+      criticalFailure: 'Critical failure!',
+      modifiers: {
+        skill: 'skill',
+        stat: 'stat',
+        health: 'wounds',
+        injury: 'injuries',
+        load: 'overload',
+        item: 'item',
+        relationship: 'relationship'
+      }
+    }
+  },
+
+  travel: {
+    title: '🗺️ Travel',
+    departFrom: name => `Depart from ${name}`,
+    quest: reason => `Quest: ${reason}`,
+    questGoal: 'Goal: reach the location',
+    untilScene: scene => ` by scene ${scene}`,
+    confirm: name => `Travel to ${name}?`,
+    cost: gold => `${gold} gold`,
+    questTarget: '⭐ This is your quest destination!',
+    cancel: 'Cancel',
+    travelling: '⏳ Travelling...',
+    depart: '🚶 Set out',
+    availableRoutes: 'Available routes',
+    notEnoughGold: 'Not enough gold',
+    lockedRoutes: '🔒 Locked routes',
+    requiresQuest: 'Requires a quest',
+    noRoutes: 'No routes lead out of this location',
+    hint: 'Travel costs time and gold',
+    stay: 'Stay here',
+    days: days => `${days} ${days === 1 ? 'day' : 'days'} of travel`,
+    danger: {
+      safe: 'Safe road',
+      risky: 'Risky road',
+      dangerous: 'Dangerous road'
+    }
+  },
+
+  location: {
+    emptyTitle: 'Select a Location',
+    emptyHint: 'Click on a city or capital on the map to view details.',
+    start: '▶ START',
+    knownFor: 'Known for:',
+    ruler: 'Ruler',
+    population: 'Population',
+    defense: 'Defense',
+    defenseHigh: 'High',
+    defenseMedium: 'Medium',
+    biome: 'Biome',
+    climate: 'Climate',
+    enterCity: 'Explore the city',
+    startGameFirst: 'Start the game',
+    rest: cost => `Rest at the inn (${cost} gold)`,
+    healer: cost => `Visit a healer (${cost} gold)`,
+    healthy: 'The hero is healthy',
+    rested: 'You have already rested here - you can rest again after leaving this place',
+    notEnoughGold: 'Not enough gold',
+    placeholder: 'Placeholder',
+    climateLands: {
+      NORTH: 'harsh frozen lands',
+      CENTRAL: 'temperate heartlands',
+      SOUTH: 'sun-scorched territories'
+    },
+    fallbackDescription: ({ isCapital, lands, kingdomName, biome }) =>
+      `A ${isCapital ? 'grand capital' : 'bustling settlement'} in the ${lands} of ${kingdomName}. ` +
+      `Known for its ${biome} surroundings and ancient heritage.`
+  },
+
+  health: {
+    severity: {
+      light: 'light',
+      serious: 'serious',
+      critical: 'critical'
+    },
+    injured: (severity, name) => `Wound (${severity}): ${name}`,
+    defaultInjury: 'Wound',
+    treated: name => `Treated: ${name}`,
+    healed: name => `Healed: ${name}`,
+    bleeding: amount => `Bleeding: -${amount}`,
+    hazards: {
+      bruises: 'Bruised on the road',
+      ambush: 'Ambush wound',
+      combat: 'Wound from a fight'
+    }
+  },
+
+  story: {
+    milestones: {
+      act1_setup: 'The story begins',
+      act1_incident: 'The inciting incident',
+      act2_confrontation: 'First confrontation',
+      act2_midpoint: 'Point of no return',
+      act3_crisis: 'Crisis',
+      act3_climax: 'Climax'
+    },
+    openingFocus: 'The beginning of the story'
+  },
+
+  epilogue: {
+    title: '📖 Epilogue',
+    endings: {
+      triumph: '🏆 Triumph',
+      bittersweet: '⚖️ Victory at a cost',
+      tragic: '🕯️ Tragedy'
+    },
+    hero: 'The hero',
+    npcs: 'Companions and foes',
+    kingdoms: 'The kingdoms',
+    statistics: 'Summary',
+    death: (cause, sceneNumber) => `💀 The hero died in scene ${sceneNumber}: ${cause}`,
+    stats: {
+      scenes: 'Scenes',
+      gold: 'Gold',
+      reputation: 'Reputation',
+      influence: 'Influence',
+      health: 'Health',
+      items: 'Items',
+      allies: 'Allies',
+      enemies: 'Enemies',
+      fallen: 'Fallen',
+      locationsVisited: 'Places visited',
+      questsCompleted: 'Quests completed',
+      milestonesReached: 'Milestones',
+      milestonesTotal: 'Total milestones',
+      threadsPaidOff: 'Story threads closed',
+      threadsTotal: 'Total threads'
+    },
+    newGame: 'New game in this world',
+    newGameHint: 'The world and its history remain; the hero and the scenario will be new'
+  },
+
+  branches: {
+    title: '🌿 Story branches',
+    summary: (scenes, leaves) => `Scenes: ${scenes} · branches: ${leaves}`,
+    scene: sceneNumber => `Scene ${sceneNumber}`,
+    act: act => `Act ${act}`,
+    current: 'you are here',
+    rewind: '⏪ Rewind',
+    rewindHint: 'Return to this scene and choose differently - a new branch will appear',
+    empty: 'No scenes yet'
+  },
+
+  inventory: {
+    title: '🎒 Inventory',
+    empty: 'The bag is empty',
+    weight: (carried, max) => `Weight: ${carried} / ${max}`,
+    overloaded: 'Overloaded: -2 to checks',
+    value: gold => `${gold} gold`,
+    use: 'Use',
+    equip: 'Equip',
+    unequip: 'Unequip',
+    equipped: 'equipped',
+    received: name => `Received: ${name}`,
+    lost: name => `Lost: ${name}`,
+    used: name => `Used: ${name}`,
+    types: {
+      weapon: 'Weapon',
+      armor: 'Armor',
+      consumable: 'Consumable',
+      key: 'Quest item',
+      document: 'Document',
+      treasure: 'Treasure',
+      goods: 'Trade goods'
+    },
+    slots: {
+      weapon: 'weapon',
+      armor: 'armor',
+      trinket: 'trinket'
+    }
+  },
+
+  trade: {
+    title: '⚖️ Market',
+    trader: 'Merchant instinct: discount and better buyback',
+    buy: 'Buy',
+    sell: 'Sell',
+    local: 'local',
+    imported: 'imported',
+    stock: count => `in stock: ${count}`,
+    price: gold => `${gold} gold`,
+    nothingToBuy: 'The merchant has nothing to offer',
+    nothingToSell: 'Nothing to sell',
+    bought: name => `Bought: ${name}`,
+    sold: name => `Sold: ${name}`,
+    goods: {
+      grain: 'Sack of grain',
+      salted_fish: 'Salted fish',
+      dried_meat: 'Dried meat',
+      furs: 'Bundle of furs',
+      timber: 'Timber',
+      iron_ingot: 'Iron ingot',
+      forged_sword: 'Forged sword',
+      chainmail: 'Chainmail',
+      spices: 'Spices',
+      silk: 'Bolt of silk',
+      wine: 'Cask of wine',
+      healing_herbs: 'Healing herbs',
+      healing_potion: 'Healing potion',
+      bandages: 'Bandages'
+    },
+    conditions: {
+      war: '⚔️ War: arms cost more',
+      siege: '🏰 Siege: everything is scarce',
+      damaged: '🔥 The city is ravaged',
+      famine: '🌾 Famine: food costs more',
+      rich: '👑 Rich treasury',
+      poor: '🪙 Empty treasury',
+      winter: '❄️ Winter: food costs more',
+      harvest: '🍂 Harvest: food is cheaper'
+    }
+  }
+};
@@ -0,0 +1,57 @@
+// ============ GAME LANGUAGE ============
+// Язык игры: строки интерфейса, промпты агентов, пулы имён кварталов.
+// Смена языка посреди кампании не трогает уже сгенерированный лор -
+// на новом языке пишется только новый контент.
+
+import type { GameLanguage, UIStrings } from '../types/i18n';
+import { ru } from './ru';
+import { en } from './en';
+
+export const UI_STRINGS: Record<GameLanguage, UIStrings> = { ru, en };
+
+export const LANGUAGES: { code: GameLanguage; label: string }[] = [
+  { code: 'ru', label: 'Русский' },
+  { code: 'en', label: 'English' }
+];
+
+const STORAGE_KEY = 'narrator-language';
+
+const isGameLanguage = (value: unknown): value is GameLanguage =>
+  typeof value === 'string' && value in UI_STRINGS;
+
+// localStorage > VITE_GAME_LANGUAGE > ru
+const getInitialLanguage = (): GameLanguage => {
+  try {
+    const stored = globalThis.localStorage?.getItem(STORAGE_KEY);
+    if (isGameLanguage(stored)) return stored;
+  } catch {
+    // localStorage недоступен (приватный режим) - берём язык по умолчанию
+  }
+  const fromEnv = import.meta.env.VITE_GAME_LANGUAGE;
+  return isGameLanguage(fromEnv) ? fromEnv : 'ru';
+};
+
+let currentLanguage: GameLanguage = getInitialLanguage();
+const languageListeners: Set<(language: GameLanguage) => void> = new Set();
+
+export const getLanguage = (): GameLanguage => currentLanguage;
+
+export const setLanguage = (language: GameLanguage) => {
+  if (language === currentLanguage) return;
+  currentLanguage = language;
+  try {
+    globalThis.localStorage?.setItem(STORAGE_KEY, language);
+  } catch {
+    // Не сохранится между сессиями - не критично
+  }
+  languageListeners.forEach(listener => listener(language));
+};
+
+export const subscribeToLanguage = (listener: (language: GameLanguage) => void) => {
+  languageListeners.add(listener);
+  return () => {
+    languageListeners.delete(listener);
+  };
+};
+
+export const getUIStrings = (language: GameLanguage = currentLanguage): UIStrings => UI_STRINGS[language];
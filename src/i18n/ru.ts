@@ -0,0 +1,258 @@
+import type { UIStrings } from '../types/i18n';
+
+export const ru: UIStrings = {
+  status: {
+    year: 'Год:',
+    gold: 'золота',
+    mana: 'маны',
+    inventory: 'Инвентарь',
+    quests: 'Квесты',
+    settings: 'Настройки',
+    language: 'Язык'
+  },
+
+  stats: {
+    gold: 'Золото',
+    reputation: 'Репутация',
+    influence: 'Влияние',
+    health: 'Здоровье'
+  },
+
+  scene: {
+    continueStory: 'Продолжить историю',
+    untitled: 'Сцена',
+    writing: '✍️ Сцена пишется...',
+    generating: '⏳ Генерация...',
+    locked: 'Недоступно',
+    requirements: {
+      gold: (required, current) => `нужно ${required} золота (у вас ${current})`,
+      reputation: (required, current) => `нужна репутация ${required} (у вас ${current})`,
+      item: name => `нужен предмет: ${name}`,
+      flag: flagId => `условие не выполнено: ${flagId}`,
+      location: locationName => `локация не открыта: ${locationName}`
+    },
+    check: {
+      hint: (skill, difficulty) => `🎲 ${skill}, сложность ${difficulty}`,
+      title: skill => `🎲 Проверка: ${skill}`,
+      versus: difficulty => `против ${difficulty}`,
+      success: 'Успех',
+      failure: 'Провал',
+      criticalSuccess: 'Критический успех!',
+      criticalFailure: 'Критический провал!',
+      modifiers: {
+        skill: 'навык',
+        stat: 'характеристика',
+        health: 'раны',
+        injury: 'ранения',
+        load: 'перегруз',
+        item: 'предмет',
+        relationship: 'отношения'
+      }
+    }
+  },
+
+  travel: {
+    title: '🗺️ Путешествие',
+    departFrom: name => `Отправиться из ${name}`,
+    quest: reason => `Квест: ${reason}`,
+    questGoal: 'Цель: доберитесь до локации',
+    untilScene: scene => ` до сцены ${scene}`,
+    confirm: name => `Отправиться в ${name}?`,
+    cost: gold => `${gold} золота`,
+    questTarget: '⭐ Это цель вашего квеста!',
+    cancel: 'Отмена',
+    travelling: '⏳ Путешествие...',
+    depart: '🚶 Отправиться',
+    availableRoutes: 'Доступные маршруты',
+    notEnoughGold: 'Недостаточно золота',
+    lockedRoutes: '🔒 Заблокированные маршруты',
+    requiresQuest: 'Требуется квест',
+    noRoutes: 'Нет доступных маршрутов из этой локации',
+    hint: 'Путешествие занимает время и золото',
+    stay: 'Остаться здесь',
+    days: days => {
+      if (days === 1) return '1 день пути';
+      if (days < 5) return `${days} дня пути`;
+      return `${days} дней пути`;
+    },
+    danger: {
+      safe: 'Безопасный путь',
+      risky: 'Рискованный путь',
+      dangerous: 'Опасный путь'
+    }
+  },
+
+  location: {
+    emptyTitle: 'Выберите локацию',
+    emptyHint: 'Нажмите на город или столицу на карте, чтобы увидеть подробности.',
+    start: '▶ СТАРТ',
+    knownFor: 'Известен:',
+    ruler: 'Правитель',
+    population: 'Население',
+    defense: 'Оборона',
+    defenseHigh: 'Высокая',
+    defenseMedium: 'Средняя',
+    biome: 'Биом',
+    climate: 'Климат',
+    enterCity: 'Исследовать город',
+    startGameFirst: 'Начните игру',
+    rest: cost => `Отдохнуть в таверне (${cost} золота)`,
+    healer: cost => `Лекарь (${cost} золота)`,
+    healthy: 'Герой здоров',
+    rested: 'Вы уже отдохнули здесь - снова только после того, как покинете это место',
+    notEnoughGold: 'Не хватает золота',
+    placeholder: 'Заглушка',
+    climateLands: {
+      NORTH: 'суровых северных землях',
+      CENTRAL: 'умеренных срединных землях',
+      SOUTH: 'выжженных солнцем землях'
+    },
+    fallbackDescription: ({ isCapital, lands, kingdomName, biome }) =>
+      `${isCapital ? 'Величественная столица' : 'Оживлённое поселение'} в ${lands} королевства ${kingdomName}. ` +
+      `Славится окрестностями (${biome}) и древним наследием.`
+  },
+
+  health: {
+    severity: {
+      light: 'лёгкое',
+      serious: 'серьёзное',
+      critical: 'тяжёлое'
+    },
+    injured: (severity, name) => `Ранение (${severity}): ${name}`,
+    defaultInjury: 'Ранение',
+    treated: name => `Вылечено: ${name}`,
+    healed: name => `Зажило: ${name}`,
+    bleeding: amount => `Кровотечение: -${amount}`,
+    hazards: {
+      bruises: 'Ушибы в дороге',
+      ambush: 'Рана от засады',
+      combat: 'Рана в схватке'
+    }
+  },
+
+  story: {
+    milestones: {
+      act1_setup: 'Завязка истории',
+      act1_incident: 'Инцидент произошёл',
+      act2_confrontation: 'Первое столкновение',
+      act2_midpoint: 'Точка невозврата',
+      act3_crisis: 'Кризис',
+      act3_climax: 'Кульминация'
+    },
+    openingFocus: 'Начало истории'
+  },
+
+  epilogue: {
+    title: '📖 Эпилог',
+    endings: {
+      triumph: '🏆 Триумф',
+      bittersweet: '⚖️ Победа с ценой',
+      tragic: '🕯️ Трагедия'
+    },
+    hero: 'Судьба героя',
+    npcs: 'Судьбы спутников',
+    kingdoms: 'Судьбы королевств',
+    statistics: 'Итоги',
+    death: (cause, sceneNumber) => `💀 Герой погиб в сцене ${sceneNumber}: ${cause}`,
+    stats: {
+      scenes: 'Сцен',
+      gold: 'Золото',
+      reputation: 'Репутация',
+      influence: 'Влияние',
+      health: 'Здоровье',
+      items: 'Предметов',
+      allies: 'Союзников',
+      enemies: 'Врагов',
+      fallen: 'Погибших',
+      locationsVisited: 'Посещено мест',
+      questsCompleted: 'Квестов выполнено',
+      milestonesReached: 'Milestones',
+      milestonesTotal: 'Всего milestones',
+      threadsPaidOff: 'Сюжетных линий закрыто',
+      threadsTotal: 'Всего линий'
+    },
+    newGame: 'Новая игра в этом мире',
+    newGameHint: 'Мир и его история останутся, герой и сценарий будут новыми'
+  },
+
+  branches: {
+    title: '🌿 Ветки истории',
+    summary: (scenes, leaves) => `Сцен: ${scenes} · веток: ${leaves}`,
+    scene: sceneNumber => `Сцена ${sceneNumber}`,
+    act: act => `Акт ${act}`,
+    current: 'вы здесь',
+    rewind: '⏪ Вернуться',
+    rewindHint: 'Вернуться к этой сцене и выбрать иначе - появится новая ветка',
+    empty: 'Сцен пока нет'
+  },
+
+  inventory: {
+    title: '🎒 Инвентарь',
+    empty: 'Сумка пуста',
+    weight: (carried, max) => `Вес: ${carried} / ${max}`,
+    overloaded: 'Перегруз: -2 к проверкам',
+    value: gold => `${gold} зол.`,
+    use: 'Использовать',
+    equip: 'Надеть',
+    unequip: 'Снять',
+    equipped: 'надет',
+    received: name => `Получено: ${name}`,
+    lost: name => `Потеряно: ${name}`,
+    used: name => `Использовано: ${name}`,
+    types: {
+      weapon: 'Оружие',
+      armor: 'Доспех',
+      consumable: 'Расходник',
+      key: 'Сюжетный',
+      document: 'Документ',
+      treasure: 'Ценность',
+      goods: 'Товар'
+    },
+    slots: {
+      weapon: 'оружие',
+      armor: 'доспех',
+      trinket: 'украшение'
+    }
+  },
+
+  trade: {
+    title: '⚖️ Рынок',
+    trader: 'Торговая жилка: скидка и лучший выкуп',
+    buy: 'Купить',
+    sell: 'Продать',
+    local: 'местное',
+    imported: 'привозное',
+    stock: count => `в наличии: ${count}`,
+    price: gold => `${gold} зол.`,
+    nothingToBuy: 'Торговцу нечего предложить',
+    nothingToSell: 'Продать нечего',
+    bought: name => `Куплено: ${name}`,
+    sold: name => `Продано: ${name}`,
+    goods: {
+      grain: 'Мешок зерна',
+      salted_fish: 'Солёная рыба',
+      dried_meat: 'Вяленое мясо',
+      furs: 'Связка мехов',
+      timber: 'Строевой лес',
+      iron_ingot: 'Слиток железа',
+      forged_sword: 'Кованый меч',
+      chainmail: 'Кольчуга',
+      spices: 'Пряности',
+      silk: 'Рулон шёлка',
+      wine: 'Бочонок вина',
+      healing_herbs: 'Целебные травы',
+      healing_potion: 'Целебное зелье',
+      bandages: 'Бинты'
+    },
+    conditions: {
+      war: '⚔️ Война: оружие дороже',
+      siege: '🏰 Осада: всё дефицит',
+      damaged: '🔥 Город разорён',
+      famine: '🌾 Голод: еда дороже',
+      rich: '👑 Богатая казна',
+      poor: '🪙 Пустая казна',
+      winter: '❄️ Зима: еда дороже',
+      harvest: '🍂 Урожай: еда дешевле'
+    }
+  }
+};
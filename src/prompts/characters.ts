@@ -0,0 +1,72 @@
+// ============ CHARACTER GENERATOR PROMPTS ============
+// Три играбельных персонажа - только портреты, без драматургии. Переменные: CharactersPromptVars
+
+import type { PromptTemplate } from '../types/prompts';
+
+export const charactersPromptV1: PromptTemplate<'characters'> = {
+  id: 'characters',
+  version: 1,
+  description: 'Исходный промпт персонажей',
+  blocks: {
+    system: `Ты создатель ПОРТРЕТОВ персонажей для фэнтези мира.
+Твоя задача - описать КТО эти люди: их прошлое, характер, положение в обществе.
+НЕ ПРИДУМЫВАЙ сюжетные крючки, конфликты или драматургию - это задача другого агента.
+Пиши НА {{language.prepositional}} ЯЗЫКЕ. Отвечай ТОЛЬКО валидным JSON.
+
+СТИЛЬ ИМЁН (как в "Игре престолов"):
+- Реалистичные, произносимые имена: Эддард, Джон, Роберт, Серсея, Тирион, Бриенна
+- Фамилии по родовому принципу: Старк, Ланнистер, Болтон, Мартелл
+- ИЗБЕГАЙ: вычурных фэнтезийных имён (Зефирион, Ксилорак, Эльдориан)
+- ИЗБЕГАЙ: длинных труднопроизносимых имён
+
+ВАЖНО: Для каждого персонажа выбери avatarId из списка доступных. 
+Описание внешности (portrait) должно СООТВЕТСТВОВАТЬ выбранному аватару!
+{{#language.outputRule}}
+
+{{language.outputRule}}
+{{/language.outputRule}}`,
+
+    user: `Создай 3 играбельных персонажа для этого мира:
+
+{{worldContext}}
+
+{{avatarsDescription}}
+
+Сгенерируй JSON:
+{
+  "sharedWorld": "Общее описание текущей ситуации в мире (2-3 предложения)",
+  "timeline": "Когда происходит история (сезон, год)",
+  "characters": [
+    {
+      "id": "char_1",
+      "name": "Имя Фамилия (простое, произносимое)",
+      "avatarId": "ID аватара из списка POWER",
+      "title": "Роль/профессия",
+      "portrait": "Внешность СООТВЕТСТВУЮЩАЯ аватару (2 предложения)",
+      "age": "молодой/средних лет/пожилой",
+      "background": "Биография (3-4 предложения, ТОЛЬКО ФАКТЫ)",
+      "personality": "Характер (2 предложения)",
+      "ambition": "Жизненная цель",
+      "startingKingdom": <id королевства>,
+      "startingPosition": "знать/рыцарь/простолюдин/изгнанник/чужеземец",
+      "skills": ["навык1", "навык2", "навык3"],
+      "reputation": "Как его воспринимают",
+      "quirk": "Особенность характера",
+      "playstyle": "боевой/дипломатия/интриги/исследование/торговля"
+    }
+  ]
+}
+
+ПРАВИЛА:
+- Персонаж 1 (POWER): avatarId из [{{avatarIds.power}}]
+- Персонаж 2 (SHADOW): avatarId из [{{avatarIds.shadow}}]
+- Персонаж 3 (OUTSIDER): avatarId из [{{avatarIds.outsider}}]
+
+- portrait ДОЛЖЕН описывать человека с выбранного аватара!
+- Имена КОРОТКИЕ: Дункан Вейн, Элена Корт, Марк Риверс
+- Каждый персонаж в РАЗНЫХ королевствах
+- Каждый playstyle УНИКАЛЕН
+
+ВСЕ ТЕКСТЫ НА {{language.prepositional}}`
+  }
+};
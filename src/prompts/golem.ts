@@ -0,0 +1,110 @@
+// ============ GOLEM PROMPTS ============
+// Лор мира по данным генератора. Переменные: GolemPromptVars
+
+import type { PromptTemplate } from '../types/prompts';
+
+export const golemPromptV1: PromptTemplate<'golem'> = {
+  id: 'golem',
+  version: 1,
+  description: 'Исходный промпт лора мира',
+  blocks: {
+    system: `Ты мастер-создатель фэнтези миров. Пишешь атмосферные описания как древний летописец.
+Каждое королевство должно быть уникальным в зависимости от климата и географии.
+ВСЕГДА отвечай ТОЛЬКО валидным JSON - без markdown, без пояснений.
+{{#language.outputRule}}
+
+{{language.outputRule}}
+{{/language.outputRule}}`,
+
+    user: `Создай детальный лор для этого мира НА {{language.prepositional}} ЯЗЫКЕ:
+
+{{worldContext}}
+
+ДОСТУПНЫЕ ИЗОБРАЖЕНИЯ ГОРОДОВ (используй эти ключевые слова для поля "specialty"):
+
+Северный климат (NORTH):
+{{#townImages.NORTH}}
+{{.}}
+{{/townImages.NORTH}}
+
+Центральный климат (CENTRAL):
+{{#townImages.CENTRAL}}
+{{.}}
+{{/townImages.CENTRAL}}
+
+Южный климат (SOUTH):
+{{#townImages.SOUTH}}
+{{.}}
+{{/townImages.SOUTH}}
+
+Сгенерируй JSON СТРОГО по этой структуре (ВСЕ ТЕКСТЫ НА {{language.prepositional}}):
+{
+  "worldName": "Эпическое название континента",
+  "worldDescription": "2-3 предложения описывающих характер континента",
+  "era": "Название текущей эпохи (напр. Эпоха Раздора)",
+  "majorEvents": [
+    "Историческое событие 1 (одно предложение)",
+    "Историческое событие 2 (одно предложение)", 
+    "Историческое событие 3 (одно предложение)"
+  ],
+  "kingdoms": [
+    {
+      "id": <id королевства из данных>,
+      "name": "<ТОЧНОЕ имя из данных>",
+      "motto": "Девиз королевства (2-5 слов)",
+      "culture": "2-3 предложения о народе, обычаях, образе жизни",
+      "history": "2-3 предложения об истории королевства, основании, ключевых событиях",
+      "religion": "Во что верят или кому поклоняются (1 предложение)",
+      "traits": ["черта1", "черта2", "черта3"],
+      "relations": "1-2 предложения об отношениях с соседями",
+      "capital": {
+        "id": "<id столицы из данных>",
+        "name": "<имя столицы из данных>",
+        "description": "2 предложения о столице",
+        "specialty": "ИСПОЛЬЗУЙ КЛЮЧЕВЫЕ СЛОВА ИЗ СПИСКА ВЫШЕ по климату города",
+        "landmark": "Известное здание или место",
+        "mood": "Одно слово - атмосфера (оживлённый/древний/воинственный/мистический)"
+      },
+      "cities": [
+        {
+          "id": "<id города из данных>",
+          "name": "<имя города из данных>",
+          "description": "1-2 предложения о городе",
+          "specialty": "КЛЮЧЕВЫЕ СЛОВА ИЗ СПИСКА - напр. 'fishing', 'mining', 'buffalo breeding', 'lumber'",
+          "landmark": "Примечательное место",
+          "mood": "Одно слово - атмосфера"
+        }
+      ],
+      "initialState": {
+        "rulerName": "Полное имя правителя",
+        "rulerTitle": "Король/Королева/Верховный Лорд/Архонт/Ярл/и т.д.",
+        "rulerPersonality": "Aggressive|Diplomatic|Balanced|Defensive|Expansionist",
+        "militaryStrength": <400-900>,
+        "gold": <600-1800>,
+        "mana": <150-700>,
+        "food": <600-1400>
+      }
+    }
+  ],
+  "legends": [
+    "Миф или легенда известная по всему миру",
+    "Другая легенда или пророчество"
+  ]
+}
+
+ВАЖНЫЕ ПРАВИЛА:
+- NORTH климат: Скандинавский/Славянский стиль, суровые воины, высокая военная мощь (700-900), мало маны (150-300), титулы типа Ярл/Верховный Король
+- SOUTH климат: Средиземноморский/Арабский стиль, мистики, много маны (500-700), титулы типа Архонт/Султан  
+- CENTRAL климат: Феодальный/сбалансированный, интриги, титулы типа Король/Герцог
+- ДЛЯ КАЖДОГО ГОРОДА: Выбери specialty используя КЛЮЧЕВЫЕ СЛОВА из списка изображений!
+  * FOREST биом → lumber, logging, hunters, woodcutting, forest
+  * HILLS биом → mining, quarry, hills, terraces
+  * PLAINS биом → farming, village, trade, market, buffalo, savannah
+  * Прибрежные королевства → fishing, port, harbor, coast
+- specialty должен быть УНИКАЛЬНЫМ для каждого города в королевстве!
+- Столица должна быть величественнее обычных городов
+- Включи ВСЕ города из данных - не пропускай!
+- Используй ТОЧНЫЕ id и имена из входных данных
+- ОТВЕЧАЙ ТОЛЬКО ВАЛИДНЫМ JSON`
+  }
+};
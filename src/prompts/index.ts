@@ -0,0 +1,34 @@
+// ============ PROMPT TEMPLATES ============
+// Все версии шаблонов промптов. Новая версия - новый объект рядом со старой
+// (напр. showrunnerPromptV2) и строка здесь; старые версии остаются для сравнения.
+
+import type { PromptTemplate } from '../types/prompts';
+import { golemPromptV1 } from './golem';
+import { charactersPromptV1 } from './characters';
+import { narratorPromptV1 } from './narrator';
+import { showrunnerPromptV1, showrunnerPromptV2, showrunnerPromptV3, showrunnerPromptV4, showrunnerPromptV5, showrunnerPromptV6, showrunnerPromptV7, showrunnerPromptV8 } from './showrunner';
+import { directorPromptV1, directorPromptV2, directorPromptV3, directorPromptV4, directorPromptV5 } from './director';
+import { criticPromptV1 } from './critic';
+import { chroniclerPromptV1, chroniclerPromptV2 } from './chronicler';
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  golemPromptV1,
+  charactersPromptV1,
+  narratorPromptV1,
+  showrunnerPromptV1,
+  showrunnerPromptV2,
+  showrunnerPromptV3,
+  showrunnerPromptV4,
+  showrunnerPromptV5,
+  showrunnerPromptV6,
+  showrunnerPromptV7,
+  showrunnerPromptV8,
+  directorPromptV1,
+  directorPromptV2,
+  directorPromptV3,
+  directorPromptV4,
+  directorPromptV5,
+  criticPromptV1,
+  chroniclerPromptV1,
+  chroniclerPromptV2
+];
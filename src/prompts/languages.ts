@@ -0,0 +1,23 @@
+// ============ PROMPT LANGUAGES ============
+// Язык, на котором агенты пишут тексты. Шаблоны написаны по-русски;
+// для другого языка добавляется outputRule - явное правило вывода.
+
+import type { GameLanguage } from '../types/i18n';
+import type { PromptLanguage } from '../types/prompts';
+
+export const PROMPT_LANGUAGES: Record<GameLanguage, PromptLanguage> = {
+  ru: {
+    code: 'ru',
+    name: 'Русский',
+    prepositional: 'РУССКОМ',
+    outputRule: ''
+  },
+  en: {
+    code: 'en',
+    name: 'Английский',
+    prepositional: 'АНГЛИЙСКОМ',
+    outputRule: 'ЯЗЫК ВЫВОДА: ВСЕ тексты (названия, описания, реплики, варианты выбора) пиши НА АНГЛИЙСКОМ. ' +
+      'Ключи JSON, id и значения-перечисления (pacing, type, danger и т.п.) не переводи. ' +
+      'Русские названия из контекста оставляй как есть.'
+  }
+};
@@ -0,0 +1,193 @@
+// ============ AGENT SCHEDULER ============
+// Общая очередь вызовов LLM: приоритеты, лимит параллельных запросов и rate limit по провайдерам.
+// Сцену игрок ждёт прямо сейчас - она не должна стоять за фоновой генерацией лора.
+//
+// VITE_LLM_MAX_CONCURRENCY - одновременных запросов (по умолчанию 2)
+// VITE_LLM_RATE_LIMIT_<PROVIDER> / VITE_LLM_RATE_LIMIT - запросов в минуту (по умолчанию без лимита)
+
+import type { AgentRole, AgentPriority, ScheduledAgentCall, SchedulerConfig } from '../types/agents';
+import { createAbortError } from './llmRetry';
+
+const DEFAULT_MAX_CONCURRENCY = 2;
+const RATE_WINDOW_MS = 60000;
+
+const PRIORITY_ORDER: Record<AgentPriority, number> = { high: 0, normal: 1, low: 2 };
+
+// Сцена, директива, проверка сцены и финал - игрок ждёт; сценарий и персонажи - подготовка игры; лор - фон
+const AGENT_PRIORITIES: Record<AgentRole, AgentPriority> = {
+  SHOWRUNNER: 'high',
+  DIRECTOR: 'high',
+  CRITIC: 'high',
+  CHRONICLER: 'high',
+  NARRATOR: 'normal',
+  CHARACTER_GENERATOR: 'normal',
+  GOLEM: 'low'
+};
+
+export const getAgentPriority = (agent?: AgentRole): AgentPriority =>
+  agent ? AGENT_PRIORITIES[agent] : 'low';
+
+const parseLimit = (value: string | undefined): number | undefined => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+let config: SchedulerConfig = {
+  maxConcurrency: Math.max(1, parseLimit(import.meta.env.VITE_LLM_MAX_CONCURRENCY) ?? DEFAULT_MAX_CONCURRENCY),
+  rateLimits: {}
+};
+
+export const getSchedulerConfig = (): SchedulerConfig => config;
+
+export const setSchedulerConfig = (updates: Partial<SchedulerConfig>) => {
+  config = { ...config, ...updates, maxConcurrency: Math.max(1, updates.maxConcurrency ?? config.maxConcurrency) };
+  pump();
+};
+
+// Запросов в минуту для провайдера: setSchedulerConfig > env провайдера > общий env; 0 - без лимита
+const getRateLimit = (provider: string): number =>
+  config.rateLimits[provider]
+    ?? parseLimit(import.meta.env[`VITE_LLM_RATE_LIMIT_${provider.toUpperCase()}`])
+    ?? parseLimit(import.meta.env.VITE_LLM_RATE_LIMIT)
+    ?? 0;
+
+// ============ QUEUE ============
+
+interface QueueEntry {
+  call: ScheduledAgentCall;
+  start: () => void;
+}
+
+let entries: QueueEntry[] = [];       // В очереди и выполняющиеся
+let runningCount = 0;
+let callCounter = 0;
+let wakeTimer: ReturnType<typeof setTimeout> | undefined;
+const requestHistory = new Map<string, number[]>();   // provider -> время стартов за последнюю минуту
+const schedulerListeners: Set<(calls: ScheduledAgentCall[]) => void> = new Set();
+
+const byPriority = (a: ScheduledAgentCall, b: ScheduledAgentCall) =>
+  PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.enqueuedAt - b.enqueuedAt;
+
+/**
+ * Снимок очереди: сначала выполняющиеся, затем ожидающие в порядке запуска
+ */
+export const getScheduledCalls = (): ScheduledAgentCall[] => {
+  const calls = entries.map(entry => entry.call);
+  return [
+    ...calls.filter(call => call.status === 'running'),
+    ...calls.filter(call => call.status === 'queued').sort(byPriority)
+  ];
+};
+
+export const subscribeToScheduler = (listener: (calls: ScheduledAgentCall[]) => void) => {
+  schedulerListeners.add(listener);
+  return () => {
+    schedulerListeners.delete(listener);
+  };
+};
+
+const notifySchedulerListeners = () => {
+  const calls = getScheduledCalls();
+  schedulerListeners.forEach(listener => listener(calls));
+};
+
+// Через сколько мс провайдер примет следующий запрос (0 - сейчас)
+const getRateLimitDelay = (provider: string, now: number): number => {
+  const limit = getRateLimit(provider);
+  if (!limit) return 0;
+  const recent = (requestHistory.get(provider) || []).filter(startedAt => now - startedAt < RATE_WINDOW_MS);
+  requestHistory.set(provider, recent);
+  return recent.length < limit ? 0 : recent[0] + RATE_WINDOW_MS - now;
+};
+
+/**
+ * Запустить ожидающие вызовы, пока есть свободные слоты.
+ * Вызов, упёршийся в rate limit своего провайдера, пропускает вперёд вызовы других провайдеров.
+ */
+function pump() {
+  clearTimeout(wakeTimer);
+  wakeTimer = undefined;
+
+  const now = Date.now();
+  let wakeInMs = Infinity;
+  const waiting = entries.filter(entry => entry.call.status === 'queued').sort((a, b) => byPriority(a.call, b.call));
+
+  for (const entry of waiting) {
+    const delayMs = getRateLimitDelay(entry.call.provider, now);
+    if (delayMs > 0) {
+      entry.call = { ...entry.call, waitingFor: 'rate_limit' };
+      wakeInMs = Math.min(wakeInMs, delayMs);
+      continue;
+    }
+    if (runningCount >= config.maxConcurrency) {
+      entry.call = { ...entry.call, waitingFor: 'concurrency' };
+      continue;
+    }
+
+    runningCount++;
+    if (getRateLimit(entry.call.provider)) {
+      requestHistory.set(entry.call.provider, [...(requestHistory.get(entry.call.provider) || []), now]);
+    }
+    entry.call = { ...entry.call, status: 'running', startedAt: now, waitingFor: undefined };
+    entry.start();
+  }
+
+  if (wakeInMs < Infinity) {
+    wakeTimer = setTimeout(pump, wakeInMs);
+  }
+  notifySchedulerListeners();
+}
+
+/**
+ * Выполнить вызов LLM через очередь.
+ * run стартует, когда освободится слот и провайдер уложится в rate limit; повторы (withRetry) идут внутри слота.
+ * Отмена signal, пока вызов в очереди, снимает его без запуска.
+ */
+export const scheduleAgentCall = <T>(
+  meta: { agent?: AgentRole; provider: string; priority?: AgentPriority; logId?: string },
+  run: () => Promise<T>,
+  signal?: AbortSignal,
+  onStart?: (queueWaitMs: number) => void
+): Promise<T> => {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const enqueuedAt = Date.now();
+    const entry: QueueEntry = {
+      call: {
+        id: `call-${++callCounter}`,
+        logId: meta.logId,
+        agent: meta.agent,
+        provider: meta.provider,
+        priority: meta.priority ?? getAgentPriority(meta.agent),
+        status: 'queued',
+        enqueuedAt
+      },
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        onStart?.(Date.now() - enqueuedAt);
+        // run - в микротаске: pump не должен заходить сам в себя, если run сразу ставит новый вызов
+        Promise.resolve()
+          .then(run)
+          .then(resolve, reject)
+          .finally(() => {
+            runningCount--;
+            entries = entries.filter(e => e !== entry);
+            pump();
+          });
+      }
+    };
+
+    const onAbort = () => {
+      entries = entries.filter(e => e !== entry);
+      reject(createAbortError());
+      pump();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    entries = [...entries, entry];
+    pump();
+  });
+};
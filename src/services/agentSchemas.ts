@@ -0,0 +1,580 @@
+// ============ AGENT RESPONSE SCHEMAS ============
+// Runtime-схемы ответов агентов: проверка типов, значения по умолчанию и отчёт об ошибках.
+// Ошибки формулируются по-русски - они цитируются модели в repair-промпте.
+
+import type {
+  ValidationReport,
+  StoryState,
+  StoryThread,
+  DirectorAnalysis,
+  Scene,
+  SceneChoice,
+  SceneEffect,
+  SkillCheck,
+  CriticVerdict,
+  CriticViolation,
+  EpilogueChronicle
+} from '../types/agents';
+import type {
+  WorldLore,
+  CharacterGenerationResult,
+  WorldScenario,
+  HeroConnections
+} from './llmService';
+
+export interface Schema<T> {
+  expected: string;             // Описание типа для сообщений об ошибках
+  parse(value: unknown, path: string, report: ValidationReport): T | undefined;
+}
+
+interface FieldOptions<T> {
+  optional?: boolean;
+  default?: T | ((path: string) => T);
+}
+
+// ============ PRIMITIVES ============
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const resolveDefault = <T>(options: FieldOptions<T>, path: string): T =>
+  typeof options.default === 'function'
+    ? (options.default as (path: string) => T)(path)
+    : options.default as T;
+
+// Поле отсутствует или имеет неверный тип: подставить default, пропустить optional или записать ошибку
+const fallback = <T>(
+  options: FieldOptions<T>,
+  path: string,
+  report: ValidationReport,
+  problem: string
+): T | undefined => {
+  if (options.default !== undefined) {
+    report.defaulted.push(path);
+    return resolveDefault(options, path);
+  }
+  if (options.optional && problem === 'missing') {
+    return undefined;
+  }
+  report.errors.push(problem === 'missing' ? `${path}: обязательное поле отсутствует` : `${path}: ${problem}`);
+  return undefined;
+};
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+export const string = (options: FieldOptions<string> = {}): Schema<string> => ({
+  expected: 'строка',
+  parse(value, path, report) {
+    if (isMissing(value)) return fallback(options, path, report, 'missing');
+    if (typeof value === 'number') return String(value);
+    if (typeof value !== 'string') {
+      return fallback(options, path, report, `ожидалась строка, получено ${describe(value)}`);
+    }
+    return value;
+  }
+});
+
+export const number = (options: FieldOptions<number> = {}): Schema<number> => ({
+  expected: 'число',
+  parse(value, path, report) {
+    if (isMissing(value)) return fallback(options, path, report, 'missing');
+    // Модели часто присылают числа строками ("5")
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof parsed !== 'number' || Number.isNaN(parsed)) {
+      return fallback(options, path, report, `ожидалось число, получено ${describe(value)}`);
+    }
+    return parsed;
+  }
+});
+
+export const boolean = (options: FieldOptions<boolean> = {}): Schema<boolean> => ({
+  expected: 'true/false',
+  parse(value, path, report) {
+    if (isMissing(value)) return fallback(options, path, report, 'missing');
+    if (value === 'true' || value === 'false') return value === 'true';
+    if (typeof value !== 'boolean') {
+      return fallback(options, path, report, `ожидалось true/false, получено ${describe(value)}`);
+    }
+    return value;
+  }
+});
+
+export const oneOf = <T extends string | number>(
+  values: readonly T[],
+  options: FieldOptions<T> = {}
+): Schema<T> => ({
+  expected: values.join('|'),
+  parse(value, path, report) {
+    if (isMissing(value)) return fallback(options, path, report, 'missing');
+    const match = values.find(v => v === value || String(v) === String(value));
+    if (match === undefined) {
+      return fallback(options, path, report, `недопустимое значение ${JSON.stringify(value)} (ожидалось: ${values.join('|')})`);
+    }
+    return match;
+  }
+});
+
+// Любое значение без проверки (вложенные структуры, которые игра разбирает сама)
+export const unknownValue = <T = unknown>(options: FieldOptions<T> = {}): Schema<T> => ({
+  expected: 'любое значение',
+  parse(value, path, report) {
+    if (isMissing(value)) return fallback(options, path, report, 'missing');
+    return value as T;
+  }
+});
+
+export const union = <T>(schemas: Schema<T>[], options: FieldOptions<T> = {}): Schema<T> => {
+  const expected = schemas.map(s => s.expected).join(' или ');
+  return {
+    expected,
+    parse(value, path, report) {
+      if (isMissing(value)) return fallback(options, path, report, 'missing');
+      for (const schema of schemas) {
+        const attempt: ValidationReport = { valid: true, errors: [], defaulted: [] };
+        const result = schema.parse(value, path, attempt);
+        if (attempt.errors.length === 0) return result;
+      }
+      return fallback(options, path, report, `ожидалось ${expected}, получено ${describe(value)}`);
+    }
+  };
+};
+
+// Досчитать значение после проверки (только если ошибок нет): так производные поля
+// получают и сравнения моделей, и принятые альтернативы - они разбирают ответ той же схемой
+export const transform = <T>(schema: Schema<T>, apply: (value: T) => T): Schema<T> => ({
+  expected: schema.expected,
+  parse(value, path, report) {
+    const parsed = schema.parse(value, path, report);
+    return parsed === undefined || report.errors.length > 0 ? parsed : apply(parsed);
+  }
+});
+
+// ============ COMPOSITES ============
+
+export const array = <T>(
+  item: Schema<T>,
+  options: FieldOptions<T[]> & { min?: number } = {}
+): Schema<T[]> => ({
+  expected: `массив (${item.expected})`,
+  parse(value, path, report) {
+    if (isMissing(value)) return fallback(options, path, report, 'missing');
+    if (!Array.isArray(value)) {
+      return fallback(options, path, report, `ожидался массив, получено ${describe(value)}`);
+    }
+    if (options.min !== undefined && value.length < options.min) {
+      report.errors.push(`${path}: нужно минимум ${options.min} элемент(а), получено ${value.length}`);
+    }
+    return value
+      .map((v, i) => item.parse(v, `${path}[${i}]`, report))
+      .filter((v): v is T => v !== undefined);
+  }
+});
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+export const object = <T extends object>(
+  shape: Shape<T>,
+  options: FieldOptions<T> = {}
+): Schema<T> => ({
+  expected: 'объект',
+  parse(value, path, report) {
+    if (isMissing(value)) return fallback(options, path, report, 'missing');
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      return fallback(options, path, report, `ожидался объект, получено ${describe(value)}`);
+    }
+    // Неизвестные поля сохраняем как есть
+    const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const parsed = shape[key].parse(result[key], fieldPath, report);
+      if (parsed === undefined) {
+        delete result[key];
+      } else {
+        result[key] = parsed;
+      }
+    }
+    return result as T;
+  }
+});
+
+// Индекс элемента массива из пути вида "choices[2].id"
+const indexFromPath = (path: string): number => {
+  const match = path.match(/\[(\d+)\][^[]*$/);
+  return match ? Number(match[1]) : 0;
+};
+
+// ============ VALIDATION ============
+
+/**
+ * Достать JSON из ответа модели: убрать ```json-обёртку и текст вокруг объекта
+ */
+export const extractJson = (raw: string): string => {
+  let jsonStr = raw.trim();
+  if (jsonStr.startsWith('```json')) jsonStr = jsonStr.slice(7);
+  if (jsonStr.startsWith('```')) jsonStr = jsonStr.slice(3);
+  if (jsonStr.endsWith('```')) jsonStr = jsonStr.slice(0, -3);
+  jsonStr = jsonStr.trim();
+
+  if (!jsonStr.startsWith('{')) {
+    const start = jsonStr.indexOf('{');
+    const end = jsonStr.lastIndexOf('}');
+    if (start >= 0 && end > start) {
+      jsonStr = jsonStr.slice(start, end + 1);
+    }
+  }
+  return jsonStr;
+};
+
+/**
+ * Разобрать и проверить ответ агента
+ */
+export const validateAgentResponse = <T>(
+  raw: string,
+  schema: Schema<T>
+): { value: T | undefined; report: ValidationReport } => {
+  const report: ValidationReport = { valid: false, errors: [], defaulted: [] };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(raw));
+  } catch (e) {
+    report.errors.push(`Ответ не является валидным JSON: ${e instanceof Error ? e.message : String(e)}`);
+    return { value: undefined, report };
+  }
+
+  const value = schema.parse(data, '', report);
+  report.valid = report.errors.length === 0 && value !== undefined;
+  return { value, report };
+};
+
+// ============ GOLEM ============
+
+const cityLoreSchema = object({
+  id: string(),
+  name: string(),
+  description: string({ default: '' }),
+  specialty: string({ default: '' }),
+  landmark: string({ default: '' }),
+  mood: string({ default: '' })
+});
+
+export const worldLoreSchema: Schema<WorldLore> = object<WorldLore>({
+  worldName: string(),
+  worldDescription: string({ default: '' }),
+  era: string({ default: '' }),
+  majorEvents: array(string(), { default: [] }),
+  kingdoms: array(object({
+    id: number(),
+    name: string(),
+    motto: string({ default: '' }),
+    culture: string({ default: '' }),
+    history: string({ default: '' }),
+    religion: string({ default: '' }),
+    traits: array(string(), { default: [] }),
+    relations: string({ default: '' }),
+    capital: cityLoreSchema,
+    cities: array(cityLoreSchema, { default: [] }),
+    initialState: object({
+      rulerName: string(),
+      rulerTitle: string({ default: '' }),
+      rulerPersonality: oneOf(['Aggressive', 'Diplomatic', 'Balanced', 'Defensive', 'Expansionist'] as const, { default: 'Balanced' }),
+      militaryStrength: number({ default: 500 }),
+      gold: number({ default: 1000 }),
+      mana: number({ default: 400 }),
+      food: number({ default: 1000 })
+    })
+  }), { min: 1 }),
+  legends: array(string(), { default: [] })
+});
+
+// ============ CHARACTER GENERATOR ============
+
+export const characterResultSchema: Schema<CharacterGenerationResult> = object<CharacterGenerationResult>({
+  characters: array(object({
+    id: string({ default: path => `char_${indexFromPath(path) + 1}` }),
+    name: string(),
+    title: string({ default: '' }),
+    avatarId: string({ default: '' }),
+    portrait: string({ default: '' }),
+    age: string({ default: '' }),
+    background: string({ default: '' }),
+    personality: string({ default: '' }),
+    ambition: string({ default: '' }),
+    startingKingdom: number(),
+    startingPosition: string({ default: '' }),
+    skills: array(string(), { default: [] }),
+    reputation: string({ default: '' }),
+    quirk: string({ default: '' }),
+    playstyle: string({ default: '' })
+  }), { min: 1 }),
+  sharedWorld: string({ default: '' }),
+  timeline: string({ default: '' })
+});
+
+// ============ NARRATOR ============
+
+type PersonLink<K extends string> = { name: string; who: string } & Record<K, string>;
+
+const personLink = <K extends string>(detail: K, options: FieldOptions<PersonLink<K>> = {}) => object({
+  name: string({ default: '' }),
+  who: string({ default: '' }),
+  [detail]: string({ default: '' })
+} as Shape<PersonLink<K>>, options);
+
+export const scenarioSchema: Schema<WorldScenario> = object<WorldScenario>({
+  title: string(),
+  logline: string({ default: '' }),
+  premise: string(),
+  tone: string({ default: 'эпический' }),
+  centralConflict: string({ default: '' }),
+  moralQuestion: string({ default: '' }),
+  heroDramaturgy: object({
+    incitingIncident: string(),
+    moralDilemma: string({ default: '' }),
+    secretOrFlaw: string({ default: '' }),
+    stakes: string({ default: '' }),
+    transformation: string({ default: '' })
+  }),
+  connections: object<HeroConnections>({
+    ally: personLink('why'),
+    rival: personLink('conflict'),
+    mentor: personLink('lesson'),
+    loveInterest: personLink('complication', { optional: true })
+  }, { default: () => ({
+    ally: { name: '', who: '', why: '' },
+    rival: { name: '', who: '', conflict: '' },
+    mentor: { name: '', who: '', lesson: '' },
+    loveInterest: null
+  }) }),
+  playerCharacterArc: string({ default: '' }),
+  npcs: array(object({
+    name: string(),
+    role: string({ default: 'союзник' }),
+    allegiance: union<number | 'neutral'>([number(), oneOf(['neutral'] as const)], { default: 'neutral' }),
+    personality: string({ default: '' }),
+    motivation: string({ default: '' }),
+    firstAppearance: number({ default: 1 }),
+    potentialBetrayal: boolean({ default: false }),
+    relationToPlayer: string({ default: '' }),
+    isFromSupportingCast: boolean({ optional: true })
+  }), { default: [] }),
+  acts: array(object({
+    actNumber: number({ default: path => indexFromPath(path) + 1 }),
+    title: string({ default: '' }),
+    description: string({ default: '' }),
+    keyEvents: array(string(), { default: [] }),
+    tensions: array(string(), { default: [] }),
+    moralChoices: array(string(), { default: [] }),
+    revelations: array(string(), { default: [] }),
+    cliffhanger: string({ optional: true })
+  }), { min: 1 }),
+  sideConflicts: array(object({
+    name: string(),
+    parties: array(string(), { default: [] }),
+    nature: string({ default: '' }),
+    connectionToMain: string({ default: '' }),
+    resolution: string({ default: '' })
+  }), { default: [] }),
+  chekhovsGuns: array(object({
+    element: string(),
+    introduction: string({ default: '' }),
+    payoff: string({ default: '' }),
+    actIntroduced: number({ default: 1 }),
+    actPayoff: number({ default: 3 })
+  }), { default: [] }),
+  climax: string({ default: '' }),
+  possibleEndings: object({
+    triumph: string({ default: '' }),
+    bittersweet: string({ default: '' }),
+    tragic: string({ default: '' })
+  }, { default: () => ({ triumph: '', bittersweet: '', tragic: '' }) }),
+  themes: array(string(), { default: [] }),
+  warnings: array(string(), { default: [] })
+});
+
+// ============ DIRECTOR ============
+
+/**
+ * Схема ответа Director: недостающие поля берутся из текущего состояния истории
+ */
+export const createDirectorAnalysisSchema = (current: StoryState): Schema<DirectorAnalysis> => object<DirectorAnalysis>({
+  updatedStoryState: object<StoryState>({
+    currentAct: oneOf([1, 2, 3] as const, { default: current.currentAct }),
+    actProgress: number({ default: current.actProgress }),
+    scenesInCurrentAct: number({ default: current.scenesInCurrentAct }),
+    milestones: array(object({
+      id: string(),
+      name: string({ default: '' }),
+      act: oneOf([1, 2, 3] as const, { default: 1 }),
+      reached: boolean({ default: false }),
+      reachedAtScene: number({ optional: true })
+    }), { default: () => current.milestones }),
+    // Статусы линий пересчитывает storyThreads из threadUpdates - ответ их не переписывает
+    threads: unknownValue<StoryThread[]>({ default: () => current.threads }),
+    currentFocus: string({ default: current.currentFocus }),
+    storySummary: string({ default: current.storySummary }),
+    lastSceneSummary: string({ default: '' }),
+    isClimax: boolean({ default: current.isClimax }),
+    isEpilogue: boolean({ default: current.isEpilogue }),
+    isComplete: boolean({ default: current.isComplete })
+  }),
+  directive: object({
+    pacing: oneOf(['slow_down', 'maintain', 'build_tension', 'climax', 'resolution'] as const, { default: 'maintain' }),
+    focus: string({ default: current.currentFocus }),
+    currentBeat: string({ default: 'rising_action' }),
+    mustInclude: array(string(), { default: [] }),
+    shouldAvoid: array(string(), { default: [] }),
+    targetMilestone: string({ optional: true }),
+    shouldEnd: boolean({ default: false }),
+    endType: oneOf(['victory', 'defeat', 'bittersweet', 'cliffhanger'] as const, { optional: true })
+  }),
+  threadUpdates: array(object({
+    id: string(),
+    status: oneOf(['pending', 'introduced', 'paid_off', 'dropped'] as const)
+  }), { default: [] }),
+  reasoning: string({ default: '' })
+});
+
+// ============ SHOWRUNNER ============
+
+const danger = oneOf(['safe', 'risky', 'dangerous'] as const, { default: 'safe' });
+
+const sceneEffectSchema = object<SceneEffect>({
+  type: oneOf(['stat', 'item', 'relationship', 'flag', 'location', 'travel', 'quest', 'injury'] as const),
+  stat: object({
+    target: string({ default: 'player' }),
+    attribute: string(),
+    change: number()
+  }, { optional: true }),
+  item: object({
+    action: oneOf(['add', 'remove'] as const),
+    itemId: string({ default: '' }),
+    itemName: string(),
+    itemType: oneOf(['weapon', 'armor', 'consumable', 'key', 'document', 'treasure', 'goods'] as const, { optional: true }),
+    description: string({ optional: true }),
+    value: number({ optional: true }),
+    heal: number({ optional: true })
+  }, { optional: true }),
+  relationship: object({
+    npcId: string({ default: '' }),
+    npcName: string(),
+    change: number({ default: 0 }),
+    newStatus: oneOf(['ally', 'neutral', 'enemy', 'dead'] as const, { optional: true })
+  }, { optional: true }),
+  flag: object({
+    flagId: string(),
+    value: union<boolean | string>([boolean(), string()], { default: true })
+  }, { optional: true }),
+  location: unknownValue<SceneEffect['location']>({ optional: true }),
+  travel: object({
+    action: oneOf(['move', 'unlock_route', 'require_travel'] as const),
+    targetLocationId: string(),
+    targetLocationName: string({ optional: true }),
+    reason: string({ optional: true }),
+    deadline: number({ optional: true })
+  }, { optional: true }),
+  quest: unknownValue<SceneEffect['quest']>({ optional: true }),
+  injury: object({
+    action: oneOf(['inflict', 'treat'] as const),
+    name: string(),
+    severity: oneOf(['light', 'serious', 'critical'] as const, { optional: true })
+  }, { optional: true })
+});
+
+const travelRouteShape = {
+  locationId: string(),
+  locationName: string({ default: '' }),
+  distance: number({ default: 1 }),
+  cost: number({ default: 0 }),
+  danger
+};
+
+/**
+ * Схема сцены Showrunner: id и номер сцены по умолчанию берутся из вызова
+ */
+export const createSceneSchema = (sceneNumber: number): Schema<Scene> => object<Scene>({
+  id: string({ default: `scene-${sceneNumber}` }),
+  sceneNumber: number({ default: sceneNumber }),
+  location: string(),
+  locationId: string({ optional: true }),
+  kingdomId: number({ optional: true }),
+  timeOfDay: string({ optional: true }),
+  description: string(),
+  dialogue: array(object({
+    speaker: string({ default: '' }),
+    text: string()
+  }), { default: [] }),
+  choices: array(object<SceneChoice>({
+    id: string({ default: path => `choice-${indexFromPath(path) + 1}` }),
+    text: string(),
+    tone: oneOf(['aggressive', 'diplomatic', 'cunning', 'noble', 'cautious', 'travel'] as const, { default: 'cautious' }),
+    consequence: string({ optional: true }),
+    effects: array(sceneEffectSchema, { default: [] }),
+    toolCalls: unknownValue<SceneChoice['toolCalls']>({ optional: true }),   // Проверяет withSceneTools
+    nextLocation: string({ optional: true }),
+    travelTo: object(travelRouteShape, { optional: true }),
+    requirements: unknownValue<SceneChoice['requirements']>({ optional: true }),
+    check: object<SkillCheck>({
+      skill: string(),
+      difficulty: number({ default: 12 }),
+      npcName: string({ optional: true }),
+      helpfulItems: array(string(), { optional: true }),
+      successEffects: array(sceneEffectSchema, { default: [] }),
+      failureEffects: array(sceneEffectSchema, { default: [] }),
+      successToolCalls: unknownValue<SkillCheck['successToolCalls']>({ optional: true }),   // Проверяет withSceneTools
+      failureToolCalls: unknownValue<SkillCheck['failureToolCalls']>({ optional: true })
+    }, { optional: true })
+  }), { min: 1 }),
+  isTravel: boolean({ optional: true }),
+  travelFrom: string({ optional: true }),
+  travelTo: string({ optional: true }),
+  travelProgress: number({ optional: true }),
+  travelOptions: array(object({
+    ...travelRouteShape,
+    description: string({ optional: true }),
+    isLocked: boolean({ optional: true }),
+    lockReason: string({ optional: true })
+  }), { optional: true }),
+  activeQuest: object({
+    id: string(),
+    title: string({ default: '' }),
+    currentObjective: string({ default: '' })
+  }, { optional: true }),
+  tension: number({ optional: true }),
+  tags: array(string(), { optional: true })
+});
+
+// ============ CRITIC ============
+
+/**
+ * Вердикт CRITIC: ok выводится из нарушений, если модель его забыла
+ */
+export const criticVerdictSchema: Schema<CriticVerdict> = object<CriticVerdict>({
+  ok: boolean({ default: false }),
+  violations: array(object<CriticViolation>({
+    kind: oneOf(['location', 'dead_npc', 'npc_early', 'gold', 'story', 'other'] as const, { default: 'other' }),
+    message: string(),
+    choiceId: string({ optional: true }),
+    source: oneOf(['rules', 'llm'] as const, { default: 'llm' })
+  }), { default: [] })
+});
+
+// ============ CHRONICLER ============
+
+/**
+ * Хроника финала: недостающие судьбы берутся из хроники без LLM (createFallbackChronicle)
+ */
+export const createEpilogueChronicleSchema = (fallback: EpilogueChronicle): Schema<EpilogueChronicle> => object<EpilogueChronicle>({
+  title: string({ default: fallback.title }),
+  hero: string(),
+  npcs: array(object({
+    name: string(),
+    fate: string()
+  }), { default: () => fallback.npcs }),
+  kingdoms: array(object({
+    id: number({ default: 0 }),
+    name: string(),
+    fate: string()
+  }), { default: () => fallback.kingdoms }),
+  closingLine: string({ default: '' })
+});
@@ -0,0 +1,114 @@
+// ============ CHOICE REQUIREMENTS ============
+// Проверка SceneChoice.requirements против PlayerState и TravelState.
+// Кроме явных требований, выбор неявно требует золота на свои траты (эффекты, худший исход проверки и travelTo.cost):
+// недоступный выбор показывается заблокированным, а не уводит золото в ноль.
+
+import type {
+  Scene,
+  SceneChoice,
+  SceneEffect,
+  PlayerState,
+  ChoiceRequirements,
+  ChoiceAvailability,
+  UnmetRequirement,
+  LockedChoice
+} from '../types/agents';
+import type { TravelState } from '../types/travel';
+import { findItem, itemLabelFromId } from './items';
+
+// Для проверки локации хватает списка открытых (TravelState или TravelContext)
+type RequirementTravel = Pick<TravelState, 'unlockedLocations'>;
+
+// Сколько золота выбор тратит эффектами
+export const getGoldSpent = (effects: SceneEffect[] = []): number =>
+  effects
+    .filter(e => e.type === 'stat' && e.stat?.attribute === 'gold' && e.stat.change < 0)
+    .reduce((sum, e) => sum - (e.stat?.change || 0), 0);
+
+/**
+ * Явные требования выбора плюс неявные: золото на траты и дорогу.
+ * Исход проверки неизвестен до броска - закладываем худший из successEffects и failureEffects
+ */
+export const getChoiceRequirements = (choice: SceneChoice): ChoiceRequirements => {
+  const requirements = choice.requirements || {};
+  const checkCost = choice.check
+    ? Math.max(getGoldSpent(choice.check.successEffects), getGoldSpent(choice.check.failureEffects))
+    : 0;
+  const cost = getGoldSpent(choice.effects) + checkCost + (choice.travelTo?.cost || 0);
+  const minGold = Math.max(requirements.minGold || 0, cost);
+  return {
+    ...requirements,
+    minGold: minGold > 0 ? minGold : undefined
+  };
+};
+
+/**
+ * Доступен ли выбор герою и что именно не выполнено
+ */
+export const evaluateChoice = (
+  choice: SceneChoice,
+  playerState: PlayerState,
+  travel?: RequirementTravel
+): ChoiceAvailability => {
+  const requirements = getChoiceRequirements(choice);
+  const unmet: UnmetRequirement[] = [];
+  const { gold, reputation } = playerState.stats;
+
+  if (requirements.minGold !== undefined && gold < requirements.minGold) {
+    unmet.push({ kind: 'gold', label: String(requirements.minGold), required: requirements.minGold, current: gold });
+  }
+  if (requirements.minReputation !== undefined && reputation < requirements.minReputation) {
+    unmet.push({ kind: 'reputation', label: String(requirements.minReputation), required: requirements.minReputation, current: reputation });
+  }
+
+  for (const itemId of requirements.requiredItems || []) {
+    if (!findItem(playerState.inventory, itemId.trim())) {
+      unmet.push({ kind: 'item', label: itemLabelFromId(itemId.trim()) });
+    }
+  }
+
+  const flags = new Set(playerState.flags.filter(f => f.value !== false).map(f => f.id));
+  for (const flag of requirements.requiredFlags || []) {
+    if (!flags.has(flag)) {
+      unmet.push({ kind: 'flag', label: flag });
+    }
+  }
+
+  // Без состояния путешествий локацию не проверить - не блокируем
+  const locationId = requirements.unlockedLocation;
+  if (locationId && travel && !travel.unlockedLocations.includes(locationId)) {
+    const label = choice.travelTo?.locationId === locationId ? choice.travelTo.locationName : locationId;
+    unmet.push({ kind: 'location', label });
+  }
+
+  return { available: unmet.length === 0, unmet };
+};
+
+// Причина для промптов и логов (язык промптов); в UI - strings.choices.requirements
+export const describeUnmetRequirement = (requirement: UnmetRequirement): string => {
+  switch (requirement.kind) {
+    case 'gold': return `нужно ${requirement.required} золота (есть ${requirement.current})`;
+    case 'reputation': return `нужна репутация ${requirement.required} (сейчас ${requirement.current})`;
+    case 'item': return `нет предмета "${requirement.label}"`;
+    case 'flag': return `не выполнено условие ${requirement.label}`;
+    case 'location': return `локация ${requirement.label} не открыта`;
+  }
+};
+
+/**
+ * Выборы сцены, которые герою недоступны, с причинами - для следующего промпта Showrunner
+ */
+export const getLockedChoices = (
+  scene: Scene,
+  playerState: PlayerState,
+  travel?: RequirementTravel,
+  exceptChoiceId?: string
+): LockedChoice[] =>
+  scene.choices
+    .filter(choice => choice.id !== exceptChoiceId)
+    .map(choice => ({ choice, availability: evaluateChoice(choice, playerState, travel) }))
+    .filter(({ availability }) => !availability.available)
+    .map(({ choice, availability }) => ({
+      text: choice.text,
+      reasons: availability.unmet.map(describeUnmetRequirement).join(', ')
+    }));
@@ -0,0 +1,177 @@
+// ============ EPILOGUE ============
+// Финал истории: какая из possibleEndings сценария сбылась, итоги прохождения и контекст для хроники CHRONICLER.
+// Концовка выбирается детерминированно - endType от Director задаёт направление, состояние истории и героя его уточняет.
+
+import type {
+  StoryState,
+  PlayerState,
+  DirectorDirective,
+  HeroDeath,
+  EndingKind,
+  EpilogueStats,
+  EpilogueContext,
+  EpilogueChronicle
+} from '../types/agents';
+import type { Quest, TravelState } from '../types/travel';
+import type { WorldLore, WorldScenario, PlayableCharacter } from './llmService';
+import { getSceneNpcs } from './sceneTools';
+
+// Пороги оценки финала
+const HIGH_REPUTATION = 10;
+const LOW_HEALTH = 20;
+const MILESTONES_FULFILLED = 0.8;     // Доля достигнутых milestones - история доиграна
+const MILESTONES_MISSED = 0.5;
+const LOOSE_ENDS = 2;                 // Столько введённых и не выстреливших линий - финал с горчинкой
+
+// ============ ENDING ============
+
+// Направление от Director: victory тянет к триумфу, defeat - к трагедии
+const END_TYPE_SCORE: Record<NonNullable<DirectorDirective['endType']>, number> = {
+  victory: 2,
+  bittersweet: 0,
+  cliffhanger: 0,
+  defeat: -2
+};
+
+/**
+ * Какая концовка сбылась: triumph (>= 2), tragic (<= -2), иначе bittersweet.
+ * Победа, за которую заплачено здоровьем, союзниками или брошенными линиями, становится горькой,
+ * а неудача с такой ценой - трагедией. Гибель героя - всегда трагедия.
+ */
+export const chooseEnding = (
+  storyState: StoryState,
+  playerState: PlayerState,
+  endType?: DirectorDirective['endType'],
+  death?: HeroDeath
+): EndingKind => {
+  if (death) return 'tragic';
+
+  let score = endType ? END_TYPE_SCORE[endType] : 0;
+
+  const milestones = storyState.milestones;
+  const reachedShare = milestones.length > 0 ? milestones.filter(m => m.reached).length / milestones.length : 1;
+  if (reachedShare >= MILESTONES_FULFILLED) score += 1;
+  else if (reachedShare < MILESTONES_MISSED) score -= 1;
+
+  const { reputation, health } = playerState.stats;
+  if (reputation >= HIGH_REPUTATION) score += 1;
+  else if (reputation < 0) score -= 1;
+
+  const fallenAllies = playerState.relationships.filter(r => r.status === 'dead' && r.relation > 0).length;
+  const looseEnds = (storyState.threads || []).filter(t => t.status === 'introduced').length;
+  const paidPrice = fallenAllies > 0 || health <= LOW_HEALTH || looseEnds >= LOOSE_ENDS;
+
+  if (score >= 2) return paidPrice ? 'bittersweet' : 'triumph';
+  if (score <= -2 || (score < 0 && paidPrice)) return 'tragic';
+  return 'bittersweet';
+};
+
+// ============ STATS ============
+
+export const computeEpilogueStats = (
+  storyState: StoryState,
+  playerState: PlayerState,
+  travelState: TravelState,
+  quests: Quest[],
+  scenes: number
+): EpilogueStats => {
+  const { relationships } = playerState;
+  const threads = storyState.threads || [];
+  return {
+    scenes,
+    gold: playerState.stats.gold,
+    reputation: playerState.stats.reputation,
+    influence: playerState.stats.influence,
+    health: playerState.stats.health,
+    items: playerState.inventory.reduce((sum, item) => sum + item.quantity, 0),
+    allies: relationships.filter(r => r.status === 'ally').length,
+    enemies: relationships.filter(r => r.status === 'enemy' || r.status === 'rival').length,
+    fallen: relationships.filter(r => r.status === 'dead').length,
+    locationsVisited: travelState.visitedLocations.length,
+    questsCompleted: quests.filter(q => q.status === 'completed').length,
+    milestonesReached: storyState.milestones.filter(m => m.reached).length,
+    milestonesTotal: storyState.milestones.length,
+    threadsPaidOff: threads.filter(t => t.status === 'paid_off').length,
+    threadsTotal: threads.length
+  };
+};
+
+// ============ CHRONICLE ============
+
+export interface EpilogueInput {
+  scenario: WorldScenario;
+  lore: WorldLore;
+  hero: PlayableCharacter;
+  storyState: StoryState;
+  playerState: PlayerState;
+  travelState: TravelState;     // Посещённые локации ведёт путешествие, а не playerState
+  quests: Quest[];
+  sceneNumber: number;
+  endType?: DirectorDirective['endType'];
+  lastScene?: string;           // Описание последней сцены
+  death?: HeroDeath;            // Здоровье упало до нуля
+}
+
+/**
+ * Контекст для CHRONICLER: концовка, герой, NPC с их итоговым статусом и королевства
+ */
+export const buildEpilogueContext = (input: EpilogueInput): EpilogueContext => {
+  const { scenario, lore, hero, storyState, playerState, travelState, quests, sceneNumber, endType, lastScene, death } = input;
+  const kind = chooseEnding(storyState, playerState, endType, death);
+  const { ally, rival, mentor, loveInterest } = scenario.connections || {};
+  const roles = new Map<string, string>([
+    ...[[ally?.name, 'союзник'], [rival?.name, 'соперник'], [mentor?.name, 'наставник'], [loveInterest?.name, 'возлюбленный']]
+      .filter((entry): entry is [string, string] => Boolean(entry[0])),
+    ...(scenario.npcs || []).map((npc): [string, string] => [npc.name, npc.role])
+  ]);
+
+  return {
+    ending: {
+      kind,
+      description: scenario.possibleEndings?.[kind] || '',
+      endType
+    },
+    hero: {
+      name: hero.name,
+      title: hero.title,
+      ambition: hero.ambition
+    },
+    scenario: {
+      title: scenario.title,
+      centralConflict: scenario.centralConflict,
+      moralQuestion: scenario.moralQuestion
+    },
+    storySummary: storyState.storySummary,
+    lastScene,
+    death,
+    npcs: getSceneNpcs(scenario, playerState.relationships).map(npc => {
+      const relationship = playerState.relationships.find(r => r.npcName === npc.name);
+      return {
+        name: npc.name,
+        role: roles.get(npc.name) || '',
+        status: relationship?.status || 'unknown'
+      };
+    }),
+    kingdoms: lore.kingdoms.map(kingdom => ({
+      id: kingdom.id,
+      name: kingdom.name,
+      ruler: `${kingdom.initialState.rulerTitle} ${kingdom.initialState.rulerName}`.trim()
+    })),
+    threads: (storyState.threads || []).map(thread => ({ name: thread.name, status: thread.status })),
+    stats: computeEpilogueStats(storyState, playerState, travelState, quests, sceneNumber)
+  };
+};
+
+/**
+ * Хроника без LLM - если CHRONICLER не ответил, финал всё равно показывается
+ */
+export const createFallbackChronicle = (context: EpilogueContext): EpilogueChronicle => ({
+  title: context.scenario.title,
+  hero: context.ending.description || context.storySummary,
+  npcs: context.npcs.map(npc => ({
+    name: npc.name,
+    fate: npc.status === 'dead' ? '†' : npc.role
+  })),
+  kingdoms: context.kingdoms.map(kingdom => ({ id: kingdom.id, name: kingdom.name, fate: kingdom.ruler })),
+  closingLine: ''
+});
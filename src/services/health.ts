@@ -0,0 +1,277 @@
+// ============ HEALTH & INJURIES ============
+// Здоровье героя: ранения от опасных дорог, схваток и эффектов сцен, штрафы к проверкам,
+// кровотечение между сценами и лечение (отдых в таверне, лекарь в городе; целебные предметы - src/services/items).
+// Здоровье 0 - смерть: вместо следующей сцены история уходит в эпилог поражения.
+
+import type {
+  PlayerState,
+  AppliedEffect,
+  Injury,
+  InjurySeverity,
+  SceneChoice,
+  SceneEffect,
+  SkillCheckResult
+} from '../types/agents';
+import type { POI } from '../types/world';
+import type { TravelDanger } from '../types/travel';
+import type { UIStrings } from '../types/i18n';
+import { getEquipped } from './items';
+import { getUIStrings } from '../i18n';
+
+export const MAX_HEALTH = 100;
+
+interface InjuryRule {
+  damage: number;             // Урон при получении
+  checkPenalty: number;       // Штраф к проверкам навыков
+  bleed: number;              // Потеря здоровья каждую сцену
+  healsAfter?: number;        // Заживает само через столько сцен
+}
+
+export const INJURY_RULES: Record<InjurySeverity, InjuryRule> = {
+  light: { damage: 5, checkPenalty: -1, bleed: 0, healsAfter: 3 },
+  serious: { damage: 15, checkPenalty: -2, bleed: 2 },
+  critical: { damage: 30, checkPenalty: -3, bleed: 5 }
+};
+
+const SEVERITY_ORDER: InjurySeverity[] = ['light', 'serious', 'critical'];
+const MAX_INJURY_PENALTY = 3;
+const ARMOR_REDUCTION = 0.3;          // Надетый доспех смягчает урон от ранений
+
+export interface HealthResult {
+  newState: PlayerState;
+  appliedEffects: AppliedEffect[];
+}
+
+const clampHealth = (value: number) => Math.max(0, Math.min(MAX_HEALTH, value));
+
+const withHealth = (state: PlayerState, health: number, injuries: Injury[] = state.injuries): PlayerState => ({
+  ...state,
+  stats: { ...state.stats, health: clampHealth(health) },
+  injuries
+});
+
+const healthEffect = (change: number): AppliedEffect => ({
+  description: `${getUIStrings().stats.health}: ${change > 0 ? '+' : ''}${change}`,
+  type: change > 0 ? 'positive' : 'negative',
+  icon: '❤️'
+});
+
+const severityRank = (severity: InjurySeverity) => SEVERITY_ORDER.indexOf(severity);
+
+// Самое тяжёлое ранение из подходящих
+const worstInjury = (injuries: Injury[]): Injury | undefined =>
+  [...injuries].sort((a, b) => severityRank(b.severity) - severityRank(a.severity))[0];
+
+// Для промптов: "Рана от засады (serious)"
+export const describeInjury = (injury: Injury): string => `${injury.name} (${injury.severity})`;
+
+export const isDead = (state: PlayerState): boolean => state.stats.health <= 0;
+
+// Ранения не тяжелее данного (целебный предмет снимает только такие)
+export const treatableUpTo = (severity: InjurySeverity): InjurySeverity[] =>
+  SEVERITY_ORDER.slice(0, severityRank(severity) + 1);
+
+// Последнее ранение и есть причина смерти; без ранений - сам выбор
+export const getDeathCause = (state: PlayerState, fallback: string): string =>
+  state.injuries[state.injuries.length - 1]?.name || fallback;
+
+// ============ INJURIES ============
+
+/**
+ * Ранить героя. Повторное ранение с тем же названием утяжеляет старое, а не добавляет второе.
+ * Надетый доспех уменьшает урон, но не тяжесть
+ */
+export const inflictInjury = (
+  state: PlayerState,
+  injury: { name: string; severity?: InjurySeverity },
+  sceneNumber: number
+): HealthResult => {
+  const strings = getUIStrings().health;
+  const name = injury.name.trim() || strings.defaultInjury;
+  const existing = state.injuries.find(i => i.name.toLowerCase() === name.toLowerCase());
+  const requested = injury.severity || 'light';
+  const severity = existing
+    ? SEVERITY_ORDER[Math.min(Math.max(severityRank(existing.severity) + 1, severityRank(requested)), SEVERITY_ORDER.length - 1)]
+    : requested;
+
+  const updated: Injury = existing
+    ? { ...existing, severity, sinceScene: sceneNumber }
+    : { id: `injury-${sceneNumber}-${state.injuries.length}`, name, severity, sinceScene: sceneNumber };
+  // Ранение, ставшее причиной, - последнее в списке (getDeathCause)
+  const injuries = [...state.injuries.filter(i => i !== existing), updated];
+  const armor = getEquipped(state.inventory, 'armor');
+  const damage = Math.round(INJURY_RULES[severity].damage * (armor ? 1 - ARMOR_REDUCTION : 1));
+
+  return {
+    newState: withHealth(state, state.stats.health - damage, injuries),
+    appliedEffects: [
+      { description: strings.injured(strings.severity[severity], name), type: 'negative', icon: '🩸' },
+      healthEffect(-damage)
+    ]
+  };
+};
+
+/**
+ * Вылечить ранение по названию; не нашлось - самое тяжёлое из допустимых
+ */
+export const treatInjury = (
+  state: PlayerState,
+  name?: string,
+  allowed: InjurySeverity[] = SEVERITY_ORDER
+): HealthResult => {
+  const treatable = state.injuries.filter(i => allowed.includes(i.severity));
+  const wanted = name?.trim().toLowerCase();
+  const injury = treatable.find(i => i.name.toLowerCase() === wanted) || worstInjury(treatable);
+  if (!injury) return { newState: state, appliedEffects: [] };
+
+  return {
+    newState: { ...state, injuries: state.injuries.filter(i => i.id !== injury.id) },
+    appliedEffects: treatedEffects([injury])
+  };
+};
+
+/**
+ * Между сценами: серьёзные ранения кровоточат, лёгкие заживают сами.
+ * Ранения этой же сцены не трогаем - урон от них уже получен
+ */
+export const tickInjuries = (state: PlayerState, sceneNumber: number): HealthResult => {
+  const old = state.injuries.filter(i => i.sinceScene < sceneNumber);
+  const bleed = old.reduce((sum, i) => sum + INJURY_RULES[i.severity].bleed, 0);
+  const healed = old.filter(i => {
+    const { healsAfter } = INJURY_RULES[i.severity];
+    return healsAfter !== undefined && sceneNumber - i.sinceScene >= healsAfter;
+  });
+  if (bleed === 0 && healed.length === 0) return { newState: state, appliedEffects: [] };
+
+  const strings = getUIStrings().health;
+  const appliedEffects: AppliedEffect[] = healed.map(i => ({
+    description: strings.healed(i.name),
+    type: 'positive',
+    icon: '🩹'
+  }));
+  if (bleed > 0) {
+    appliedEffects.push({ description: strings.bleeding(bleed), type: 'negative', icon: '🩸' });
+  }
+  return {
+    newState: withHealth(state, state.stats.health - bleed, state.injuries.filter(i => !healed.includes(i))),
+    appliedEffects
+  };
+};
+
+// Штраф ранений к проверке навыка (skillChecks)
+export const getInjuryPenalty = (injuries: Injury[]): number =>
+  Math.max(-MAX_INJURY_PENALTY, injuries.reduce((sum, i) => sum + INJURY_RULES[i.severity].checkPenalty, 0));
+
+// ============ DANGER ============
+
+// hazard - название ранения в getUIStrings().health.hazards
+const ROUTE_HAZARDS: Record<TravelDanger, { maxRoll: number; hazard: keyof UIStrings['health']['hazards']; severity: InjurySeverity } | null> = {
+  safe: null,
+  risky: { maxRoll: 6, hazard: 'bruises', severity: 'light' },
+  dangerous: { maxRoll: 8, hazard: 'ambush', severity: 'serious' }
+};
+
+/**
+ * Опасная дорога: d20 (seeded rollD20, как у проверок) не выше порога - герой ранен в пути
+ */
+export const getRouteHazard = (
+  danger: TravelDanger,
+  d20: number
+): { name: string; severity: InjurySeverity } | null => {
+  const hazard = ROUTE_HAZARDS[danger];
+  return hazard && d20 <= hazard.maxRoll
+    ? { name: getUIStrings().health.hazards[hazard.hazard], severity: hazard.severity }
+    : null;
+};
+
+const hurts = (effect: SceneEffect) =>
+  (effect.type === 'injury' && effect.injury?.action === 'inflict')
+  || (effect.type === 'stat' && effect.stat?.attribute === 'health' && effect.stat.change < 0);
+
+/**
+ * Проваленная проверка в схватке ранит; критический провал - серьёзно.
+ * Если сцена уже ранит героя за провал, второй раз не раним
+ */
+export const getCombatInjury = (
+  choice: SceneChoice,
+  result: SkillCheckResult | null
+): { name: string; severity: InjurySeverity } | null => {
+  if (!result || result.success || choice.tone !== 'aggressive') return null;
+  if (choice.check?.failureEffects.some(hurts)) return null;
+  return { name: getUIStrings().health.hazards.combat, severity: result.critical ? 'serious' : 'light' };
+};
+
+// ============ HEALING ============
+
+export const REST_COST = 5;
+const REST_HEAL = 20;
+const HEALER_BASE_COST = 10;
+const HEALER_SEVERITY_COST: Record<InjurySeverity, number> = { light: 5, serious: 15, critical: 30 };
+
+const INN_LOCATIONS: POI['type'][] = ['capital', 'city', 'fortress'];
+const HEALER_LOCATIONS: POI['type'][] = ['capital', 'city'];
+
+export const canRestAt = (locationType: POI['type']) => INN_LOCATIONS.includes(locationType);
+export const canVisitHealerAt = (locationType: POI['type']) => HEALER_LOCATIONS.includes(locationType);
+
+// Лекарь берёт за каждые 10 потерянного здоровья и за каждое ранение
+export const getHealerCost = (state: PlayerState): number =>
+  HEALER_BASE_COST
+  + Math.ceil((MAX_HEALTH - state.stats.health) / 10) * 2
+  + state.injuries.reduce((sum, i) => sum + HEALER_SEVERITY_COST[i.severity], 0);
+
+export const needsHealing = (state: PlayerState): boolean =>
+  state.stats.health < MAX_HEALTH || state.injuries.length > 0;
+
+const goldEffect = (cost: number): AppliedEffect =>
+  ({ description: `${getUIStrings().stats.gold}: -${cost}`, type: 'negative', icon: '💰' });
+
+const treatedEffects = (injuries: Injury[]): AppliedEffect[] =>
+  injuries.map(i => ({ description: getUIStrings().health.treated(i.name), type: 'positive', icon: '🩹' }));
+
+// Таверна лечит раз за визит: restedAt сбрасывается, когда герой приходит в другую локацию
+export const hasRestedAt = (state: PlayerState, locationId: string): boolean => state.restedAt === locationId;
+
+const payGold = (state: PlayerState, cost: number, what: string): PlayerState => {
+  if (state.stats.gold < cost) {
+    throw new Error(`Not enough gold for ${what}: need ${cost}, have ${state.stats.gold}`);
+  }
+  return { ...state, stats: { ...state.stats, gold: state.stats.gold - cost } };
+};
+
+/**
+ * Ночь в таверне: немного здоровья, лёгкие ранения проходят. Серьёзные лечит только лекарь или зелье.
+ * Второй раз в той же локации - только после того, как герой её покинет
+ */
+export const restAtInn = (state: PlayerState, locationId: string): HealthResult => {
+  if (hasRestedAt(state, locationId)) {
+    throw new Error(`The hero has already rested in ${locationId} during this visit`);
+  }
+  const paid = payGold(state, REST_COST, 'rest');
+  const healed = paid.injuries.filter(i => i.severity === 'light');
+  const health = clampHealth(paid.stats.health + REST_HEAL);
+  return {
+    newState: { ...withHealth(paid, health, paid.injuries.filter(i => i.severity !== 'light')), restedAt: locationId },
+    appliedEffects: [
+      goldEffect(REST_COST),
+      healthEffect(health - paid.stats.health),
+      ...treatedEffects(healed)
+    ]
+  };
+};
+
+/**
+ * Лекарь: полное здоровье и все ранения
+ */
+export const visitHealer = (state: PlayerState): HealthResult => {
+  const cost = getHealerCost(state);
+  const paid = payGold(state, cost, 'healer');
+  return {
+    newState: withHealth(paid, MAX_HEALTH, []),
+    appliedEffects: [
+      goldEffect(cost),
+      healthEffect(MAX_HEALTH - paid.stats.health),
+      ...treatedEffects(paid.injuries)
+    ]
+  };
+};
@@ -0,0 +1,141 @@
+// ============ ITEMS ============
+// Предметы героя: тип, цена, вес, слот и действие "использовать".
+// Сцены выдают предметы через give_item почти свободным текстом - недостающие свойства выводятся из типа и названия.
+// Предмет везде (эффекты, requirements, проверки) ищется по стабильному id, а не по названию.
+
+import type { InventoryItem, ItemType, EquipSlot, SceneEffect, InjurySeverity } from '../types/agents';
+import { getUIStrings } from '../i18n';
+
+export const MAX_CARRY_WEIGHT = 30;
+
+const ITEM_DEFAULTS: Record<ItemType, { value: number; weight: number; slot?: EquipSlot }> = {
+  weapon: { value: 25, weight: 3, slot: 'weapon' },
+  armor: { value: 40, weight: 8, slot: 'armor' },
+  consumable: { value: 8, weight: 0.5 },
+  key: { value: 0, weight: 0.1 },
+  document: { value: 5, weight: 0.1 },
+  treasure: { value: 50, weight: 0.5 },
+  goods: { value: 15, weight: 3 }
+};
+
+// Тип по названию, если сцена его не указала. Ничего не подошло - сюжетный предмет (key)
+const TYPE_PATTERNS: [ItemType, RegExp][] = [
+  ['weapon', /меч|клинок|кинжал|топор|лук|копь|булав|молот|sword|dagger|blade|axe|bow|spear|mace|hammer/i],
+  ['armor', /доспех|кольчуг|брон|щит|шлем|латы|armou?r|shield|helm|mail/i],
+  ['consumable', /зель|эликсир|трав|мазь|бинт|повязк|хлеб|еда|паёк|potion|elixir|herb|salve|bandage|bread|food|ration/i],
+  ['document', /письм|карт|свиток|документ|указ|книг|дневник|letter|map|scroll|document|decree|book|journal/i],
+  ['treasure', /кольц|амулет|талисман|корон|драгоц|самоцвет|ring|amulet|charm|crown|gem|jewel/i],
+  ['goods', /зерн|мехов|пряност|шёлк|шелк|ткан|слит|руд[аы]|бочон|строевой лес|grain|furs|spice|silk|cloth|ingot|timber|barrel/i]
+];
+
+// Украшения можно надеть
+const TRINKET_PATTERN = /кольц|амулет|талисман|ring|amulet|charm/i;
+
+interface HealingRule {
+  pattern: RegExp;
+  heal: number;
+  treats: InjurySeverity;     // Самое тяжёлое ранение, которое снимает
+}
+
+// Целебные расходники по названию (если give_item не указал heal)
+const HEALING_ITEMS: HealingRule[] = [
+  { pattern: /зель|эликсир|potion|elixir/i, heal: 30, treats: 'serious' },
+  { pattern: /трав|мазь|herb|salve/i, heal: 15, treats: 'light' },
+  { pattern: /бинт|повязк|bandage/i, heal: 5, treats: 'serious' }
+];
+
+// "Печать стражи" -> "item_печать_стражи" (как give_item без itemId)
+export const itemIdFromName = (name: string): string =>
+  `item_${name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '')}`;
+
+// Для требований, которых нет в инвентаре: "item_печать_стражи" -> "печать стражи"
+export const itemLabelFromId = (itemId: string): string =>
+  itemId.replace(/^item_/, '').replace(/_/g, ' ');
+
+export const inferItemType = (name: string): ItemType =>
+  TYPE_PATTERNS.find(([, pattern]) => pattern.test(name))?.[0] || 'key';
+
+const getUseEffects = (type: ItemType, name: string, heal?: number): SceneEffect[] | undefined => {
+  if (type !== 'consumable') return undefined;
+  const rule = HEALING_ITEMS.find(r => r.pattern.test(name));
+  const amount = heal ?? rule?.heal;
+  if (!amount) return undefined;
+  return [
+    { type: 'stat', stat: { target: 'player', attribute: 'health', change: amount } },
+    { type: 'injury', injury: { action: 'treat', name: '', severity: rule?.treats || 'light' } }
+  ];
+};
+
+/**
+ * Предмет из эффекта give_item: недостающие тип, цена, вес, слот и действие - по умолчанию для типа и названия
+ */
+export const createItem = (spec: {
+  id?: string;
+  name: string;
+  type?: ItemType;
+  description?: string;
+  value?: number;
+  weight?: number;
+  heal?: number;
+}): InventoryItem => {
+  const name = spec.name.trim();
+  const type = spec.type || inferItemType(name);
+  const defaults = ITEM_DEFAULTS[type];
+  const slot = defaults.slot || (type === 'treasure' && TRINKET_PATTERN.test(name) ? 'trinket' : undefined);
+  return {
+    id: spec.id || itemIdFromName(name),
+    name,
+    description: spec.description,
+    type,
+    quantity: 1,
+    value: Math.max(0, Math.round(spec.value ?? defaults.value)),
+    weight: spec.weight ?? defaults.weight,
+    slot,
+    useEffects: getUseEffects(type, name, spec.heal)
+  };
+};
+
+// ============ INVENTORY ============
+
+export const findItem = (inventory: InventoryItem[], itemId: string): InventoryItem | undefined =>
+  inventory.find(item => item.id === itemId && item.quantity > 0);
+
+// Тот же id складывается в стопку
+export const addItem = (inventory: InventoryItem[], item: InventoryItem): InventoryItem[] =>
+  findItem(inventory, item.id)
+    ? inventory.map(i => (i.id === item.id ? { ...i, quantity: i.quantity + item.quantity } : i))
+    : [...inventory, item];
+
+export const removeItem = (inventory: InventoryItem[], itemId: string, count: number = 1): InventoryItem[] =>
+  inventory
+    .map(i => (i.id === itemId ? { ...i, quantity: i.quantity - count } : i))
+    .filter(i => i.quantity > 0);
+
+export const canUseItem = (item: InventoryItem): boolean => Boolean(item.useEffects?.length);
+
+/**
+ * Надеть предмет (снимает другой из того же слота) или снять, если уже надет
+ */
+export const toggleEquip = (inventory: InventoryItem[], itemId: string): InventoryItem[] => {
+  const item = findItem(inventory, itemId);
+  if (!item?.slot) {
+    throw new Error(`Item cannot be equipped: ${itemId}`);
+  }
+  return inventory.map(i => {
+    if (i.id === itemId) return { ...i, equipped: !i.equipped };
+    return i.slot === item.slot && i.equipped ? { ...i, equipped: false } : i;
+  });
+};
+
+export const getEquipped = (inventory: InventoryItem[], slot: EquipSlot): InventoryItem | undefined =>
+  inventory.find(item => item.equipped && item.slot === slot && item.quantity > 0);
+
+export const getCarriedWeight = (inventory: InventoryItem[]): number =>
+  Math.round(inventory.reduce((sum, item) => sum + item.weight * item.quantity, 0) * 10) / 10;
+
+export const isOverloaded = (inventory: InventoryItem[]): boolean =>
+  getCarriedWeight(inventory) > MAX_CARRY_WEIGHT;
+
+// Для промптов: "Печать стражи [item_печать_стражи] (document, надет)"
+export const describeItem = (item: InventoryItem): string =>
+  `${item.name}${item.quantity > 1 ? ` ×${item.quantity}` : ''} [${item.id}] (${item.type}${item.equipped ? `, ${getUIStrings().inventory.equipped}` : ''})`;
@@ -0,0 +1,478 @@
+// ============ LLM PROVIDERS ============
+// Реестр LLM-бэкендов и маршрутизация агентов по провайдерам.
+// Каждый агент (GOLEM, NARRATOR, DIRECTOR, SHOWRUNNER...) может работать на своём бэкенде.
+
+import type { AgentRole, ComparisonVariant } from '../types/agents';
+import type {
+  LLMProvider,
+  LLMRequest,
+  LLMCompletion,
+  LLMCompleteOptions,
+  TokenUsage,
+  LLMToolCall,
+  LLMToolDefinition,
+  HttpProviderConfig,
+  AgentModelConfig,
+  RetryPolicy
+} from '../types/llm';
+import { createHttpError } from './llmRetry';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+const DEFAULT_TEMPERATURE = 0.8;
+const DEFAULT_MAX_TOKENS = 8000;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+  timeoutMs: 60000
+};
+
+// ============ IMPLEMENTATIONS ============
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+// Аргументы OpenAI приходят JSON-строкой (при стриминге - по кускам)
+interface OpenAIToolCall {
+  index?: number;
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+interface OpenAIChatResponse {
+  choices: {
+    message: {
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+  }[];
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIStreamChunk {
+  choices: {
+    delta?: {
+      content?: string;
+      tool_calls?: OpenAIToolCall[];
+    };
+  }[];
+  usage?: OpenAIUsage | null;   // Только в последнем чанке при stream_options.include_usage
+}
+
+interface OllamaChatResponse {
+  message?: {
+    content: string;
+    tool_calls?: { function: { name: string; arguments: Record<string, unknown> } }[];
+  };
+  done?: boolean;
+  prompt_eval_count?: number;   // Есть в финальном ответе
+  eval_count?: number;
+}
+
+const fromOpenAIUsage = (usage?: OpenAIUsage | null): TokenUsage | undefined =>
+  usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined;
+
+const fromOllamaUsage = (data: OllamaChatResponse): TokenUsage | undefined =>
+  data.prompt_eval_count !== undefined || data.eval_count !== undefined
+    ? { promptTokens: data.prompt_eval_count || 0, completionTokens: data.eval_count || 0 }
+    : undefined;
+
+const toOpenAITools = (tools?: LLMToolDefinition[]) =>
+  tools?.length ? { tools: tools.map(tool => ({ type: 'function', function: tool })) } : {};
+
+// Невалидный JSON аргументов - пустой объект: ошибку покажет схема инструмента
+const parseToolArguments = (raw?: string): Record<string, unknown> => {
+  try {
+    const parsed: unknown = JSON.parse(raw || '{}');
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+  } catch {
+    return {};
+  }
+};
+
+const fromOpenAIToolCalls = (calls?: OpenAIToolCall[]): LLMToolCall[] | undefined =>
+  calls?.length
+    ? calls.map(call => ({ name: call.function?.name || '', arguments: parseToolArguments(call.function?.arguments) }))
+    : undefined;
+
+// Ollama отдаёт аргументы объектом и целые вызовы (без кусков)
+const fromOllamaToolCalls = (data: OllamaChatResponse): LLMToolCall[] | undefined =>
+  data.message?.tool_calls?.length
+    ? data.message.tool_calls.map(call => ({ name: call.function.name, arguments: call.function.arguments || {} }))
+    : undefined;
+
+const post = async (
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    throw await createHttpError(response);
+  }
+
+  return response;
+};
+
+const postJson = async <T>(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const response = await post(url, body, headers, signal);
+  return response.json() as Promise<T>;
+};
+
+/**
+ * Читает тело ответа построчно (SSE и NDJSON - оба построчные форматы)
+ */
+const readLines = async (response: Response, onLine: (line: string) => void) => {
+  if (!response.body) {
+    throw new Error('LLM API error: streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(line => line.trim() && onLine(line.trim()));
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(buffer.trim());
+};
+
+/**
+ * OpenAI-совместимый бэкенд: POST {baseUrl}/chat/completions.
+ * Подходит для MegaLLM, OpenRouter, vLLM и llama.cpp `llama-server`.
+ */
+export const createOpenAICompatibleProvider = (config: HttpProviderConfig): LLMProvider => ({
+  id: config.id,
+  kind: 'openai',
+  supportsTools: config.supportsTools ?? true,
+  async complete(request: LLMRequest, options?: LLMCompleteOptions): Promise<LLMCompletion> {
+    const url = `${config.baseUrl}/chat/completions`;
+    const body = {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...toOpenAITools(request.tools)
+    };
+    const headers = {
+      ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+      ...config.headers
+    };
+
+    if (!options?.onChunk) {
+      const data = await postJson<OpenAIChatResponse>(url, body, headers, options?.signal);
+      const message = data.choices[0]?.message;
+      return {
+        content: message?.content || '',
+        usage: fromOpenAIUsage(data.usage),
+        toolCalls: fromOpenAIToolCalls(message?.tool_calls)
+      };
+    }
+
+    // SSE: строки "data: {...}", поток заканчивается "data: [DONE]"
+    const response = await post(
+      url,
+      { ...body, stream: true, ...(config.streamUsage ? { stream_options: { include_usage: true } } : {}) },
+      headers,
+      options.signal
+    );
+    let content = '';
+    let usage: TokenUsage | undefined;
+    const toolCalls: OpenAIToolCall[] = [];
+    await readLines(response, line => {
+      if (!line.startsWith('data:')) return;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return;
+
+      const chunk = JSON.parse(payload) as OpenAIStreamChunk;
+      usage = fromOpenAIUsage(chunk.usage) || usage;
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        content += delta.content;
+        options.onChunk?.(delta.content);
+      }
+      // Вызов инструмента собирается из кусков по index
+      for (const part of delta?.tool_calls || []) {
+        const index = part.index ?? toolCalls.length;
+        const call = toolCalls[index] || (toolCalls[index] = { function: { name: '', arguments: '' } });
+        call.function!.name += part.function?.name || '';
+        call.function!.arguments += part.function?.arguments || '';
+      }
+    });
+    return { content, usage, toolCalls: fromOpenAIToolCalls(toolCalls.filter(Boolean)) };
+  }
+});
+
+/**
+ * Локальный Ollama-style сервер: POST {baseUrl}/api/chat.
+ * При стриминге Ollama отдаёт NDJSON - по JSON-объекту на строку.
+ */
+export const createOllamaProvider = (config: HttpProviderConfig): LLMProvider => ({
+  id: config.id,
+  kind: 'ollama',
+  supportsTools: config.supportsTools ?? false,
+  async complete(request: LLMRequest, options?: LLMCompleteOptions): Promise<LLMCompletion> {
+    const url = `${config.baseUrl}/api/chat`;
+    const stream = Boolean(options?.onChunk);
+    const body = {
+      model: request.model,
+      messages: request.messages,
+      stream,
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxTokens
+      },
+      ...toOpenAITools(request.tools)
+    };
+
+    if (!stream) {
+      const data = await postJson<OllamaChatResponse>(url, body, { ...config.headers }, options?.signal);
+      return { content: data.message?.content || '', usage: fromOllamaUsage(data), toolCalls: fromOllamaToolCalls(data) };
+    }
+
+    const response = await post(url, body, { ...config.headers }, options?.signal);
+    let content = '';
+    let usage: TokenUsage | undefined;
+    const toolCalls: LLMToolCall[] = [];
+    await readLines(response, line => {
+      const data = JSON.parse(line) as OllamaChatResponse;
+      usage = fromOllamaUsage(data) || usage;
+      toolCalls.push(...(fromOllamaToolCalls(data) || []));
+      const delta = data.message?.content;
+      if (delta) {
+        content += delta;
+        options?.onChunk?.(delta);
+      }
+    });
+    return { content, usage, toolCalls: toolCalls.length > 0 ? toolCalls : undefined };
+  }
+});
+
+/**
+ * In-process провайдер: ответ формирует обычная функция, сеть не нужна.
+ */
+export const createStubProvider = (
+  id: string,
+  respond: (request: LLMRequest) => string | Promise<string>
+): LLMProvider => ({
+  id,
+  kind: 'stub',
+  async complete(request: LLMRequest, options?: LLMCompleteOptions): Promise<LLMCompletion> {
+    const content = await respond(request);
+    // Стриминг эмулируется одним фрагментом
+    options?.onChunk?.(content);
+    return { content };
+  }
+});
+
+// ============ REGISTRY ============
+
+const providers = new Map<string, LLMProvider>();
+
+export const registerProvider = (provider: LLMProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): LLMProvider => {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown LLM provider: ${id}`);
+  }
+  return provider;
+};
+
+export const listProviders = (): LLMProvider[] => [...providers.values()];
+
+// Провайдер, перехватывающий вызовы ВСЕХ агентов (например, replay записанной сессии)
+let providerOverride: string | null = null;
+
+export const setProviderOverride = (id: string | null) => {
+  providerOverride = id;
+};
+
+export const getProviderOverride = (): string | null => providerOverride;
+
+// Провайдеры по умолчанию
+// 'openai' проксируется через Vite dev server на https://ai.megallm.io/v1 (обход CORS)
+// Function calling включается явно: VITE_LLM_FUNCTION_CALLING=true. Ответ с tool_calls часто приходит
+// без content, а сцена собирается из JSON в content - без него инструменты описываются в промпте
+// Usage в стриме: VITE_LLM_STREAM_USAGE=false - если бэкенд отвергает stream_options (старые vLLM, llama-server)
+registerProvider(createOpenAICompatibleProvider({
+  id: 'openai',
+  baseUrl: import.meta.env.VITE_LLM_BASE_URL || '/api/llm',
+  apiKey: import.meta.env.VITE_MEGA_LLM_API_KEY,
+  supportsTools: import.meta.env.VITE_LLM_FUNCTION_CALLING === 'true',
+  streamUsage: import.meta.env.VITE_LLM_STREAM_USAGE !== 'false'
+}));
+
+// 'local' проксируется на локальный Ollama (http://localhost:11434)
+// Tools умеют не все локальные модели - включается явно: VITE_LOCAL_LLM_FUNCTION_CALLING=true
+registerProvider(createOllamaProvider({
+  id: 'local',
+  baseUrl: import.meta.env.VITE_LOCAL_LLM_URL || '/api/local-llm',
+  supportsTools: import.meta.env.VITE_LOCAL_LLM_FUNCTION_CALLING === 'true'
+}));
+
+// 'stub' отвечает пустым JSON - заглушка, которую можно перерегистрировать своим обработчиком
+registerProvider(createStubProvider('stub', () => '{}'));
+
+// ============ AGENT ROUTING ============
+
+const envProvider = (agent: AgentRole): string =>
+  import.meta.env[`VITE_LLM_PROVIDER_${agent}`] || import.meta.env.VITE_LLM_PROVIDER || 'openai';
+
+const envModel = (agent: AgentRole): string =>
+  import.meta.env[`VITE_LLM_MODEL_${agent}`] || import.meta.env.VITE_LLM_MODEL || DEFAULT_MODEL;
+
+const createAgentConfig = (agent: AgentRole, retry?: Partial<RetryPolicy>): AgentModelConfig => ({
+  provider: envProvider(agent),
+  model: envModel(agent),
+  retry
+});
+
+// Конфигурация агентов: провайдер + модель (переопределяется через VITE_LLM_PROVIDER_<AGENT> / VITE_LLM_MODEL_<AGENT>)
+// Таймауты рассчитаны на размер ответа: лор и сценарий - самые длинные
+const agentConfigs: Record<AgentRole, AgentModelConfig> = {
+  GOLEM: createAgentConfig('GOLEM', { timeoutMs: 120000 }),                  // Lore generation
+  CHARACTER_GENERATOR: createAgentConfig('CHARACTER_GENERATOR', { timeoutMs: 90000 }),
+  NARRATOR: createAgentConfig('NARRATOR', { timeoutMs: 120000 }),            // Scenario generation
+  SHOWRUNNER: createAgentConfig('SHOWRUNNER', { timeoutMs: 90000 }),         // Scene generation
+  DIRECTOR: createAgentConfig('DIRECTOR', { timeoutMs: 45000, maxRetries: 3 }),  // Story direction (короткий ответ)
+  CRITIC: createAgentConfig('CRITIC', { timeoutMs: 30000 }),                 // Scene continuity check
+  CHRONICLER: createAgentConfig('CHRONICLER', { timeoutMs: 90000 })          // Epilogue chronicle
+};
+
+// Вызовы без агента (generateNarrative)
+const defaultConfig: AgentModelConfig = {
+  provider: import.meta.env.VITE_LLM_PROVIDER || 'openai',
+  model: import.meta.env.VITE_LLM_MODEL || DEFAULT_MODEL
+};
+
+export const getAgentModelConfig = (agent?: AgentRole): AgentModelConfig =>
+  agent ? agentConfigs[agent] : defaultConfig;
+
+// Провайдер агента понимает function calling (с учётом переопределения провайдера)
+export const agentSupportsTools = (agent?: AgentRole): boolean =>
+  getProvider(providerOverride || getAgentModelConfig(agent).provider).supportsTools === true;
+
+export const setAgentModelConfig = (agent: AgentRole, updates: Partial<AgentModelConfig>) => {
+  agentConfigs[agent] = { ...agentConfigs[agent], ...updates };
+};
+
+/**
+ * Собрать запрос для агента: провайдер, модель, параметры сэмплинга и политика повторов.
+ * useOverride=false - мимо setProviderOverride (playground не расходует очередь replay)
+ */
+export const resolveAgentRequest = (
+  messages: LLMRequest['messages'],
+  agent?: AgentRole,
+  overrideModel?: string,
+  context?: Record<string, unknown>,
+  useOverride = true
+): { provider: LLMProvider; request: LLMRequest; retry: RetryPolicy } => {
+  const config = getAgentModelConfig(agent);
+  return {
+    provider: getProvider((useOverride && providerOverride) || config.provider),
+    retry: { ...DEFAULT_RETRY_POLICY, ...config.retry },
+    request: {
+      model: overrideModel || config.model,
+      messages,
+      temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+      agent,
+      context
+    }
+  };
+};
+
+// ============ MODEL COMPARISON ============
+// Варианты для сравнения ответов агента: VITE_LLM_COMPARE_<AGENT> или VITE_LLM_COMPARE,
+// через запятую "[provider:]model[@temperature]", напр. "gpt-4o-mini, local:llama3.1:8b@0.4".
+// Без провайдера - провайдер агента, без температуры - температура агента.
+
+const COMPARISON_TEMPERATURES = [0.2, 1.0];
+
+export const parseComparisonVariants = (spec: string, agent?: AgentRole): ComparisonVariant[] => {
+  const config = getAgentModelConfig(agent);
+  return spec.split(',').map(s => s.trim()).filter(Boolean).map(entry => {
+    const [target, temperature] = entry.split('@');
+    // Префикс - провайдер, только если такой зарегистрирован (в именах моделей Ollama тоже есть ':')
+    const separator = target.indexOf(':');
+    const prefix = separator > 0 ? target.slice(0, separator) : '';
+    const hasProvider = providers.has(prefix);
+    const parsedTemperature = Number(temperature);
+    return {
+      provider: hasProvider ? prefix : config.provider,
+      model: (hasProvider ? target.slice(separator + 1) : target).trim() || config.model,
+      temperature: temperature !== undefined && Number.isFinite(parsedTemperature)
+        ? parsedTemperature
+        : config.temperature ?? DEFAULT_TEMPERATURE
+    };
+  });
+};
+
+export const formatComparisonVariant = (variant: ComparisonVariant): string =>
+  `${variant.provider}:${variant.model}@${variant.temperature}`;
+
+/**
+ * Варианты по умолчанию: из env, иначе модель агента на низкой и высокой температуре
+ */
+export const getComparisonVariants = (agent: AgentRole): ComparisonVariant[] => {
+  const spec = import.meta.env[`VITE_LLM_COMPARE_${agent}`] || import.meta.env.VITE_LLM_COMPARE;
+  if (spec) return parseComparisonVariants(spec, agent);
+  const config = getAgentModelConfig(agent);
+  return COMPARISON_TEMPERATURES.map(temperature => ({ provider: config.provider, model: config.model, temperature }));
+};
+
+/**
+ * Запрос варианта сравнения: те же сообщения, лимиты и повторы, что у агента, но своя модель и температура.
+ * Переопределение провайдера (replay) не действует - сравниваем живые модели.
+ */
+export const resolveComparisonRequest = (
+  messages: LLMRequest['messages'],
+  agent: AgentRole,
+  variant: ComparisonVariant,
+  context?: Record<string, unknown>
+): { provider: LLMProvider; request: LLMRequest; retry: RetryPolicy } => {
+  const config = getAgentModelConfig(agent);
+  return {
+    provider: getProvider(variant.provider),
+    retry: { ...DEFAULT_RETRY_POLICY, ...config.retry },
+    request: {
+      model: variant.model,
+      messages,
+      temperature: variant.temperature,
+      maxTokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+      agent,
+      context
+    }
+  };
+};
@@ -0,0 +1,149 @@
+// ============ LLM RETRY ============
+// Повторы с экспоненциальной задержкой и jitter, жёсткий таймаут попытки и отмена через AbortSignal.
+
+import type { RetryPolicy } from '../types/llm';
+
+// HTTP-статусы, после которых имеет смысл повторить запрос
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Ошибка запроса к LLM: знает HTTP-статус и можно ли её повторить
+ */
+export class LLMRequestError extends Error {
+  status?: number;
+  retryable: boolean;
+  retryAfterMs?: number;        // Из заголовка Retry-After
+
+  constructor(message: string, options: { status?: number; retryable?: boolean; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.status = options.status;
+    this.retryable = options.retryable ?? (options.status !== undefined && RETRYABLE_STATUSES.has(options.status));
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Ошибка ответа HTTP-бэкенда (статус + тело)
+ */
+export const createHttpError = async (response: Response): Promise<LLMRequestError> => {
+  const errorText = await response.text();
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  return new LLMRequestError(`LLM API error: ${response.status} - ${errorText}`, {
+    status: response.status,
+    retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+  });
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof LLMRequestError) return error.retryable;
+  // fetch бросает TypeError при обрыве сети / CORS
+  return error instanceof TypeError;
+};
+
+/**
+ * Экспоненциальная задержка с jitter: 50-100% от base * 2^(retry-1), не больше maxDelayMs
+ */
+export const getBackoffDelay = (policy: RetryPolicy, retry: number, error?: unknown): number => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  const jittered = Math.round(exponential * (0.5 + Math.random() / 2));
+  const retryAfter = error instanceof LLMRequestError ? error.retryAfterMs : undefined;
+  return retryAfter ? Math.max(jittered, Math.min(retryAfter, policy.maxDelayMs)) : jittered;
+};
+
+export const createAbortError = () => new DOMException('LLM request cancelled', 'AbortError');
+
+/**
+ * Пауза, которую можно прервать сигналом
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Одна попытка с жёстким таймаутом.
+ * Свой AbortController уходит в fetch; гонка с abort нужна для провайдеров, которые сигнал не слушают.
+ */
+export const runWithTimeout = <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  parentSignal?: AbortSignal
+): Promise<T> => {
+  if (parentSignal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+
+  return new Promise<T>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      parentSignal?.removeEventListener('abort', onParentAbort);
+    };
+    const onParentAbort = () => {
+      cleanup();
+      controller.abort();
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      cleanup();
+      controller.abort();
+      reject(new LLMRequestError(`LLM timeout after ${timeoutMs}ms`, { retryable: true }));
+    }, timeoutMs);
+    parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+
+    run(controller.signal).then(
+      value => {
+        cleanup();
+        resolve(value);
+      },
+      error => {
+        cleanup();
+        // После таймаута fetch падает с AbortError - наружу уже ушла ошибка таймаута
+        if (!timedOut) reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Выполнить запрос по политике повторов.
+ * onRetry вызывается перед каждой паузой (для логов); отмена parentSignal прерывает и паузу.
+ */
+export const withRetry = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  policy: RetryPolicy,
+  parentSignal?: AbortSignal,
+  onRetry?: (retry: number, error: unknown, delayMs: number) => void
+): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await runWithTimeout(run, policy.timeoutMs, parentSignal);
+    } catch (error) {
+      if (parentSignal?.aborted || retry >= policy.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+      const delayMs = getBackoffDelay(policy, retry + 1, error);
+      onRetry?.(retry + 1, error, delayMs);
+      await sleep(delayMs, parentSignal);
+    }
+  }
+};
@@ -9,26 +9,57 @@ import type {
   AgentDebugStore,
   ShowrunnerContext,
   Scene,
+  SceneChoice,
   PlayerState,
   DirectorContext,
   DirectorAnalysis,
   StoryState,
   DirectorDirective
 } from '../types/agents';
+import type { StreamChunk, PromptBudgetReport, ValidationReport, ComparisonVariant, ComparisonResult, ModelComparison } from '../types/agents';
+import type { CriticVerdict, NarrativeMemory, LockedChoice, SkillCheckResult, Epilogue, EpilogueChronicle } from '../types/agents';
+import type { AgentPriority, AgentDebugPhase, ActiveDebugPhase } from '../types/agents';
 import { createLogId, createEmptyDebugStore } from '../types/agents';
-
-// API Configuration
-// Используем прокси через Vite dev server для обхода CORS
-const API_CONFIG = {
-  baseUrl: '/api/llm',  // Проксируется на https://ai.megallm.io/v1
-  apiKey: import.meta.env.VITE_MEGA_LLM_API_KEY,
-  model: 'gemini-2.5-flash'  // For lore generation
-};
-
-const NARRATOR_MODEL = 'gemini-2.5-flash';  // For scenario generation
-const CHARACTER_AGENT_MODEL = 'gemini-2.5-flash';  // For character generation
-const SHOWRUNNER_MODEL = 'gemini-2.5-flash';  // For scene generation
-const DIRECTOR_MODEL = 'gemini-2.5-flash';  // For story direction
+import type { ChatMessage, LLMCompleteOptions, LLMToolCall, LLMToolDefinition } from '../types/llm';
+import { resolveAgentRequest, resolveComparisonRequest, getComparisonVariants, agentSupportsTools } from './llmProviders';
+import { withRetry, isAbortError } from './llmRetry';
+import { scheduleAgentCall, subscribeToScheduler, getAgentPriority } from './agentScheduler';
+import {
+  createCacheKey,
+  isCacheEnabledFor,
+  readCachedResponse,
+  writeCachedResponse,
+  deleteCachedResponse
+} from './responseCache';
+import { fitPromptToBudget, getPromptBudget, estimateTokens, truncateText, type PromptSection } from './tokenBudget';
+import { recordUsage, calculateCost, assertWithinSpendingCap } from './usageTracker';
+import { bindPromptTemplate, promptFlag } from './promptTemplates';
+import { getUIStrings } from '../i18n';
+import type { BoundPromptTemplate, PromptTemplateRef } from '../types/prompts';
+import { parsePartialJson } from '../utils/partialJson';
+import { describeInjury } from './health';
+import { describeItem } from './items';
+import { withSceneTools, getSceneToolDefinitions, describeSceneTools, getSceneNpcs, attachToolCallsToScene } from './sceneTools';
+import { checkSceneContinuity, buildCriticContext, getCriticMode, CRITIC_RULES, type SceneCriticInput } from './sceneCritic';
+import { recallMemories, getScenarioElements, findMentionedNames } from './narrativeMemory';
+import { createStoryThreads, trackStoryThreads, getOpenThreadLines } from './storyThreads';
+import { buildEpilogueContext, createFallbackChronicle, type EpilogueInput } from './epilogue';
+import {
+  validateAgentResponse,
+  worldLoreSchema,
+  characterResultSchema,
+  scenarioSchema,
+  createDirectorAnalysisSchema,
+  createSceneSchema,
+  criticVerdictSchema,
+  createEpilogueChronicleSchema,
+  unknownValue,
+  transform,
+  type Schema
+} from './agentSchemas';
+
+// Провайдеры и модели агентов настраиваются в ./llmProviders
+// (VITE_LLM_PROVIDER_<AGENT>, VITE_LLM_MODEL_<AGENT>)
 
 // ============ AGENT DEBUG SYSTEM ============
 // Глобальное хранилище для отладки агентов
@@ -70,29 +101,53 @@ const updateDebugLog = (id: string, updates: Partial<AgentCallLog>) => {
   notifyDebugListeners();
 };
 
-const setDebugPhase = (phase: AgentDebugStore['currentPhase']) => {
-  debugStore = { ...debugStore, currentPhase: phase };
+const withActivePhases = (activePhases: ActiveDebugPhase[]): AgentDebugStore => ({
+  ...debugStore,
+  activePhases,
+  currentPhase: activePhases.at(-1)?.phase ?? 'IDLE'
+});
+
+let phaseCounter = 0;
+
+/**
+ * Отметить начало фазы; возвращает функцию завершения.
+ * Фазы параллельных вызовов живут независимо - завершение одной не сбрасывает другие в IDLE.
+ */
+const beginDebugPhase = (phase: Exclude<AgentDebugPhase, 'IDLE'>): (() => void) => {
+  const id = `phase-${++phaseCounter}`;
+  debugStore = withActivePhases([...debugStore.activePhases, { id, phase, startedAt: Date.now() }]);
   notifyDebugListeners();
+  return () => {
+    debugStore = withActivePhases(debugStore.activePhases.filter(p => p.id !== id));
+    notifyDebugListeners();
+  };
 };
 
+// Очередь планировщика зеркалится в debugStore
+subscribeToScheduler(queue => {
+  debugStore = { ...debugStore, queue };
+  notifyDebugListeners();
+});
+
 export const clearDebugStore = () => {
-  debugStore = createEmptyDebugStore();
+  // Выполняющиеся фазы и очередь - не история, их очистка не трогает
+  debugStore = {
+    ...createEmptyDebugStore(),
+    activePhases: debugStore.activePhases,
+    currentPhase: debugStore.currentPhase,
+    queue: debugStore.queue
+  };
+  callMessages.clear();
+  callSchemas.clear();
+  callRenderers.clear();
   notifyDebugListeners();
 };
 
-// Types
-interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-interface LLMResponse {
-  choices: {
-    message: {
-      content: string;
-    };
-  }[];
-}
+// Полные сообщения и схема каждого вызова - чтобы повторить его на другой модели (compareAgentCall).
+// В лог не кладём: там system/user, а repair-переписка восстанавливается только отсюда.
+const callMessages = new Map<string, ChatMessage[]>();
+const callSchemas = new Map<string, Schema<unknown>>();
+const callRenderers = new Map<string, PromptRenderer>();
 
 // Lore for individual cities/capitals
 export interface CityLore {
@@ -183,20 +238,76 @@ const createWorldContext = (worldData: WorldData, worldState: WorldState): strin
 interface CallLLMOptions {
   agent: AgentRole;
   context?: Record<string, any>;
+  repairOf?: string;            // id лога, ответ которого чиним
+  reviewOf?: string;            // CRITIC: id лога проверяемой сцены
+  playgroundOf?: string;        // id лога, который правят в playground
+  onChunk?: (delta: string, text: string) => void;  // Включает стриминг; text - весь ответ текущей попытки
+  signal?: AbortSignal;         // Отмена (clear() в useWorldLore)
+  budget?: PromptBudgetReport;  // Как промпт уложили в бюджет токенов
+  sceneNumber?: number;         // Для учёта расходов по сценам (0 - подготовка игры)
+  promptTemplate?: PromptTemplateRef;  // Шаблон, из которого собран промпт
+  priority?: AgentPriority;     // Приоритет в очереди (по умолчанию - по агенту)
+  // Function calling: инструменты уходят провайдеру, вызовы вливаются в JSON ответа (кэш и лог видят один документ)
+  tools?: {
+    definitions: LLMToolDefinition[];
+    merge: (content: string, calls: LLMToolCall[]) => string;
+  };
+  renderPrompts?: PromptRenderer;   // Пересборка промпта из правленого контекста (playground)
+  bypassOverride?: boolean;     // Мимо setProviderOverride: playground не расходует очередь replay
 }
 
-async function callLLM(
+// Промпт вызова из шаблона по контексту вызова
+type PromptRenderer = (context: Record<string, unknown>) => { systemPrompt: string; userPrompt: string };
+
+// Шаблоны из system и user блоков
+const renderSystemAndUser = (template: BoundPromptTemplate) => ({
+  systemPrompt: template.render('system'),
+  userPrompt: template.render('user')
+});
+
+// Параметры публичных generate*-функций
+export interface AgentRequestOptions {
+  signal?: AbortSignal;         // Отменяет запрос и все его повторы
+  priority?: AgentPriority;     // Переопределить приоритет агента в очереди планировщика
+}
+
+// Оценка токенов, когда провайдер не вернул usage
+const estimateUsage = (messages: ChatMessage[], content: string) => ({
+  promptTokens: messages.reduce((acc, m) => acc + estimateTokens(m.content), 0),
+  completionTokens: estimateTokens(content)
+});
+
+async function requestLLM(
   messages: ChatMessage[], 
   overrideModel?: string,
   debugOptions?: CallLLMOptions
-): Promise<string> {
+): Promise<{ content: string; logId?: string; cacheKey?: string }> {
   const startTime = Date.now();
-  const model = overrideModel || API_CONFIG.model;
+  const { provider, request, retry } = resolveAgentRequest(
+    messages,
+    debugOptions?.agent,
+    overrideModel,
+    debugOptions?.context,
+    !debugOptions?.bypassOverride
+  );
+  const model = request.model;
+  if (debugOptions?.tools && provider.supportsTools) {
+    request.tools = debugOptions.tools.definitions;
+  }
+  
+  // Кэш только для сетевых провайдеров: mock и replay и так отвечают мгновенно
+  const cacheKey = debugOptions && provider.kind !== 'stub' && isCacheEnabledFor(debugOptions.agent)
+    ? await createCacheKey(debugOptions.agent, model, messages, request.temperature)
+    : undefined;
   
   // Create debug log entry if debug options provided
   let logId: string | undefined;
   if (debugOptions) {
     logId = createLogId(debugOptions.agent);
+    callMessages.set(logId, messages);
+    if (debugOptions.renderPrompts) {
+      callRenderers.set(logId, debugOptions.renderPrompts);
+    }
     const systemPrompt = messages.find(m => m.role === 'system')?.content || '';
     const userPrompt = messages.find(m => m.role === 'user')?.content || '';
     
@@ -205,45 +316,99 @@ async function callLLM(
       timestamp: startTime,
       agent: debugOptions.agent,
       model,
+      provider: provider.id,
       systemPrompt,
       userPrompt,
       context: debugOptions.context || {},
+      repairOf: debugOptions.repairOf,
+      reviewOf: debugOptions.reviewOf,
+      playgroundOf: debugOptions.playgroundOf,
+      budget: debugOptions.budget,
+      promptTemplate: debugOptions.promptTemplate,
+      cacheKey,
+      priority: debugOptions.priority ?? getAgentPriority(debugOptions.agent),
       status: 'pending'
     });
   }
   
+  const cached = cacheKey && debugOptions ? await readCachedResponse(cacheKey, debugOptions.agent) : undefined;
+  if (cached !== undefined && debugOptions) {
+    console.log(`💾 ${debugOptions.agent}: served from cache`);
+    debugOptions.onChunk?.(cached, cached);
+    if (logId) {
+      updateDebugLog(logId, {
+        status: 'success',
+        rawResponse: cached,
+        cacheHit: true,
+        durationMs: Date.now() - startTime
+      });
+    }
+    return { content: cached, logId, cacheKey };
+  }
+  
+  // Стриминг: дельты пишем в лог с временем от начала вызова (только последней попытки)
+  let streamChunks: StreamChunk[] = [];
+  const retries: NonNullable<AgentCallLog['retries']> = [];
+  const streamStats = (): Partial<AgentCallLog> => debugOptions?.onChunk
+    ? { streamChunks, firstChunkMs: streamChunks[0]?.atMs }
+    : {};
+  
+  const attempt = (signal: AbortSignal) => {
+    streamChunks = [];
+    let streamed = '';
+    const completeOptions: LLMCompleteOptions = { signal };
+    if (debugOptions?.onChunk) {
+      completeOptions.onChunk = (delta) => {
+        // Чанки отменённой попытки (таймаут) уже никому не нужны
+        if (signal.aborted) return;
+        streamed += delta;
+        streamChunks.push({ atMs: Date.now() - startTime, text: delta });
+        debugOptions.onChunk?.(delta, streamed);
+      };
+    }
+    return provider.complete(request, completeOptions);
+  };
+  
   try {
-    const response = await fetch(`${API_CONFIG.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${API_CONFIG.apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature: 0.8,
-        max_tokens: 8000
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      const error = `LLM API error: ${response.status} - ${errorText}`;
-      
-      if (logId) {
-        updateDebugLog(logId, {
-          status: 'error',
-          error,
-          durationMs: Date.now() - startTime
+    const { content: rawContent, usage, toolCalls } = await scheduleAgentCall(
+      { agent: debugOptions?.agent, provider: provider.id, priority: debugOptions?.priority, logId },
+      () => {
+        // Лимит расходов проверяется после кэша (ответы из кэша бесплатны) и после очереди:
+        // пока вызов ждал, параллельные могли его исчерпать
+        assertWithinSpendingCap();
+        return withRetry(attempt, retry, debugOptions?.signal, (retryNumber, error, delayMs) => {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.warn(`⏳ LLM retry ${retryNumber}/${retry.maxRetries} in ${delayMs}ms: ${message}`);
+          retries.push({ error: message, delayMs });
+          if (logId) {
+            updateDebugLog(logId, { retries: [...retries] });
+          }
         });
+      },
+      debugOptions?.signal,
+      queueWaitMs => {
+        if (logId && queueWaitMs > 0) {
+          updateDebugLog(logId, { queueWaitMs });
+        }
       }
-      
-      throw new Error(error);
-    }
-
-    const data: LLMResponse = await response.json();
-    const content = data.choices[0]?.message?.content || '';
+    );
+    
+    const content = toolCalls && debugOptions?.tools
+      ? debugOptions.tools.merge(rawContent, toolCalls)
+      : rawContent;
+    
+    // Usage от провайдера, иначе оценка; in-process провайдеры (mock, replay) бесплатны
+    const tokenUsage = usage || estimateUsage(messages, content);
+    const costUsd = provider.kind === 'stub' ? 0 : calculateCost(model, tokenUsage);
+    const { gameId } = recordUsage({
+      logId,
+      agent: debugOptions?.agent,
+      model,
+      sceneNumber: debugOptions?.sceneNumber ?? 0,
+      ...tokenUsage,
+      estimated: !usage,
+      costUsd
+    });
     
     // Update debug log with success
     if (logId) {
@@ -251,19 +416,56 @@ async function callLLM(
         status: 'success',
         rawResponse: content,
         durationMs: Date.now() - startTime,
-        tokenEstimate: Math.ceil((content.length + messages.reduce((acc, m) => acc + m.content.length, 0)) / 4)
+        tokenEstimate: tokenUsage.promptTokens + tokenUsage.completionTokens,
+        usage: { ...tokenUsage, estimated: !usage },
+        costUsd,
+        gameId,
+        sceneNumber: debugOptions?.sceneNumber ?? 0,
+        toolCalls,
+        ...streamStats()
       });
     }
     
-    return content;
+    if (cacheKey && debugOptions) {
+      await writeCachedResponse(cacheKey, { content, createdAt: Date.now(), agent: debugOptions.agent, model });
+    }
+    
+    return { content, logId, cacheKey };
   } catch (error) {
-    console.error('LLM call failed:', error);
+    const cancelled = isAbortError(error);
+    if (!cancelled) {
+      console.error('LLM call failed:', error);
+    }
+    
+    // Оборванный стрим уже оплачен: учитываем оценку по полученной части
+    const partial = streamChunks.map(chunk => chunk.text).join('');
+    const partialUsage = partial ? estimateUsage(messages, partial) : undefined;
+    const partialCostUsd = partialUsage && provider.kind !== 'stub' ? calculateCost(model, partialUsage) : 0;
+    const gameId = partialUsage
+      ? recordUsage({
+          logId,
+          agent: debugOptions?.agent,
+          model,
+          sceneNumber: debugOptions?.sceneNumber ?? 0,
+          ...partialUsage,
+          estimated: true,
+          costUsd: partialCostUsd
+        }).gameId
+      : undefined;
     
     if (logId) {
       updateDebugLog(logId, {
         status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        durationMs: Date.now() - startTime
+        error: cancelled ? 'Cancelled' : error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startTime,
+        ...(partialUsage ? {
+          tokenEstimate: partialUsage.promptTokens + partialUsage.completionTokens,
+          usage: { ...partialUsage, estimated: true },
+          costUsd: partialCostUsd,
+          gameId,
+          sceneNumber: debugOptions?.sceneNumber ?? 0
+        } : {}),
+        ...streamStats()
       });
     }
     
@@ -271,147 +473,459 @@ async function callLLM(
   }
 }
 
-// Generate world lore based on current state
-export async function generateWorldLore(worldData: WorldData, worldState: WorldState): Promise<WorldLore> {
-  setDebugPhase('GENERATING_LORE');
-  const worldContext = createWorldContext(worldData, worldState);
-  
-  // Get available town images for specialty matching
-  const townImages = getTownImageListForPrompt();
-  const imagesByClimate = {
-    NORTH: townImages.filter(i => i.climate === 'NORTH').map(i => `${i.id}: ${i.keywords.join(', ')}`),
-    CENTRAL: townImages.filter(i => i.climate === 'CENTRAL').map(i => `${i.id}: ${i.keywords.join(', ')}`),
-    SOUTH: townImages.filter(i => i.climate === 'SOUTH').map(i => `${i.id}: ${i.keywords.join(', ')}`)
-  };
+async function callLLM(
+  messages: ChatMessage[], 
+  overrideModel?: string,
+  debugOptions?: CallLLMOptions
+): Promise<string> {
+  const { content } = await requestLLM(messages, overrideModel, debugOptions);
+  return content;
+}
 
-  const systemPrompt = `Ты мастер-создатель фэнтези миров. Пишешь атмосферные описания как древний летописец.
-Каждое королевство должно быть уникальным в зависимости от климата и географии.
-ВСЕГДА отвечай ТОЛЬКО валидным JSON - без markdown, без пояснений.`;
-
-  const userPrompt = `Создай детальный лор для этого мира НА РУССКОМ ЯЗЫКЕ:
-
-${worldContext}
-
-ДОСТУПНЫЕ ИЗОБРАЖЕНИЯ ГОРОДОВ (используй эти ключевые слова для поля "specialty"):
-
-Северный климат (NORTH):
-${imagesByClimate.NORTH.join('\n')}
-
-Центральный климат (CENTRAL):
-${imagesByClimate.CENTRAL.join('\n')}
-
-Южный климат (SOUTH):
-${imagesByClimate.SOUTH.join('\n')}
-
-Сгенерируй JSON СТРОГО по этой структуре (ВСЕ ТЕКСТЫ НА РУССКОМ):
-{
-  "worldName": "Эпическое название континента",
-  "worldDescription": "2-3 предложения описывающих характер континента",
-  "era": "Название текущей эпохи (напр. Эпоха Раздора)",
-  "majorEvents": [
-    "Историческое событие 1 (одно предложение)",
-    "Историческое событие 2 (одно предложение)", 
-    "Историческое событие 3 (одно предложение)"
-  ],
-  "kingdoms": [
-    {
-      "id": <id королевства из данных>,
-      "name": "<ТОЧНОЕ имя из данных>",
-      "motto": "Девиз королевства (2-5 слов)",
-      "culture": "2-3 предложения о народе, обычаях, образе жизни",
-      "history": "2-3 предложения об истории королевства, основании, ключевых событиях",
-      "religion": "Во что верят или кому поклоняются (1 предложение)",
-      "traits": ["черта1", "черта2", "черта3"],
-      "relations": "1-2 предложения об отношениях с соседями",
-      "capital": {
-        "id": "<id столицы из данных>",
-        "name": "<имя столицы из данных>",
-        "description": "2 предложения о столице",
-        "specialty": "ИСПОЛЬЗУЙ КЛЮЧЕВЫЕ СЛОВА ИЗ СПИСКА ВЫШЕ по климату города",
-        "landmark": "Известное здание или место",
-        "mood": "Одно слово - атмосфера (оживлённый/древний/воинственный/мистический)"
-      },
-      "cities": [
-        {
-          "id": "<id города из данных>",
-          "name": "<имя города из данных>",
-          "description": "1-2 предложения о городе",
-          "specialty": "КЛЮЧЕВЫЕ СЛОВА ИЗ СПИСКА - напр. 'fishing', 'mining', 'buffalo breeding', 'lumber'",
-          "landmark": "Примечательное место",
-          "mood": "Одно слово - атмосфера"
+// Обязательная секция промпта: не сжимается и не выбрасывается бюджетом
+const requiredSection = (id: string, text: string): PromptSection => ({ id, priority: 10, required: true, text });
+
+// ============ RESPONSE VALIDATION ============
+// Ответ агента проверяется по схеме; при ошибках - один repair-запрос с перечнем ошибок.
+// Прошедший схему ответ может проверить review (CRITIC): при нарушениях - одна точечная перегенерация.
+
+const MAX_REPAIR_ATTEMPTS = 1;
+const MAX_REVIEW_REGENERATIONS = 1;
+
+const createRepairPrompt = (errors: string[]) => `Твой ответ не прошёл проверку схемы:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Исправь ТОЛЬКО эти ошибки и верни ПОЛНЫЙ исправленный JSON - без markdown, без пояснений.`;
+
+const createReviewRepairPrompt = (violations: string[]) => `Редактор нашёл противоречия с состоянием игры:
+${violations.map(v => `- ${v}`).join('\n')}
+
+Перепиши сцену так, чтобы их не было; всё остальное сохрани. Верни ПОЛНЫЙ JSON - без markdown, без пояснений.`;
+
+// Проверка ответа по смыслу: нарушения (пусто - ответ принят); logId - лог проверяемого ответа
+type ResponseReview<T> = (value: T, logId?: string) => Promise<string[]>;
+
+async function callAgentJSON<T>(
+  messages: ChatMessage[],
+  schema: Schema<T>,
+  debugOptions: CallLLMOptions,
+  errorMessage: string,
+  onPartial?: (partial: unknown) => void,  // Стриминг: недописанный JSON после каждого фрагмента
+  review?: ResponseReview<T>
+): Promise<T> {
+  let conversation = messages;
+  let repairOf: string | undefined;
+  let repairs = 0;
+  let regenerations = 0;
+
+  for (;;) {
+    // text - весь ответ текущей попытки: repair и повтор после таймаута стримятся с нуля
+    const onChunk = onPartial
+      ? (_delta: string, text: string) => {
+          const partial = parsePartialJson(text);
+          if (partial !== undefined) onPartial(partial);
         }
-      ],
-      "initialState": {
-        "rulerName": "Полное имя правителя",
-        "rulerTitle": "Король/Королева/Верховный Лорд/Архонт/Ярл/и т.д.",
-        "rulerPersonality": "Aggressive|Diplomatic|Balanced|Defensive|Expansionist",
-        "militaryStrength": <400-900>,
-        "gold": <600-1800>,
-        "mana": <150-700>,
-        "food": <600-1400>
+      : undefined;
+
+    const { content, logId, cacheKey } = await requestLLM(conversation, undefined, { ...debugOptions, repairOf, onChunk });
+    const { value, report } = validateAgentResponse(content, schema);
+
+    if (logId) {
+      callSchemas.set(logId, schema);
+      updateDebugLog(logId, { parsedResponse: value, validation: report });
+    }
+    if (report.valid && value !== undefined) {
+      // Перегенерированный ответ тоже проверяется (вердикт в логе), но принимается как есть
+      const violations = review ? await review(value, logId) : [];
+      if (violations.length === 0 || regenerations >= MAX_REVIEW_REGENERATIONS) {
+        return value;
+      }
+      regenerations++;
+      console.warn(`${debugOptions.agent} response rejected by review:`, violations);
+      if (cacheKey) {
+        await deleteCachedResponse(cacheKey);
       }
+      conversation = [
+        ...messages,
+        { role: 'assistant', content },
+        { role: 'user', content: createReviewRepairPrompt(violations) }
+      ];
+      repairOf = logId;
+      continue;
     }
-  ],
-  "legends": [
-    "Миф или легенда известная по всему миру",
-    "Другая легенда или пророчество"
-  ]
-}
 
-ВАЖНЫЕ ПРАВИЛА:
-- NORTH климат: Скандинавский/Славянский стиль, суровые воины, высокая военная мощь (700-900), мало маны (150-300), титулы типа Ярл/Верховный Король
-- SOUTH климат: Средиземноморский/Арабский стиль, мистики, много маны (500-700), титулы типа Архонт/Султан  
-- CENTRAL климат: Феодальный/сбалансированный, интриги, титулы типа Король/Герцог
-- ДЛЯ КАЖДОГО ГОРОДА: Выбери specialty используя КЛЮЧЕВЫЕ СЛОВА из списка изображений!
-  * FOREST биом → lumber, logging, hunters, woodcutting, forest
-  * HILLS биом → mining, quarry, hills, terraces
-  * PLAINS биом → farming, village, trade, market, buffalo, savannah
-  * Прибрежные королевства → fishing, port, harbor, coast
-- specialty должен быть УНИКАЛЬНЫМ для каждого города в королевстве!
-- Столица должна быть величественнее обычных городов
-- Включи ВСЕ города из данных - не пропускай!
-- Используй ТОЧНЫЕ id и имена из входных данных
-- ОТВЕЧАЙ ТОЛЬКО ВАЛИДНЫМ JSON`;
-
-  const response = await callLLM(
-    [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt }
-    ],
-    undefined,
-    {
-      agent: 'GOLEM',
-      context: {
-        kingdoms: worldData.kingdoms.map(k => ({
-          id: k.id,
-          name: k.name,
-          climate: k.geography.climateZone,
-          biome: k.geography.dominantBiome
-        })),
-        year: worldState.date.year,
-        season: worldState.date.season
-      }
+    console.error(`${debugOptions.agent} response failed validation:`, report.errors);
+    if (repairs >= MAX_REPAIR_ATTEMPTS) {
+      throw new Error(errorMessage);
     }
+    repairs++;
+    // Невалидный ответ не должен возвращаться из кэша при следующем запуске
+    if (cacheKey) {
+      await deleteCachedResponse(cacheKey);
+    }
+    conversation = [
+      ...messages,
+      { role: 'assistant', content },
+      { role: 'user', content: createRepairPrompt(report.errors) }
+    ];
+    repairOf = logId;
+  }
+}
+
+// ============ MODEL COMPARISON ============
+// Повтор вызова агента с теми же сообщениями на других моделях / температурах (подбор SHOWRUNNER_MODEL и т.п.).
+// Результаты идут в debugStore.comparisons; альтернативу можно принять как канонический ответ -
+// лог обновляется, а игра получает значение через subscribeToAdoptedResults.
+
+export interface AdoptedAgentResult {
+  log: AgentCallLog;            // Лог уже с принятым ответом
+  value: unknown;               // Разобранный ответ по схеме агента (Scene, DirectorAnalysis, ...)
+}
+
+const adoptionListeners: Set<(result: AdoptedAgentResult) => void> = new Set();
+
+export const subscribeToAdoptedResults = (listener: (result: AdoptedAgentResult) => void) => {
+  adoptionListeners.add(listener);
+  return () => {
+    adoptionListeners.delete(listener);
+  };
+};
+
+const updateComparison = (id: string, update: (comparison: ModelComparison) => ModelComparison) => {
+  debugStore = {
+    ...debugStore,
+    comparisons: debugStore.comparisons.map(c => c.id === id ? update(c) : c)
+  };
+  notifyDebugListeners();
+};
+
+// Сообщения вызова: сохранённые целиком, иначе (импортированная сессия) - system + user из лога
+const getCallMessages = (log: AgentCallLog): ChatMessage[] =>
+  callMessages.get(log.id) || [
+    { role: 'system' as const, content: log.systemPrompt },
+    { role: 'user' as const, content: log.userPrompt }
+  ].filter(m => m.content);
+
+async function runComparisonVariant(
+  log: AgentCallLog,
+  messages: ChatMessage[],
+  schema: Schema<unknown>,
+  variant: ComparisonVariant,
+  signal?: AbortSignal
+): Promise<ComparisonResult> {
+  const startTime = Date.now();
+  try {
+    const { provider, request, retry } = resolveComparisonRequest(messages, log.agent, variant, log.context);
+    // Сравнение - фоновая работа разработчика, игровые вызовы идут вперёд
+    const { content, usage } = await scheduleAgentCall(
+      { agent: log.agent, provider: provider.id, priority: 'low', logId: log.id },
+      () => {
+        assertWithinSpendingCap();
+        return withRetry(s => provider.complete(request, { signal: s }), retry, signal);
+      },
+      signal
+    );
+
+    const tokenUsage = usage || estimateUsage(messages, content);
+    const costUsd = provider.kind === 'stub' ? 0 : calculateCost(variant.model, tokenUsage);
+    // Сравнение тратит реальные деньги - учитываем в той же сцене, что и исходный вызов
+    recordUsage({
+      logId: log.id,
+      agent: log.agent,
+      model: variant.model,
+      sceneNumber: log.sceneNumber ?? 0,
+      ...tokenUsage,
+      estimated: !usage,
+      costUsd
+    });
+
+    const { value, report } = validateAgentResponse(content, schema);
+    return {
+      variant,
+      status: 'success',
+      rawResponse: content,
+      parsedResponse: value,
+      validation: report,
+      durationMs: Date.now() - startTime,
+      usage: { ...tokenUsage, estimated: !usage },
+      costUsd
+    };
+  } catch (error) {
+    return {
+      variant,
+      status: 'error',
+      error: isAbortError(error) ? 'Cancelled' : error instanceof Error ? error.message : 'Unknown error',
+      durationMs: Date.now() - startTime
+    };
+  }
+}
+
+/**
+ * Повторить вызов агента на нескольких моделях / температурах.
+ * Варианты выполняются параллельно, результаты появляются в debugStore.comparisons по мере готовности.
+ */
+export async function compareAgentCall(
+  logId: string,
+  variants: ComparisonVariant[] = [],
+  options: AgentRequestOptions = {}
+): Promise<ModelComparison> {
+  const log = debugStore.logs.find(l => l.id === logId);
+  if (!log) {
+    throw new Error(`Agent call ${logId} not found`);
+  }
+  const resolvedVariants = variants.length > 0 ? variants : getComparisonVariants(log.agent);
+  const messages = getCallMessages(log);
+  // Без сохранённой схемы (импортированная сессия, callLLM) проверяем только, что ответ - JSON
+  const schema = callSchemas.get(log.id) || unknownValue();
+
+  const comparison: ModelComparison = {
+    id: `cmp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    logId,
+    agent: log.agent,
+    startedAt: Date.now(),
+    results: resolvedVariants.map(variant => ({ variant, status: 'pending' }))
+  };
+  debugStore = { ...debugStore, comparisons: [...debugStore.comparisons, comparison] };
+  notifyDebugListeners();
+
+  await Promise.all(resolvedVariants.map(async (variant, index) => {
+    const result = await runComparisonVariant(log, messages, schema, variant, options.signal);
+    updateComparison(comparison.id, c => ({
+      ...c,
+      results: c.results.map((r, i) => i === index ? result : r)
+    }));
+  }));
+
+  return debugStore.comparisons.find(c => c.id === comparison.id) || comparison;
+}
+
+// Чьи вызовы строятся из результата агента: после них замена разойдётся с игрой
+const RESULT_CONSUMERS: Partial<Record<AgentRole, AgentRole[]>> = {
+  DIRECTOR: ['SHOWRUNNER', 'CHRONICLER']      // Директива уже превратилась в сцену или эпилог
+};
+
+// Ответ, которым можно заменить результат вызова
+interface AdoptableResult {
+  provider?: string;
+  model: string;
+  rawResponse?: string;
+  parsedResponse?: unknown;
+  validation?: ValidationReport;
+}
+
+/**
+ * Заменить результат вызова агента и передать его в игру (subscribeToAdoptedResults).
+ * Только для последнего вызова агента: более ранний ответ уже повлиял на следующие сцены.
+ */
+async function adoptAgentResult(
+  log: AgentCallLog,
+  result: AdoptableResult,
+  source: { comparisonId?: string; playgroundLogId?: string }
+): Promise<void> {
+  if (!result.validation?.valid || result.rawResponse === undefined) {
+    throw new Error('Only a valid response can be adopted');
+  }
+  // repair-вызовы продолжают тот же запрос, а playground - эксперимент: исходный лог они не вытесняют
+  const superseded = debugStore.logs.some(l => 
+    l.agent === log.agent && l.timestamp > log.timestamp && !l.repairOf && !l.playgroundOf
   );
+  if (superseded) {
+    throw new Error(`A newer ${log.agent} call exists - only the latest call can be adopted`);
+  }
+  const consumers = RESULT_CONSUMERS[log.agent] || [];
+  const consumer = debugStore.logs.find(l =>
+    consumers.includes(l.agent) && l.timestamp > log.timestamp && !l.repairOf && !l.playgroundOf && l.status !== 'error'
+  );
+  if (consumer) {
+    throw new Error(`${consumer.agent} has already used this ${log.agent} result - it can no longer be adopted`);
+  }
 
-  // Parse JSON from response (handle potential markdown code blocks)
-  let jsonStr = response.trim();
-  if (jsonStr.startsWith('```json')) {
-    jsonStr = jsonStr.slice(7);
+  updateDebugLog(log.id, {
+    status: 'success',
+    model: result.model,
+    provider: result.provider,
+    rawResponse: result.rawResponse,
+    parsedResponse: result.parsedResponse,
+    validation: result.validation,
+    adoptedFrom: {
+      ...source,
+      // При повторном принятии сохраняем самый первый ответ
+      originalModel: log.adoptedFrom?.originalModel ?? log.model,
+      originalResponse: log.adoptedFrom ? log.adoptedFrom.originalResponse : log.rawResponse
+    }
+  });
+
+  // Повторный запуск с кэшем должен отдать принятый ответ
+  if (log.cacheKey) {
+    await writeCachedResponse(log.cacheKey, {
+      content: result.rawResponse,
+      createdAt: Date.now(),
+      agent: log.agent,
+      model: result.model
+    });
   }
-  if (jsonStr.startsWith('```')) {
-    jsonStr = jsonStr.slice(3);
+
+  const adoptedLog = debugStore.logs.find(l => l.id === log.id) || log;
+  adoptionListeners.forEach(listener => listener({ log: adoptedLog, value: result.parsedResponse }));
+}
+
+/**
+ * Принять альтернативу из сравнения как канонический результат вызова
+ */
+export async function adoptComparisonResult(comparisonId: string, resultIndex: number): Promise<void> {
+  const comparison = debugStore.comparisons.find(c => c.id === comparisonId);
+  const result = comparison?.results[resultIndex];
+  const log = comparison && debugStore.logs.find(l => l.id === comparison.logId);
+  if (!comparison || !result || !log) {
+    throw new Error(`Comparison result ${comparisonId}#${resultIndex} not found`);
   }
-  if (jsonStr.endsWith('```')) {
-    jsonStr = jsonStr.slice(0, -3);
+  if (result.status !== 'success') {
+    throw new Error('Only a valid alternative can be adopted');
   }
-  jsonStr = jsonStr.trim();
 
+  await adoptAgentResult(log, { ...result.variant, ...result }, { comparisonId });
+  updateComparison(comparisonId, c => ({ ...c, adoptedIndex: resultIndex }));
+}
+
+// ============ PROMPT PLAYGROUND ============
+// Ручная правка промпта / контекста вызова и повторная отправка тем же путём, что и callLLM.
+// Ответ проверяется схемой исходного вызова и может быть подставлен в игру вместо него.
+
+export interface PlaygroundEdits {
+  systemPrompt: string;
+  userPrompt: string;
+  context: Record<string, unknown>;
+  model?: string;               // Пусто - модель агента
+}
+
+/**
+ * Промпт вызова, пересобранный из шаблона по правленому контексту;
+ * undefined - промпт агента не строится из контекста (GOLEM, CHARACTER_GENERATOR, импортированная сессия)
+ */
+export const renderPlaygroundPrompts = (
+  logId: string,
+  context: Record<string, unknown>
+): { systemPrompt: string; userPrompt: string } | undefined => {
+  const render = callRenderers.get(logId);
+  if (!render) return undefined;
+  const { systemPrompt, userPrompt } = render(context);
+  return { systemPrompt, userPrompt };
+};
+
+/**
+ * Отправить отредактированный вызов; создаёт отдельный лог с playgroundOf.
+ * Идёт к провайдеру агента даже во время replay: записанные ответы остаются игре
+ */
+export async function runPromptPlayground(
+  logId: string,
+  edits: PlaygroundEdits,
+  options: AgentRequestOptions = {}
+): Promise<AgentCallLog> {
+  const log = debugStore.logs.find(l => l.id === logId);
+  if (!log) {
+    throw new Error(`Agent call ${logId} not found`);
+  }
+
+  // Правятся system и первый user; repair-переписка (если была) остаётся как есть
+  let userReplaced = false;
+  const messages = getCallMessages(log).map(m => {
+    if (m.role === 'system') return { ...m, content: edits.systemPrompt };
+    if (m.role === 'user' && !userReplaced) {
+      userReplaced = true;
+      return { ...m, content: edits.userPrompt };
+    }
+    return m;
+  });
+  const schema = callSchemas.get(log.id) || unknownValue();
+
+  // requestLLM вместо callLLM: нужен id нового лога
+  const { content, logId: playgroundLogId } = await requestLLM(messages, edits.model || undefined, {
+    agent: log.agent,
+    context: edits.context,
+    playgroundOf: log.id,
+    sceneNumber: log.sceneNumber,
+    signal: options.signal,
+    renderPrompts: callRenderers.get(log.id),
+    bypassOverride: true
+  });
+  if (!playgroundLogId) {
+    throw new Error(`Playground call for ${logId} was not logged`);
+  }
+
+  const { value, report } = validateAgentResponse(content, schema);
+  callSchemas.set(playgroundLogId, schema);
+  updateDebugLog(playgroundLogId, { parsedResponse: value, validation: report });
+  const playgroundLog = debugStore.logs.find(l => l.id === playgroundLogId);
+  if (!playgroundLog) {
+    throw new Error(`Playground call for ${logId} was not logged`);
+  }
+  return playgroundLog;
+}
+
+/**
+ * Подставить ответ playground в игру, как будто его вернул исходный вызов
+ */
+export async function injectPlaygroundResult(playgroundLogId: string): Promise<void> {
+  const playgroundLog = debugStore.logs.find(l => l.id === playgroundLogId);
+  const log = playgroundLog?.playgroundOf && debugStore.logs.find(l => l.id === playgroundLog.playgroundOf);
+  if (!playgroundLog || !log) {
+    throw new Error(`Playground call ${playgroundLogId} not found`);
+  }
+
+  await adoptAgentResult(log, playgroundLog, { playgroundLogId });
+}
+
+// Generate world lore based on current state
+export async function generateWorldLore(
+  worldData: WorldData,
+  worldState: WorldState,
+  options: AgentRequestOptions = {}
+): Promise<WorldLore> {
+  const worldContext = createWorldContext(worldData, worldState);
+  
+  // Get available town images for specialty matching
+  const townImages = getTownImageListForPrompt();
+  const imagesByClimate = {
+    NORTH: townImages.filter(i => i.climate === 'NORTH').map(i => `${i.id}: ${i.keywords.join(', ')}`),
+    CENTRAL: townImages.filter(i => i.climate === 'CENTRAL').map(i => `${i.id}: ${i.keywords.join(', ')}`),
+    SOUTH: townImages.filter(i => i.climate === 'SOUTH').map(i => `${i.id}: ${i.keywords.join(', ')}`)
+  };
+
+  const template = bindPromptTemplate('golem', {
+    worldContext,
+    townImages: imagesByClimate
+  });
+  const systemPrompt = template.render('system');
+  const userPrompt = template.render('user');
+
+  const endPhase = beginDebugPhase('GENERATING_LORE');
   try {
-    return JSON.parse(jsonStr) as WorldLore;
-  } catch (e) {
-    console.error('Failed to parse LLM response as JSON:', jsonStr);
-    throw new Error('Invalid JSON response from LLM');
+    return await callAgentJSON(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      worldLoreSchema,
+      {
+        agent: 'GOLEM',
+        context: {
+          kingdoms: worldData.kingdoms.map(k => ({
+            id: k.id,
+            name: k.name,
+            climate: k.geography.climateZone,
+            biome: k.geography.dominantBiome
+          })),
+          year: worldState.date.year,
+          season: worldState.date.season
+        },
+        promptTemplate: template.ref,
+        signal: options.signal,
+        priority: options.priority
+      },
+      'Invalid JSON response from LLM'
+    );
+  } finally {
+    endPhase();
   }
 }
 
@@ -603,10 +1117,9 @@ export interface WorldScenario {
 export async function generatePlayableCharacters(
   _worldData: WorldData,  // Reserved for future use
   worldState: WorldState,
-  worldLore: WorldLore
+  worldLore: WorldLore,
+  options: AgentRequestOptions = {}
 ): Promise<CharacterGenerationResult> {
-  setDebugPhase('GENERATING_CHARACTERS');
-  
   const kingdomsSummary = worldLore.kingdoms.map(k => ({
     id: k.id,
     name: k.name,
@@ -630,99 +1143,42 @@ export async function generatePlayableCharacters(
   const shadowAvatarIds = getAvatarIdsByArchetype('shadow');
   const outsiderAvatarIds = getAvatarIdsByArchetype('outsider');
 
-  const systemPrompt = `Ты создатель ПОРТРЕТОВ персонажей для фэнтези мира.
-Твоя задача - описать КТО эти люди: их прошлое, характер, положение в обществе.
-НЕ ПРИДУМЫВАЙ сюжетные крючки, конфликты или драматургию - это задача другого агента.
-Пиши НА РУССКОМ ЯЗЫКЕ. Отвечай ТОЛЬКО валидным JSON.
-
-СТИЛЬ ИМЁН (как в "Игре престолов"):
-- Реалистичные, произносимые имена: Эддард, Джон, Роберт, Серсея, Тирион, Бриенна
-- Фамилии по родовому принципу: Старк, Ланнистер, Болтон, Мартелл
-- ИЗБЕГАЙ: вычурных фэнтезийных имён (Зефирион, Ксилорак, Эльдориан)
-- ИЗБЕГАЙ: длинных труднопроизносимых имён
-
-ВАЖНО: Для каждого персонажа выбери avatarId из списка доступных. 
-Описание внешности (portrait) должно СООТВЕТСТВОВАТЬ выбранному аватару!`;
-
-  const userPrompt = `Создай 3 играбельных персонажа для этого мира:
-
-${JSON.stringify(worldContext, null, 2)}
-
-${avatarsDescription}
-
-Сгенерируй JSON:
-{
-  "sharedWorld": "Общее описание текущей ситуации в мире (2-3 предложения)",
-  "timeline": "Когда происходит история (сезон, год)",
-  "characters": [
-    {
-      "id": "char_1",
-      "name": "Имя Фамилия (простое, произносимое)",
-      "avatarId": "ID аватара из списка POWER",
-      "title": "Роль/профессия",
-      "portrait": "Внешность СООТВЕТСТВУЮЩАЯ аватару (2 предложения)",
-      "age": "молодой/средних лет/пожилой",
-      "background": "Биография (3-4 предложения, ТОЛЬКО ФАКТЫ)",
-      "personality": "Характер (2 предложения)",
-      "ambition": "Жизненная цель",
-      "startingKingdom": <id королевства>,
-      "startingPosition": "знать/рыцарь/простолюдин/изгнанник/чужеземец",
-      "skills": ["навык1", "навык2", "навык3"],
-      "reputation": "Как его воспринимают",
-      "quirk": "Особенность характера",
-      "playstyle": "боевой/дипломатия/интриги/исследование/торговля"
-    }
-  ]
-}
-
-ПРАВИЛА:
-- Персонаж 1 (POWER): avatarId из [${powerAvatarIds.join(', ')}]
-- Персонаж 2 (SHADOW): avatarId из [${shadowAvatarIds.join(', ')}]
-- Персонаж 3 (OUTSIDER): avatarId из [${outsiderAvatarIds.join(', ')}]
-
-- portrait ДОЛЖЕН описывать человека с выбранного аватара!
-- Имена КОРОТКИЕ: Дункан Вейн, Элена Корт, Марк Риверс
-- Каждый персонаж в РАЗНЫХ королевствах
-- Каждый playstyle УНИКАЛЕН
-
-ВСЕ ТЕКСТЫ НА РУССКОМ`;
-
-  const response = await callLLM(
-    [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt }
-    ],
-    CHARACTER_AGENT_MODEL,
-    {
-      agent: 'CHARACTER_GENERATOR',
-      context: {
-        worldName: worldLore.worldName,
-        era: worldLore.era,
-        kingdomCount: kingdomsSummary.length,
-        kingdoms: kingdomsSummary.map(k => k.name)
-      }
+  const template = bindPromptTemplate('characters', {
+    worldContext,
+    avatarsDescription,
+    avatarIds: {
+      power: powerAvatarIds,
+      shadow: shadowAvatarIds,
+      outsider: outsiderAvatarIds
     }
-  );
-
-  let jsonStr = response.trim();
-  if (jsonStr.startsWith('```json')) jsonStr = jsonStr.slice(7);
-  if (jsonStr.startsWith('```')) jsonStr = jsonStr.slice(3);
-  if (jsonStr.endsWith('```')) jsonStr = jsonStr.slice(0, -3);
-  jsonStr = jsonStr.trim();
+  });
+  const systemPrompt = template.render('system');
+  const userPrompt = template.render('user');
 
+  const endPhase = beginDebugPhase('GENERATING_CHARACTERS');
   try {
-    const result = JSON.parse(jsonStr) as CharacterGenerationResult;
-    
-    // Update debug log with parsed response
-    const lastLog = debugStore.logs.find(l => l.agent === 'CHARACTER_GENERATOR' && l.status === 'success');
-    if (lastLog) {
-      updateDebugLog(lastLog.id, { parsedResponse: result });
-    }
-    
-    return result;
-  } catch (e) {
-    console.error('Failed to parse characters JSON:', jsonStr);
-    throw new Error('Invalid characters JSON from LLM');
+    return await callAgentJSON(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      characterResultSchema,
+      {
+        agent: 'CHARACTER_GENERATOR',
+        context: {
+          worldName: worldLore.worldName,
+          era: worldLore.era,
+          kingdomCount: kingdomsSummary.length,
+          kingdoms: kingdomsSummary.map(k => k.name)
+        },
+        promptTemplate: template.ref,
+        signal: options.signal,
+        priority: options.priority
+      },
+      'Invalid characters JSON from LLM'
+    );
+  } finally {
+    endPhase();
   }
 }
 
@@ -737,10 +1193,9 @@ export async function generateScenario(
   worldState: WorldState, 
   worldLore: WorldLore,
   selectedCharacter: PlayableCharacter,
-  supportingCast: PlayableCharacter[] = []  // Невыбранные герои как NPC
+  supportingCast: PlayableCharacter[] = [],  // Невыбранные герои как NPC
+  options: AgentRequestOptions = {}
 ): Promise<WorldScenario> {
-  setDebugPhase('GENERATING_SCENARIO');
-  
   // ============ КОНТЕКСТ МИРА (от GOLEM) ============
   const worldContext = {
     worldName: worldLore.worldName,
@@ -831,186 +1286,35 @@ export async function generateScenario(
     tone: ['epic', 'personal stakes', 'morally grey']
   };
 
-  // ============ SYSTEM PROMPT ДЛЯ NARRATOR ============
-  const systemPrompt = `Ты NARRATOR - мастер эпических историй.
-Ты получаешь ОПИСАНИЕ персонажа и создаёшь для него ДРАМАТУРГИЮ: крючок, дилемму, врагов, союзников, сюжет.
-
-ТВОЯ ЗАДАЧА - превратить обычного персонажа в ГЕРОЯ ЭПОСА:
-1. Придумай ИНЦИДЕНТ, который вырывает героя из привычной жизни
-2. Создай МОРАЛЬНУЮ ДИЛЕММУ, которая будет его терзать
-3. Определи его СЛАБОСТЬ/ТАЙНУ, которая может его погубить
-4. Втяни его в МАСШТАБНЫЙ КОНФЛИКТ с высокими ставками
-
-МАСШТАБ: Герой должен влиять на судьбы королевств, а не решать мелкие проблемы.
-СТИЛЬ: Эпическое фэнтези с политическими интригами и личными драмами.
-ЯЗЫК: Русский
-ФОРМАТ: Только валидный JSON`;
-
-  // ============ USER PROMPT ДЛЯ NARRATOR ============
-  const userPrompt = `Создай ЭПИЧЕСКИЙ СЦЕНАРИЙ для этого персонажа.
-
-═══════════════════════════════════════
-ПЕРСОНАЖ (только описание, драматургию создаёшь ТЫ):
-═══════════════════════════════════════
-${JSON.stringify(heroContext, null, 2)}
-
-═══════════════════════════════════════
-МИР:
-═══════════════════════════════════════
-${JSON.stringify(worldContext, null, 2)}
-
-═══════════════════════════════════════
-ДРУГИЕ ПЕРСОНАЖИ (используй как NPC):
-═══════════════════════════════════════
-${supportingCast.length > 0 
-  ? JSON.stringify(supportingCastContext, null, 2)
-  : 'Создай оригинальных NPC'}
-
-═══════════════════════════════════════
-СТАРТОВАЯ ПОЗИЦИЯ:
-═══════════════════════════════════════
-Королевство: ${heroKingdom?.name || 'Неизвестно'}
-Статус: ${selectedCharacter.startingPosition}
-Время: ${worldState.date.season}, ${worldState.date.year} год
-
-═══════════════════════════════════════
-
-Сгенерируй JSON:
-{
-  "title": "Эпическое название истории",
-  "logline": "Одно предложение - суть эпоса",
-  "tone": "эпический/трагический/героический",
-  
-  "heroDramaturgy": {
-    "incitingIncident": "ЧТО случилось, что вырвало героя из привычной жизни? (2-3 предложения, КОНКРЕТНОЕ событие)",
-    "moralDilemma": "Между ЧЕМ и ЧЕМ герою придётся выбирать? (долг vs любовь, честь vs выживание и т.д.)",
-    "secretOrFlaw": "Какая СЛАБОСТЬ или ТАЙНА может погубить героя?",
-    "stakes": "Что герой ПОТЕРЯЕТ, если проиграет? (должно быть ЗНАЧИМО)",
-    "transformation": "Каким герой станет к концу истории?"
-  },
-  
-  "connections": {
-    "ally": { "name": "Имя", "who": "Кто это", "why": "Почему помогает" },
-    "rival": { "name": "Имя", "who": "Кто это", "conflict": "В чём конфликт" },
-    "mentor": { "name": "Имя", "who": "Кто это", "lesson": "Чему учит" },
-    "loveInterest": { "name": "Имя или null", "who": "Кто это", "complication": "Что мешает" }
-  },
-  
-  "premise": "Завязка: как incitingIncident запускает историю (3-4 предложения)",
-  "centralConflict": "Главный конфликт - ЗА ЧТО сражается герой?",
-  "moralQuestion": "Главный вопрос истории",
-  
-  "playerCharacterArc": "Арка героя: от кого к кому он меняется (2-3 предложения)",
-  
-  "npcs": [
-    {
-      "name": "Имя",
-      "role": "антагонист/союзник/соперник/наставник/предатель",
-      "allegiance": <id королевства или "neutral">,
-      "personality": "Характер (1 предложение)",
-      "motivation": "Чего хочет НА САМОМ ДЕЛЕ",
-      "firstAppearance": 1,
-      "potentialBetrayal": true/false,
-      "relationToPlayer": "Отношение к герою",
-      "isFromSupportingCast": true/false
-    }
-  ],
-  
-  "acts": [
-    {
-      "actNumber": 1,
-      "title": "АКТ 1: Название",
-      "description": "Что происходит (3-4 предложения, ЭПИЧНО)",
-      "keyEvents": ["Событие 1", "Событие 2", "Событие 3"],
-      "tensions": ["Главное напряжение акта"],
-      "moralChoices": ["Сложный выбор для героя"],
-      "revelations": ["Что узнаёт герой"],
-      "cliffhanger": "Чем заканчивается акт (должно заставить читать дальше)"
-    }
-  ],
-  
-  "sideConflicts": [
-    {
-      "name": "Название",
-      "parties": ["Сторона 1", "Сторона 2"],
-      "nature": "Суть конфликта",
-      "connectionToMain": "Как влияет на героя",
-      "resolution": "Возможное разрешение"
-    }
-  ],
-  
-  "chekhovsGuns": [
-    {
-      "element": "Предмет/информация/персонаж",
-      "introduction": "Как появляется",
-      "payoff": "Как выстреливает",
-      "actIntroduced": 1,
-      "actPayoff": 3
-    }
-  ],
-  
-  "climax": "ЭПИЧЕСКАЯ кульминация - как герой решает свою moralDilemma (3-4 предложения)",
-  "possibleEndings": {
-    "triumph": "Героическая победа - герой преодолевает себя",
-    "bittersweet": "Победа с ценой - герой побеждает, но теряет что-то важное",
-    "tragic": "Трагедия - слабость героя приводит к падению"
-  },
-  "themes": ["тема1", "тема2"],
-  "warnings": ["Сложные темы если есть"]
-}
-
-ПРАВИЛА ЭПИЧНОСТИ:
-1. МАСШТАБ: Герой влияет на судьбы КОРОЛЕВСТВ, не деревень
-2. СТАВКИ: На кону должны быть ЖИЗНИ, КОРОНЫ, ВОЙНЫ
-3. incitingIncident: Должен быть ШОКИРУЮЩИМ и НЕОБРАТИМЫМ
-4. moralDilemma: Оба выбора должны быть ПЛОХИМИ по-своему
-5. Антагонист: Должен быть УМНЫМ и иметь СВОЮ правду
-6. АКТЁРЫ ВТОРОГО ПЛАНА: Включи их как ЗНАЧИМЫХ NPC, но фокус на ГЕРОЕ
-7. Каждый акт заканчивается КЛИФФХЭНГЕРОМ
-8. playstyle героя (${selectedCharacter.playstyle}) определяет ТИП эпичности:
-   - боевой → эпические сражения, осады, поединки
-   - дипломатия → политические игры, союзы, браки
-   - интриги → заговоры, предательства, тайные войны
-   - исследование → древние тайны, забытые силы, экспедиции
-   - торговля → экономические войны, гильдии, контрабанда
-
-ЗАПРЕЩЕНО: мелкие квесты, банальное зло, "избранный", "древнее пробуждение"
-ОБЯЗАТЕЛЬНО: личные ставки + политические интриги + моральная серость`;
-
-  const response = await callLLM(
-    [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt }
-    ],
-    NARRATOR_MODEL,
-    {
-      agent: 'NARRATOR',
-      context: narratorContext
-    }
-  );
-
-  // Parse JSON
-  let jsonStr = response.trim();
-  if (jsonStr.startsWith('```json')) jsonStr = jsonStr.slice(7);
-  if (jsonStr.startsWith('```')) jsonStr = jsonStr.slice(3);
-  if (jsonStr.endsWith('```')) jsonStr = jsonStr.slice(0, -3);
-  jsonStr = jsonStr.trim();
+  // ============ ПРОМПТЫ NARRATOR (src/prompts/narrator) ============
+  const template = bindPromptTemplate('narrator', {
+    ...narratorContext,
+    heroProfile: heroContext,
+    worldOverview: worldContext,
+    supportingCastProfiles: supportingCastContext
+  });
+  const { systemPrompt, userPrompt } = renderSystemAndUser(template);
 
+  const endPhase = beginDebugPhase('GENERATING_SCENARIO');
   try {
-    const result = JSON.parse(jsonStr) as WorldScenario;
-    
-    // Update debug log with parsed response
-    const lastLog = debugStore.logs.find(l => l.agent === 'NARRATOR' && l.status === 'success');
-    if (lastLog) {
-      updateDebugLog(lastLog.id, { parsedResponse: result });
-    }
-    
-    setDebugPhase('IDLE');
-    return result;
-  } catch (e) {
-    console.error('Failed to parse scenario JSON:', jsonStr);
-    setDebugPhase('IDLE');
-    throw new Error('Invalid scenario JSON from LLM');
+    return await callAgentJSON(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      scenarioSchema,
+      {
+        agent: 'NARRATOR',
+        context: narratorContext,
+        promptTemplate: template.ref,
+        renderPrompts: context => renderSystemAndUser(template.withContext(context)),
+        signal: options.signal,
+        priority: options.priority
+      },
+      'Invalid scenario JSON from LLM'
+    );
+  } finally {
+    endPhase();
   }
 }
 
@@ -1052,6 +1356,55 @@ export interface ActiveQuestInfo {
   type: string;
 }
 
+// ============ SCENE STREAMING ============
+
+export interface SceneStreamOptions extends AgentRequestOptions {
+  onProgress?: (scene: Partial<Scene>) => void;   // Вызывается на каждый фрагмент стрима
+  storyState?: StoryState;                        // Для CRITIC и сюжетных линий: акт и эпилог
+  memory?: NarrativeMemory;                       // Память истории: давние факты для промпта
+  lockedChoices?: LockedChoice[];                 // Недоступные выборы прошлой сцены (choiceRequirements)
+  checkResult?: SkillCheckResult;                 // Бросок проверки в прошлом выборе (skillChecks)
+}
+
+export interface DirectiveOptions extends AgentRequestOptions {
+  memory?: NarrativeMemory;                       // Память истории: давние факты для промпта
+  checkResult?: SkillCheckResult;                 // Бросок проверки в выборе игрока
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Недописанный ответ Showrunner -> частичная сцена для UI.
+ * Описание и реплики показываются как есть; выбор попадает в сцену,
+ * только когда за ним уже начался следующий (последний ещё может дописываться).
+ */
+const toStreamingScene = (partial: unknown): Partial<Scene> => {
+  if (!isRecord(partial)) return {};
+
+  const dialogue = Array.isArray(partial.dialogue)
+    ? partial.dialogue
+        .filter(isRecord)
+        .filter(line => typeof line.speaker === 'string' && typeof line.text === 'string')
+        .map(line => ({ speaker: line.speaker as string, text: line.text as string }))
+    : undefined;
+
+  const choices = Array.isArray(partial.choices)
+    ? partial.choices
+        .slice(0, -1)
+        .filter(isRecord)
+        .filter(choice => typeof choice.text === 'string')
+        .map(choice => choice as unknown as SceneChoice)
+    : undefined;
+
+  return {
+    ...(typeof partial.location === 'string' ? { location: partial.location } : {}),
+    ...(typeof partial.description === 'string' ? { description: partial.description } : {}),
+    ...(dialogue ? { dialogue } : {}),
+    ...(choices ? { choices } : {})
+  };
+};
+
 export async function generateScene(
   worldData: WorldData,
   _worldState: WorldState,
@@ -1066,10 +1419,9 @@ export async function generateScene(
   storySummary?: string,              // Сводка истории от Director
   travelContext?: TravelContext,      // Контекст путешествий
   activeQuests?: ActiveQuestInfo[],   // Активные квесты
-  sceneType: 'normal' | 'travel' | 'arrival' | 'departure' = 'normal'
+  sceneType: 'normal' | 'travel' | 'arrival' | 'departure' = 'normal',
+  options: SceneStreamOptions = {}
 ): Promise<Scene> {
-  setDebugPhase('GENERATING_SCENE');
-  
   // Find kingdom lore
   const kingdom = worldData.kingdoms.find(k => k.id === currentLocation.kingdomId);
   const kingdomLore = worldLore.kingdoms.find(k => k.id === currentLocation.kingdomId);
@@ -1088,6 +1440,26 @@ export async function generateScene(
   const currentActNumber = directive ? (directive.currentBeat === 'resolution' ? 3 : directive.currentBeat === 'climax' || directive.currentBeat === 'crisis' ? 3 : directive.currentBeat === 'midpoint' ? 2 : directive.currentBeat === 'rising_action' ? 2 : 1) : (sceneNumber <= 3 ? 1 : sceneNumber <= 7 ? 2 : 3);
   const currentAct = scenario.acts?.find(a => a.actNumber === currentActNumber) || scenario.acts?.[0];
   
+  // Последние сцены идут в промпт сводками; из памяти - только то, что было раньше них
+  const RECENT_SCENES = 3;
+  const sceneNpcs = getSceneNpcs(scenario, playerState?.relationships);
+  const memoryFocus = [
+    directive?.focus,
+    ...(directive?.mustInclude || []),
+    previousScenes.at(-1)?.summary,
+    previousScenes.at(-1)?.lastChoice
+  ].filter(Boolean).join(' ');
+  const memories = options.memory
+    ? recallMemories(options.memory, {
+        text: memoryFocus,
+        locationId: currentLocation.id,
+        location: currentLocation.name,
+        npcs: findMentionedNames(memoryFocus, sceneNpcs.map(npc => npc.name)),
+        elements: getScenarioElements(scenario, options.storyState),
+        beforeScene: sceneNumber - RECENT_SCENES
+      })
+    : [];
+  
   // Build Showrunner context
   const showrunnerContext: ShowrunnerContext = {
     scenario: {
@@ -1108,7 +1480,8 @@ export async function generateScene(
       personality: selectedCharacter.personality,
       background: selectedCharacter.background,
       ambition: selectedCharacter.ambition,
-      playstyle: selectedCharacter.playstyle
+      playstyle: selectedCharacter.playstyle,
+      skills: selectedCharacter.skills || []
     },
     location: {
       id: currentLocation.id,
@@ -1130,7 +1503,9 @@ export async function generateScene(
       gold: playerState.stats.gold,
       reputation: playerState.stats.reputation,
       influence: playerState.stats.influence,
-      inventory: playerState.inventory.map(i => i.name),
+      health: playerState.stats.health,
+      injuries: playerState.injuries.map(describeInjury),
+      inventory: playerState.inventory.map(describeItem),
       relationships: playerState.relationships.map(r => `${r.npcName}: ${r.status}`),
       flags: playerState.flags.map(f => f.id)
     } : undefined,
@@ -1147,306 +1522,245 @@ export async function generateScene(
     activeQuests: activeQuests,
     sceneNumber,
     isFirstScene: sceneNumber === 1,
-    sceneType
+    sceneType,
+    memories,
+    lockedChoices: options.lockedChoices || [],
+    checkResult: options.checkResult
   };
   
-  const systemPrompt = `Ты — SHOWRUNNER, создаёшь интерактивные сцены для фэнтези-игры с открытым миром.
-
-ПРАВИЛА:
-1. Описания визуальные, диалоги живые
-2. Каждый выбор имеет МЕХАНИЧЕСКИЕ ПОСЛЕДСТВИЯ (effects)
-3. Выборы влияют на: золото, репутацию, отношения с NPC, предметы, ПУТЕШЕСТВИЯ
-4. Если по сюжету нужно переместиться — добавь TRAVEL выбор
-
-ФОРМАТ JSON:
-{
-  "id": "scene-${sceneNumber}",
-  "sceneNumber": ${sceneNumber},
-  "location": "Конкретное место",
-  "locationId": "poi_id если известен",
-  "kingdomId": число,
-  "timeOfDay": "Время суток",
-  
-  "description": "Текст сцены (2-4 абзаца)",
-  
-  "dialogue": [
-    { "speaker": "Имя", "text": "Реплика" }
-  ],
-  
-  "choices": [
-    {
-      "id": "choice-1",
-      "text": "Действие от первого лица",
-      "tone": "aggressive|diplomatic|cunning|noble|cautious|travel",
-      "effects": [
-        { "type": "stat", "stat": { "attribute": "gold|reputation|influence", "change": число } },
-        { "type": "relationship", "relationship": { "npcName": "Имя", "change": число } },
-        { "type": "item", "item": { "action": "add|remove", "itemName": "Название" } },
-        { "type": "flag", "flag": { "flagId": "id_события", "value": true } },
-        { "type": "travel", "travel": { "action": "move|unlock_route|require_travel", "targetLocationId": "id", "targetLocationName": "Название", "reason": "зачем" } },
-        { "type": "quest", "quest": { "action": "add|complete", "questId": "id", "title": "Название", "description": "Описание" } }
+  // Последние сцены важнее старых: старые сжимаются до однострочной сводки
+  const sceneLines = previousScenes.map((s, i) => ({ number: i + 1, summary: s.summary, lastChoice: s.lastChoice }));
+  const olderScenes = sceneLines.slice(0, -RECENT_SCENES);
+
+  // Королевства, которые нужны сцене: текущее, соседи и цели путешествий
+  const relevantKingdomIds = new Set<number>([
+    currentLocation.kingdomId,
+    ...(kingdom?.geography.neighboringKingdoms || []),
+    ...[travelContext?.travelQuest?.targetLocationId, travelContext?.inTransit?.toId]
+      .map(id => worldData.kingdoms.find(k => k.capital.id === id || k.cities.some(c => c.id === id))?.id)
+      .filter((id): id is number => id !== undefined)
+  ]);
+
+  const taskKind = showrunnerContext.isFirstScene ? 'first'
+    : directive?.pacing === 'climax' ? 'climax'
+    : directive?.shouldEnd ? 'final'
+    : 'normal';
+
+  // Эффекты выборов - вызовы типизированных инструментов; нативно, если провайдер умеет function calling
+  const nativeTools = agentSupportsTools('SHOWRUNNER');
+
+  const template = bindPromptTemplate('showrunner', {
+    ...showrunnerContext,
+    sceneTools: describeSceneTools(),
+    npcs: sceneNpcs,
+    nativeTools,
+    directive,
+    travelContext,
+    storySummary,
+    storySummaryShort: storySummary && truncateText(storySummary, 600),
+    pacingKind: directive ? promptFlag(directive.pacing) : {},
+    taskKind: promptFlag(taskKind),
+    sceneKind: promptFlag(sceneType),
+    scenes: sceneLines,
+    recentScenes: sceneLines.slice(-RECENT_SCENES),
+    olderScenesCount: olderScenes.length,
+    olderScenesSummary: olderScenes.map(s => truncateText(s.summary, 80)).join('; '),
+    worldKingdoms: worldData.kingdoms,
+    relevantKingdoms: worldData.kingdoms.filter(k => relevantKingdomIds.has(k.id)),
+    routes: (travelContext?.availableRoutes || []).map(r => ({ ...r, danger: promptFlag(r.danger) })),
+    threads: getOpenThreadLines(options.storyState)
+  });
+  // Промпт целиком из шаблона: playground пересобирает его из правленого контекста
+  const renderShowrunnerPrompts = (bound: BoundPromptTemplate) => {
+    const systemPrompt = bound.render('system');
+
+    const promptSections: PromptSection[] = [
+      requiredSection('scenario', bound.render('scenario')),
+      requiredSection('hero', bound.render('hero')),
+      requiredSection('location', bound.render('location')),
+      requiredSection('kingdom', bound.render('kingdom')),
+      {
+        id: 'previousScenes',
+        priority: 1,
+        text: bound.render('previousScenes'),
+        fallbacks: olderScenes.length > 0
+          ? [bound.render('previousScenes.compact'), bound.render('previousScenes.recent')]
+          : undefined
+      },
+      requiredSection('checkResult', bound.renderOptional('checkResult')),
+      {
+        id: 'playerState',
+        priority: 4,
+        text: bound.render('playerState'),
+        fallbacks: playerState ? [bound.render('playerState.compact')] : undefined
+      },
+      {
+        id: 'lockedChoices',
+        priority: 4,
+        text: bound.renderOptional('lockedChoices')
+      },
+      requiredSection('directive', bound.render('directive')),
+      {
+        id: 'threads',
+        priority: 3,
+        text: bound.renderOptional('threads')
+      },
+      requiredSection('travel', bound.render('travel')),
+      {
+        id: 'worldCities',
+        priority: 2,
+        text: bound.render('worldCities'),
+        fallbacks: travelContext ? [bound.render('worldCities.relevant')] : undefined
+      },
+      {
+        id: 'routes',
+        priority: 6,
+        text: bound.render('routes')
+      },
+      requiredSection('travelQuest', bound.render('travelQuest')),
+      requiredSection('inTransit', bound.render('inTransit')),
+      {
+        id: 'activeQuests',
+        priority: 5,
+        text: bound.render('activeQuests'),
+        fallbacks: activeQuests && activeQuests.length > 0 ? [bound.render('activeQuests.compact')] : undefined
+      },
+      {
+        id: 'storySummary',
+        priority: 3,
+        text: bound.render('storySummary'),
+        fallbacks: storySummary ? [bound.render('storySummary.compact')] : undefined
+      },
+      {
+        id: 'memories',
+        priority: 2,
+        text: bound.renderOptional('memories')
+      },
+      requiredSection('task', bound.render('task'))
+    ];
+
+    const { prompt: userPrompt, report: budget } = fitPromptToBudget(systemPrompt, promptSections, getPromptBudget('SHOWRUNNER'));
+    return { systemPrompt, userPrompt, budget };
+  };
+  const { systemPrompt, userPrompt, budget } = renderShowrunnerPrompts(template);
+
+  const endPhase = beginDebugPhase('GENERATING_SCENE');
+  try {
+    return await callAgentJSON(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
       ],
-      "travelTo": {
-        "locationId": "id локации",
-        "locationName": "Название",
-        "distance": 1-5,
-        "cost": число,
-        "danger": "safe|risky|dangerous"
+      withSceneTools(createSceneSchema(sceneNumber), {
+        worldData,
+        currentLocationId: currentLocation.id,
+        npcs: sceneNpcs,
+        inventory: playerState?.inventory.map(i => ({ id: i.id, name: i.name })) ?? [],
+        injuries: playerState?.injuries.map(i => i.name) ?? [],
+        sceneNumber
+      }),
+      {
+        agent: 'SHOWRUNNER',
+        context: showrunnerContext,
+        budget,
+        sceneNumber,
+        promptTemplate: template.ref,
+        renderPrompts: context => renderShowrunnerPrompts(template.withContext(context)),
+        signal: options.signal,
+        priority: options.priority,
+        tools: nativeTools ? { definitions: getSceneToolDefinitions(), merge: attachToolCallsToScene } : undefined
       },
-      "requirements": {
-        "minGold": число,
-        "unlockedLocation": "id если нужна разблокировка"
+      'Invalid scene JSON from Showrunner',
+      options.onProgress && ((partial) => options.onProgress?.(toStreamingScene(partial))),
+      async (scene, logId) => {
+        const verdict = await critiqueScene(
+          { scene, worldData, scenario, currentLocation, travel: travelContext, playerState, storyState: options.storyState, directive },
+          logId,
+          { signal: options.signal }
+        );
+        return verdict.violations.map(v => v.message);
       }
-    }
-  ],
-  
-  "travelOptions": [
-    {
-      "locationId": "id",
-      "locationName": "Название города",
-      "distance": 2,
-      "cost": 20,
-      "danger": "safe|risky|dangerous",
-      "description": "Описание маршрута",
-      "isLocked": false,
-      "lockReason": null
-    }
-  ],
-  
-  "activeQuest": {
-    "id": "quest_id",
-    "title": "Название",
-    "currentObjective": "Текущая цель"
-  },
-  
-  "isTravel": false
+    );
+  } finally {
+    endPhase();
+  }
 }
 
-ТИПЫ ЭФФЕКТОВ:
-- stat: gold (-50..+100), reputation (-20..+20), influence (-10..+10)
-- relationship: change (-30..+30) к NPC
-- item: add/remove предмета
-- flag: установка сюжетного флага
-- travel: move, unlock_route, require_travel (ВАЖНО для отправки в другой город!)
-- quest: add (добавить квест), complete (завершить)
-
-🚨 ПРИМЕР require_travel (когда по сюжету герой должен пойти в другой город):
-{
-  "id": "choice-1",
-  "text": "Отправиться в Торнвик",
-  "tone": "cautious",
-  "effects": [
-    { 
-      "type": "travel", 
-      "travel": { 
-        "action": "require_travel", 
-        "targetLocationId": "poi_city_Tornvik_123",  // ID из списка "ВСЕ ГОРОДА МИРА"!
-        "targetLocationName": "Торнвик",             // ДОЛЖЕН совпадать с названием в списке!
-        "reason": "Доставить письмо лорду Рейвену" 
-      }
-    }
-  ]
-}
-⚠️ ВАЖНО: targetLocationId и targetLocationName должны соответствовать друг другу из списка городов!
-
-ТИПЫ СЦЕН:
-- normal: обычная сцена в локации
-- travel: сцена в пути между локациями
-- arrival: прибытие в новую локацию
-- departure: отправление из локации
-
-ВАЖНО: 
-- Каждый выбор ДОЛЖЕН иметь хотя бы 1 effect!
-- Если сюжет требует перемещения в другой город — добавь travel effect с action: "require_travel"
-- Travel выборы должны иметь travelTo с деталями маршрута
-- travelOptions показывает доступные маршруты для UI`;
-
-  const previousContext = previousScenes.length > 0 
-    ? `\n\nПРЕДЫДУЩИЕ СЦЕНЫ:\n${previousScenes.map((s, i) => `Сцена ${i + 1}: ${s.summary}${s.lastChoice ? ` → Выбор: ${s.lastChoice}` : ''}`).join('\n')}`
-    : '';
-
-  const userPrompt = `КОНТЕКСТ СЦЕНЫ #${sceneNumber}:
-
-═══ СЦЕНАРИЙ (от Narrator) ═══
-Название: "${showrunnerContext.scenario.title}"
-Завязка: ${showrunnerContext.scenario.premise}
-Тон: ${showrunnerContext.scenario.tone}
-
-${showrunnerContext.isFirstScene ? `⚡ ИНЦИДЕНТ (с этого начинается история):
-${showrunnerContext.scenario.heroDramaturgy.incitingIncident}
-
-Моральная дилемма героя: ${showrunnerContext.scenario.heroDramaturgy.moralDilemma}
-Ставки: ${showrunnerContext.scenario.heroDramaturgy.stakes}` : ''}
-
-ТЕКУЩИЙ АКТ: ${showrunnerContext.scenario.currentAct}
-${showrunnerContext.scenario.actDescription}
-
-═══ ГЕРОЙ ═══
-${showrunnerContext.hero.name}, ${showrunnerContext.hero.title}
-Характер: ${showrunnerContext.hero.personality}
-Предыстория: ${showrunnerContext.hero.background}
-Стремление: ${showrunnerContext.hero.ambition}
-Стиль игры: ${showrunnerContext.hero.playstyle}
-
-═══ ЛОКАЦИЯ ═══
-${showrunnerContext.location.name} (${showrunnerContext.location.type})
-${showrunnerContext.location.description || ''}
-${showrunnerContext.location.specialty ? `Известна: ${showrunnerContext.location.specialty}` : ''}
-${showrunnerContext.location.mood ? `Атмосфера: ${showrunnerContext.location.mood}` : ''}
-
-═══ КОРОЛЕВСТВО ═══
-${showrunnerContext.kingdom.name}
-Культура: ${showrunnerContext.kingdom.culture}
-Правитель: ${showrunnerContext.kingdom.ruler} (${showrunnerContext.kingdom.rulerPersonality})
-${previousContext}
-
-${showrunnerContext.playerState ? `═══ СОСТОЯНИЕ ИГРОКА ═══
-Золото: ${showrunnerContext.playerState.gold}
-Репутация: ${showrunnerContext.playerState.reputation}
-Влияние: ${showrunnerContext.playerState.influence}
-${showrunnerContext.playerState.inventory.length > 0 ? `Инвентарь: ${showrunnerContext.playerState.inventory.join(', ')}` : ''}
-${showrunnerContext.playerState.relationships.length > 0 ? `Отношения: ${showrunnerContext.playerState.relationships.join(', ')}` : ''}` : ''}
-
-${directive ? `═══ ДИРЕКТИВЫ ОТ DIRECTOR ═══
-📊 ТЕМП: ${directive.pacing === 'slow_down' ? 'Замедлить, развить персонажей' : 
-         directive.pacing === 'build_tension' ? 'Нарастить напряжение' :
-         directive.pacing === 'climax' ? '🔥 КУЛЬМИНАЦИЯ — ключевой момент истории!' :
-         directive.pacing === 'resolution' ? 'Завершение, резолюция конфликта' : 'Поддерживать текущий темп'}
-
-🎯 ФОКУС: ${directive.focus}
-
-📍 BEAT: ${directive.currentBeat}
-
-${directive.mustInclude?.length ? `✅ ОБЯЗАТЕЛЬНО ВКЛЮЧИТЬ:\n${directive.mustInclude.map(m => `- ${m}`).join('\n')}` : ''}
-${directive.shouldAvoid?.length ? `❌ ИЗБЕГАТЬ:\n${directive.shouldAvoid.map(a => `- ${a}`).join('\n')}` : ''}
-${directive.targetMilestone ? `🏁 К MILESTONE: ${directive.targetMilestone}` : ''}
-${directive.shouldEnd ? `⚠️ ФИНАЛЬНАЯ СЦЕНА! Тип концовки: ${directive.endType}` : ''}` : ''}
-
-${travelContext ? `═══ КОНТЕКСТ ПУТЕШЕСТВИЙ ═══
-📍 Текущая локация: ${currentLocation.name} (ID: ${travelContext.currentLocationId})
-🏰 Королевство: ID ${travelContext.currentKingdomId}
-
-🗺️ ПОСЕЩЁННЫЕ ЛОКАЦИИ: ${travelContext.visitedLocations.length > 0 ? travelContext.visitedLocations.join(', ') : 'Только стартовая'}
-
-🌍 ВСЕ ГОРОДА МИРА (используй эти ID для require_travel):
-${worldData.kingdoms.map(k => 
-  `${k.name} (ID королевства: ${k.id}):\n` +
-  `  - ${k.capital.name} [ID: ${k.capital.id}] (столица)\n` +
-  k.cities.map(c => `  - ${c.name} [ID: ${c.id}]`).join('\n')
-).join('\n')}
-
-${travelContext.availableRoutes && travelContext.availableRoutes.length > 0 ? `🛤️ ДОСТУПНЫЕ МАРШРУТЫ ИЗ ${currentLocation.name} (текущее королевство):
-${travelContext.availableRoutes.map(r =>
-  `- ${r.locationName} [ID: ${r.locationId}] (${r.distance} дн., ${r.cost} золота, ${r.danger === 'safe' ? 'безопасно' : r.danger === 'risky' ? 'рискованно' : 'опасно'})`
-).join('\n')}` : ''}
-
-${travelContext.travelQuest ? `🎯 КВЕСТ НА ПЕРЕМЕЩЕНИЕ:
-Цель: ${travelContext.travelQuest.targetLocationName} (ID: ${travelContext.travelQuest.targetLocationId})
-Причина: ${travelContext.travelQuest.reason}
-${travelContext.travelQuest.deadline ? `Дедлайн: сцена ${travelContext.travelQuest.deadline}` : ''}
-⚠️ При прибытии в ${travelContext.travelQuest.targetLocationName} ОБЯЗАТЕЛЬНО укажи locationId: "${travelContext.travelQuest.targetLocationId}"` : ''}
-
-${travelContext.inTransit ? `🚶 В ПУТИ:
-Из: ${travelContext.inTransit.fromName}
-В: ${travelContext.inTransit.toName} (ID: ${travelContext.inTransit.toId})
-Осталось: ${travelContext.inTransit.daysRemaining} из ${travelContext.inTransit.totalDays} дней
-⚠️ При прибытии ОБЯЗАТЕЛЬНО укажи locationId: "${travelContext.inTransit.toId}" и kingdomId` : ''}` : ''}
-
-${activeQuests && activeQuests.length > 0 ? `═══ АКТИВНЫЕ КВЕСТЫ ═══
-${activeQuests.map(q => `📜 ${q.title} (${q.type})
-   Цель: ${q.currentObjective}`).join('\n')}` : ''}
-
-${storySummary ? `═══ СВОДКА ИСТОРИИ ═══
-${storySummary}` : ''}
-
-═══ ЗАДАЧА ═══
-${showrunnerContext.isFirstScene 
-  ? `Это ПЕРВАЯ СЦЕНА. Начни с incitingIncident — покажи момент, который меняет жизнь героя навсегда.
-  Сделай это КИНЕМАТОГРАФИЧНО. Герой должен оказаться в ситуации, требующей немедленного выбора.`
-  : directive?.pacing === 'climax' 
-    ? `Это КУЛЬМИНАЦИЯ. Момент истины. Герой должен сделать ключевой выбор, который определит исход истории.
-    Максимальное напряжение. Все ставки на кону.`
-  : directive?.shouldEnd
-    ? `Это ФИНАЛЬНАЯ СЦЕНА. Заверши историю достойно. Покажи последствия выбора героя.
-    Тип концовки: ${directive.endType}`
-  : `Это сцена #${sceneNumber}. Следуй директивам Director.
-  ${directive?.focus ? `Фокус: ${directive.focus}` : 'Продолжи историю логично.'}`}
-
-ВАЖНО:
-- Минимум 3 выбора, максимум 5 (если не финал)
-- Выборы должны соответствовать playstyle героя (${showrunnerContext.hero.playstyle})
-- Каждый выбор ведёт историю в РАЗНОМ направлении
-- НЕ пиши "продолжение следует" — оставь на выборе
-${directive?.shouldEnd ? '- Если финал: можно дать 1-2 эпилоговых выбора или просто завершить описанием' : ''}
-
-ПРАВИЛА ПУТЕШЕСТВИЙ:
-${sceneType === 'travel' ? `- Это сцена В ПУТИ. Опиши события дороги, встречи, опасности.
-- isTravel: true
-- Выборы: как справиться с препятствиями в пути` : 
-sceneType === 'arrival' ? `- Это сцена ПРИБЫТИЯ в новую локацию. Опиши первые впечатления.
-- Покажи что особенного в этом месте
-- Дай выборы: с кем поговорить, куда пойти` :
-sceneType === 'departure' ? `- Герой собирается покинуть локацию.
-- Дай travel выборы для путешествия в другие города
-- Используй travelOptions для списка доступных маршрутов` :
-`🚨 КОГДА ПО СЮЖЕТУ ГЕРОЙ ДОЛЖЕН ОТПРАВИТЬСЯ В ДРУГОЙ ГОРОД:
-1. Добавь к ЛЮБОМУ подходящему выбору travel effect:
-   { "type": "travel", "travel": { "action": "require_travel", "targetLocationId": "ID_ИЗ_СПИСКА_ГОРОДОВ", "targetLocationName": "Имя города", "reason": "Зачем идти" }}
-2. targetLocationId ОБЯЗАТЕЛЬНО бери из списка "ВСЕ ГОРОДА МИРА" выше! Название города ДОЛЖНО совпадать с targetLocationName!
-3. После выбора с require_travel на карте появится маркер цели
-
-- Если игрок может свободно уйти — добавь travel choice (tone: "travel") с travelTo
-- Если в сцене есть квест на перемещение — напомни о цели`}
-
-⚠️ КРИТИЧЕСКИ ВАЖНО - locationId и kingdomId:
-- ВСЕГДА указывай locationId и kingdomId для сцены!
-- locationId берётся из КОНТЕКСТА ПУТЕШЕСТВИЙ (ID локаций в маршрутах или квесте)
-- Если герой прибыл в новое место — укажи ID этого места
-- Если герой в пути или в текущей локации — укажи currentLocationId: "${travelContext?.currentLocationId || ''}"
-${travelContext?.travelQuest ? `
-⚠️ АКТИВЕН КВЕСТ НА ПЕРЕМЕЩЕНИЕ в ${travelContext.travelQuest.targetLocationName}!
-При прибытии укажи locationId: "${travelContext.travelQuest.targetLocationId}"
-Убедись что один из выборов ведёт к выполнению квеста.` : ''}
-${travelContext?.inTransit ? `
-⚠️ ГЕРОЙ В ПУТИ в ${travelContext.inTransit.toName}!
-При прибытии укажи locationId: "${travelContext.inTransit.toId}"` : ''}
-
-Генерируй JSON:`;
-
-  const response = await callLLM(
-    [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt }
-    ],
-    SHOWRUNNER_MODEL,
-    {
-      agent: 'SHOWRUNNER',
-      context: showrunnerContext
-    }
-  );
+// ============ CRITIC AGENT ============
+// Проверяет сцену Showrunner на противоречия состоянию игры (src/services/sceneCritic)
 
-  // Parse JSON
-  let jsonStr = response.trim();
-  if (jsonStr.startsWith('```json')) jsonStr = jsonStr.slice(7);
-  if (jsonStr.startsWith('```')) jsonStr = jsonStr.slice(3);
-  if (jsonStr.endsWith('```')) jsonStr = jsonStr.slice(0, -3);
-  jsonStr = jsonStr.trim();
+/**
+ * Вердикт по сцене: правила, затем (VITE_CRITIC_MODE=llm) агент CRITIC.
+ * Вердикт правил пишется в лог как вызов CRITIC без провайдера; сбой LLM-проверки сцену не блокирует.
+ */
+export async function critiqueScene(
+  input: SceneCriticInput,
+  sceneLogId?: string,
+  options: AgentRequestOptions = {}
+): Promise<CriticVerdict> {
+  const mode = getCriticMode();
+  if (mode === 'off') {
+    return { ok: true, violations: [] };
+  }
 
+  const endPhase = beginDebugPhase('CRITIQUING_SCENE');
   try {
-    const result = JSON.parse(jsonStr) as Scene;
-    
-    // Update debug log with parsed response
-    const lastLog = debugStore.logs.find(l => l.agent === 'SHOWRUNNER' && l.status === 'success');
-    if (lastLog) {
-      updateDebugLog(lastLog.id, { parsedResponse: result });
+    const startTime = Date.now();
+    const violations = checkSceneContinuity(input);
+    const context = buildCriticContext(input);
+    const sceneNumber = input.scene.sceneNumber;
+
+    addDebugLog({
+      id: createLogId('CRITIC'),
+      timestamp: startTime,
+      agent: 'CRITIC',
+      model: 'rules',
+      provider: 'rules',
+      systemPrompt: '',
+      userPrompt: `Проверка сцены ${input.scene.id}: ${CRITIC_RULES.join(', ')}`,
+      context,
+      parsedResponse: { ok: violations.length === 0, violations },
+      reviewOf: sceneLogId,
+      sceneNumber,
+      status: 'success',
+      durationMs: Date.now() - startTime
+    });
+
+    // Правила уже нашли нарушения - сцену всё равно переписывать, LLM не нужен
+    if (violations.length > 0 || mode !== 'llm') {
+      return { ok: violations.length === 0, violations };
     }
-    
-    setDebugPhase('IDLE');
-    return result;
-  } catch (e) {
-    console.error('Failed to parse scene JSON:', jsonStr);
-    setDebugPhase('IDLE');
-    throw new Error('Invalid scene JSON from Showrunner');
+
+    const template = bindPromptTemplate('critic', { ...context, rulesChecked: CRITIC_RULES });
+    try {
+      const { systemPrompt, userPrompt } = renderSystemAndUser(template);
+      const verdict = await callAgentJSON(
+        [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        criticVerdictSchema,
+        {
+          agent: 'CRITIC',
+          context,
+          sceneNumber,
+          promptTemplate: template.ref,
+          renderPrompts: edited => renderSystemAndUser(template.withContext(edited)),
+          reviewOf: sceneLogId,
+          signal: options.signal,
+          priority: options.priority
+        },
+        'Invalid verdict JSON from Critic'
+      );
+      const llmViolations = verdict.violations.map(v => ({ ...v, source: 'llm' as const }));
+      return { ok: llmViolations.length === 0, violations: llmViolations };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('⚠️ Critic failed, scene accepted unchecked:', error);
+      return { ok: true, violations: [] };
+    }
+  } finally {
+    endPhase();
   }
 }
 
@@ -1454,25 +1768,30 @@ ${travelContext?.inTransit ? `
 // Анализирует прогресс истории и даёт директивы Showrunner
 
 // Создать начальное состояние истории
-export const createInitialStoryState = (scenario: WorldScenario): StoryState => ({
-  currentAct: 1,
-  actProgress: 0,
-  scenesInCurrentAct: 0,
-  milestones: [
-    { id: 'act1_setup', name: 'Завязка истории', act: 1, reached: false },
-    { id: 'act1_incident', name: 'Инцидент произошёл', act: 1, reached: false },
-    { id: 'act2_confrontation', name: 'Первое столкновение', act: 2, reached: false },
-    { id: 'act2_midpoint', name: 'Точка невозврата', act: 2, reached: false },
-    { id: 'act3_crisis', name: 'Кризис', act: 3, reached: false },
-    { id: 'act3_climax', name: 'Кульминация', act: 3, reached: false }
-  ],
-  currentFocus: scenario.heroDramaturgy?.incitingIncident || 'Начало истории',
-  storySummary: '',
-  lastSceneSummary: '',
-  isClimax: false,
-  isEpilogue: false,
-  isComplete: false
-});
+// Названия milestones - на языке игры (история пишется на нём же)
+export const createInitialStoryState = (scenario: WorldScenario): StoryState => {
+  const { milestones, openingFocus } = getUIStrings().story;
+  return {
+    currentAct: 1,
+    actProgress: 0,
+    scenesInCurrentAct: 0,
+    milestones: [
+      { id: 'act1_setup', name: milestones.act1_setup, act: 1, reached: false },
+      { id: 'act1_incident', name: milestones.act1_incident, act: 1, reached: false },
+      { id: 'act2_confrontation', name: milestones.act2_confrontation, act: 2, reached: false },
+      { id: 'act2_midpoint', name: milestones.act2_midpoint, act: 2, reached: false },
+      { id: 'act3_crisis', name: milestones.act3_crisis, act: 3, reached: false },
+      { id: 'act3_climax', name: milestones.act3_climax, act: 3, reached: false }
+    ],
+    threads: createStoryThreads(scenario),
+    currentFocus: scenario.heroDramaturgy?.incitingIncident || openingFocus,
+    storySummary: '',
+    lastSceneSummary: '',
+    isClimax: false,
+    isEpilogue: false,
+    isComplete: false
+  };
+};
 
 export async function generateDirective(
   scenario: WorldScenario,
@@ -1480,10 +1799,26 @@ export async function generateDirective(
   lastScene: Scene,
   playerChoice: string,
   playerState: PlayerState,
-  totalScenes: number
+  totalScenes: number,
+  options: DirectiveOptions = {}
 ): Promise<DirectorAnalysis> {
-  setDebugPhase('GENERATING_DIRECTIVE');
-  
+  // Давние факты о месте и лицах последней сцены (сама сцена уже в промпте)
+  const lastSceneText = [
+    lastScene.description,
+    ...(lastScene.dialogue || []).map(line => `${line.speaker}: ${line.text}`),
+    playerChoice
+  ].join(' ');
+  const memories = options.memory
+    ? recallMemories(options.memory, {
+        text: lastSceneText,
+        locationId: lastScene.locationId,
+        location: lastScene.location,
+        npcs: findMentionedNames(lastSceneText, getSceneNpcs(scenario, playerState.relationships).map(npc => npc.name)),
+        elements: getScenarioElements(scenario, currentStoryState),
+        beforeScene: lastScene.sceneNumber
+      })
+    : [];
+
   const directorContext: DirectorContext = {
     scenario: {
       title: scenario.title,
@@ -1505,135 +1840,153 @@ export async function generateDirective(
     playerState: {
       gold: playerState.stats.gold,
       reputation: playerState.stats.reputation,
+      health: playerState.stats.health,
+      injuries: playerState.injuries.map(describeInjury),
       relationships: playerState.relationships.map(r => `${r.npcName}: ${r.status}`)
     },
-    totalScenes
+    totalScenes,
+    memories,
+    checkResult: options.checkResult
   };
 
-  const systemPrompt = `Ты — DIRECTOR, управляешь сценарным движком интерактивной истории.
-
-ТВОЯ РОЛЬ:
-1. Анализировать что произошло в последней сцене
-2. Отслеживать прогресс по сценарию (акты, milestones)
-3. Решать темп повествования
-4. Давать чёткие директивы Showrunner для следующей сцены
-
-СТРУКТУРА ИСТОРИИ:
-- АКТ 1 (Завязка): Знакомство с миром, inciting incident
-- АКТ 2 (Развитие): Конфликт нарастает, midpoint, ставки повышаются
-- АКТ 3 (Развязка): Кризис, кульминация, резолюция
-
-ПРАВИЛА ТЕМПА:
-- slow_down: Если игрок торопится, нужно развить персонажей/мир
-- maintain: История идёт нормально
-- build_tension: Пора повышать ставки
-- climax: Время кульминации
-- resolution: После кульминации, завершение
-
-ФОРМАТ JSON:
-{
-  "updatedStoryState": {
-    "currentAct": 1|2|3,
-    "actProgress": 0-100,
-    "scenesInCurrentAct": число,
-    "milestones": [...текущие milestones с обновлённым reached...],
-    "currentFocus": "На чём сейчас фокус истории",
-    "storySummary": "Краткая сводка ВСЕЙ истории до этого момента (2-3 предложения)",
-    "lastSceneSummary": "Что произошло в последней сцене (1 предложение)",
-    "isClimax": false,
-    "isEpilogue": false,
-    "isComplete": false
-  },
-  "directive": {
-    "pacing": "slow_down|maintain|build_tension|climax|resolution",
-    "focus": "Конкретный фокус для следующей сцены",
-    "currentBeat": "setup|rising_action|midpoint|crisis|climax|resolution",
-    "mustInclude": ["что обязательно включить"],
-    "shouldAvoid": ["чего избегать"],
-    "targetMilestone": "id milestone к которому вести",
-    "shouldEnd": false,
-    "endType": null
-  },
-  "reasoning": "Почему ты принял такое решение (1-2 предложения)"
-}`;
-
-  const userPrompt = `АНАЛИЗИРУЙ СИТУАЦИЮ:
-
-═══ СЦЕНАРИЙ ═══
-"${directorContext.scenario.title}"
-${directorContext.scenario.premise}
-
-Моральная дилемма героя: ${directorContext.scenario.heroDramaturgy.moralDilemma}
-Ставки: ${directorContext.scenario.heroDramaturgy.stakes}
-
-═══ ТЕКУЩЕЕ СОСТОЯНИЕ ═══
-Акт: ${currentStoryState.currentAct}
-Прогресс акта: ${currentStoryState.actProgress}%
-Всего сцен: ${totalScenes}
-Сцен в текущем акте: ${currentStoryState.scenesInCurrentAct}
-
-Достигнутые milestones:
-${currentStoryState.milestones.filter(m => m.reached).map(m => `✓ ${m.name}`).join('\n') || 'Нет'}
-
-Недостигнутые milestones:
-${currentStoryState.milestones.filter(m => !m.reached).map(m => `○ ${m.name} (Акт ${m.act})`).join('\n')}
-
-═══ ПОСЛЕДНЯЯ СЦЕНА ═══
-Локация: ${directorContext.lastScene.location}
-${directorContext.lastScene.description}
-
-ВЫБОР ИГРОКА: "${playerChoice}"
-
-═══ СОСТОЯНИЕ ИГРОКА ═══
-Золото: ${directorContext.playerState.gold}
-Репутация: ${directorContext.playerState.reputation}
-Отношения: ${directorContext.playerState.relationships.join(', ') || 'Нет'}
-
-═══ ЗАДАЧА ═══
-1. Обнови milestones если какой-то был достигнут
-2. Определи текущий beat истории
-3. Реши нужно ли менять акт
-4. Дай директиву Showrunner
-
-${totalScenes >= 10 && !currentStoryState.isClimax ? 'ВНИМАНИЕ: История идёт долго. Рассмотри переход к кульминации.' : ''}
-${currentStoryState.isClimax ? 'История в КУЛЬМИНАЦИИ. После разрешения конфликта — эпилог.' : ''}
-
-Генерируй JSON:`;
-
-  const response = await callLLM(
-    [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt }
-    ],
-    DIRECTOR_MODEL,
-    {
-      agent: 'DIRECTOR',
-      context: directorContext
-    }
-  );
+  const reachedMilestones = currentStoryState.milestones.filter(m => m.reached);
+  const pendingMilestones = currentStoryState.milestones.filter(m => !m.reached);
+
+  const template = bindPromptTemplate('director', {
+    ...directorContext,
+    reachedMilestones,
+    pendingMilestones,
+    upcomingMilestones: pendingMilestones.filter(m => m.act <= currentStoryState.currentAct + 1),
+    lastSceneShort: truncateText(directorContext.lastScene.description, 250),
+    isLongStory: totalScenes >= 10 && !currentStoryState.isClimax,
+    threads: getOpenThreadLines(currentStoryState)
+  });
+  // Промпт целиком из шаблона: playground пересобирает его из правленого контекста
+  const renderDirectorPrompts = (bound: BoundPromptTemplate) => {
+    const systemPrompt = bound.render('system');
+
+    const promptSections: PromptSection[] = [
+      requiredSection('scenario', bound.render('scenario')),
+      requiredSection('storyState', bound.render('storyState')),
+      {
+        id: 'milestones',
+        priority: 3,
+        text: bound.render('milestones'),
+        fallbacks: [bound.render('milestones.compact')]
+      },
+      {
+        id: 'lastScene',
+        priority: 5,
+        text: bound.render('lastScene'),
+        fallbacks: [bound.render('lastScene.compact')]
+      },
+      requiredSection('playerChoice', bound.render('playerChoice')),
+      {
+        id: 'playerState',
+        priority: 4,
+        text: bound.render('playerState'),
+        fallbacks: [bound.render('playerState.compact')]
+      },
+      {
+        id: 'threads',
+        priority: 3,
+        text: bound.renderOptional('threads')
+      },
+      {
+        id: 'memories',
+        priority: 2,
+        text: bound.renderOptional('memories')
+      },
+      requiredSection('task', bound.render('task'))
+    ];
 
-  // Parse JSON
-  let jsonStr = response.trim();
-  if (jsonStr.startsWith('```json')) jsonStr = jsonStr.slice(7);
-  if (jsonStr.startsWith('```')) jsonStr = jsonStr.slice(3);
-  if (jsonStr.endsWith('```')) jsonStr = jsonStr.slice(0, -3);
-  jsonStr = jsonStr.trim();
+    const { prompt: userPrompt, report: budget } = fitPromptToBudget(systemPrompt, promptSections, getPromptBudget('DIRECTOR'));
+    return { systemPrompt, userPrompt, budget };
+  };
+  const { systemPrompt, userPrompt, budget } = renderDirectorPrompts(template);
 
+  const endPhase = beginDebugPhase('GENERATING_DIRECTIVE');
   try {
-    const result = JSON.parse(jsonStr) as DirectorAnalysis;
-    
-    // Update debug log
-    const lastLog = debugStore.logs.find(l => l.agent === 'DIRECTOR' && l.status === 'success');
-    if (lastLog) {
-      updateDebugLog(lastLog.id, { parsedResponse: result });
+    const analysis = await callAgentJSON(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      // Ружья Чехова и побочные конфликты: статусы и просроченные развязки в mustInclude
+      transform(
+        createDirectorAnalysisSchema(currentStoryState),
+        parsed => trackStoryThreads(parsed, currentStoryState, lastScene, playerChoice)
+      ),
+      {
+        agent: 'DIRECTOR',
+        context: directorContext,
+        budget,
+        sceneNumber: totalScenes + 1,   // Директива готовит следующую сцену
+        promptTemplate: template.ref,
+        renderPrompts: context => renderDirectorPrompts(template.withContext(context)),
+        signal: options.signal,
+        priority: options.priority
+      },
+      'Invalid director JSON'
+    );
+    return analysis;
+  } finally {
+    endPhase();
+  }
+}
+
+// ============ CHRONICLER AGENT ============
+// Финал истории: концовка из possibleEndings и хроника судеб героя, NPC и королевств
+
+/**
+ * Эпилог: концовка и итоги считаются детерминированно (./epilogue), хронику пишет CHRONICLER.
+ * Сбой агента финал не блокирует - показывается хроника без LLM.
+ */
+export async function generateEpilogue(
+  input: EpilogueInput,
+  options: AgentRequestOptions = {}
+): Promise<Epilogue> {
+  const context = buildEpilogueContext(input);
+  const fallback = createFallbackChronicle(context);
+  const template = bindPromptTemplate('chronicler', { ...context, endingKind: promptFlag(context.ending.kind) });
+
+  const endPhase = beginDebugPhase('GENERATING_EPILOGUE');
+  try {
+    let chronicle: EpilogueChronicle;
+    try {
+      const { systemPrompt, userPrompt } = renderSystemAndUser(template);
+      chronicle = await callAgentJSON(
+        [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        createEpilogueChronicleSchema(fallback),
+        {
+          agent: 'CHRONICLER',
+          context,
+          sceneNumber: input.sceneNumber + 1,
+          promptTemplate: template.ref,
+          renderPrompts: edited => renderSystemAndUser(template.withContext(edited)),
+          signal: options.signal,
+          priority: options.priority
+        },
+        'Invalid chronicle JSON'
+      );
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('⚠️ Chronicler failed, showing epilogue without chronicle:', error);
+      chronicle = fallback;
     }
-    
-    setDebugPhase('IDLE');
-    return result;
-  } catch (e) {
-    console.error('Failed to parse director JSON:', jsonStr);
-    setDebugPhase('IDLE');
-    throw new Error('Invalid director JSON');
+
+    return {
+      ending: context.ending.kind,
+      endingText: context.ending.description,
+      death: context.death,
+      chronicle,
+      stats: context.stats
+    };
+  } finally {
+    endPhase();
   }
 }
 
@@ -0,0 +1,598 @@
+// ============ MOCK LLM PROVIDER ============
+// Детерминированный офлайн-провайдер: отвечает валидным JSON за каждого агента.
+// Ответ зависит только от seed мира и входа агента - одинаковый мир + одинаковые выборы = одинаковая игра.
+// Включается через VITE_LLM_PROVIDER=mock (или VITE_LLM_PROVIDER_<AGENT>=mock).
+// Тексты мока только русские: настройку языка он не учитывает. Записанные ответы проигрывает
+// sessionRecorder (replay), а не мок.
+
+import type { WorldData, POI, Kingdom, ClimateZone, BiomeType } from '../types/world';
+import type { WorldState } from '../types/simulation';
+import type {
+  NarratorContext,
+  ShowrunnerContext,
+  DirectorContext,
+  DirectorAnalysis,
+  DirectorDirective,
+  Scene,
+  SceneChoice,
+  StoryState,
+  EpilogueContext,
+  EpilogueChronicle
+} from '../types/agents';
+import type { LLMProvider, LLMRequest } from '../types/llm';
+import type {
+  WorldLore,
+  KingdomLore,
+  CityLore,
+  CharacterGenerationResult,
+  PlayableCharacter,
+  WorldScenario,
+  NPCharacter
+} from './llmService';
+import { createStubProvider } from './llmProviders';
+import { getTownImageListForPrompt } from '../utils/locationImages';
+import { getAvatarIdsByArchetype, type CharacterArchetype } from '../utils/characterAssets';
+import { hashString, createRandom, type Random } from '../utils/seededRandom';
+
+export const MOCK_PROVIDER_ID = 'mock';
+
+export interface MockProviderOptions {
+  id?: string;
+}
+
+// ============ SEEDED RANDOM ============
+
+const pick = <T>(random: Random, items: T[]): T => items[Math.floor(random() * items.length)];
+
+const range = (random: Random, min: number, max: number): number =>
+  Math.round(min + random() * (max - min));
+
+const shuffle = <T>(random: Random, items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// ============ TEXT POOLS ============
+
+const FIRST_NAMES = ['Эдрик', 'Бран', 'Мира', 'Тейн', 'Элена', 'Дункан', 'Роуэн', 'Ирма', 'Кейл', 'Вера', 'Гаррет', 'Лиана', 'Освин', 'Сарра'];
+const HOUSE_NAMES = ['Вейн', 'Корт', 'Риверс', 'Холт', 'Марроу', 'Блэквуд', 'Стоун', 'Эшфорд', 'Грей', 'Торн'];
+
+const RULER_TITLES: Record<ClimateZone, string[]> = {
+  NORTH: ['Ярл', 'Верховный Король', 'Конунг'],
+  CENTRAL: ['Король', 'Герцог', 'Королева'],
+  SOUTH: ['Архонт', 'Султан', 'Верховная Жрица']
+};
+
+const RULER_PERSONALITIES: KingdomLore['initialState']['rulerPersonality'][] = [
+  'Aggressive', 'Diplomatic', 'Balanced', 'Defensive', 'Expansionist'
+];
+
+const MOODS = ['оживлённый', 'древний', 'воинственный', 'мистический', 'тревожный', 'торжественный'];
+
+const CLIMATE_CULTURE: Record<ClimateZone, string> = {
+  NORTH: 'Суровые люди севера чтут силу и клятвы. Зимы здесь длинные, а песни скальдов помнят каждое предательство.',
+  CENTRAL: 'Феодальные дома плетут интриги при дворе. Земля плодородна, и за каждое поле кто-то готов пролить кровь.',
+  SOUTH: 'Мистики и купцы юга живут среди солнца и песка. Здесь верят знакам звёзд и цене каждого слова.'
+};
+
+const CLIMATE_RELIGION: Record<ClimateZone, string> = {
+  NORTH: 'Поклоняются Старым Богам льда и бури.',
+  CENTRAL: 'Чтят Семерых, чьи храмы стоят в каждом городе.',
+  SOUTH: 'Верят в Солнечный Огонь и пророчества оракулов.'
+};
+
+const BIOME_SPECIALTY: Partial<Record<BiomeType, string[]>> = {
+  FOREST: ['lumber', 'logging', 'hunters', 'woodcutting', 'forest'],
+  HILLS: ['mining', 'quarry', 'hills', 'terraces'],
+  MOUNTAIN: ['mining', 'quarry'],
+  PLAIN: ['farming', 'village', 'trade', 'market', 'buffalo', 'savannah'],
+  BEACH: ['fishing', 'port', 'harbor', 'coast']
+};
+
+const PLAYSTYLES = ['боевой', 'интриги', 'исследование', 'дипломатия', 'торговля'];
+
+const ARCHETYPE_TITLES: Record<CharacterArchetype, string[]> = {
+  power: ['Рыцарь-командор', 'Наследник дома', 'Капитан стражи'],
+  shadow: ['Шпион', 'Контрабандист', 'Мастер шепотов'],
+  outsider: ['Странствующий лекарь', 'Изгнанный маг', 'Наёмник из-за моря']
+};
+
+const ARCHETYPE_POSITIONS: Record<CharacterArchetype, string> = {
+  power: 'знать',
+  shadow: 'простолюдин',
+  outsider: 'чужеземец'
+};
+
+// ============ HELPERS ============
+
+const createName = (random: Random) => `${pick(random, FIRST_NAMES)} ${pick(random, HOUSE_NAMES)}`;
+
+const parseContext = <T>(request: LLMRequest): T | null =>
+  (request.context as unknown as T | undefined) ?? null;
+
+// Ключевые слова изображений городов (чтобы specialty совпадал с картинками)
+const getSpecialtyPool = (poi: POI, hasCoastline: boolean): string[] => {
+  const climateKeywords = getTownImageListForPrompt()
+    .filter(img => img.climate === poi.climate)
+    .flatMap(img => img.keywords);
+  const biomeKeywords = [
+    ...(BIOME_SPECIALTY[poi.biome] || BIOME_SPECIALTY.PLAIN || []),
+    ...(hasCoastline ? BIOME_SPECIALTY.BEACH || [] : [])
+  ];
+  const matching = biomeKeywords.filter(k => climateKeywords.includes(k));
+  return matching.length > 0 ? matching : biomeKeywords;
+};
+
+// ============ GOLEM ============
+
+const createCityLore = (
+  random: Random,
+  poi: POI,
+  specialty: string,
+  isCapital: boolean
+): CityLore => ({
+  id: poi.id,
+  name: poi.name,
+  description: isCapital
+    ? `${poi.name} - сердце королевства, окружённое древними стенами. Здесь решаются судьбы тысяч людей.`
+    : `${poi.name} живёт своим ремеслом и слухами с большой дороги.`,
+  specialty,
+  landmark: isCapital ? `Цитадель ${poi.name}` : `Старая площадь ${poi.name}`,
+  mood: pick(random, MOODS)
+});
+
+const createKingdomLore = (random: Random, kingdom: Kingdom, worldState: WorldState): KingdomLore => {
+  const climate = kingdom.geography.climateZone;
+  const state = worldState.kingdoms[kingdom.id];
+  const usedSpecialties = new Set<string>();
+
+  const specialtyFor = (poi: POI) => {
+    const pool = getSpecialtyPool(poi, kingdom.geography.hasCoastline);
+    const specialty = pool.find(s => !usedSpecialties.has(s)) || pick(random, pool);
+    usedSpecialties.add(specialty);
+    return specialty;
+  };
+
+  const personality = RULER_PERSONALITIES.find(p => p === state?.ruler.personality)
+    || pick(random, RULER_PERSONALITIES);
+  const neighbors = kingdom.geography.neighboringKingdoms.length;
+
+  return {
+    id: kingdom.id,
+    name: kingdom.name,
+    motto: pick(random, ['Сталь и честь', 'Мы помним', 'Огонь не гаснет', 'Клятва превыше крови']),
+    culture: CLIMATE_CULTURE[climate],
+    history: `${kingdom.name} основано на руинах старой империи. Его границы не раз переписывались мечом.`,
+    religion: CLIMATE_RELIGION[climate],
+    traits: shuffle(random, ['гордые', 'торговцы', 'воинственные', 'набожные', 'скрытные']).slice(0, 3),
+    relations: neighbors > 0
+      ? `Граничит с ${neighbors} королевствами и не доверяет ни одному из них.`
+      : 'Живёт обособленно и редко вмешивается в дела соседей.',
+    capital: createCityLore(random, kingdom.capital, specialtyFor(kingdom.capital), true),
+    cities: kingdom.cities.map(city => createCityLore(random, city, specialtyFor(city), false)),
+    initialState: {
+      rulerName: createName(random),
+      rulerTitle: pick(random, RULER_TITLES[climate]),
+      rulerPersonality: personality,
+      militaryStrength: climate === 'NORTH' ? range(random, 700, 900) : range(random, 400, 700),
+      gold: state?.resources.gold ?? range(random, 600, 1800),
+      mana: climate === 'SOUTH' ? range(random, 500, 700) : climate === 'NORTH' ? range(random, 150, 300) : range(random, 300, 500),
+      food: state?.resources.food ?? range(random, 600, 1400)
+    }
+  };
+};
+
+const mockWorldLore = (random: Random, worldData: WorldData, worldState: WorldState): WorldLore => ({
+  worldName: `Земли ${pick(random, ['Пепла', 'Шести Корон', 'Долгой Зимы', 'Расколотого Солнца'])}`,
+  worldDescription: 'Континент, где старые клятвы рушатся быстрее крепостных стен. Королевства копят силы перед новой войной.',
+  era: `Эпоха ${pick(random, ['Раздора', 'Тлеющих Углей', 'Сломанных Мечей'])}`,
+  majorEvents: [
+    'Падение старой империи разделило континент на королевства.',
+    'Великий мор выкосил треть населения юга.',
+    `В ${worldState.date.year - 12} году был заключён мир, который никто не соблюдает.`
+  ],
+  kingdoms: worldData.kingdoms.map(k => createKingdomLore(random, k, worldState)),
+  legends: [
+    'Говорят, что последний император не умер, а уснул под горами.',
+    'Когда две луны сойдутся, откроются врата забытых богов.'
+  ]
+});
+
+// ============ CHARACTER GENERATOR ============
+
+const mockCharacters = (random: Random, worldData: WorldData, worldState: WorldState): CharacterGenerationResult => {
+  const archetypes: CharacterArchetype[] = ['power', 'shadow', 'outsider'];
+  const kingdoms = shuffle(random, worldData.kingdoms);
+  const playstyles = shuffle(random, PLAYSTYLES);
+
+  const characters: PlayableCharacter[] = archetypes.map((archetype, i) => {
+    const kingdom = kingdoms[i % kingdoms.length];
+    const name = createName(random);
+    return {
+      id: `char_${i + 1}`,
+      name,
+      title: pick(random, ARCHETYPE_TITLES[archetype]),
+      avatarId: pick(random, getAvatarIdsByArchetype(archetype)),
+      portrait: 'Внимательный взгляд и старый шрам. Одежда выдаёт долгую дорогу.',
+      age: pick(random, ['молодой', 'средних лет', 'пожилой']),
+      background: `${name} родом из ${kingdom.name}. Служил при дворе, пока не потерял всё за одну ночь.`,
+      personality: 'Упрям и осторожен. Не прощает предательства.',
+      ambition: 'Вернуть утраченное имя и место в мире.',
+      startingKingdom: kingdom.id,
+      startingPosition: ARCHETYPE_POSITIONS[archetype],
+      skills: shuffle(random, ['фехтование', 'дипломатия', 'скрытность', 'торговля', 'медицина', 'следопытство']).slice(0, 3),
+      reputation: 'Его уважают одни и боятся другие.',
+      quirk: 'Всегда считает ступени на лестницах.',
+      playstyle: playstyles[i]
+    };
+  });
+
+  return {
+    characters,
+    sharedWorld: 'Королевства затаились перед войной. Торговые пути опасны, а при дворах шепчутся о заговорах.',
+    timeline: `${worldState.date.season}, ${worldState.date.year} год`
+  };
+};
+
+// ============ NARRATOR ============
+
+const mockScenario = (random: Random, context: NarratorContext): WorldScenario => {
+  const hero = context.hero.character;
+  const kingdoms = context.world.kingdoms;
+  const rivalKingdom = kingdoms.find(k => k.id !== hero.startingKingdom) || kingdoms[0];
+  const antagonist = createName(random);
+
+  const castNpcs: NPCharacter[] = context.supportingCast.characters.map((c, i) => ({
+    name: c.name,
+    role: i === 0 ? 'соперник' : 'союзник',
+    allegiance: c.startingKingdom,
+    personality: c.personality,
+    motivation: c.ambition,
+    firstAppearance: i + 1,
+    potentialBetrayal: i === 0,
+    relationToPlayer: i === 0 ? 'Конкурент за одни цели' : 'Осторожный союзник',
+    isFromSupportingCast: true
+  }));
+
+  const acts = [
+    { title: 'Пепел', beat: 'Героя лишают всего' },
+    { title: 'Клятвы', beat: 'Герой ищет союзников и правду' },
+    { title: 'Корона', beat: 'Герой решает судьбу королевства' }
+  ];
+
+  return {
+    title: `Сага о ${hero.name}`,
+    logline: `${hero.name} должен выбрать между местью и миром, пока королевства скатываются в войну.`,
+    premise: `${context.startingLocation.kingdomName} охвачено смутой. ${hero.name} оказывается в центре заговора, который может развязать войну с ${rivalKingdom?.name || 'соседями'}.`,
+    tone: pick(random, ['эпический', 'трагический', 'героический']),
+    centralConflict: `Заговор ${antagonist} против трона ${context.startingLocation.kingdomName}.`,
+    moralQuestion: 'Стоит ли правда войны?',
+    heroDramaturgy: {
+      incitingIncident: `Ночью в ${context.startingLocation.kingdomName} убит советник, и все улики указывают на ${hero.name}.`,
+      moralDilemma: 'Долг перед короной или верность друзьям.',
+      secretOrFlaw: 'Герой скрывает, что когда-то служил заговорщикам.',
+      stakes: 'Жизни близких и мир между королевствами.',
+      transformation: 'Из беглеца - в того, кто решает судьбы.'
+    },
+    connections: {
+      ally: { name: createName(random), who: 'Старый товарищ по оружию', why: 'Обязан герою жизнью' },
+      rival: { name: castNpcs[0]?.name || createName(random), who: 'Соперник при дворе', conflict: 'Хочет того же места' },
+      mentor: { name: createName(random), who: 'Отставной мастер шпионов', lesson: 'Доверие - тоже оружие' },
+      loveInterest: null
+    },
+    playerCharacterArc: 'Герой учится доверять и платит за это цену. В конце он сам выбирает, каким будет мир.',
+    npcs: [
+      {
+        name: antagonist,
+        role: 'антагонист',
+        allegiance: rivalKingdom?.id ?? 'neutral',
+        personality: 'Холодный и расчётливый',
+        motivation: 'Верит, что только война очистит королевства',
+        firstAppearance: 1,
+        potentialBetrayal: false,
+        relationToPlayer: 'Видит в герое полезную пешку',
+        isFromSupportingCast: false
+      },
+      ...castNpcs
+    ],
+    acts: acts.map((act, i) => ({
+      actNumber: i + 1,
+      title: `АКТ ${i + 1}: ${act.title}`,
+      description: act.beat,
+      keyEvents: [`${act.beat}.`],
+      tensions: ['Время уходит'],
+      moralChoices: ['Спасти одного или многих'],
+      revelations: [i === 1 ? `За заговором стоит ${antagonist}` : 'Прошлое героя всплывает'],
+      cliffhanger: i < 2 ? 'Союзник исчезает без следа' : undefined
+    })),
+    sideConflicts: [{
+      name: 'Спор о торговых путях',
+      parties: [context.startingLocation.kingdomName, rivalKingdom?.name || 'Соседи'],
+      nature: 'Пошлины на перевалах',
+      connectionToMain: 'Заговорщики подогревают спор',
+      resolution: 'Договор или резня на перевале'
+    }],
+    chekhovsGuns: [{
+      element: 'Печать убитого советника',
+      introduction: 'Герой находит её на месте убийства',
+      payoff: 'Печать открывает тайный архив заговорщиков',
+      actIntroduced: 1,
+      actPayoff: 3
+    }],
+    climax: `${hero.name} встречает ${antagonist} в тронном зале и должен решить, чья правда победит.`,
+    possibleEndings: {
+      triumph: 'Заговор раскрыт, война предотвращена.',
+      bittersweet: 'Война предотвращена, но герой теряет друга.',
+      tragic: 'Герой становится тем, против кого сражался.'
+    },
+    themes: ['цена правды', 'верность'],
+    warnings: []
+  };
+};
+
+// ============ DIRECTOR ============
+
+const mockDirective = (context: DirectorContext): DirectorAnalysis => {
+  const scenes = context.totalScenes;
+  const previous = context.currentStoryState;
+  const currentAct: StoryState['currentAct'] = scenes <= 3 ? 1 : scenes <= 7 ? 2 : 3;
+  const isClimax = scenes >= 10;
+  const isComplete = scenes >= 12;
+  const shouldEnd = scenes >= 11;
+
+  // Milestones достигаются по номеру сцены - порог растёт вместе с актами
+  const thresholds: Record<string, number> = {
+    act1_setup: 1,
+    act1_incident: 2,
+    act2_confrontation: 5,
+    act2_midpoint: 7,
+    act3_crisis: 9,
+    act3_climax: 11
+  };
+  const milestones = previous.milestones.map(m => {
+    const reached = m.reached || scenes >= (thresholds[m.id] ?? m.act * 4);
+    return reached && !m.reached ? { ...m, reached, reachedAtScene: scenes } : m;
+  });
+  const nextMilestone = milestones.find(m => !m.reached);
+
+  const pacing: DirectorDirective['pacing'] = shouldEnd ? 'resolution'
+    : isClimax ? 'climax'
+    : currentAct === 3 ? 'build_tension'
+    : scenes <= 2 ? 'slow_down'
+    : 'maintain';
+  const currentBeat = shouldEnd ? 'resolution'
+    : isClimax ? 'climax'
+    : currentAct === 3 ? 'crisis'
+    : scenes === 6 ? 'midpoint'
+    : currentAct === 2 ? 'rising_action'
+    : 'setup';
+
+  const lastSceneSummary = `В ${context.lastScene.location} герой решил: ${context.playerChoice}.`;
+
+  // Введённые линии выстреливают в своём акте
+  const threadUpdates = (previous.threads || [])
+    .filter(t => t.status === 'introduced' && currentAct >= t.payoffByAct)
+    .map(t => ({ id: t.id, status: 'paid_off' as const }));
+
+  return {
+    updatedStoryState: {
+      ...previous,
+      currentAct,
+      actProgress: Math.min(100, Math.round(((scenes % 4) / 4) * 100)),
+      scenesInCurrentAct: previous.currentAct === currentAct ? previous.scenesInCurrentAct + 1 : 1,
+      milestones,
+      currentFocus: nextMilestone?.name || 'Развязка',
+      storySummary: [previous.storySummary, lastSceneSummary].filter(Boolean).join(' ').slice(-600),
+      lastSceneSummary,
+      isClimax,
+      isEpilogue: shouldEnd,
+      isComplete
+    },
+    directive: {
+      pacing,
+      focus: nextMilestone?.name || 'Завершение истории',
+      currentBeat,
+      mustInclude: [context.scenario.heroDramaturgy.stakes].filter(Boolean),
+      shouldAvoid: ['повторения прошлой сцены'],
+      targetMilestone: nextMilestone?.id,
+      shouldEnd,
+      endType: shouldEnd
+        ? context.playerState.reputation >= 10 ? 'victory' : context.playerState.reputation < 0 ? 'defeat' : 'bittersweet'
+        : undefined
+    },
+    threadUpdates,
+    reasoning: `Сцена ${scenes}: акт ${currentAct}, темп ${pacing}.`
+  };
+};
+
+// ============ SHOWRUNNER ============
+
+const mockScene = (random: Random, context: ShowrunnerContext, worldData: WorldData): Scene => {
+  const { sceneNumber, location, kingdom, hero, travel } = context;
+  const ruler = kingdom.ruler || createName(random);
+  const locationId = travel?.currentLocationId || location.id;
+  const kingdomId = travel?.currentKingdomId ?? kingdom.id;
+
+  const choices: SceneChoice[] = [
+    {
+      id: 'choice-1',
+      text: `Предложить свои услуги людям ${ruler}`,
+      tone: 'diplomatic',
+      // Правителя нет среди NPC сценария (change_relationship его не примет) - служба отмечается флагом
+      toolCalls: [
+        { tool: 'change_stat', args: { attribute: 'gold', change: range(random, 10, 40) } },
+        { tool: 'set_flag', args: { flagId: `served_ruler_scene_${sceneNumber}`, value: true } }
+      ]
+    },
+    {
+      id: 'choice-2',
+      text: 'Выследить того, кто распускает слухи',
+      tone: 'cunning',
+      toolCalls: [
+        { tool: 'change_stat', args: { attribute: 'influence', change: range(random, 2, 6) } },
+        { tool: 'set_flag', args: { flagId: `rumor_scene_${sceneNumber}`, value: true } }
+      ]
+    },
+    {
+      id: 'choice-3',
+      text: 'Бросить вызов стражнику на глазах у толпы',
+      tone: 'aggressive',
+      toolCalls: [{ tool: 'set_flag', args: { flagId: `challenged_guard_scene_${sceneNumber}`, value: true } }],
+      // Исход поединка решает бросок: навык героя, если он есть
+      check: {
+        skill: hero.skills[0] || 'Фехтование',
+        difficulty: range(random, 10, 16),
+        // Жетон с прошлой победы - стража помнит героя
+        helpfulItems: ['item_guard_token'],
+        successEffects: [],
+        failureEffects: [],
+        successToolCalls: [
+          { tool: 'change_stat', args: { attribute: 'reputation', change: range(random, 5, 15) } },
+          { tool: 'give_item', args: { itemId: 'item_guard_token', itemName: 'Жетон стражи', type: 'key', description: 'Знак уважения городской стражи' } }
+        ],
+        failureToolCalls: [
+          { tool: 'change_stat', args: { attribute: 'reputation', change: -range(random, 3, 10) } },
+          { tool: 'inflict_injury', args: { name: 'Порез от клинка', severity: random() < 0.3 ? 'serious' : 'light' } }
+        ]
+      }
+    }
+  ];
+
+  // Маршрут в соседний город - только реальные POI из контекста путешествий
+  const route = travel?.availableRoutes?.length ? pick(random, travel.availableRoutes) : undefined;
+  if (route && !travel?.inTransit) {
+    choices.push({
+      id: 'choice-4',
+      text: `Отправиться в ${route.locationName}`,
+      tone: 'travel',
+      toolCalls: [{ tool: 'set_flag', args: { flagId: `left_${locationId}`, value: true } }],
+      travelTo: route
+    });
+  }
+
+  // Раз в несколько сцен сюжет зовёт в столицу другого королевства
+  const foreignCapitals = worldData.kingdoms.filter(k => k.id !== kingdomId).map(k => k.capital);
+  if (!travel?.travelQuest && !travel?.inTransit && sceneNumber % 4 === 2 && foreignCapitals.length > 0) {
+    const target = pick(random, foreignCapitals);
+    choices.push({
+      id: 'choice-5',
+      text: `Доставить письмо в ${target.name}`,
+      tone: 'noble',
+      toolCalls: [{
+        tool: 'require_travel',
+        args: { locationId: target.id, reason: `Доставить письмо ко двору ${target.name}` }
+      }]
+    });
+  }
+
+  const sceneKingdom = worldData.kingdoms.find(k => k.id === kingdomId);
+  const travelOptions = travel?.availableRoutes?.map(r => ({
+    ...r,
+    description: `Дорога в ${r.locationName}`,
+    isLocked: false
+  }));
+
+  return {
+    id: `scene-${sceneNumber}`,
+    sceneNumber,
+    location: location.name,
+    locationId,
+    kingdomId,
+    timeOfDay: pick(random, ['рассвет', 'полдень', 'сумерки', 'ночь']),
+    description: context.isFirstScene
+      ? `${context.scenario.heroDramaturgy.incitingIncident}\n\n${hero.name} стоит посреди ${location.name}, и все взгляды обращены на него.`
+      : `${location.name}${location.mood ? ` (${location.mood})` : ''} встречает ${hero.name} шумом улиц${location.specialty ? ` и запахом ремесла: ${location.specialty}` : ''}. Вести из ${sceneKingdom?.name || kingdom.name} тревожны.\n\nГерой чувствует, что время уходит.`,
+    dialogue: [
+      { speaker: ruler, text: `${hero.name}, ты пришёл вовремя. Или слишком поздно.` }
+    ],
+    choices,
+    travelOptions,
+    isTravel: context.sceneType === 'travel',
+    tension: Math.min(10, sceneNumber)
+  };
+};
+
+// ============ CHRONICLER ============
+
+const NPC_FATES: Record<string, string> = {
+  ally: 'остался рядом с героем до конца и разделил с ним славу.',
+  neutral: 'пошёл своей дорогой; летописи упоминают его лишь вскользь.',
+  rival: 'так и не простил герою своего поражения.',
+  enemy: 'проклинал имя героя до конца своих дней.',
+  dead: 'пал прежде, чем история была завершена.'
+};
+
+const mockChronicle = (context: EpilogueContext): EpilogueChronicle => {
+  const { hero, ending } = context;
+  return {
+    title: `Хроника: ${context.scenario.title}`,
+    hero: `${hero.name}, ${hero.title}, прошёл путь в ${context.stats.scenes} сцен. ${ending.description}`,
+    npcs: context.npcs.map(npc => ({
+      name: npc.name,
+      fate: `${npc.name} ${NPC_FATES[npc.status] || 'исчез из летописей.'}`
+    })),
+    kingdoms: context.kingdoms.map(kingdom => ({
+      id: kingdom.id,
+      name: kingdom.name,
+      fate: ending.kind === 'tragic'
+        ? `${kingdom.name} погрузилось в смуту, и ${kingdom.ruler} не смог её унять.`
+        : `${kingdom.name} (правитель - ${kingdom.ruler}) помнит имя ${hero.name}.`
+    })),
+    closingLine: ending.kind === 'triumph' ? 'И песни о нём поют до сих пор.' : 'Так закончилась эта история.'
+  };
+};
+
+// ============ PROVIDER ============
+
+/**
+ * Создать мок-провайдер для конкретного мира.
+ * Seed = worldData.seed + агент + промпт, поэтому повтор тех же выборов даёт те же ответы.
+ */
+export const createMockProvider = (
+  worldData: WorldData,
+  worldState: WorldState,
+  options: MockProviderOptions = {}
+): LLMProvider => {
+  return createStubProvider(options.id || MOCK_PROVIDER_ID, (request) => {
+    if (!request.agent) {
+      return 'Мир замер в ожидании.';
+    }
+
+    const userPrompt = request.messages.find(m => m.role === 'user')?.content || '';
+    const random = createRandom(hashString(`${worldData.seed}:${request.agent}:${userPrompt}`));
+
+    switch (request.agent) {
+      case 'GOLEM':
+        return JSON.stringify(mockWorldLore(random, worldData, worldState));
+      case 'CHARACTER_GENERATOR':
+        return JSON.stringify(mockCharacters(random, worldData, worldState));
+      case 'NARRATOR': {
+        const context = parseContext<NarratorContext>(request);
+        if (!context) throw new Error('Mock NARRATOR requires agent context');
+        return JSON.stringify(mockScenario(random, context));
+      }
+      case 'DIRECTOR': {
+        const context = parseContext<DirectorContext>(request);
+        if (!context) throw new Error('Mock DIRECTOR requires agent context');
+        return JSON.stringify(mockDirective(context));
+      }
+      case 'SHOWRUNNER': {
+        const context = parseContext<ShowrunnerContext>(request);
+        if (!context) throw new Error('Mock SHOWRUNNER requires agent context');
+        return JSON.stringify(mockScene(random, context, worldData));
+      }
+      case 'CHRONICLER': {
+        const context = parseContext<EpilogueContext>(request);
+        if (!context) throw new Error('Mock CHRONICLER requires agent context');
+        return JSON.stringify(mockChronicle(context));
+      }
+      case 'CRITIC':
+        // Мок-редактор полагается на правила sceneCritic: сверх них противоречий не находит
+        return JSON.stringify({ ok: true, violations: [] });
+    }
+  });
+};
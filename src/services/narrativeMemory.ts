@@ -0,0 +1,209 @@
+// ============ NARRATIVE MEMORY ============
+// Долговременная память истории: сцены, выборы, эффекты и реплики NPC с тегами
+// (локация, NPC, элементы сценария). Поиск - по ключевым словам (основы слов с весом IDF) плюс совпадение тегов.
+// В промпт Showrunner и Director попадают давние факты, относящиеся к текущей локации и действующим лицам -
+// чтобы ружьё из первого акта выстрелило в третьем.
+
+import type {
+  Scene,
+  SceneChoice,
+  AppliedEffect,
+  StoryState,
+  MemoryEntry,
+  MemoryKind,
+  NarrativeMemory,
+  RecalledMemory
+} from '../types/agents';
+import type { WorldScenario } from './llmService';
+import { getSceneNpcs } from './sceneTools';
+
+const MAX_FACT_LENGTH = 220;
+const DEFAULT_RECALL_LIMIT = 6;
+const MAX_FACTS_PER_SCENE = 2;        // Одна яркая сцена не должна занять всю выдачу
+
+// Бонусы за совпадение тегов (к весу ключевых слов)
+const LOCATION_BONUS = 2;
+const NPC_BONUS = 2;
+const ELEMENT_BONUS = 3;              // Элементы сценария - главное, ради чего память нужна
+
+export const createNarrativeMemory = (): NarrativeMemory => ({ entries: [] });
+
+// ============ TERMS ============
+
+// Грубый стемминг: первые 6 букв - "Торнвика" и "Торнвик" дают одну основу (хватает для русского и английского)
+const STEM_LENGTH = 6;
+const MIN_WORD_LENGTH = 3;
+const STOP_WORDS = new Set([
+  'что', 'как', 'это', 'его', 'она', 'они', 'для', 'при', 'над', 'под', 'или', 'был', 'была', 'было', 'были',
+  'уже', 'ещё', 'еще', 'все', 'так', 'тебя', 'меня', 'сцена', 'герой',
+  'the', 'and', 'you', 'his', 'her', 'with', 'from', 'that', 'this', 'was', 'were', 'hero', 'scene'
+]);
+
+export const extractTerms = (text: string): string[] => [
+  ...new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length >= MIN_WORD_LENGTH && !STOP_WORDS.has(word))
+      .map(word => word.slice(0, STEM_LENGTH))
+  )
+];
+
+// Имя упомянуто, если есть все его слова или самое длинное ("Рейвена" -> "Лорд Рейвен")
+const mentions = (terms: Set<string>, name: string): boolean => {
+  const nameTerms = extractTerms(name);
+  if (nameTerms.length === 0) return false;
+  const longest = nameTerms.reduce((a, b) => (b.length > a.length ? b : a));
+  return terms.has(longest) || nameTerms.every(term => terms.has(term));
+};
+
+const truncateFact = (text: string) =>
+  text.length > MAX_FACT_LENGTH ? `${text.slice(0, MAX_FACT_LENGTH - 1).trimEnd()}…` : text;
+
+// Первые предложения описания - суть сцены без атмосферы
+const firstSentences = (text: string, count = 2) =>
+  (text.replace(/\s+/g, ' ').match(/[^.!?…]+[.!?…]*/g) || [text]).slice(0, count).join('').trim();
+
+// ============ RECORDING ============
+
+/**
+ * Элементы сценария, к которым стоит возвращаться: ружья Чехова, побочные конфликты, milestones
+ */
+export const getScenarioElements = (scenario: WorldScenario, storyState?: StoryState | null): string[] => [
+  ...new Set([
+    ...(scenario.chekhovsGuns || []).map(gun => gun.element),
+    ...(scenario.sideConflicts || []).map(conflict => conflict.name),
+    ...(storyState?.milestones || []).map(milestone => milestone.name)
+  ].filter(Boolean))
+];
+
+export interface SceneRecord {
+  scene: Scene;
+  choice?: SceneChoice;                 // Нет у финальной сцены без выбора
+  appliedEffects?: AppliedEffect[];
+  scenario: WorldScenario;
+  storyState?: StoryState | null;
+}
+
+/**
+ * Записать сцену вместе с выбором и его последствиями.
+ * Повторная запись той же сцены (принятая альтернатива, повтор) заменяет прежнюю.
+ */
+export const recordScene = (memory: NarrativeMemory, record: SceneRecord): NarrativeMemory => {
+  const { scene, choice, appliedEffects = [], scenario, storyState } = record;
+  const { sceneNumber, location, locationId } = scene;
+  const npcNames = getSceneNpcs(scenario).map(npc => npc.name);
+  const elements = getScenarioElements(scenario, storyState);
+
+  const entries: MemoryEntry[] = [];
+  const add = (kind: MemoryKind, text: string, extraNpcs: string[] = []) => {
+    const fact = truncateFact(text);
+    const terms = extractTerms(fact);
+    const termSet = new Set(terms);
+    entries.push({
+      id: `mem-${sceneNumber}-${entries.length + 1}`,
+      sceneNumber,
+      kind,
+      text: fact,
+      tags: {
+        locationId,
+        location,
+        npcs: [...new Set([...extraNpcs, ...npcNames.filter(name => mentions(termSet, name))])],
+        elements: elements.filter(element => mentions(termSet, element))
+      },
+      terms
+    });
+  };
+
+  add('scene', `Сцена ${sceneNumber}, ${location}: ${firstSentences(scene.description)}`);
+
+  // Первая реплика каждого говорящего - кто где появлялся и что говорил
+  const speakers = new Map<string, string>();
+  for (const line of scene.dialogue || []) {
+    if (!speakers.has(line.speaker)) speakers.set(line.speaker, line.text);
+  }
+  speakers.forEach((text, speaker) => add('npc', `${speaker} (${location}, сцена ${sceneNumber}): «${text}»`, [speaker]));
+
+  if (choice) {
+    add('choice', `Сцена ${sceneNumber}, ${location}: герой выбрал «${choice.text}»`);
+    for (const effect of appliedEffects) {
+      add('effect', `Сцена ${sceneNumber}: ${effect.description}`);
+    }
+  }
+
+  return {
+    entries: [...memory.entries.filter(entry => entry.sceneNumber !== sceneNumber), ...entries]
+  };
+};
+
+// ============ RETRIEVAL ============
+
+export interface MemoryQuery {
+  text: string;                 // Что происходит сейчас: фокус директивы, последний выбор, описание сцены
+  locationId?: string;
+  location?: string;
+  npcs?: string[];              // Действующие лица
+  elements?: string[];          // Элементы сценария, к которым ведёт история
+  beforeScene: number;          // Только сцены раньше этой: свежие и так есть в промпте
+}
+
+/**
+ * Самые релевантные давние факты: вес совпавших ключевых слов (IDF) + бонусы за локацию, NPC и элементы сценария
+ */
+export const recallMemories = (
+  memory: NarrativeMemory,
+  query: MemoryQuery,
+  limit: number = DEFAULT_RECALL_LIMIT
+): RecalledMemory[] => {
+  const candidates = memory.entries.filter(entry => entry.sceneNumber < query.beforeScene);
+  if (candidates.length === 0) return [];
+
+  // IDF по всей памяти: редкое слово ("амулет") весит больше частого ("король")
+  const documentFrequency = new Map<string, number>();
+  for (const entry of memory.entries) {
+    for (const term of entry.terms) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+  const idf = (term: string) => Math.log(1 + memory.entries.length / (documentFrequency.get(term) || 1));
+
+  const queryTerms = extractTerms([query.text, ...(query.npcs || [])].join(' '));
+  const queryNpcs = new Set(query.npcs || []);
+  const queryElements = new Set(query.elements || []);
+
+  const scored = candidates
+    .map(entry => {
+      const entryTerms = new Set(entry.terms);
+      let score = queryTerms.filter(term => entryTerms.has(term)).reduce((sum, term) => sum + idf(term), 0);
+      if ((query.locationId && entry.tags.locationId === query.locationId)
+        || (query.location && entry.tags.location === query.location)) {
+        score += LOCATION_BONUS;
+      }
+      score += entry.tags.npcs.filter(npc => queryNpcs.has(npc)).length * NPC_BONUS;
+      score += entry.tags.elements.filter(element => queryElements.has(element)).length * ELEMENT_BONUS;
+      return { entry, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.entry.sceneNumber - b.entry.sceneNumber);
+
+  const perScene = new Map<number, number>();
+  const recalled: RecalledMemory[] = [];
+  for (const { entry, score } of scored) {
+    const taken = perScene.get(entry.sceneNumber) || 0;
+    if (taken >= MAX_FACTS_PER_SCENE) continue;
+    perScene.set(entry.sceneNumber, taken + 1);
+    recalled.push({ sceneNumber: entry.sceneNumber, kind: entry.kind, text: entry.text, score: Math.round(score * 100) / 100 });
+    if (recalled.length >= limit) break;
+  }
+
+  // В промпте - в хронологическом порядке
+  return recalled.sort((a, b) => a.sceneNumber - b.sceneNumber);
+};
+
+/**
+ * Кто из names упомянут в тексте - действующие лица для запроса к памяти
+ */
+export const findMentionedNames = (text: string, names: string[]): string[] => {
+  const terms = new Set(extractTerms(text));
+  return names.filter(name => mentions(terms, name));
+};
@@ -1,5 +1,7 @@
-import type { Kingdom, POI } from '../types/world';
+import type { Kingdom, POI, ClimateZone } from '../types/world';
 import type { WorldState } from '../types/simulation';
+import type { GameLanguage } from '../types/i18n';
+import { getLanguage } from '../i18n';
 
 // Тип ответа от ИИ
 export interface NarrativeResponse {
@@ -25,16 +27,113 @@ interface NarrativeContext {
 // Имитация задержки для эффекта "мышления"
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// --- ТЕКСТЫ МОКОВ (по языку игры) ---
+interface MockTexts {
+  wilderness: string;
+  neutralLands: string;
+  unknownStrength: string;
+  climateFlavor: Record<ClimateZone, string>;
+  ruinedExplore: (locName: string) => string;
+  scavenge: string;
+  leaveSadPlace: string;
+  explore: (p: { season: string; locName: string; climateFlavor: string; isForest: boolean; rulerName?: string }) => string;
+  shrine: (locName: string, isWinter: boolean) => string;
+  investigateCloser: string;
+  ignoreAndLeave: string;
+  mood: (isHungry: boolean) => string;
+  greeting: Record<ClimateZone, string>;
+  talk: (p: { locName: string; mood: string; greeting: string; season: string }) => string;
+  offerGold: string;
+  askRumors: string;
+  attack: (p: { locName: string; kingdomName: string; strength: string }) => string;
+  investigate: string;
+  nothingHappens: (locName: string) => string;
+}
+
+const MOCK_TEXTS: Record<GameLanguage, MockTexts> = {
+  en: {
+    wilderness: "the wilderness",
+    neutralLands: "neutral lands",
+    unknownStrength: "Unknown",
+    climateFlavor: {
+      NORTH: "The freezing winds of the North bite at your skin.",
+      SOUTH: "The sun beats down relentlessly on the golden sands.",
+      CENTRAL: "A gentle breeze blows across the fertile plains."
+    },
+    ruinedExplore: locName => `You walk through the charred remains of **${locName}**. The war has taken its toll here. Scavengers pick through the rubble.`,
+    scavenge: "Scavenge for supplies",
+    leaveSadPlace: "Leave this sad place",
+    explore: ({ season, locName, climateFlavor, isForest, rulerName }) =>
+      `It is ${season} in **${locName}**. ${climateFlavor} The air smells of ${isForest ? 'pine needles' : 'dust'}. ` +
+      (rulerName ? `Soldiers of **${rulerName}** patrol the streets.` : ''),
+    shrine: (locName, isWinter) =>
+      `While exploring the outskirts of **${locName}**, you find an ancient shrine. ` +
+      (isWinter ? 'It is covered in frost.' : 'Vines are growing over it.'),
+    investigateCloser: "Investigate closer",
+    ignoreAndLeave: "Ignore and leave",
+    mood: isHungry => isHungry ? 'hungry and desperate' : 'content',
+    greeting: {
+      NORTH: '"Winter is coming,"',
+      SOUTH: '"Sun guide you,"',
+      CENTRAL: '"Good day,"'
+    },
+    talk: ({ locName, mood, greeting, season }) =>
+      `An old keeper of **${locName}** looks at you. The people here seem ${mood}. ${greeting} they whisper. "Traveler, in this ${season}, supplies are scarce."`,
+    offerGold: "Offer gold (10g)",
+    askRumors: "Ask for rumors",
+    attack: ({ locName, kingdomName, strength }) =>
+      `You order your troops to siege **${locName}**! The defenders of **${kingdomName}** (Strength: ${strength}) rally at the walls.`,
+    investigate: "You step closer. The runes flare up with blinding light! You feel a surge of ancient power coursing through your veins.",
+    nothingHappens: locName => `Nothing significant happens in **${locName}**. The world moves on.`
+  },
+  ru: {
+    wilderness: "диких землях",
+    neutralLands: "ничейных земель",
+    unknownStrength: "неизвестна",
+    climateFlavor: {
+      NORTH: "Ледяной северный ветер обжигает кожу.",
+      SOUTH: "Солнце беспощадно палит золотые пески.",
+      CENTRAL: "Лёгкий ветер гуляет над плодородными равнинами."
+    },
+    ruinedExplore: locName => `Вы идёте по обугленным руинам **${locName}**. Война не пощадила это место. Мародёры роются в обломках.`,
+    scavenge: "Поискать припасы",
+    leaveSadPlace: "Покинуть это печальное место",
+    explore: ({ season, locName, climateFlavor, isForest, rulerName }) =>
+      `В **${locName}** ${season}. ${climateFlavor} В воздухе пахнет ${isForest ? 'хвоей' : 'пылью'}. ` +
+      (rulerName ? `По улицам ходят патрули **${rulerName}**.` : ''),
+    shrine: (locName, isWinter) =>
+      `Бродя по окраинам **${locName}**, вы находите древнее святилище. ` +
+      (isWinter ? 'Оно покрыто инеем.' : 'Его оплели лозы.'),
+    investigateCloser: "Рассмотреть поближе",
+    ignoreAndLeave: "Пройти мимо",
+    mood: isHungry => isHungry ? 'голодными и отчаявшимися' : 'довольными',
+    greeting: {
+      NORTH: '«Зима близко», —',
+      SOUTH: '«Да хранит вас солнце», —',
+      CENTRAL: '«Добрый день», —'
+    },
+    talk: ({ locName, mood, greeting, season }) =>
+      `Старый хранитель **${locName}** смотрит на вас. Люди здесь кажутся ${mood}. ${greeting} шепчут они. «Путник, в эту пору (${season}) припасов мало».`,
+    offerGold: "Предложить золото (10з)",
+    askRumors: "Расспросить о слухах",
+    attack: ({ locName, kingdomName, strength }) =>
+      `Вы приказываете войскам осадить **${locName}**! Защитники **${kingdomName}** (сила: ${strength}) собираются на стенах.`,
+    investigate: "Вы подходите ближе. Руны вспыхивают ослепительным светом! Древняя сила разливается по вашим венам.",
+    nothingHappens: locName => `В **${locName}** ничего примечательного не происходит. Мир живёт своей жизнью.`
+  }
+};
+
 class NarratorService {
   // В будущем здесь будет вызов API к LLM
   async generateStory(action: string, context: NarrativeContext): Promise<NarrativeResponse> {
     await delay(800); // Имитация задержки сети
 
-    const locName = context.location?.name || "the wilderness";
-    const kingdomName = context.kingdom?.name || "neutral lands";
+    const texts = MOCK_TEXTS[getLanguage()];
+    const locName = context.location?.name || texts.wilderness;
+    const kingdomName = context.kingdom?.name || texts.neutralLands;
     const biome = context.kingdom?.geography.dominantBiome || "PLAIN";
     // Climate is tied to LOCATION geography, not owner!
-    const climate = context.location?.climate || context.kingdom?.geography.climateZone || "CENTRAL";
+    const climate: ClimateZone = context.location?.climate || context.kingdom?.geography.climateZone || "CENTRAL";
     
     // Получаем динамические данные
     const season = context.worldState?.date.season || 'SUMMER';
@@ -48,73 +147,69 @@ class NarratorService {
     const isWar = context.worldState?.globalFlags.includes('WAR_MODE') || false;
     const isRuined = locationState?.condition === 'RUINED';
 
-    // --- Flavor Text Helpers ---
-    const getClimateFlavor = () => {
-        if (climate === 'NORTH') return "The freezing winds of the North bite at your skin.";
-        if (climate === 'SOUTH') return "The sun beats down relentlessly on the golden sands.";
-        return "A gentle breeze blows across the fertile plains.";
-    };
-
     // --- МОКИ ГЕНЕРАЦИИ (С учетом состояния) ---
     
     if (action === 'explore') {
       if (isRuined) {
          return {
-             text: `You walk through the charred remains of **${locName}**. The war has taken its toll here. Scavengers pick through the rubble.`,
+             text: texts.ruinedExplore(locName),
              choices: [
-                 { label: "Scavenge for supplies", action: "scavenge" },
-                 { label: "Leave this sad place", action: "leave" }
+                 { label: texts.scavenge, action: "scavenge" },
+                 { label: texts.leaveSadPlace, action: "leave" }
              ]
          };
       }
 
       const scenarios = [
-        `It is ${season} in **${locName}**. ${getClimateFlavor()} The air smells of ${biome === 'FOREST' ? 'pine needles' : 'dust'}. ` +
-        (kingdomState ? `Soldiers of **${kingdomState.ruler.name}** patrol the streets.` : ''),
+        texts.explore({
+          season,
+          locName,
+          climateFlavor: texts.climateFlavor[climate],
+          isForest: biome === 'FOREST',
+          rulerName: kingdomState?.ruler.name
+        }),
         
-        `While exploring the outskirts of **${locName}**, you find an ancient shrine. ` +
-        (season === 'WINTER' ? 'It is covered in frost.' : 'Vines are growing over it.'),
+        texts.shrine(locName, season === 'WINTER'),
       ];
 
       return {
         text: scenarios[Math.floor(Math.random() * scenarios.length)],
         choices: [
-          { label: "Investigate closer", action: "investigate" },
-          { label: "Ignore and leave", action: "leave" }
+          { label: texts.investigateCloser, action: "investigate" },
+          { label: texts.ignoreAndLeave, action: "leave" }
         ],
         effects: { gold: Math.floor(Math.random() * 10) }
       };
     }
 
     if (action === 'talk') {
-      const mood = kingdomState?.resources.food && kingdomState.resources.food < 500 ? 'hungry and desperate' : 'content';
-      const greeting = climate === 'NORTH' ? '"Winter is coming,"' : climate === 'SOUTH' ? '"Sun guide you,"' : '"Good day,"';
+      const mood = texts.mood(Boolean(kingdomState?.resources.food && kingdomState.resources.food < 500));
       
       return {
-        text: `An old keeper of **${locName}** looks at you. The people here seem ${mood}. ${greeting} they whisper. "Traveler, in this ${season}, supplies are scarce."`,
+        text: texts.talk({ locName, mood, greeting: texts.greeting[climate], season }),
         choices: [
-          { label: "Offer gold (10g)", action: "give_gold" },
-          { label: "Ask for rumors", action: "ask_rumors" }
+          { label: texts.offerGold, action: "give_gold" },
+          { label: texts.askRumors, action: "ask_rumors" }
         ]
       };
     }
 
     if (action === 'attack') {
       return {
-        text: `You order your troops to siege **${locName}**! The defenders of **${kingdomName}** (Strength: ${kingdomState?.military.strength || 'Unknown'}) rally at the walls.`,
+        text: texts.attack({ locName, kingdomName, strength: String(kingdomState?.military.strength || texts.unknownStrength) }),
         effects: { mana: -10, gold: 50, military: -20, locationDamage: 10 }
       };
     }
 
     if (action === 'investigate') {
       return {
-        text: "You step closer. The runes flare up with blinding light! You feel a surge of ancient power coursing through your veins.",
+        text: texts.investigate,
         effects: { mana: 20 }
       };
     }
 
     return {
-      text: `Nothing significant happens in **${locName}**. The world moves on.`,
+      text: texts.nothingHappens(locName),
     };
   }
 }
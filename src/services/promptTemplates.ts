@@ -0,0 +1,213 @@
+// ============ PROMPT TEMPLATES ============
+// Промпты агентов - именованные версионированные шаблоны из src/prompts.
+// Синтаксис (подмножество Mustache):
+//   {{path.to.value}}      - значение из переменных агента (контекст + производные поля)
+//   {{#path}}...{{/path}}  - блок, если значение непустое; для массива - по разу на элемент ({{.}} - элемент)
+//   {{^path}}...{{/path}}  - блок, если значение пустое
+// Строка, на которой стоит только тег секции, удаляется целиком.
+// Активная версия: setActivePromptVersion > VITE_PROMPT_VERSION_<ID> > последняя зарегистрированная.
+// Общие переменные (PromptCommonVars, напр. {{language.name}}) подставляются в bindPromptTemplate.
+
+import type {
+  BoundPromptTemplate,
+  PromptCommonVars,
+  PromptFlags,
+  PromptTemplate,
+  PromptTemplateId,
+  PromptTemplateRef,
+  PromptTemplateVars
+} from '../types/prompts';
+import { PROMPT_TEMPLATES } from '../prompts';
+import { PROMPT_LANGUAGES } from '../prompts/languages';
+import { getLanguage } from '../i18n';
+
+// ============ RENDERING ============
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'slot'; path: string }
+  | { kind: 'section'; path: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{([#^/]?)\s*([\w.]+)\s*\}\}/g;
+const STANDALONE_TAG_PATTERN = /^[ \t]*(\{\{[#^/]\s*[\w.]+\s*\}\})[ \t]*(?:\r?\n|$)/gm;
+
+const parseTemplate = (source: string, where: string): TemplateNode[] => {
+  const text = source.replace(STANDALONE_TAG_PATTERN, '$1');
+  const root: TemplateNode[] = [];
+  const stack: { path: string; children: TemplateNode[] }[] = [{ path: '', children: root }];
+  let last = 0;
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const [tag, kind, path] = match;
+    const { children } = stack[stack.length - 1];
+    if (match.index > last) {
+      children.push({ kind: 'text', text: text.slice(last, match.index) });
+    }
+    last = match.index + tag.length;
+
+    if (kind === '/') {
+      if (stack.length === 1 || stack[stack.length - 1].path !== path) {
+        throw new Error(`Unexpected {{/${path}}} in prompt ${where}`);
+      }
+      stack.pop();
+    } else if (kind) {
+      const section = { kind: 'section' as const, path, inverted: kind === '^', children: [] as TemplateNode[] };
+      children.push(section);
+      stack.push(section);
+    } else {
+      children.push({ kind: 'slot', path });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed {{#${stack[stack.length - 1].path}}} in prompt ${where}`);
+  }
+  if (last < text.length) {
+    root.push({ kind: 'text', text: text.slice(last) });
+  }
+  return root;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const MISSING = Symbol('missing');
+
+// Поиск от внутренней секции к внешней; опечатка в имени слота - ошибка, а не пустая строка
+const lookup = (scopes: unknown[], path: string): unknown => {
+  if (path === '.') return scopes[scopes.length - 1];
+  const [head, ...rest] = path.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (isObject(scope) && head in scope) {
+      return rest.reduce<unknown>((value, key) => (isObject(value) ? value[key] : undefined), scope[head]);
+    }
+  }
+  return MISSING;
+};
+
+const isEmpty = (value: unknown) => !value || (Array.isArray(value) && value.length === 0);
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value) && value.every(item => !isObject(item))) return value.join(', ');
+  if (isObject(value)) return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+const renderNodes = (nodes: TemplateNode[], scopes: unknown[], where: string): string =>
+  nodes.map(node => {
+    if (node.kind === 'text') return node.text;
+
+    const value = lookup(scopes, node.path);
+    if (value === MISSING) {
+      throw new Error(`Unknown slot {{${node.path}}} in prompt ${where}`);
+    }
+    if (node.kind === 'slot') return formatValue(value);
+
+    if (node.inverted) {
+      return isEmpty(value) ? renderNodes(node.children, scopes, where) : '';
+    }
+    if (isEmpty(value)) return '';
+    if (Array.isArray(value)) {
+      return value.map(item => renderNodes(node.children, [...scopes, item], where)).join('');
+    }
+    return renderNodes(node.children, isObject(value) ? [...scopes, value] : scopes, where);
+  }).join('');
+
+const parsedBlocks = new Map<string, TemplateNode[]>();
+
+/**
+ * Отрендерить блок шаблона (system, user или секцию промпта)
+ */
+export const renderPrompt = <Id extends PromptTemplateId>(
+  template: PromptTemplate<Id>,
+  block: string,
+  vars: PromptTemplateVars[Id] & PromptCommonVars
+): string => {
+  const where = `${template.id}@v${template.version}/${block}`;
+  const source = template.blocks[block];
+  if (source === undefined) {
+    throw new Error(`Prompt block ${where} does not exist`);
+  }
+
+  let nodes = parsedBlocks.get(where);
+  if (!nodes) {
+    nodes = parseTemplate(source, where);
+    parsedBlocks.set(where, nodes);
+  }
+  return renderNodes(nodes, [vars], where).trim();
+};
+
+// ============ REGISTRY ============
+
+const registry = new Map<PromptTemplateId, PromptTemplate[]>();
+const activeVersions: Partial<Record<PromptTemplateId, number>> = {};
+
+/**
+ * Зарегистрировать шаблон; та же версия заменяется (правка промпта без перезапуска)
+ */
+export const registerPromptTemplate = (template: PromptTemplate) => {
+  const versions = (registry.get(template.id) || []).filter(t => t.version !== template.version);
+  registry.set(template.id, [...versions, template].sort((a, b) => a.version - b.version));
+  for (const key of parsedBlocks.keys()) {
+    if (key.startsWith(`${template.id}@v${template.version}/`)) parsedBlocks.delete(key);
+  }
+};
+
+PROMPT_TEMPLATES.forEach(registerPromptTemplate);
+
+export const listPromptTemplates = (id?: PromptTemplateId): PromptTemplate[] =>
+  id ? registry.get(id) || [] : [...registry.values()].flat();
+
+const getActiveVersion = (id: PromptTemplateId): number | undefined => {
+  const fromEnv = Number(import.meta.env[`VITE_PROMPT_VERSION_${id.toUpperCase()}`]);
+  return activeVersions[id] ?? (fromEnv > 0 ? fromEnv : undefined);
+};
+
+// null - вернуться к версии по умолчанию
+export const setActivePromptVersion = (id: PromptTemplateId, version: number | null) => {
+  if (version === null) {
+    delete activeVersions[id];
+    return;
+  }
+  if (!registry.get(id)?.some(t => t.version === version)) {
+    throw new Error(`Prompt template ${id}@v${version} is not registered`);
+  }
+  activeVersions[id] = version;
+};
+
+export const getPromptTemplate = <Id extends PromptTemplateId>(
+  id: Id,
+  version: number | undefined = getActiveVersion(id)
+): PromptTemplate<Id> => {
+  const versions = registry.get(id) || [];
+  const template = version === undefined
+    ? versions[versions.length - 1]
+    : versions.find(t => t.version === version);
+  if (!template) {
+    throw new Error(`Prompt template ${id}${version === undefined ? '' : `@v${version}`} is not registered`);
+  }
+  return template as PromptTemplate<Id>;
+};
+
+const bindTemplate = <Id extends PromptTemplateId>(
+  template: PromptTemplate<Id>,
+  scope: PromptTemplateVars[Id] & PromptCommonVars
+): BoundPromptTemplate => ({
+  ref: { id: template.id, version: template.version, language: scope.language.code } as PromptTemplateRef,
+  render: (block: string) => renderPrompt(template, block, scope),
+  renderOptional: (block: string) => block in template.blocks ? renderPrompt(template, block, scope) : '',
+  withContext: context => bindTemplate(template, { ...scope, ...context })
+});
+
+/**
+ * Активный шаблон агента, привязанный к переменным вызова и текущему языку игры
+ */
+export const bindPromptTemplate = <Id extends PromptTemplateId>(id: Id, vars: PromptTemplateVars[Id]): BoundPromptTemplate =>
+  bindTemplate(getPromptTemplate(id), { ...vars, language: PROMPT_LANGUAGES[getLanguage()] });
+
+/**
+ * Флаг варианта текста: promptFlag(sceneType) -> {{#sceneKind.travel}}...{{/sceneKind.travel}}
+ */
+export const promptFlag = <K extends string>(key: K): PromptFlags<K> => ({ [key]: true }) as PromptFlags<K>;
@@ -0,0 +1,279 @@
+// ============ RESPONSE CACHE ============
+// Опциональный персистентный кэш ответов агентов: ключ = агент + модель + SHA-256 от сообщений.
+// В браузере - IndexedDB, в Node (vite-node, скрипты) - файлы в VITE_LLM_CACHE_DIR.
+// Включается через VITE_LLM_CACHE (auto | indexeddb | file | memory), по умолчанию выключен.
+
+import type { AgentRole } from '../types/agents';
+import type { ChatMessage } from '../types/llm';
+
+export interface CachedResponse {
+  content: string;
+  createdAt: number;
+  agent: AgentRole;
+  model: string;
+}
+
+export interface CacheStore {
+  kind: 'indexeddb' | 'file' | 'memory';
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Политика кэша агента: bypass - всегда идти в сеть
+export interface AgentCachePolicy {
+  bypass: boolean;
+  ttlMs: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// ============ STORES ============
+
+export const createMemoryStore = (): CacheStore => {
+  const entries = new Map<string, CachedResponse>();
+  return {
+    kind: 'memory',
+    async get(key) {
+      return entries.get(key);
+    },
+    async set(key, entry) {
+      entries.set(key, entry);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    }
+  };
+};
+
+const STORE_NAME = 'responses';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDBStore = (dbName: string = 'narrator-llm-cache'): CacheStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      dbPromise = requestToPromise(request);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    kind: 'indexeddb',
+    async get(key) {
+      return withStore<CachedResponse | undefined>('readonly', store => store.get(key));
+    },
+    async set(key, entry) {
+      await withStore('readwrite', store => store.put(entry, key));
+    },
+    async delete(key) {
+      await withStore('readwrite', store => store.delete(key));
+    },
+    async clear() {
+      await withStore('readwrite', store => store.clear());
+    }
+  };
+};
+
+// Минимальный интерфейс node:fs/promises - в браузерной сборке типов Node нет
+interface NodeFs {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string): Promise<void>;
+  mkdir(path: string, options: { recursive: boolean }): Promise<unknown>;
+  rm(path: string, options: { force: boolean; recursive?: boolean }): Promise<void>;
+}
+
+// Спецификатор в переменной, чтобы Vite не тянул node:fs в браузерный бандл
+const NODE_FS_MODULE = 'node:fs/promises';
+
+export const createFileStore = (dir: string): CacheStore => {
+  const loadFs = (): Promise<NodeFs> => import(/* @vite-ignore */ NODE_FS_MODULE);
+  const fileFor = (key: string) => `${dir}/${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`;
+
+  return {
+    kind: 'file',
+    async get(key) {
+      const fs = await loadFs();
+      try {
+        return JSON.parse(await fs.readFile(fileFor(key), 'utf8')) as CachedResponse;
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      const fs = await loadFs();
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(fileFor(key), JSON.stringify(entry));
+    },
+    async delete(key) {
+      const fs = await loadFs();
+      await fs.rm(fileFor(key), { force: true });
+    },
+    async clear() {
+      const fs = await loadFs();
+      await fs.rm(dir, { force: true, recursive: true });
+    }
+  };
+};
+
+const createStoreFromEnv = (): CacheStore | null => {
+  const mode = import.meta.env.VITE_LLM_CACHE;
+  if (!mode || mode === 'off' || mode === 'false') return null;
+
+  const fileDir = import.meta.env.VITE_LLM_CACHE_DIR || '.llm-cache';
+  switch (mode) {
+    case 'indexeddb': return createIndexedDBStore();
+    case 'file': return createFileStore(fileDir);
+    case 'memory': return createMemoryStore();
+    default:
+      // auto: IndexedDB в браузере, файлы в Node
+      return typeof indexedDB !== 'undefined' ? createIndexedDBStore() : createFileStore(fileDir);
+  }
+};
+
+let cacheStore: CacheStore | null = createStoreFromEnv();
+
+export const setCacheStore = (store: CacheStore | null) => {
+  cacheStore = store;
+};
+
+export const getCacheStore = (): CacheStore | null => cacheStore;
+
+// ============ AGENT POLICIES ============
+
+// Лор и персонажи для одного seed не меняются - держим долго; сцены и директивы - коротко
+const DEFAULT_TTL: Record<AgentRole, number> = {
+  GOLEM: 7 * DAY,
+  CHARACTER_GENERATOR: 7 * DAY,
+  NARRATOR: DAY,
+  SHOWRUNNER: HOUR,
+  DIRECTOR: HOUR,
+  CRITIC: HOUR,
+  CHRONICLER: HOUR
+};
+
+// VITE_LLM_CACHE_BYPASS=SHOWRUNNER,DIRECTOR - эти агенты всегда ходят в сеть
+const envBypass = (import.meta.env.VITE_LLM_CACHE_BYPASS || '')
+  .split(',')
+  .map((agent: string) => agent.trim())
+  .filter(Boolean);
+
+const createCachePolicy = (agent: AgentRole): AgentCachePolicy => {
+  const ttlSeconds = Number(import.meta.env[`VITE_LLM_CACHE_TTL_${agent}`]);
+  return {
+    bypass: envBypass.includes(agent),
+    ttlMs: ttlSeconds > 0 ? ttlSeconds * 1000 : DEFAULT_TTL[agent]
+  };
+};
+
+const cachePolicies: Record<AgentRole, AgentCachePolicy> = {
+  GOLEM: createCachePolicy('GOLEM'),
+  CHARACTER_GENERATOR: createCachePolicy('CHARACTER_GENERATOR'),
+  NARRATOR: createCachePolicy('NARRATOR'),
+  SHOWRUNNER: createCachePolicy('SHOWRUNNER'),
+  DIRECTOR: createCachePolicy('DIRECTOR'),
+  CRITIC: createCachePolicy('CRITIC'),
+  CHRONICLER: createCachePolicy('CHRONICLER')
+};
+
+export const getAgentCachePolicy = (agent: AgentRole): AgentCachePolicy => cachePolicies[agent];
+
+export const setAgentCachePolicy = (agent: AgentRole, updates: Partial<AgentCachePolicy>) => {
+  cachePolicies[agent] = { ...cachePolicies[agent], ...updates };
+};
+
+// ============ LOOKUP ============
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+// FNV-1a 64 бит: crypto.subtle есть только в secure context (https/localhost),
+// а по http из локальной сети кэш должен работать и без него
+const fnv1a64 = (bytes: Uint8Array): string => {
+  let hash = 0xcbf29ce484222325n;
+  for (const byte of bytes) {
+    hash = BigInt.asUintN(64, (hash ^ BigInt(byte)) * 0x100000001b3n);
+  }
+  return hash.toString(16).padStart(16, '0');
+};
+
+const hashPayload = async (payload: Uint8Array<ArrayBuffer>): Promise<string> =>
+  globalThis.crypto?.subtle
+    ? toHex(await crypto.subtle.digest('SHA-256', payload))
+    : fnv1a64(payload);
+
+/**
+ * Ключ кэша: агент + модель + SHA-256 от сообщений (и параметров сэмплинга);
+ * без crypto.subtle - FNV-1a
+ */
+export const createCacheKey = async (
+  agent: AgentRole,
+  model: string,
+  messages: ChatMessage[],
+  temperature: number
+): Promise<string> => {
+  const payload = new TextEncoder().encode(JSON.stringify({ messages, temperature }));
+  const hash = await hashPayload(payload);
+  return `${agent}:${model}:${hash}`;
+};
+
+/**
+ * Кэш включён и агент не в bypass
+ */
+export const isCacheEnabledFor = (agent: AgentRole): boolean =>
+  cacheStore !== null && !cachePolicies[agent].bypass;
+
+export const readCachedResponse = async (key: string, agent: AgentRole): Promise<string | undefined> => {
+  if (!cacheStore) return undefined;
+  try {
+    const entry = await cacheStore.get(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.createdAt > cachePolicies[agent].ttlMs) {
+      await cacheStore.delete(key);
+      return undefined;
+    }
+    return entry.content;
+  } catch (error) {
+    // Кэш - оптимизация: сломанное хранилище не должно ронять генерацию
+    console.warn('LLM cache read failed:', error);
+    return undefined;
+  }
+};
+
+export const writeCachedResponse = async (key: string, entry: CachedResponse) => {
+  try {
+    await cacheStore?.set(key, entry);
+  } catch (error) {
+    console.warn('LLM cache write failed:', error);
+  }
+};
+
+export const deleteCachedResponse = async (key: string) => {
+  try {
+    await cacheStore?.delete(key);
+  } catch (error) {
+    console.warn('LLM cache delete failed:', error);
+  }
+};
+
+export const clearResponseCache = async () => {
+  await cacheStore?.clear();
+};
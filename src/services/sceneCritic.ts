@@ -0,0 +1,199 @@
+// ============ SCENE CRITIC ============
+// Проверка сцены Showrunner до показа игроку: место действия, погибшие NPC, доступность выборов, фаза истории.
+// Детерминированные правила дешёвые и идут всегда; агент CRITIC (LLM) - опционально, ловит противоречия в тексте.
+// Нарушения уходят Showrunner на одну точечную перегенерацию (callAgentJSON).
+//
+// VITE_CRITIC_MODE - off | rules | llm (по умолчанию rules)
+
+import type { WorldData } from '../types/world';
+import type {
+  Scene,
+  SceneChoice,
+  SceneEffect,
+  PlayerState,
+  StoryState,
+  DirectorDirective,
+  CriticMode,
+  CriticViolation,
+  CriticContext
+} from '../types/agents';
+import type { TravelContext, WorldScenario } from './llmService';
+import { getPOIById, getKingdomByLocationId } from '../utils/travelSystem';
+import { evaluateChoice } from './choiceRequirements';
+
+const CRITIC_MODES: CriticMode[] = ['off', 'rules', 'llm'];
+
+let criticMode: CriticMode = CRITIC_MODES.includes(import.meta.env.VITE_CRITIC_MODE as CriticMode)
+  ? import.meta.env.VITE_CRITIC_MODE as CriticMode
+  : 'rules';
+
+export const getCriticMode = (): CriticMode => criticMode;
+
+export const setCriticMode = (mode: CriticMode) => {
+  criticMode = mode;
+};
+
+// То, с чем сцена должна сходиться
+export interface SceneCriticInput {
+  scene: Scene;
+  worldData: WorldData;
+  scenario: WorldScenario;
+  currentLocation: { id?: string; name: string };
+  travel?: TravelContext;
+  playerState?: PlayerState;
+  storyState?: StoryState;
+  directive?: DirectorDirective;
+}
+
+// ============ RULES ============
+
+// Что проверяют правила - CRITIC (LLM) это не дублирует
+export const CRITIC_RULES = [
+  'locationId сцены',
+  'реплики погибших NPC',
+  'появление NPC сценария по актам',
+  'траты золота (выбор не по карману блокируется minGold)',
+  'требования выборов (хотя бы один доступен)',
+  'новые квесты в финале'
+];
+
+const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// "Лорд Рейвен" упоминает "Рейвен": все слова имени есть в строке
+const mentionsName = (text: string, name: string): boolean => {
+  const nameWords = words(name);
+  const textWords = new Set(words(text));
+  return nameWords.length > 0 && nameWords.every(word => textWords.has(word));
+};
+
+// Эффекты выбора при любом исходе проверки навыка
+const possibleEffects = (choice: SceneChoice): SceneEffect[] => [
+  ...(choice.effects || []),
+  ...(choice.check?.successEffects || []),
+  ...(choice.check?.failureEffects || [])
+];
+
+const startsNewThread = (effect: SceneEffect) =>
+  (effect.type === 'quest' && effect.quest?.action === 'add')
+  || (effect.type === 'travel' && effect.travel?.action === 'require_travel');
+
+/**
+ * Детерминированные проверки сцены. Пустой массив - противоречий не найдено.
+ */
+export const checkSceneContinuity = (input: SceneCriticInput): CriticViolation[] => {
+  const { scene, worldData, scenario, currentLocation, travel, playerState, storyState, directive } = input;
+  const violations: CriticViolation[] = [];
+  const violation = (kind: CriticViolation['kind'], message: string, choiceId?: string) =>
+    violations.push({ kind, message, choiceId, source: 'rules' });
+
+  // Место: текущая локация или концы текущего перехода (прибытие)
+  const heroLocationId = travel?.currentLocationId || currentLocation.id;
+  const allowedLocations = new Set(
+    [heroLocationId, travel?.inTransit?.fromId, travel?.inTransit?.toId].filter((id): id is string => Boolean(id))
+  );
+  if (scene.locationId && allowedLocations.size > 0 && !allowedLocations.has(scene.locationId)) {
+    const poi = getPOIById(worldData, scene.locationId);
+    violation(
+      'location',
+      `Сцена происходит в "${poi?.name || scene.locationId}", но герой в "${currentLocation.name}" - locationId должен быть "${heroLocationId}"` +
+        (travel?.inTransit ? ` или "${travel.inTransit.toId}" (прибытие в ${travel.inTransit.toName})` : '')
+    );
+  } else if (scene.locationId && scene.kingdomId !== undefined) {
+    const kingdom = getKingdomByLocationId(worldData, scene.locationId);
+    if (kingdom && kingdom.id !== scene.kingdomId) {
+      violation('location', `kingdomId ${scene.kingdomId} не совпадает с королевством локации "${scene.locationId}" - должен быть ${kingdom.id}`);
+    }
+  }
+
+  // Погибшие NPC не говорят и не меняют отношений
+  const deadNpcs = (playerState?.relationships || []).filter(r => r.status === 'dead');
+  for (const npc of deadNpcs) {
+    if (scene.dialogue?.some(line => mentionsName(line.speaker, npc.npcName))) {
+      violation('dead_npc', `${npc.npcName} мёртв, но говорит в сцене - убери его реплики или замени говорящего`);
+    }
+    for (const choice of scene.choices) {
+      const touchesDead = possibleEffects(choice).some(e =>
+        e.type === 'relationship' && (e.relationship?.npcId === npc.npcId || mentionsName(e.relationship?.npcName || '', npc.npcName))
+      );
+      if (touchesDead) {
+        violation('dead_npc', `Выбор "${choice.text}" меняет отношения с погибшим ${npc.npcName}`, choice.id);
+      }
+    }
+  }
+
+  // NPC сценария появляются не раньше своего акта
+  if (storyState) {
+    for (const npc of scenario.npcs || []) {
+      if (npc.firstAppearance > storyState.currentAct && scene.dialogue?.some(line => mentionsName(line.speaker, npc.name))) {
+        violation('npc_early', `${npc.name} появляется только в акте ${npc.firstAppearance}, сейчас акт ${storyState.currentAct}`);
+      }
+    }
+  }
+
+  // Заблокированный выбор допустим, но игроку должно остаться что выбрать
+  if (playerState && scene.choices.length > 0) {
+    const locked = scene.choices.filter(choice => !evaluateChoice(choice, playerState, travel).available);
+    if (locked.length === scene.choices.length) {
+      violation('requirements', `Все выборы герою недоступны по requirements (золото ${playerState.stats.gold}, репутация ${playerState.stats.reputation}) - добавь хотя бы один выбор без требований`);
+    }
+  }
+
+  // В эпилоге не начинают новых сюжетов
+  if (storyState?.isEpilogue || directive?.shouldEnd) {
+    for (const choice of scene.choices) {
+      if (possibleEffects(choice).some(startsNewThread)) {
+        violation('story', `История завершается, а выбор "${choice.text}" начинает новый квест или путешествие`, choice.id);
+      }
+    }
+  }
+
+  return violations;
+};
+
+// ============ LLM CONTEXT ============
+
+const describeEffect = (effect: SceneEffect): string => {
+  switch (effect.type) {
+    case 'stat': return `${effect.stat?.attribute} ${effect.stat && effect.stat.change > 0 ? '+' : ''}${effect.stat?.change}`;
+    case 'item': return `${effect.item?.action === 'remove' ? '-' : '+'}${effect.item?.itemName}`;
+    case 'relationship': return `${effect.relationship?.npcName}: ${effect.relationship?.change}${effect.relationship?.newStatus ? ` (${effect.relationship.newStatus})` : ''}`;
+    case 'flag': return `флаг ${effect.flag?.flagId}`;
+    case 'travel': return `${effect.travel?.action} ${effect.travel?.targetLocationName || effect.travel?.targetLocationId}`;
+    case 'quest': return `квест ${effect.quest?.action}: ${effect.quest?.title || effect.quest?.questId}`;
+    case 'injury': return `${effect.injury?.action === 'treat' ? 'лечение' : 'ранение'}: ${effect.injury?.name}${effect.injury?.severity ? ` (${effect.injury.severity})` : ''}`;
+    default: return effect.type;
+  }
+};
+
+/**
+ * Контекст для агента CRITIC: сцена и факты о мире, которые она не должна нарушать
+ */
+export const buildCriticContext = (input: SceneCriticInput): CriticContext => {
+  const { scene, scenario, currentLocation, playerState, storyState, directive } = input;
+  const relationships = playerState?.relationships || [];
+  const deadNames = relationships.filter(r => r.status === 'dead').map(r => r.npcName);
+  const knownNames = [...(scenario.npcs || []).map(npc => npc.name), ...relationships.map(r => r.npcName)];
+
+  return {
+    scene: {
+      location: scene.location,
+      locationId: scene.locationId,
+      description: scene.description,
+      dialogue: (scene.dialogue || []).map(line => `${line.speaker}: ${line.text}`),
+      choices: scene.choices.map(choice => ({
+        id: choice.id,
+        text: choice.text,
+        effects: (choice.effects || []).map(describeEffect)
+      }))
+    },
+    facts: {
+      currentLocation: currentLocation.name,
+      gold: playerState?.stats.gold ?? 0,
+      inventory: playerState?.inventory.map(i => i.name) || [],
+      aliveNpcs: [...new Set(knownNames)].filter(name => !deadNames.includes(name)),
+      deadNpcs: deadNames,
+      currentAct: storyState?.currentAct,
+      isEpilogue: Boolean(storyState?.isEpilogue || directive?.shouldEnd)
+    }
+  };
+};
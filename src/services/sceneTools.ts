@@ -0,0 +1,563 @@
+// ============ SCENE TOOLS ============
+// Типизированные инструменты Showrunner вместо свободного JSON эффектов.
+// Модель вызывает move_player, give_item, start_quest...; аргументы проверяются по реальным id
+// WorldData (и NPC сценария), и только проверенный вызов превращается в SceneEffect.
+// Провайдеры с function calling получают инструменты как tools, остальные - описанием в промпте
+// (choices[].toolCalls). Ошибки - по-русски: они цитируются модели в repair-промпте.
+
+import type { WorldData } from '../types/world';
+import type { Scene, SceneEffect, SceneToolCall, SceneToolName, ValidationReport, NPCRelationship } from '../types/agents';
+import type { LLMToolDefinition, LLMToolCall } from '../types/llm';
+import type { WorldScenario } from './llmService';
+import { getPOIById } from '../utils/travelSystem';
+import { itemIdFromName } from './items';
+import { object, string, number, oneOf, union, boolean, array, unknownValue, extractJson, type Schema } from './agentSchemas';
+
+// Что нужно для проверки аргументов: мир, NPC сценария, инвентарь и ранения героя
+export interface SceneToolContext {
+  worldData: WorldData;
+  currentLocationId?: string;   // Подставляется вместо неизвестного locationId сцены
+  npcs: { id: string; name: string }[];
+  inventory: { id: string; name: string }[];
+  injuries: string[];
+  sceneNumber: number;
+}
+
+interface JsonSchemaProperty {
+  type: string | string[];
+  description: string;
+  enum?: readonly string[];
+}
+
+interface ResolvedToolCall {
+  call: SceneToolCall;
+  effect: SceneEffect;
+}
+
+interface SceneTool {
+  description: string;
+  parameters: Record<string, JsonSchemaProperty>;
+  required: string[];
+  resolve(args: unknown, path: string, report: ValidationReport, ctx: SceneToolContext): SceneEffect | undefined;
+}
+
+type Reject<A> = (field: keyof A & string, problem: string) => undefined;
+
+/**
+ * Инструмент: JSON Schema для провайдера и runtime-схема аргументов описывают одни и те же поля
+ */
+const defineTool = <A extends object>(
+  description: string,
+  parameters: { [K in keyof A]-?: JsonSchemaProperty },
+  required: (keyof A & string)[],
+  argsSchema: Schema<A>,
+  toEffect: (args: A, ctx: SceneToolContext, reject: Reject<A>) => SceneEffect | undefined
+): SceneTool => ({
+  description,
+  parameters,
+  required,
+  resolve(rawArgs, path, report, ctx) {
+    const errorsBefore = report.errors.length;
+    const args = argsSchema.parse(rawArgs, `${path}.args`, report);
+    if (!args || report.errors.length > errorsBefore) return undefined;
+    return toEffect(args, ctx, (field, problem) => {
+      report.errors.push(`${path}.args.${field}: ${problem}`);
+      return undefined;
+    });
+  }
+});
+
+const STAT_ATTRIBUTES = ['gold', 'reputation', 'influence', 'health'] as const;
+const STAT_LIMITS: Record<typeof STAT_ATTRIBUTES[number], number> = { gold: 200, reputation: 50, influence: 30, health: 100 };
+const NPC_STATUSES = ['ally', 'neutral', 'enemy', 'dead'] as const;
+const QUEST_TYPES = ['main', 'travel', 'fetch', 'talk', 'explore'] as const;
+const ITEM_VALUE_LIMIT = 500;
+const INJURY_SEVERITIES = ['light', 'serious', 'critical'] as const;
+const ITEM_TYPES = ['weapon', 'armor', 'consumable', 'key', 'document', 'treasure', 'goods'] as const;
+
+const locationIdParam: JsonSchemaProperty = { type: 'string', description: 'ID локации из списка "ВСЕ ГОРОДА МИРА"' };
+
+const unknownLocation = (locationId: string) =>
+  `локации "${locationId}" нет в мире - бери ID из списка "ВСЕ ГОРОДА МИРА"`;
+
+const preview = (values: string[]) =>
+  values.length > 10 ? `${values.slice(0, 10).join(', ')}...` : values.join(', ') || 'нет';
+
+// id из названия: "Лорд Рейвен" -> "лорд_рейвен"
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '');
+
+export const SCENE_TOOLS: Record<SceneToolName, SceneTool> = {
+  move_player: defineTool<{ locationId: string }>(
+    'Мгновенно перенести героя в другую локацию (похищение, портал, корабль)',
+    { locationId: locationIdParam },
+    ['locationId'],
+    object({ locationId: string() }),
+    ({ locationId }, ctx, reject) => {
+      const poi = getPOIById(ctx.worldData, locationId);
+      if (!poi) return reject('locationId', unknownLocation(locationId));
+      return { type: 'travel', travel: { action: 'move', targetLocationId: poi.id, targetLocationName: poi.name } };
+    }
+  ),
+
+  unlock_route: defineTool<{ locationId: string }>(
+    'Открыть герою путь в закрытую локацию',
+    { locationId: locationIdParam },
+    ['locationId'],
+    object({ locationId: string() }),
+    ({ locationId }, ctx, reject) => {
+      const poi = getPOIById(ctx.worldData, locationId);
+      if (!poi) return reject('locationId', unknownLocation(locationId));
+      return { type: 'travel', travel: { action: 'unlock_route', targetLocationId: poi.id, targetLocationName: poi.name } };
+    }
+  ),
+
+  require_travel: defineTool<{ locationId: string; reason: string; deadline?: number }>(
+    'Сюжет требует отправиться в другой город: на карте появится цель, следующая сцена - после выбора маршрута',
+    {
+      locationId: locationIdParam,
+      reason: { type: 'string', description: 'Зачем идти (станет описанием квеста)' },
+      deadline: { type: 'number', description: 'К какой сцене нужно добраться' }
+    },
+    ['locationId', 'reason'],
+    object({ locationId: string(), reason: string(), deadline: number({ optional: true }) }),
+    ({ locationId, reason, deadline }, ctx, reject) => {
+      const poi = getPOIById(ctx.worldData, locationId);
+      if (!poi) return reject('locationId', unknownLocation(locationId));
+      if (deadline !== undefined && deadline <= ctx.sceneNumber) {
+        return reject('deadline', `дедлайн должен быть после текущей сцены (${ctx.sceneNumber})`);
+      }
+      return {
+        type: 'travel',
+        travel: { action: 'require_travel', targetLocationId: poi.id, targetLocationName: poi.name, reason, deadline }
+      };
+    }
+  ),
+
+  give_item: defineTool<{
+    itemName: string;
+    itemId?: string;
+    type?: typeof ITEM_TYPES[number];
+    description?: string;
+    value?: number;
+    heal?: number;
+  }>(
+    'Герой получает предмет',
+    {
+      itemName: { type: 'string', description: 'Название предмета' },
+      itemId: { type: 'string', description: 'Стабильный id предмета (по умолчанию - из названия)' },
+      type: { type: 'string', description: 'Тип (по умолчанию - по названию)', enum: ITEM_TYPES },
+      description: { type: 'string', description: 'Что это за предмет' },
+      value: { type: 'number', description: 'Цена в золоте' },
+      heal: { type: 'number', description: 'Для consumable: сколько здоровья восстанавливает' }
+    },
+    ['itemName'],
+    object({
+      itemName: string(),
+      itemId: string({ optional: true }),
+      type: oneOf(ITEM_TYPES, { optional: true }),
+      description: string({ optional: true }),
+      value: number({ optional: true }),
+      heal: number({ optional: true })
+    }),
+    ({ itemName, itemId, type, description, value, heal }, _ctx, reject) => {
+      if (!itemName.trim()) return reject('itemName', 'пустое название предмета');
+      if (value !== undefined && (value < 0 || value > ITEM_VALUE_LIMIT)) {
+        return reject('value', `цена должна быть от 0 до ${ITEM_VALUE_LIMIT}`);
+      }
+      if (heal !== undefined && (heal <= 0 || heal > STAT_LIMITS.health)) {
+        return reject('heal', `лечение должно быть от 1 до ${STAT_LIMITS.health}`);
+      }
+      return {
+        type: 'item',
+        item: { action: 'add', itemId: itemId?.trim() || itemIdFromName(itemName), itemName, itemType: type, description, value, heal }
+      };
+    }
+  ),
+
+  take_item: defineTool<{ itemId: string }>(
+    'Герой теряет или отдаёт предмет из инвентаря',
+    { itemId: { type: 'string', description: 'ID предмета из инвентаря героя ([id] в списке "Инвентарь")' } },
+    ['itemId'],
+    object({ itemId: string() }),
+    ({ itemId }, ctx, reject) => {
+      const owned = ctx.inventory.find(item => item.id === itemId.trim());
+      if (!owned) return reject('itemId', `предмета "${itemId}" нет в инвентаре (есть: ${preview(ctx.inventory.map(i => i.id))})`);
+      return { type: 'item', item: { action: 'remove', itemId: owned.id, itemName: owned.name } };
+    }
+  ),
+
+  change_stat: defineTool<{ attribute: typeof STAT_ATTRIBUTES[number]; change: number }>(
+    'Изменить характеристику героя',
+    {
+      attribute: { type: 'string', description: 'Характеристика', enum: STAT_ATTRIBUTES },
+      change: { type: 'number', description: 'На сколько изменить (+/-)' }
+    },
+    ['attribute', 'change'],
+    object({ attribute: oneOf(STAT_ATTRIBUTES), change: number() }),
+    ({ attribute, change }, _ctx, reject) => {
+      if (Math.abs(change) > STAT_LIMITS[attribute]) {
+        return reject('change', `изменение ${attribute} должно быть в пределах ±${STAT_LIMITS[attribute]}`);
+      }
+      return { type: 'stat', stat: { target: 'player', attribute, change } };
+    }
+  ),
+
+  change_relationship: defineTool<{ npcId: string; change: number; newStatus?: typeof NPC_STATUSES[number] }>(
+    'Изменить отношение NPC к герою',
+    {
+      npcId: { type: 'string', description: 'ID NPC из списка "NPC ИСТОРИИ"' },
+      change: { type: 'number', description: 'От -100 до +100' },
+      newStatus: { type: 'string', description: 'Новый статус отношений', enum: NPC_STATUSES }
+    },
+    ['npcId', 'change'],
+    object({ npcId: string(), change: number(), newStatus: oneOf(NPC_STATUSES, { optional: true }) }),
+    ({ npcId, change, newStatus }, ctx, reject) => {
+      const npc = ctx.npcs.find(n => n.id === npcId);
+      if (!npc) return reject('npcId', `NPC "${npcId}" нет в истории (есть: ${preview(ctx.npcs.map(n => n.id))})`);
+      if (Math.abs(change) > 100) return reject('change', 'изменение отношений должно быть в пределах ±100');
+      return { type: 'relationship', relationship: { npcId: npc.id, npcName: npc.name, change, newStatus } };
+    }
+  ),
+
+  set_flag: defineTool<{ flagId: string; value: boolean | string }>(
+    'Отметить сюжетное событие (флаг)',
+    {
+      flagId: { type: 'string', description: 'id события в snake_case' },
+      value: { type: ['boolean', 'string'], description: 'Значение (по умолчанию true)' }
+    },
+    ['flagId'],
+    object({ flagId: string(), value: union<boolean | string>([boolean(), string()], { default: true }) }),
+    ({ flagId, value }, _ctx, reject) => {
+      if (!flagId.trim()) return reject('flagId', 'пустой id флага');
+      return { type: 'flag', flag: { flagId, value } };
+    }
+  ),
+
+  start_quest: defineTool<{
+    title: string;
+    description: string;
+    type: typeof QUEST_TYPES[number];
+    targetLocationId?: string;
+    rewardGold?: number;
+    rewardReputation?: number;
+  }>(
+    'Выдать герою новый квест',
+    {
+      title: { type: 'string', description: 'Название квеста' },
+      description: { type: 'string', description: 'Что нужно сделать' },
+      type: { type: 'string', description: 'Тип квеста', enum: QUEST_TYPES },
+      targetLocationId: { type: 'string', description: 'Куда прийти для выполнения (ID локации), если нужно' },
+      rewardGold: { type: 'number', description: 'Награда золотом' },
+      rewardReputation: { type: 'number', description: 'Награда репутацией' }
+    },
+    ['title', 'description'],
+    object({
+      title: string(),
+      description: string({ default: '' }),
+      type: oneOf(QUEST_TYPES, { default: 'main' }),
+      targetLocationId: string({ optional: true }),
+      rewardGold: number({ optional: true }),
+      rewardReputation: number({ optional: true })
+    }),
+    ({ title, description, type, targetLocationId, rewardGold, rewardReputation }, ctx, reject) => {
+      const target = targetLocationId ? getPOIById(ctx.worldData, targetLocationId) : undefined;
+      if (targetLocationId && !target) return reject('targetLocationId', unknownLocation(targetLocationId));
+      return {
+        type: 'quest',
+        quest: {
+          action: 'add',
+          questId: `quest_${ctx.sceneNumber}_${slugify(title)}`,
+          title,
+          description,
+          type,
+          objectives: target
+            ? [{ id: `arrive_${target.id}`, description: `Прибыть в ${target.name}`, type: 'travel', target: target.id }]
+            : [],
+          rewards: { gold: rewardGold, reputation: rewardReputation }
+        }
+      };
+    }
+  ),
+
+  inflict_injury: defineTool<{ name: string; severity: typeof INJURY_SEVERITIES[number] }>(
+    'Герой ранен: штраф к проверкам, серьёзные и тяжёлые ранения кровоточат каждую сцену',
+    {
+      name: { type: 'string', description: 'Что за ранение ("Рана от засады")' },
+      severity: { type: 'string', description: 'Тяжесть: light -5, serious -15, critical -30 здоровья', enum: INJURY_SEVERITIES }
+    },
+    ['name'],
+    object({ name: string(), severity: oneOf(INJURY_SEVERITIES, { default: 'light' }) }),
+    ({ name, severity }, _ctx, reject) => {
+      if (!name.trim()) return reject('name', 'пустое название ранения');
+      return { type: 'injury', injury: { action: 'inflict', name, severity } };
+    }
+  ),
+
+  treat_injury: defineTool<{ name: string }>(
+    'Ранение героя вылечено (лекарь, знахарь, магия)',
+    { name: { type: 'string', description: 'Ранение из списка "Ранения" героя' } },
+    ['name'],
+    object({ name: string() }),
+    ({ name }, ctx, reject) => {
+      const injury = ctx.injuries.find(i => i.toLowerCase() === name.trim().toLowerCase());
+      if (!injury) return reject('name', `ранения "${name}" у героя нет (есть: ${preview(ctx.injuries)})`);
+      return { type: 'injury', injury: { action: 'treat', name: injury } };
+    }
+  )
+};
+
+const SCENE_TOOL_NAMES = Object.keys(SCENE_TOOLS) as SceneToolName[];
+
+const CHECK_OUTCOMES = ['success', 'failure'] as const;
+const CHECK_TOOL_CALLS = { success: 'successToolCalls', failure: 'failureToolCalls' } as const;
+
+// ============ PROVIDER / PROMPT ============
+
+/**
+ * Инструменты для function calling: к аргументам добавлен choiceId - выбор, при котором срабатывает эффект,
+ * и outcome - для выбора с проверкой навыка эффект только при успехе или провале
+ */
+export const getSceneToolDefinitions = (): LLMToolDefinition[] =>
+  SCENE_TOOL_NAMES.map(name => ({
+    name,
+    description: SCENE_TOOLS[name].description,
+    parameters: {
+      type: 'object',
+      properties: {
+        choiceId: { type: 'string', description: 'id выбора (choices[].id), к которому относится эффект' },
+        outcome: { type: 'string', description: 'Только для выбора с check: эффект при успехе или провале', enum: CHECK_OUTCOMES },
+        ...SCENE_TOOLS[name].parameters
+      },
+      required: ['choiceId', ...SCENE_TOOLS[name].required]
+    }
+  }));
+
+/**
+ * Каталог инструментов для промпта: "give_item(itemName, itemId?) - Герой получает предмет"
+ */
+export const describeSceneTools = (): { name: string; signature: string; description: string }[] =>
+  SCENE_TOOL_NAMES.map(name => {
+    const { parameters, required, description } = SCENE_TOOLS[name];
+    const signature = Object.keys(parameters)
+      .map(key => {
+        const { enum: values } = parameters[key];
+        const label = values ? `${key}: ${values.join('|')}` : key;
+        return required.includes(key) ? label : `${label}?`;
+      })
+      .join(', ');
+    return { name, signature, description };
+  });
+
+// NPC, с которыми можно менять отношения: персонажи сценария, связи героя и уже знакомые
+export const getSceneNpcs = (
+  scenario: WorldScenario,
+  relationships: NPCRelationship[] = []
+): SceneToolContext['npcs'] => {
+  const { ally, rival, mentor, loveInterest } = scenario.connections || {};
+  const names = [
+    ...(scenario.npcs || []).map(npc => npc.name),
+    ally?.name,
+    rival?.name,
+    mentor?.name,
+    loveInterest?.name,
+    ...relationships.map(r => r.npcName)
+  ].filter((name): name is string => Boolean(name?.trim()));
+  return [...new Set(names)].map(name => ({ id: `npc_${slugify(name)}`, name }));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Вызовы function calling -> choices[].toolCalls в JSON сцены (по choiceId).
+ * Кэш, лог, валидация и replay после этого работают с одним документом.
+ */
+export const attachToolCallsToScene = (content: string, calls: LLMToolCall[]): string => {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(content));
+  } catch {
+    return content;
+  }
+  if (!isRecord(data) || !Array.isArray(data.choices)) return content;
+
+  const choices = data.choices.filter(isRecord);
+  const unassigned: SceneToolCall[] = [];
+  for (const { name, arguments: args } of calls) {
+    const { choiceId, outcome, ...rest } = args;
+    const choice = choices.find(c => c.id === choiceId);
+    const check = choice && isRecord(choice.check) ? choice.check : undefined;
+    const outcomeKey = CHECK_OUTCOMES.find(value => value === outcome);
+    if (check && outcomeKey) {
+      const key = CHECK_TOOL_CALLS[outcomeKey];
+      const existing = check[key];
+      check[key] = [...(Array.isArray(existing) ? existing : []), { tool: name, args: rest }];
+    } else if (choice) {
+      choice.toolCalls = [...(Array.isArray(choice.toolCalls) ? choice.toolCalls : []), { tool: name, args: rest }];
+    } else {
+      unassigned.push({ tool: name as SceneToolName, args });
+    }
+  }
+  if (unassigned.length > 0) {
+    data.unassignedToolCalls = unassigned;
+  }
+  return JSON.stringify(data, null, 2);
+};
+
+// ============ VALIDATION ============
+
+const rawToolCallSchema = object<{ tool: string; args: unknown }>({
+  tool: string(),
+  args: unknownValue({ default: {} })
+});
+
+const sceneToolCallSchema = (ctx: SceneToolContext): Schema<ResolvedToolCall> => ({
+  expected: 'вызов инструмента {tool, args}',
+  parse(value, path, report) {
+    const raw = rawToolCallSchema.parse(value, path, report);
+    if (!raw) return undefined;
+
+    const tool = SCENE_TOOLS[raw.tool as SceneToolName];
+    if (!tool) {
+      report.errors.push(`${path}.tool: неизвестный инструмент "${raw.tool}" (доступны: ${SCENE_TOOL_NAMES.join(', ')})`);
+      return undefined;
+    }
+    // Аргументы иногда приходят JSON-строкой
+    let args = raw.args;
+    if (typeof args === 'string') {
+      try {
+        args = JSON.parse(args);
+      } catch {
+        // Отчитается схема аргументов
+      }
+    }
+    const effect = tool.resolve(args, path, report, ctx);
+    return effect && { call: { tool: raw.tool as SceneToolName, args: args as Record<string, unknown> }, effect };
+  }
+});
+
+// Свободный effect из ответа модели -> вызов инструмента, чтобы проверить его теми же правилами.
+// Чего инструменты не выражают (location, quest с целями, stat NPC/королевства) - остаётся как есть
+const effectToToolCall = (effect: SceneEffect, ctx: SceneToolContext): SceneToolCall | undefined => {
+  const { stat, item, relationship, flag, travel, injury } = effect;
+  if (stat && stat.target === 'player') {
+    return { tool: 'change_stat', args: { attribute: stat.attribute, change: stat.change } };
+  }
+  if (item?.action === 'add') {
+    const { itemName, itemId, itemType, description, value, heal } = item;
+    return { tool: 'give_item', args: { itemName, itemId: itemId || undefined, type: itemType, description, value, heal } };
+  }
+  if (item?.action === 'remove') {
+    const owned = ctx.inventory.find(i => i.name.toLowerCase() === item.itemName.trim().toLowerCase());
+    return { tool: 'take_item', args: { itemId: item.itemId || owned?.id || itemIdFromName(item.itemName) } };
+  }
+  if (relationship) {
+    const { npcId, npcName, change, newStatus } = relationship;
+    return { tool: 'change_relationship', args: { npcId: npcId || `npc_${slugify(npcName)}`, change, newStatus } };
+  }
+  if (flag) {
+    return { tool: 'set_flag', args: { flagId: flag.flagId, value: flag.value } };
+  }
+  if (travel) {
+    const tool = travel.action === 'move' ? 'move_player' : travel.action;
+    return { tool, args: { locationId: travel.targetLocationId, reason: travel.reason, deadline: travel.deadline } };
+  }
+  if (injury) {
+    const { action, name, severity } = injury;
+    return action === 'inflict'
+      ? { tool: 'inflict_injury', args: { name, severity } }
+      : { tool: 'treat_injury', args: { name } };
+  }
+  return undefined;
+};
+
+// Эффекты выбора (или исхода проверки): из toolCalls, а если их нет - из effects модели
+const resolveEffects = (
+  toolCalls: unknown,
+  effects: SceneEffect[] | undefined,
+  paths: { toolCalls: string; effects: string },
+  report: ValidationReport,
+  ctx: SceneToolContext
+): { calls: SceneToolCall[]; effects: SceneEffect[] } => {
+  const callSchema = sceneToolCallSchema(ctx);
+  if ((Array.isArray(toolCalls) && toolCalls.length > 0) || !effects?.length) {
+    const resolved = array(callSchema, { default: [] }).parse(toolCalls, paths.toolCalls, report) || [];
+    return { calls: resolved.map(r => r.call), effects: resolved.map(r => r.effect) };
+  }
+
+  const calls: SceneToolCall[] = [];
+  const resolvedEffects: SceneEffect[] = [];
+  effects.forEach((effect, j) => {
+    const call = effectToToolCall(effect, ctx);
+    if (!call) {
+      resolvedEffects.push(effect);
+      return;
+    }
+    const resolved = callSchema.parse(call, `${paths.effects}[${j}]`, report);
+    if (resolved) {
+      calls.push(resolved.call);
+      resolvedEffects.push(resolved.effect);
+    }
+  });
+  return { calls, effects: resolvedEffects };
+};
+
+/**
+ * Схема сцены с инструментами: effects выборов строятся из проверенных toolCalls; выбор без toolCalls
+ * сохраняет effects из ответа модели, проверенные теми же инструментами. Заодно проверяются id маршрутов,
+ * а неизвестный locationId сцены заменяется текущей локацией.
+ */
+export const withSceneTools = (sceneSchema: Schema<Scene>, ctx: SceneToolContext): Schema<Scene> => ({
+  expected: sceneSchema.expected,
+  parse(value, path, report) {
+    const scene = sceneSchema.parse(value, path, report);
+    if (!scene) return scene;
+
+    // Неверный id локации сцены не стоит перегенерации: герой остаётся где был
+    if (scene.locationId && !getPOIById(ctx.worldData, scene.locationId)) {
+      console.warn(`⚠️ Scene locationId "${scene.locationId}" is unknown, using ${ctx.currentLocationId ?? 'none'}`);
+      report.defaulted.push(`${path ? `${path}.` : ''}locationId`);
+      scene.locationId = ctx.currentLocationId;
+    }
+
+    const unassigned = isRecord(value) ? value.unassignedToolCalls : undefined;
+    if (Array.isArray(unassigned) && unassigned.length > 0) {
+      report.errors.push(`Вызовы инструментов без существующего choiceId: ${unassigned.map(c => isRecord(c) ? c.tool : '?').join(', ')}`);
+    }
+
+    scene.choices = scene.choices.map((choice, i) => {
+      if (choice.travelTo && !getPOIById(ctx.worldData, choice.travelTo.locationId)) {
+        report.errors.push(`choices[${i}].travelTo.locationId: ${unknownLocation(choice.travelTo.locationId)}`);
+      }
+      const at = `choices[${i}]`;
+      const resolved = resolveEffects(choice.toolCalls, choice.effects, { toolCalls: `${at}.toolCalls`, effects: `${at}.effects` }, report, ctx);
+      if (!choice.check) {
+        return { ...choice, toolCalls: resolved.calls, effects: resolved.effects };
+      }
+      // Проверка навыка: эффекты успеха и провала проверяются так же
+      const { check } = choice;
+      const onSuccess = resolveEffects(
+        check.successToolCalls, check.successEffects,
+        { toolCalls: `${at}.check.successToolCalls`, effects: `${at}.check.successEffects` }, report, ctx
+      );
+      const onFailure = resolveEffects(
+        check.failureToolCalls, check.failureEffects,
+        { toolCalls: `${at}.check.failureToolCalls`, effects: `${at}.check.failureEffects` }, report, ctx
+      );
+      return {
+        ...choice,
+        toolCalls: resolved.calls,
+        effects: resolved.effects,
+        check: {
+          ...check,
+          successToolCalls: onSuccess.calls,
+          failureToolCalls: onFailure.calls,
+          successEffects: onSuccess.effects,
+          failureEffects: onFailure.effects
+        }
+      };
+    });
+    return scene;
+  }
+});
@@ -0,0 +1,102 @@
+// ============ SESSION RECORDER ============
+// Экспорт сессии (seed мира + логи агентов) в файл и воспроизведение записанных ответов.
+// В режиме replay callLLM не ходит в сеть - все агенты получают ответы из записи по порядку.
+
+import type { AgentRole, RecordedSession } from '../types/agents';
+import { getAgentDebugStore } from './llmService';
+import { createStubProvider, registerProvider, setProviderOverride, getProviderOverride } from './llmProviders';
+
+export const REPLAY_PROVIDER_ID = 'replay';
+
+const SESSION_VERSION = 1;
+
+/**
+ * Снимок текущего debug store как записанной сессии
+ */
+export const createSessionRecording = (worldSeed: number): RecordedSession => ({
+  version: SESSION_VERSION,
+  exportedAt: Date.now(),
+  worldSeed,
+  logs: getAgentDebugStore().logs
+});
+
+/**
+ * Скачать сессию как JSON-файл
+ */
+export const downloadSession = (session: RecordedSession) => {
+  const blob = new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `narrator-session-${session.worldSeed}-${session.exportedAt}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Разобрать файл сессии
+ */
+export const parseSession = (text: string): RecordedSession => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid session file: not JSON');
+  }
+
+  const session = data as Partial<RecordedSession>;
+  if (session.version !== SESSION_VERSION) {
+    throw new Error(`Unsupported session version: ${session.version}`);
+  }
+  if (typeof session.worldSeed !== 'number' || !Array.isArray(session.logs)) {
+    throw new Error('Invalid session file: missing worldSeed or logs');
+  }
+  return session as RecordedSession;
+};
+
+/**
+ * Провайдер, который отдаёт записанные rawResponse каждого агента по порядку
+ */
+export const createReplayProvider = (session: RecordedSession) => {
+  const queues: Partial<Record<AgentRole, RecordedSession['logs']>> = {};
+  session.logs
+    .filter(log => log.status === 'success' && log.rawResponse !== undefined)
+    .forEach(log => {
+      queues[log.agent] = [...(queues[log.agent] || []), log];
+    });
+
+  return createStubProvider(REPLAY_PROVIDER_ID, (request) => {
+    if (!request.agent) {
+      throw new Error('Replay supports only agent calls');
+    }
+
+    const recorded = queues[request.agent]?.shift();
+    if (!recorded) {
+      throw new Error(`Replay exhausted: no recorded ${request.agent} response left`);
+    }
+
+    // Расхождение промптов = игра пошла другим путём (другой выбор, другая локация)
+    const userPrompt = request.messages.find(m => m.role === 'user')?.content || '';
+    if (userPrompt !== recorded.userPrompt) {
+      console.warn(`⚠️ Replay diverged for ${request.agent} (recorded ${recorded.id})`);
+    }
+
+    return recorded.rawResponse || '';
+  });
+};
+
+/**
+ * Включить replay: все агенты переключаются на записанные ответы
+ */
+export const startReplay = (session: RecordedSession) => {
+  registerProvider(createReplayProvider(session));
+  setProviderOverride(REPLAY_PROVIDER_ID);
+};
+
+export const stopReplay = () => {
+  if (getProviderOverride() === REPLAY_PROVIDER_ID) {
+    setProviderOverride(null);
+  }
+};
+
+export const isReplayActive = (): boolean => getProviderOverride() === REPLAY_PROVIDER_ID;
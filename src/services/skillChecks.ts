@@ -0,0 +1,149 @@
+// ============ SKILL CHECKS ============
+// Проверка навыка на выборе: d20 + модификаторы (навыки героя, здоровье и ранения, предметы, отношения) против сложности.
+// Бросок детерминирован: seed мира + сцена + выбор. Перемотка к той же сцене (storyCheckpoints)
+// и тот же выбор дают тот же бросок - переиграть неудачу можно только другим решением.
+
+import type {
+  SceneChoice,
+  SceneEffect,
+  PlayerState,
+  SkillCheck,
+  SkillCheckModifier,
+  SkillCheckResult
+} from '../types/agents';
+import type { PlayableCharacter } from './llmService';
+import { getInjuryPenalty } from './health';
+import { findItem, isOverloaded } from './items';
+import { hashString, createRandom } from '../utils/seededRandom';
+
+const MIN_DIFFICULTY = 5;
+const MAX_DIFFICULTY = 25;
+
+const SKILL_BONUS = 3;
+const ITEM_BONUS = 2;
+const EQUIPPED_BONUS = 3;           // Надетый помогающий предмет (меч в поединке) полезнее, чем лежащий в сумке
+const OVERLOAD_PENALTY = -2;
+const MAX_STAT_MODIFIER = 3;
+
+// Характеристики, которые можно проверять вместо навыка: модификатор - каждые 10 пунктов
+const CHECK_STATS = ['reputation', 'influence'] as const;
+
+// ============ SEEDED ROLL ============
+
+export const rollD20 = (seed: string): number => Math.floor(createRandom(hashString(seed))() * 20) + 1;
+
+// ============ MODIFIERS ============
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Грубое сравнение навыков: "Убеждение" и "убеждения" совпадают по первым 5 буквам слова
+const STEM_LENGTH = 5;
+const stems = (text: string) =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= 3).map(word => word.slice(0, STEM_LENGTH));
+
+const matchesSkill = (heroSkill: string, checkSkill: string): boolean => {
+  const wanted = new Set(stems(checkSkill));
+  return stems(heroSkill).some(stem => wanted.has(stem));
+};
+
+/**
+ * Модификаторы броска. Нулевые не возвращаются - в UI видно только то, что повлияло
+ */
+export const getCheckModifiers = (
+  check: SkillCheck,
+  hero: Pick<PlayableCharacter, 'skills'>,
+  playerState: PlayerState
+): SkillCheckModifier[] => {
+  const modifiers: SkillCheckModifier[] = [];
+  const stat = CHECK_STATS.find(name => name === check.skill.trim().toLowerCase());
+
+  if (stat) {
+    const value = clamp(Math.floor(playerState.stats[stat] / 10), -MAX_STAT_MODIFIER, MAX_STAT_MODIFIER);
+    modifiers.push({ source: 'stat', label: stat, value });
+  } else {
+    const skill = (hero.skills || []).find(heroSkill => matchesSkill(heroSkill, check.skill));
+    if (skill) {
+      modifiers.push({ source: 'skill', label: skill, value: SKILL_BONUS });
+    }
+  }
+
+  // Раненый герой справляется хуже
+  const { health } = playerState.stats;
+  if (health < 30) {
+    modifiers.push({ source: 'health', label: String(health), value: -2 });
+  } else if (health < 60) {
+    modifiers.push({ source: 'health', label: String(health), value: -1 });
+  }
+  if (playerState.injuries.length > 0) {
+    modifiers.push({
+      source: 'injury',
+      label: playerState.injuries.map(i => i.name).join(', '),
+      value: getInjuryPenalty(playerState.injuries)
+    });
+  }
+
+  const helpful = (check.helpfulItems || [])
+    .map(itemId => findItem(playerState.inventory, itemId.trim()))
+    .filter(item => item !== undefined);
+  const item = helpful.find(i => i.equipped) || helpful[0];
+  if (item) {
+    modifiers.push({ source: 'item', label: item.name, value: item.equipped ? EQUIPPED_BONUS : ITEM_BONUS });
+  }
+  if (isOverloaded(playerState.inventory)) {
+    modifiers.push({ source: 'load', label: '', value: OVERLOAD_PENALTY });
+  }
+
+  const npcName = check.npcName?.trim().toLowerCase();
+  const relationship = npcName
+    ? playerState.relationships.find(r => r.status !== 'dead' && r.npcName.toLowerCase() === npcName)
+    : undefined;
+  if (relationship) {
+    modifiers.push({
+      source: 'relationship',
+      label: relationship.npcName,
+      value: clamp(Math.round(relationship.relation / 25), -MAX_STAT_MODIFIER, MAX_STAT_MODIFIER)
+    });
+  }
+
+  return modifiers.filter(modifier => modifier.value !== 0);
+};
+
+// ============ RESOLUTION ============
+
+/**
+ * Бросить проверку выбора. Без check - null (выбор срабатывает как раньше)
+ */
+export const resolveSkillCheck = (
+  choice: SceneChoice,
+  hero: Pick<PlayableCharacter, 'skills'>,
+  playerState: PlayerState,
+  roll: { seed: number; sceneNumber: number }
+): SkillCheckResult | null => {
+  const { check } = choice;
+  if (!check) return null;
+
+  const difficulty = clamp(Math.round(check.difficulty), MIN_DIFFICULTY, MAX_DIFFICULTY);
+  const d20 = rollD20(`${roll.seed}:${roll.sceneNumber}:${choice.id}`);
+  const modifiers = getCheckModifiers(check, hero, playerState);
+  const total = d20 + modifiers.reduce((sum, modifier) => sum + modifier.value, 0);
+  const critical = d20 === 1 || d20 === 20;
+
+  return {
+    choiceId: choice.id,
+    choiceText: choice.text,
+    sceneNumber: roll.sceneNumber,
+    skill: check.skill,
+    difficulty,
+    roll: d20,
+    modifiers,
+    total,
+    success: critical ? d20 === 20 : total >= difficulty,
+    critical
+  };
+};
+
+// Эффекты выбора с учётом исхода проверки
+export const getChoiceEffects = (choice: SceneChoice, result: SkillCheckResult | null): SceneEffect[] => [
+  ...(choice.effects || []),
+  ...(choice.check && result ? (result.success ? choice.check.successEffects : choice.check.failureEffects) : [])
+];
@@ -0,0 +1,106 @@
+// ============ STORY CHECKPOINTS ============
+// Чекпоинт после каждой сцены: полный снимок игры. Возврат к любой прошлой сцене и другой выбор
+// создают новую ветку - дерево показывает, как Director реагирует на альтернативные решения.
+
+import type { GameSnapshot, StoryCheckpoint, StoryTree, StoryBranchNode } from '../types/checkpoints';
+import type { Scene, SceneChoice } from '../types/agents';
+
+export const createStoryTree = (): StoryTree => ({ checkpoints: {}, rootIds: [], currentId: null });
+
+let checkpointCounter = 0;
+const createCheckpointId = (sceneNumber: number) => `cp-${sceneNumber}-${Date.now()}-${++checkpointCounter}`;
+
+/**
+ * Записать сцену как потомка текущей и сделать её текущей
+ */
+export const addCheckpoint = (
+  tree: StoryTree,
+  snapshot: GameSnapshot,
+  from?: { choice: Pick<SceneChoice, 'id' | 'text'>; reasoning?: string }
+): StoryTree => {
+  const parentId = from ? tree.currentId : null;
+  const checkpoint: StoryCheckpoint = {
+    id: createCheckpointId(snapshot.sceneNumber),
+    parentId,
+    choice: from ? { id: from.choice.id, text: from.choice.text } : undefined,
+    reasoning: from?.reasoning,
+    createdAt: Date.now(),
+    snapshot
+  };
+  return {
+    checkpoints: { ...tree.checkpoints, [checkpoint.id]: checkpoint },
+    rootIds: parentId ? tree.rootIds : [...tree.rootIds, checkpoint.id],
+    currentId: checkpoint.id
+  };
+};
+
+/**
+ * Заменить сцену в текущем чекпоинте (принятая альтернатива Showrunner), иначе откат вернёт отвергнутую
+ */
+export const replaceCheckpointScene = (tree: StoryTree, scene: Scene): StoryTree => {
+  const checkpoint = tree.currentId ? tree.checkpoints[tree.currentId] : undefined;
+  if (!checkpoint || checkpoint.snapshot.sceneNumber !== scene.sceneNumber) return tree;
+  return {
+    ...tree,
+    checkpoints: {
+      ...tree.checkpoints,
+      [checkpoint.id]: { ...checkpoint, snapshot: { ...checkpoint.snapshot, scene } }
+    }
+  };
+};
+
+/**
+ * Перейти к чекпоинту: следующий выбор станет новой веткой от него
+ */
+export const moveToCheckpoint = (tree: StoryTree, checkpointId: string): StoryTree => {
+  if (!tree.checkpoints[checkpointId]) {
+    throw new Error(`Unknown checkpoint: ${checkpointId}`);
+  }
+  return { ...tree, currentId: checkpointId };
+};
+
+/**
+ * Путь от первой сцены до чекпоинта
+ */
+export const getCheckpointPath = (tree: StoryTree, checkpointId: string | null): StoryCheckpoint[] => {
+  const path: StoryCheckpoint[] = [];
+  let checkpoint = checkpointId ? tree.checkpoints[checkpointId] : undefined;
+  while (checkpoint) {
+    path.unshift(checkpoint);
+    checkpoint = checkpoint.parentId ? tree.checkpoints[checkpoint.parentId] : undefined;
+  }
+  return path;
+};
+
+/**
+ * Дерево веток для браузера: дети в порядке создания, текущий путь помечен
+ */
+export const buildBranchTree = (tree: StoryTree): StoryBranchNode[] => {
+  const children = new Map<string, StoryCheckpoint[]>();
+  for (const checkpoint of Object.values(tree.checkpoints)) {
+    if (!checkpoint.parentId) continue;
+    children.set(checkpoint.parentId, [...(children.get(checkpoint.parentId) || []), checkpoint]);
+  }
+  const currentPath = new Set(getCheckpointPath(tree, tree.currentId).map(checkpoint => checkpoint.id));
+
+  const toNode = (checkpoint: StoryCheckpoint): StoryBranchNode => ({
+    checkpoint,
+    children: (children.get(checkpoint.id) || [])
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(toNode),
+    isCurrent: checkpoint.id === tree.currentId,
+    isOnCurrentPath: currentPath.has(checkpoint.id)
+  });
+
+  return tree.rootIds.map(id => tree.checkpoints[id]).filter(Boolean).map(toNode);
+};
+
+// Сколько развилок и концов веток - для заголовка браузера
+export const countBranches = (tree: StoryTree): { scenes: number; leaves: number } => {
+  const checkpoints = Object.values(tree.checkpoints);
+  const parents = new Set(checkpoints.map(checkpoint => checkpoint.parentId).filter(Boolean));
+  return {
+    scenes: checkpoints.length,
+    leaves: checkpoints.filter(checkpoint => !parents.has(checkpoint.id)).length
+  };
+};
@@ -0,0 +1,163 @@
+// ============ STORY THREADS ============
+// Трекер ружей Чехова и побочных конфликтов сценария: pending → introduced → paid_off (или dropped).
+// Статус меняют Director (threadUpdates) и упоминание линии в сцене; просроченные линии
+// уходят в DirectorDirective.mustInclude, чтобы Showrunner их ввёл или развязал.
+
+import type {
+  Scene,
+  StoryState,
+  StoryThread,
+  StoryThreadStatus,
+  StoryThreadUpdate,
+  DirectorAnalysis
+} from '../types/agents';
+import type { WorldScenario } from './llmService';
+import { findMentionedNames } from './narrativeMemory';
+
+// Побочный конфликт без актов в сценарии: завязать ко второму, разрешить к третьему
+const SIDE_CONFLICT_INTRODUCE_ACT = 2;
+const SIDE_CONFLICT_PAYOFF_ACT = 3;
+
+// В акте дедлайна линия просрочена со второй половины акта
+const OVERDUE_ACT_PROGRESS = 50;
+
+// Больше просроченных линий в одну сцену не втиснуть
+const MAX_OVERDUE_IN_DIRECTIVE = 2;
+
+const toAct = (act: number | undefined, fallback: 1 | 2 | 3): 1 | 2 | 3 =>
+  act === 1 || act === 2 || act === 3 ? act : fallback;
+
+/**
+ * Линии из сценария - все в статусе pending
+ */
+export const createStoryThreads = (scenario: WorldScenario): StoryThread[] => [
+  ...(scenario.chekhovsGuns || []).map((gun, i): StoryThread => {
+    const introduceByAct = toAct(gun.actIntroduced, 1);
+    return {
+      id: `gun-${i + 1}`,
+      kind: 'chekhovs_gun',
+      name: gun.element,
+      setup: gun.introduction,
+      payoff: gun.payoff,
+      introduceByAct,
+      payoffByAct: toAct(Math.max(gun.actPayoff, introduceByAct), 3),
+      status: 'pending'
+    };
+  }),
+  ...(scenario.sideConflicts || []).map((conflict, i): StoryThread => ({
+    id: `conflict-${i + 1}`,
+    kind: 'side_conflict',
+    name: conflict.name,
+    setup: conflict.nature,
+    payoff: conflict.resolution,
+    introduceByAct: SIDE_CONFLICT_INTRODUCE_ACT,
+    payoffByAct: SIDE_CONFLICT_PAYOFF_ACT,
+    status: 'pending'
+  }))
+];
+
+export const isThreadOpen = (thread: StoryThread) => thread.status === 'pending' || thread.status === 'introduced';
+
+// Акт, к которому линия должна сделать следующий шаг
+export const getThreadDeadline = (thread: StoryThread): 1 | 2 | 3 =>
+  thread.status === 'pending' ? thread.introduceByAct : thread.payoffByAct;
+
+/**
+ * Просрочена: акт дедлайна прошёл, или идёт его вторая половина, или уже кульминация
+ */
+export const isThreadOverdue = (thread: StoryThread, storyState: Pick<StoryState, 'currentAct' | 'actProgress' | 'isClimax'>): boolean => {
+  if (!isThreadOpen(thread)) return false;
+  const deadline = getThreadDeadline(thread);
+  return storyState.currentAct > deadline
+    || (storyState.currentAct === deadline && (storyState.actProgress >= OVERDUE_ACT_PROGRESS || storyState.isClimax));
+};
+
+/**
+ * Незакрытые линии для промптов Director и Showrunner: следующий шаг, дедлайн, просрочка
+ */
+export const getOpenThreadLines = (storyState: StoryState | null | undefined) =>
+  !storyState ? [] : (storyState.threads || []).filter(isThreadOpen).map(thread => ({
+    id: thread.id,
+    name: thread.name,
+    status: thread.status,
+    nextStep: thread.status === 'pending' ? thread.setup : thread.payoff,
+    deadlineAct: getThreadDeadline(thread),
+    overdue: isThreadOverdue(thread, storyState)
+  }));
+
+// Статус только движется вперёд: отыгранную линию не вернуть в pending
+const STATUS_ORDER: Record<StoryThreadStatus, number> = { pending: 0, introduced: 1, paid_off: 2, dropped: 2 };
+
+const advanceThread = (thread: StoryThread, status: StoryThreadStatus, sceneNumber: number): StoryThread => {
+  if (STATUS_ORDER[status] <= STATUS_ORDER[thread.status]) return thread;
+  return {
+    ...thread,
+    status,
+    introducedAtScene: thread.introducedAtScene ?? (status === 'dropped' ? undefined : sceneNumber),
+    resolvedAtScene: status === 'paid_off' || status === 'dropped' ? sceneNumber : undefined
+  };
+};
+
+/**
+ * Обновить линии по сцене: упомянутые в ней pending-линии введены, затем - решения Director
+ */
+export const updateStoryThreads = (
+  threads: StoryThread[],
+  scene: Pick<Scene, 'sceneNumber' | 'description' | 'dialogue'>,
+  playerChoice: string,
+  updates: StoryThreadUpdate[] = []
+): StoryThread[] => {
+  const sceneText = [scene.description, ...(scene.dialogue || []).map(line => line.text), playerChoice].join(' ');
+  const mentioned = new Set(findMentionedNames(sceneText, threads.map(thread => thread.name)));
+  const updateById = new Map(updates.map(update => [update.id, update.status]));
+
+  return threads.map(thread => {
+    let next = mentioned.has(thread.name) ? advanceThread(thread, 'introduced', scene.sceneNumber) : thread;
+    const status = updateById.get(thread.id);
+    if (status) next = advanceThread(next, status, scene.sceneNumber);
+    return next;
+  });
+};
+
+const describeOverdue = (thread: StoryThread): string => {
+  if (thread.kind === 'chekhovs_gun') {
+    return thread.status === 'pending'
+      ? `Ввести "${thread.name}": ${thread.setup}`
+      : `Ружьё Чехова "${thread.name}" должно выстрелить: ${thread.payoff}`;
+  }
+  return thread.status === 'pending'
+    ? `Завязать побочный конфликт "${thread.name}": ${thread.setup}`
+    : `Разрешить побочный конфликт "${thread.name}": ${thread.payoff}`;
+};
+
+/**
+ * Применить трекер к ответу Director: обновить линии в updatedStoryState,
+ * просроченные (сначала самые старые дедлайны) - в directive.mustInclude
+ */
+export const trackStoryThreads = (
+  analysis: DirectorAnalysis,
+  previous: StoryState,
+  lastScene: Pick<Scene, 'sceneNumber' | 'description' | 'dialogue'>,
+  playerChoice: string
+): DirectorAnalysis => {
+  const threads = updateStoryThreads(previous.threads || [], lastScene, playerChoice, analysis.threadUpdates);
+  const updatedStoryState = { ...analysis.updatedStoryState, threads };
+
+  // В эпилоге новых линий не начинают - только развязывают введённые
+  const overdue = threads
+    .filter(thread => isThreadOverdue(thread, updatedStoryState))
+    .filter(thread => !updatedStoryState.isEpilogue || thread.status === 'introduced')
+    .sort((a, b) => getThreadDeadline(a) - getThreadDeadline(b))
+    .slice(0, MAX_OVERDUE_IN_DIRECTIVE)
+    .map(describeOverdue);
+
+  const mustInclude = analysis.directive.mustInclude || [];
+  return {
+    ...analysis,
+    updatedStoryState,
+    directive: {
+      ...analysis.directive,
+      mustInclude: [...mustInclude, ...overdue.filter(item => !mustInclude.includes(item))]
+    }
+  };
+};
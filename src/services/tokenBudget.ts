@@ -0,0 +1,134 @@
+// ============ TOKEN BUDGET ============
+// Промпт собирается из секций с приоритетами. До отправки каждая секция измеряется;
+// если промпт не влезает в бюджет агента - сначала сжимаются, затем выбрасываются
+// наименее важные секции (старые сцены, чужие королевства и т.п.).
+
+import type { AgentRole, PromptBudgetReport } from '../types/agents';
+
+export interface PromptSection {
+  id: string;
+  text: string;
+  priority: number;             // Чем меньше, тем раньше режется
+  required?: boolean;           // Никогда не сжимается и не выбрасывается
+  fallbacks?: string[];         // Сжатые варианты, от подробного к краткому
+}
+
+// Бюджеты промпта (system + user) в токенах; переопределяются VITE_LLM_PROMPT_BUDGET_<AGENT>
+const DEFAULT_BUDGETS: Partial<Record<AgentRole, number>> = {
+  SHOWRUNNER: 7000,
+  DIRECTOR: 4000
+};
+
+const FALLBACK_BUDGET = 8000;
+
+const budgetOverrides: Partial<Record<AgentRole, number>> = {};
+
+export const getPromptBudget = (agent: AgentRole): number => {
+  const fromEnv = Number(import.meta.env[`VITE_LLM_PROMPT_BUDGET_${agent}`]);
+  return budgetOverrides[agent] ?? (fromEnv > 0 ? fromEnv : DEFAULT_BUDGETS[agent] ?? FALLBACK_BUDGET);
+};
+
+export const setPromptBudget = (agent: AgentRole, tokens: number) => {
+  budgetOverrides[agent] = tokens;
+};
+
+/**
+ * Оценка числа токенов без токенизатора.
+ * Латиница ~4 символа на токен, кириллица заметно дороже (~2.5 символа на токен).
+ */
+export const estimateTokens = (text: string): number => {
+  let ascii = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4 + other / 2.5);
+};
+
+/**
+ * Обрезать текст до maxChars по границе слова
+ */
+export const truncateText = (text: string, maxChars: number): string => {
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(0, maxChars);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxChars / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+};
+
+interface SectionState {
+  section: PromptSection;
+  text: string;
+  tokens: number;
+  level: number;                // Сколько fallback'ов уже применено
+  dropped: boolean;
+}
+
+/**
+ * Уложить секции в бюджет.
+ * Проход 1: сжатие по возрастанию приоритета (по одному уровню за шаг).
+ * Проход 2: выбрасывание по возрастанию приоритета.
+ */
+export const fitPromptToBudget = (
+  systemPrompt: string,
+  sections: PromptSection[],
+  budget: number
+): { prompt: string; report: PromptBudgetReport } => {
+  const systemTokens = estimateTokens(systemPrompt);
+  const states: SectionState[] = sections
+    .filter(section => section.text.trim())
+    .map(section => ({ section, text: section.text, tokens: estimateTokens(section.text), level: 0, dropped: false }));
+
+  const total = () => systemTokens + states.reduce((sum, s) => sum + (s.dropped ? 0 : s.tokens), 0);
+  const tokensBefore = total();
+
+  const trimmable = states
+    .filter(s => !s.section.required)
+    .sort((a, b) => a.section.priority - b.section.priority);
+
+  // Проход 1: сжатие
+  let compressed = true;
+  while (total() > budget && compressed) {
+    compressed = false;
+    for (const state of trimmable) {
+      const fallback = state.section.fallbacks?.[state.level];
+      if (fallback === undefined) continue;
+      state.text = fallback;
+      state.tokens = estimateTokens(fallback);
+      state.level++;
+      compressed = true;
+      break;
+    }
+  }
+
+  // Проход 2: выбрасывание
+  for (const state of trimmable) {
+    if (total() <= budget) break;
+    state.dropped = true;
+  }
+
+  const kept = states.filter(s => !s.dropped);
+  const report: PromptBudgetReport = {
+    budget,
+    tokensBefore,
+    tokensAfter: total(),
+    sections: kept.map(s => ({ id: s.section.id, tokens: s.tokens })),
+    trimmed: states
+      .filter(s => s.dropped || s.level > 0)
+      .map(s => ({
+        id: s.section.id,
+        action: s.dropped ? 'dropped' : 'compressed',
+        tokensBefore: estimateTokens(s.section.text),
+        tokensAfter: s.dropped ? 0 : s.tokens
+      }))
+  };
+
+  if (report.tokensAfter > budget) {
+    console.warn(`⚠️ Prompt still over budget: ${report.tokensAfter}/${budget} tokens`);
+  }
+
+  return {
+    prompt: kept.map(s => s.text).join('\n\n'),
+    report
+  };
+};
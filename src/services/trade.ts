@@ -0,0 +1,278 @@
+// ============ TRADE ============
+// Рынок города: что продают - из CityLore.specialty, биома и климата; почём - от казны королевства, войны, сезона
+// и сделок самого героя. Местный товар дёшев, привозной дорог - купить пряности на юге и продать на севере
+// выгодно, особенно герою-торговцу. Запасы и цены детерминированы: seed мира + город + сезон.
+
+import type { PlayerState, AppliedEffect, InventoryItem, ItemType } from '../types/agents';
+import type { POI, ClimateZone, BiomeType } from '../types/world';
+import type { WorldState } from '../types/simulation';
+import type { Market, MarketCondition, MerchantOffer, TradeCategory, TradeGoodId, TradeLedger } from '../types/trade';
+import type { CityLore, PlayableCharacter } from './llmService';
+import { createItem, addItem, findItem, removeItem, itemIdFromName } from './items';
+import { rollD20 } from './skillChecks';
+import { getUIStrings } from '../i18n';
+
+interface TradeGood {
+  id: TradeGoodId;
+  type: ItemType;
+  category: TradeCategory;
+  value: number;              // Базовая цена
+  weight: number;
+  specialty?: RegExp;         // specialty города, где товар местный
+  biomes?: BiomeType[];       // ...или биом
+  climates?: ClimateZone[];   // Товар своего климата: в чужом ещё дороже
+  everywhere?: boolean;       // Есть у любого торговца
+}
+
+const TRADE_GOODS: TradeGood[] = [
+  { id: 'grain', type: 'goods', category: 'food', value: 6, weight: 5, specialty: /farm|village|agricult|crops|wheat|harvest|fields/i, biomes: ['PLAIN'] },
+  { id: 'salted_fish', type: 'goods', category: 'food', value: 5, weight: 2, specialty: /fish|seafood|whaling|port|harbor|coast/i, biomes: ['BEACH'] },
+  { id: 'dried_meat', type: 'goods', category: 'food', value: 8, weight: 2, specialty: /buffalo|livestock|cattle|herding|ranch|sheep|pastoral|nomads/i },
+  { id: 'furs', type: 'goods', category: 'luxury', value: 30, weight: 4, specialty: /furs|trappers|hunters/i, biomes: ['SNOW'], climates: ['NORTH'] },
+  { id: 'timber', type: 'goods', category: 'materials', value: 12, weight: 10, specialty: /lumber|logging|timber|sawmill|wood/i, biomes: ['FOREST'] },
+  { id: 'iron_ingot', type: 'goods', category: 'materials', value: 15, weight: 6, specialty: /mining|ore|iron|metals|quarry|masonry/i, biomes: ['MOUNTAIN', 'HILLS'] },
+  { id: 'forged_sword', type: 'weapon', category: 'arms', value: 35, weight: 3, specialty: /smithing|forge|military|fortress|stronghold|castle/i },
+  { id: 'chainmail', type: 'armor', category: 'arms', value: 50, weight: 8, specialty: /smithing|forge|military|fortress|stronghold/i },
+  { id: 'spices', type: 'goods', category: 'luxury', value: 40, weight: 1, specialty: /spices|exotic|oasis|desert|caravans/i, climates: ['SOUTH'] },
+  { id: 'silk', type: 'goods', category: 'luxury', value: 45, weight: 2, specialty: /bazaar|merchants|exotic|palace/i, climates: ['SOUTH'] },
+  { id: 'wine', type: 'goods', category: 'luxury', value: 18, weight: 6, specialty: /vineyard|wine|terraces/i, climates: ['SOUTH', 'CENTRAL'] },
+  { id: 'healing_herbs', type: 'consumable', category: 'medicine', value: 8, weight: 0.5, specialty: /herbs|medicine|healers|tropical/i },
+  { id: 'healing_potion', type: 'consumable', category: 'medicine', value: 20, weight: 0.5, specialty: /temple|healers|scholars|library/i },
+  { id: 'bandages', type: 'consumable', category: 'medicine', value: 3, weight: 0.3, everywhere: true }
+];
+
+// Предмет товара: item_grain - один id на любом языке игры
+const GOODS_BY_ID = new Map(TRADE_GOODS.map(good => [itemIdFromName(good.id), good]));
+
+// Цены от обстоятельств: множитель по категории товара
+const CONDITION_PRICES: Record<MarketCondition, Partial<Record<TradeCategory, number>>> = {
+  war: { arms: 1.5, food: 1.2, medicine: 1.2 },
+  siege: { food: 1.6, arms: 1.3, medicine: 1.4 },
+  damaged: { food: 1.15, materials: 1.3, medicine: 1.15 },
+  famine: { food: 1.4 },
+  rich: { luxury: 1.25, arms: 1.1 },
+  poor: { food: 0.9, materials: 0.9, arms: 0.9, luxury: 0.8, medicine: 0.9 },
+  winter: { food: 1.25, materials: 1.1, luxury: 1.1 },
+  harvest: { food: 0.8 }
+};
+
+const TYPE_CATEGORY: Partial<Record<ItemType, TradeCategory>> = {
+  weapon: 'arms',
+  armor: 'arms',
+  consumable: 'medicine',
+  treasure: 'luxury',
+  goods: 'materials'
+};
+
+const MARKET_LOCATIONS: POI['type'][] = ['capital', 'city'];
+
+const LOCAL_PRICE = 0.7;
+const IMPORT_PRICE = 1.3;
+const FOREIGN_CLIMATE_PRICE = 0.3;      // Надбавка к привозному товару чужого климата
+const SATURATION_STEP = 0.05;           // За каждую штуку, скупленную (+) или сбытую (-) героем
+const SELL_RATIO = 0.6;
+const TRADER_SELL_RATIO = 0.8;
+const TRADER_DISCOUNT = 0.9;
+const CAPITAL_IMPORT_ROLL = 8;          // Столица завозит товар, если d20 не выше
+
+const RICH_TREASURY = 1500;
+const POOR_TREASURY = 500;
+const FAMINE_FOOD = 500;
+
+// Торговый стиль или навык: "торговля", "купец", "Торговое чутьё"
+const TRADER_PATTERN = /торг|купе[цч]|trade|merchant|barter/i;
+
+export interface TradeResult {
+  newState: PlayerState;
+  appliedEffects: AppliedEffect[];
+}
+
+export interface MarketInput {
+  location: POI;
+  cityLore?: Pick<CityLore, 'specialty'>;
+  worldState: WorldState;
+  hero?: Pick<PlayableCharacter, 'playstyle' | 'skills'>;
+  seed: number;
+  trades: Record<string, TradeLedger>;
+}
+
+export const canTradeAt = (locationType: POI['type']) => MARKET_LOCATIONS.includes(locationType);
+
+export const isTrader = (hero?: Pick<PlayableCharacter, 'playstyle' | 'skills'>): boolean =>
+  Boolean(hero && [hero.playstyle, ...(hero.skills || [])].some(text => TRADER_PATTERN.test(text || '')));
+
+// Сделки на этом рынке за текущий сезон (прошлые сезоны торговец уже забыл)
+const getLedgerNet = (trades: Record<string, TradeLedger>, locationId: string, date: WorldState['date']) => {
+  const ledger = trades[locationId];
+  return ledger && ledger.season === date.season && ledger.year === date.year ? ledger.net : {};
+};
+
+const isLocalGood = (good: TradeGood, location: POI, specialty: string): boolean =>
+  Boolean(good.everywhere)
+  || Boolean(specialty && good.specialty?.test(specialty))
+  || Boolean(good.biomes?.includes(location.biome) && (!good.climates || good.climates.includes(location.climate)));
+
+/**
+ * Что двигает цены в городе: война королевства-владельца, состояние города, казна и сезон
+ */
+export const getMarketConditions = (location: POI, worldState: WorldState): MarketCondition[] => {
+  const locationState = worldState.locations[location.id];
+  const kingdomId = locationState?.kingdomId ?? location.kingdomId;
+  const kingdom = worldState.kingdoms[kingdomId];
+  const conditions: MarketCondition[] = [];
+
+  const atWar = Boolean(kingdom?.diplomacy.enemies.length) || worldState.activeConflicts.some(c =>
+    c.status !== 'RESOLVED' && (c.attackerId === kingdomId || c.defenderId === kingdomId));
+  if (atWar) conditions.push('war');
+  if (locationState?.condition === 'BESIEGED') conditions.push('siege');
+  if (locationState?.condition === 'DAMAGED' || locationState?.condition === 'RUINED') conditions.push('damaged');
+
+  if (kingdom) {
+    if (kingdom.resources.food < FAMINE_FOOD) conditions.push('famine');
+    if (kingdom.resources.gold >= RICH_TREASURY) conditions.push('rich');
+    else if (kingdom.resources.gold < POOR_TREASURY) conditions.push('poor');
+  }
+
+  if (worldState.date.season === 'WINTER') conditions.push('winter');
+  if (worldState.date.season === 'AUTUMN') conditions.push('harvest');
+  return conditions;
+};
+
+const conditionFactor = (conditions: MarketCondition[], category: TradeCategory): number =>
+  conditions.reduce((factor, condition) => factor * (CONDITION_PRICES[condition][category] ?? 1), 1);
+
+const saturationFactor = (net: number): number =>
+  Math.max(0.5, Math.min(2, 1 + net * SATURATION_STEP));
+
+// Рыночная цена товара из каталога в этом городе (до скидки/выкупа)
+const getGoodPrice = (market: Pick<Market, 'conditions' | 'localGoods' | 'climate'>, itemId: string, good: TradeGood, net: number): number => {
+  const local = market.localGoods.includes(itemId);
+  const supply = local
+    ? LOCAL_PRICE
+    : IMPORT_PRICE + (good.climates && !good.climates.includes(market.climate) ? FOREIGN_CLIMATE_PRICE : 0);
+  return good.value * supply * conditionFactor(market.conditions, good.category) * saturationFactor(net);
+};
+
+const roundPrice = (price: number) => Math.max(1, Math.round(price));
+
+/**
+ * Рынок города: товары, запасы и цены. Без рынка (крепость, руины) - null
+ */
+export const getMarket = ({ location, cityLore, worldState, hero, seed, trades }: MarketInput): Market | null => {
+  if (!canTradeAt(location.type)) return null;
+
+  const { date } = worldState;
+  const net = getLedgerNet(trades, location.id, date);
+  const specialty = cityLore?.specialty || '';
+  const conditions = getMarketConditions(location, worldState);
+  const trader = isTrader(hero);
+  const localGoods = [...GOODS_BY_ID].filter(([, good]) => isLocalGood(good, location, specialty)).map(([id]) => id);
+  const base = { conditions, localGoods, climate: location.climate };
+
+  const offers: MerchantOffer[] = [];
+  for (const [itemId, good] of GOODS_BY_ID) {
+    const d20 = rollD20(`${seed}:${location.id}:${itemId}:${date.year}:${date.season}`);
+    const local = localGoods.includes(itemId);
+    // Местное - всегда; привозное - только в столице и не всё; проданное героем торговец перепродаёт
+    const initial = local ? 3 + (d20 % 5) : location.type === 'capital' && d20 <= CAPITAL_IMPORT_ROLL ? 1 + (d20 % 2) : 0;
+    const stock = initial - (net[itemId] || 0);
+    if (stock <= 0) continue;
+
+    offers.push({
+      itemId,
+      goodId: good.id,
+      type: good.type,
+      category: good.category,
+      price: roundPrice(getGoodPrice(base, itemId, good, net[itemId] || 0) * (trader ? TRADER_DISCOUNT : 1)),
+      stock,
+      local
+    });
+  }
+
+  return {
+    locationId: location.id,
+    locationName: location.name,
+    climate: location.climate,
+    season: date.season,
+    year: date.year,
+    conditions,
+    localGoods,
+    offers: offers.sort((a, b) => Number(b.local) - Number(a.local) || a.price - b.price),
+    net,
+    sellRatio: trader ? TRADER_SELL_RATIO : SELL_RATIO,
+    isTrader: trader
+  };
+};
+
+// ============ DEALS ============
+
+// Сюжетные предметы и надетое не продаются
+export const canSellItem = (item: InventoryItem): boolean =>
+  item.value > 0 && !item.equipped && Boolean(TYPE_CATEGORY[item.type]);
+
+/**
+ * Сколько торговец заплатит за предмет: товар из каталога - по цене этого рынка, остальное - от value
+ */
+export const getSellPrice = (market: Market, item: InventoryItem): number => {
+  const net = market.net[item.id] || 0;
+  const good = GOODS_BY_ID.get(item.id);
+  const price = good
+    ? getGoodPrice(market, item.id, good, net)
+    : item.value * conditionFactor(market.conditions, TYPE_CATEGORY[item.type] || 'materials') * saturationFactor(net);
+  return roundPrice(price * market.sellRatio);
+};
+
+const recordTrade = (state: PlayerState, market: Market, itemId: string, delta: number): PlayerState => {
+  const net = { ...market.net, [itemId]: (market.net[itemId] || 0) + delta };
+  return {
+    ...state,
+    trades: { ...state.trades, [market.locationId]: { season: market.season, year: market.year, net } }
+  };
+};
+
+/**
+ * Купить штуку товара у торговца
+ */
+export const buyFromMerchant = (state: PlayerState, market: Market, itemId: string): TradeResult => {
+  const offer = market.offers.find(o => o.itemId === itemId);
+  if (!offer || offer.stock < 1) {
+    throw new Error(`Merchant in ${market.locationName} does not sell ${itemId}`);
+  }
+  if (state.stats.gold < offer.price) {
+    throw new Error(`Not enough gold for ${itemId}: need ${offer.price}, have ${state.stats.gold}`);
+  }
+
+  const strings = getUIStrings();
+  const good = GOODS_BY_ID.get(itemId)!;
+  const name = strings.trade.goods[good.id];
+  const item = createItem({ id: itemId, name, type: good.type, value: good.value, weight: good.weight });
+  const paid = { ...state, stats: { ...state.stats, gold: state.stats.gold - offer.price }, inventory: addItem(state.inventory, item) };
+  return {
+    newState: recordTrade(paid, market, itemId, 1),
+    appliedEffects: [
+      { description: strings.trade.bought(name), type: 'neutral', icon: '🛒' },
+      { description: `${strings.stats.gold}: -${offer.price}`, type: 'negative', icon: '💰' }
+    ]
+  };
+};
+
+/**
+ * Продать штуку предмета торговцу
+ */
+export const sellToMerchant = (state: PlayerState, market: Market, itemId: string): TradeResult => {
+  const item = findItem(state.inventory, itemId);
+  if (!item || !canSellItem(item)) {
+    throw new Error(`Item cannot be sold: ${itemId}`);
+  }
+
+  const strings = getUIStrings();
+  const price = getSellPrice(market, item);
+  const sold = { ...state, stats: { ...state.stats, gold: state.stats.gold + price }, inventory: removeItem(state.inventory, itemId) };
+  return {
+    newState: recordTrade(sold, market, itemId, -1),
+    appliedEffects: [
+      { description: strings.trade.sold(item.name), type: 'neutral', icon: '🤝' },
+      { description: `${strings.stats.gold}: +${price}`, type: 'positive', icon: '💰' }
+    ]
+  };
+};
@@ -0,0 +1,150 @@
+// ============ USAGE TRACKER ============
+// Учёт токенов и стоимости вызовов за сессию (время жизни вкладки).
+// Usage берётся из ответа провайдера, без него - оценка по tokenBudget.estimateTokens.
+// Лимит расходов (VITE_LLM_SPEND_CAP_USD) останавливает генерацию до его повышения.
+
+import type { UsageEntry, UsageTotals, UsageSummary } from '../types/agents';
+import type { ModelPrice, TokenUsage } from '../types/llm';
+
+// USD за 1M токенов; переопределяется через VITE_LLM_PRICES='{"model":{"inputPer1M":1,"outputPer1M":2}}'
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { inputPer1M: 0.30, outputPer1M: 2.50 },
+  'gemini-2.5-flash-lite': { inputPer1M: 0.10, outputPer1M: 0.40 },
+  'gemini-2.5-pro': { inputPer1M: 1.25, outputPer1M: 10.00 },
+  'gpt-4o': { inputPer1M: 2.50, outputPer1M: 10.00 },
+  'gpt-4o-mini': { inputPer1M: 0.15, outputPer1M: 0.60 }
+};
+
+const parseEnvPrices = (): Record<string, ModelPrice> => {
+  const raw = import.meta.env.VITE_LLM_PRICES;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Record<string, ModelPrice>;
+  } catch {
+    console.warn('VITE_LLM_PRICES is not valid JSON, using default prices');
+    return {};
+  }
+};
+
+const prices: Record<string, ModelPrice> = { ...DEFAULT_PRICES, ...parseEnvPrices() };
+
+export const getModelPrice = (model: string): ModelPrice | undefined => prices[model];
+
+export const setModelPrice = (model: string, price: ModelPrice) => {
+  prices[model] = price;
+};
+
+/**
+ * Стоимость вызова. Модели без цены (локальные) считаются бесплатными.
+ */
+export const calculateCost = (model: string, usage: TokenUsage): number => {
+  const price = prices[model];
+  if (!price) return 0;
+  return (usage.promptTokens * price.inputPer1M + usage.completionTokens * price.outputPer1M) / 1_000_000;
+};
+
+// ============ LEDGER ============
+
+const createGameId = () => `game-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+let entries: UsageEntry[] = [];
+let currentGameId = createGameId();
+
+/**
+ * Начать учёт новой игры (новый лор / clear())
+ */
+export const startUsageGame = (): string => {
+  currentGameId = createGameId();
+  return currentGameId;
+};
+
+export const getCurrentGameId = (): string => currentGameId;
+
+export const recordUsage = (entry: Omit<UsageEntry, 'gameId' | 'timestamp'>): UsageEntry => {
+  const recorded: UsageEntry = { ...entry, gameId: currentGameId, timestamp: Date.now() };
+  entries = [...entries, recorded];
+  return recorded;
+};
+
+export const getUsageEntries = (): UsageEntry[] => entries;
+
+// ============ SPENDING CAP ============
+
+const envCap = Number(import.meta.env.VITE_LLM_SPEND_CAP_USD);
+let spendingCapUsd: number | null = envCap > 0 ? envCap : null;
+
+export class SpendingCapError extends Error {
+  constructor(spentUsd: number, capUsd: number) {
+    super(`Spending cap reached: $${spentUsd.toFixed(4)} of $${capUsd.toFixed(2)}. Generation paused.`);
+    this.name = 'SpendingCapError';
+  }
+}
+
+export const getSpendingCap = (): number | null => spendingCapUsd;
+
+// null - без лимита
+export const setSpendingCap = (capUsd: number | null) => {
+  spendingCapUsd = capUsd !== null && capUsd > 0 ? capUsd : null;
+};
+
+const sessionCost = () => entries.reduce((sum, e) => sum + e.costUsd, 0);
+
+export const isSpendingPaused = (): boolean =>
+  spendingCapUsd !== null && sessionCost() >= spendingCapUsd;
+
+/**
+ * Бросает SpendingCapError, если лимит сессии исчерпан
+ */
+export const assertWithinSpendingCap = () => {
+  if (spendingCapUsd !== null && isSpendingPaused()) {
+    throw new SpendingCapError(sessionCost(), spendingCapUsd);
+  }
+};
+
+// ============ AGGREGATES ============
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  costUsd: 0,
+  estimatedCalls: 0
+});
+
+const addEntry = (totals: UsageTotals | undefined, entry: UsageEntry): UsageTotals => {
+  const base = totals || emptyTotals();
+  return {
+    calls: base.calls + 1,
+    promptTokens: base.promptTokens + entry.promptTokens,
+    completionTokens: base.completionTokens + entry.completionTokens,
+    costUsd: base.costUsd + entry.costUsd,
+    estimatedCalls: base.estimatedCalls + (entry.estimated ? 1 : 0)
+  };
+};
+
+export const summarizeUsage = (): UsageSummary => {
+  const summary: UsageSummary = {
+    session: emptyTotals(),
+    currentGameId,
+    currentGame: emptyTotals(),
+    byAgent: {},
+    byScene: {},
+    byGame: {},
+    spendingCapUsd,
+    isPaused: isSpendingPaused()
+  };
+
+  entries.forEach(entry => {
+    summary.session = addEntry(summary.session, entry);
+    summary.byGame[entry.gameId] = addEntry(summary.byGame[entry.gameId], entry);
+
+    if (entry.gameId !== currentGameId) return;
+    summary.currentGame = addEntry(summary.currentGame, entry);
+    summary.byScene[entry.sceneNumber] = addEntry(summary.byScene[entry.sceneNumber], entry);
+    if (entry.agent) {
+      summary.byAgent[entry.agent] = addEntry(summary.byAgent[entry.agent], entry);
+    }
+  });
+
+  return summary;
+};
@@ -2,6 +2,9 @@
 // Типы для взаимодействия агентов и отладки
 
 import type { PlayableCharacter } from '../services/llmService';
+import type { PromptTemplateRef } from './prompts';
+import type { LLMToolCall } from './llm';
+import type { TradeLedger } from './trade';
 
 // ============ PLAYER STATE ============
 // Динамическое состояние игрока
@@ -13,12 +16,21 @@ export interface PlayerStats {
   health: number;          // 0-100
 }
 
+export type ItemType = 'weapon' | 'armor' | 'consumable' | 'key' | 'document' | 'treasure' | 'goods';
+export type EquipSlot = 'weapon' | 'armor' | 'trinket';
+
+// Предмет героя (src/services/items). Эффекты, требования и проверки находят его по id, не по названию
 export interface InventoryItem {
-  id: string;
+  id: string;                   // Стабильный: itemId из give_item или item_<название>
   name: string;
   description?: string;
-  type: 'weapon' | 'armor' | 'consumable' | 'key' | 'document' | 'treasure';
+  type: ItemType;
   quantity: number;
+  value: number;                // Цена за штуку в золоте
+  weight: number;               // Вес за штуку
+  slot?: EquipSlot;             // Можно надеть
+  equipped?: boolean;
+  useEffects?: SceneEffect[];   // Действие "использовать"; consumable при этом тратится
 }
 
 export interface NPCRelationship {
@@ -40,10 +52,31 @@ export interface PlayerState {
   inventory: InventoryItem[];
   relationships: NPCRelationship[];
   flags: StoryFlag[];
+  injuries: Injury[];        // Активные ранения (src/services/health)
+  trades: Record<string, TradeLedger>;   // Сделки на рынках по locationId (src/services/trade)
+  restedAt?: string;         // Локация, где герой уже отдыхал за этот визит (src/services/health)
   currentLocationId?: string;
   visitedLocations: string[];
 }
 
+// ============ HEALTH & INJURIES ============
+// Ранение: штраф к проверкам навыков, серьёзные кровоточат каждую сцену, лёгкие заживают сами
+
+export type InjurySeverity = 'light' | 'serious' | 'critical';
+
+export interface Injury {
+  id: string;
+  name: string;              // "Рана от засады"
+  severity: InjurySeverity;
+  sinceScene: number;
+}
+
+// Здоровье упало до нуля: история заканчивается эпилогом поражения
+export interface HeroDeath {
+  cause: string;
+  sceneNumber: number;
+}
+
 // Создать начальное состояние игрока
 export const createInitialPlayerState = (startingGold: number = 50): PlayerState => ({
   stats: {
@@ -55,6 +88,8 @@ export const createInitialPlayerState = (startingGold: number = 50): PlayerState
   inventory: [],
   relationships: [],
   flags: [],
+  injuries: [],
+  trades: {},
   visitedLocations: []
 });
 
@@ -66,11 +101,36 @@ export interface AppliedEffect {
 }
 
 // Роли агентов в системе
-export type AgentRole = 'GOLEM' | 'CHARACTER_GENERATOR' | 'NARRATOR' | 'SHOWRUNNER' | 'DIRECTOR';
+export type AgentRole = 'GOLEM' | 'CHARACTER_GENERATOR' | 'NARRATOR' | 'SHOWRUNNER' | 'DIRECTOR' | 'CRITIC' | 'CHRONICLER';
 
 // ============ STORY DIRECTOR ============
 // Агент, управляющий сценарным движком
 
+// Сюжетные линии сценария, за которыми следит Director (storyThreads)
+export type StoryThreadKind = 'chekhovs_gun' | 'side_conflict';
+
+// pending - ещё не введена, introduced - введена и ждёт развязки, paid_off - выстрелила/разрешена, dropped - брошена
+export type StoryThreadStatus = 'pending' | 'introduced' | 'paid_off' | 'dropped';
+
+export interface StoryThread {
+  id: string;                   // gun-1, conflict-1
+  kind: StoryThreadKind;
+  name: string;                 // ChekhovsGun.element / SideConflict.name
+  setup: string;                // Как вводится (introduction / nature)
+  payoff: string;               // Как выстреливает (payoff / resolution)
+  introduceByAct: 1 | 2 | 3;
+  payoffByAct: 1 | 2 | 3;
+  status: StoryThreadStatus;
+  introducedAtScene?: number;
+  resolvedAtScene?: number;     // Когда стала paid_off или dropped
+}
+
+// Изменение статуса линии в ответе Director
+export interface StoryThreadUpdate {
+  id: string;
+  status: StoryThreadStatus;
+}
+
 // Текущее состояние истории (отслеживается Director)
 export interface StoryState {
   currentAct: 1 | 2 | 3;
@@ -86,6 +146,9 @@ export interface StoryState {
     reachedAtScene?: number;
   }[];
   
+  // Ружья Чехова и побочные конфликты
+  threads: StoryThread[];
+  
   // Текущий фокус истории
   currentFocus: string;         // На чём сейчас концентрируется история
   
@@ -151,11 +214,19 @@ export interface DirectorContext {
   playerState: {
     gold: number;
     reputation: number;
+    health: number;
+    injuries: string[];       // "Рана от засады (serious)"
     relationships: string[];
   };
   
   // Счётчик сцен
   totalScenes: number;
+  
+  // Давние факты из памяти истории (narrativeMemory), относящиеся к последней сцене
+  memories?: RecalledMemory[];
+  
+  // Бросок проверки навыка, если выбор её требовал
+  checkResult?: SkillCheckResult;
 }
 
 // Результат работы Director
@@ -166,16 +237,50 @@ export interface DirectorAnalysis {
   // Директива для Showrunner
   directive: DirectorDirective;
   
+  // Какие сюжетные линии введены, выстрелили или брошены в последней сцене
+  threadUpdates?: StoryThreadUpdate[];
+  
   // Мета-информация
   reasoning: string;            // Почему Director принял такое решение
 }
 
+// Результат проверки ответа агента по схеме
+export interface ValidationReport {
+  valid: boolean;
+  errors: string[];             // Ошибки, из-за которых ответ нельзя использовать
+  defaulted: string[];          // Поля, заполненные значениями по умолчанию
+}
+
+// Бюджет токенов промпта: замер секций контекста и что было сжато/выброшено
+export interface PromptBudgetReport {
+  budget: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  sections: {
+    id: string;
+    tokens: number;             // После сжатия
+  }[];
+  trimmed: {
+    id: string;
+    action: 'compressed' | 'dropped';
+    tokensBefore: number;
+    tokensAfter: number;
+  }[];
+}
+
+// Фрагмент стримингового ответа
+export interface StreamChunk {
+  atMs: number;                  // Миллисекунды от начала вызова
+  text: string;
+}
+
 // Лог взаимодействия с агентом
 export interface AgentCallLog {
   id: string;
   timestamp: number;
   agent: AgentRole;
   model: string;
+  provider?: string;             // LLMProvider.id, через который шёл вызов
   
   // Входные данные
   systemPrompt: string;
@@ -188,6 +293,57 @@ export interface AgentCallLog {
   rawResponse?: string;
   parsedResponse?: any;
   
+  // Стриминг: дельты ответа с временем от начала вызова
+  streamChunks?: StreamChunk[];
+  firstChunkMs?: number;         // Время до первого токена
+  
+  // Валидация ответа по схеме агента
+  validation?: ValidationReport;
+  repairOf?: string;            // id лога, ответ которого чинит этот вызов
+  reviewOf?: string;            // CRITIC: id лога сцены, которую проверял
+  playgroundOf?: string;        // id лога, промпт/контекст которого правили в playground
+  
+  // Бюджет промпта (только для агентов с секционированным контекстом)
+  budget?: PromptBudgetReport;
+  
+  // Шаблон промпта (src/prompts) - для сравнения вариантов
+  promptTemplate?: PromptTemplateRef;
+  
+  // Ответ заменён альтернативой из сравнения моделей (ModelComparison) или playground
+  adoptedFrom?: {
+    comparisonId?: string;
+    playgroundLogId?: string;
+    originalModel: string;
+    originalResponse?: string;
+  };
+  
+  // Расход: реальный usage провайдера или оценка (estimated)
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    estimated: boolean;
+  };
+  costUsd?: number;
+  gameId?: string;
+  sceneNumber?: number;         // 0 - подготовка игры (лор, персонажи, сценарий)
+  
+  // Кэш ответов
+  cacheHit?: boolean;           // Ответ взят из кэша, провайдер не вызывался
+  cacheKey?: string;
+  
+  // Повторы после 429/5xx/таймаута
+  retries?: {
+    error: string;
+    delayMs: number;
+  }[];
+  
+  // Function calling: вызовы инструментов, как их вернул провайдер (до проверки)
+  toolCalls?: LLMToolCall[];
+  
+  // Планировщик (agentScheduler)
+  priority?: AgentPriority;
+  queueWaitMs?: number;         // Сколько вызов ждал слота / rate limit
+  
   // Метаданные
   durationMs?: number;
   tokenEstimate?: number;
@@ -279,6 +435,7 @@ export interface ShowrunnerContext {
     background: string;
     ambition: string;
     playstyle: string;
+    skills: string[];
   };
   
   // Текущая локация (откуда берём контекст)
@@ -312,7 +469,9 @@ export interface ShowrunnerContext {
     gold: number;
     reputation: number;
     influence: number;
-    inventory: string[];      // Названия предметов
+    health: number;
+    injuries: string[];       // "Рана от засады (serious)"
+    inventory: string[];      // "Печать стражи [item_печать_стражи] (document)"
     relationships: string[];  // "NpcName: ally/enemy/neutral"
     flags: string[];          // Активные флаги
   };
@@ -366,13 +525,22 @@ export interface ShowrunnerContext {
   
   // Тип сцены который нужно сгенерировать
   sceneType?: 'normal' | 'travel' | 'arrival' | 'departure';
+  
+  // Давние факты из памяти истории (narrativeMemory) для текущей локации и NPC
+  memories?: RecalledMemory[];
+  
+  // Выборы прошлой сцены, которые герою всё ещё недоступны
+  lockedChoices?: LockedChoice[];
+  
+  // Исход проверки навыка в прошлом выборе - сцена должна его показать
+  checkResult?: SkillCheckResult;
 }
 
 // ============ SCENE EFFECTS ============
 // Эффекты, которые выбор игрока оказывает на мир
 
 export interface SceneEffect {
-  type: 'stat' | 'item' | 'relationship' | 'flag' | 'location' | 'travel' | 'quest';
+  type: 'stat' | 'item' | 'relationship' | 'flag' | 'location' | 'travel' | 'quest' | 'injury';
   
   // Для stat: изменение характеристик
   stat?: {
@@ -386,6 +554,10 @@ export interface SceneEffect {
     action: 'add' | 'remove';
     itemId: string;
     itemName: string;
+    itemType?: ItemType;            // Для add: без типа - по названию
+    description?: string;
+    value?: number;
+    heal?: number;                  // consumable: сколько здоровья восстанавливает при использовании
   };
   
   // Для relationship: изменение отношений с NPC
@@ -437,6 +609,32 @@ export interface SceneEffect {
       unlockLocations?: string[];
     };
   };
+  
+  // Для injury: новое ранение или лечение
+  injury?: {
+    action: 'inflict' | 'treat';
+    name: string;                   // Для treat: какое ранение (не найдено - самое тяжёлое)
+    severity?: InjurySeverity;      // Для inflict, по умолчанию light; для treat - самое тяжёлое, что лечится
+  };
+}
+
+// Вызов инструмента Showrunner (src/services/sceneTools): из проверенных вызовов строятся effects
+export type SceneToolName =
+  | 'move_player'
+  | 'unlock_route'
+  | 'require_travel'
+  | 'give_item'
+  | 'take_item'
+  | 'change_stat'
+  | 'change_relationship'
+  | 'set_flag'
+  | 'start_quest'
+  | 'inflict_injury'
+  | 'treat_injury';
+
+export interface SceneToolCall {
+  tool: SceneToolName;
+  args: Record<string, unknown>;
 }
 
 // Выбор игрока в сцене
@@ -445,7 +643,8 @@ export interface SceneChoice {
   text: string;
   tone: 'aggressive' | 'diplomatic' | 'cunning' | 'noble' | 'cautious' | 'travel';
   consequence?: string;      // Hint for player (UI)
-  effects?: SceneEffect[];   // Actual effects on game state
+  effects?: SceneEffect[];   // Actual effects on game state (built from toolCalls)
+  toolCalls?: SceneToolCall[];
   nextLocation?: string;     // If choice moves player to new location
   
   // Для travel выборов
@@ -458,13 +657,76 @@ export interface SceneChoice {
   };
   
   // Требования для этого выбора
-  requirements?: {
-    minGold?: number;
-    minReputation?: number;
-    requiredItems?: string[];
-    requiredFlags?: string[];
-    unlockedLocation?: string;   // Должна быть разблокирована локация
-  };
+  requirements?: ChoiceRequirements;
+  
+  // Проверка навыка: исход решает бросок d20 (src/services/skillChecks)
+  check?: SkillCheck;
+}
+
+export interface ChoiceRequirements {
+  minGold?: number;
+  minReputation?: number;
+  requiredItems?: string[];    // id предметов (InventoryItem.id)
+  requiredFlags?: string[];
+  unlockedLocation?: string;   // Должна быть разблокирована локация
+}
+
+// ============ SKILL CHECKS ============
+
+export interface SkillCheck {
+  skill: string;               // Навык героя (PlayableCharacter.skills) или reputation / influence
+  difficulty: number;          // Сложность: d20 + модификаторы >= difficulty (5-25)
+  npcName?: string;            // NPC, от отношения которого зависит исход
+  helpfulItems?: string[];     // id предметов, которые помогают
+  successEffects: SceneEffect[];
+  failureEffects: SceneEffect[];
+  successToolCalls?: SceneToolCall[];   // v2+: эффекты строятся из проверенных вызовов
+  failureToolCalls?: SceneToolCall[];
+}
+
+export type SkillCheckModifierSource = 'skill' | 'stat' | 'health' | 'injury' | 'item' | 'load' | 'relationship';
+
+export interface SkillCheckModifier {
+  source: SkillCheckModifierSource;
+  label: string;               // Навык, предмет или NPC
+  value: number;
+}
+
+// Бросок виден игроку и уходит Director и Showrunner - следующая сцена рассказывает честный исход
+export interface SkillCheckResult {
+  choiceId: string;
+  choiceText: string;
+  sceneNumber: number;
+  skill: string;
+  difficulty: number;
+  roll: number;                // Натуральный d20
+  modifiers: SkillCheckModifier[];
+  total: number;
+  success: boolean;
+  critical: boolean;           // Натуральные 1 и 20 решают исход сами
+}
+
+// ============ CHOICE REQUIREMENTS ============
+// Проверка выбора против состояния игрока и путешествий (src/services/choiceRequirements)
+
+export type ChoiceRequirementKind = 'gold' | 'reputation' | 'item' | 'flag' | 'location';
+
+export interface UnmetRequirement {
+  kind: ChoiceRequirementKind;
+  label: string;               // Предмет, флаг или локация; для gold/reputation - нужное число
+  required?: number;           // gold / reputation
+  current?: number;
+}
+
+export interface ChoiceAvailability {
+  available: boolean;
+  unmet: UnmetRequirement[];
+}
+
+// Недоступный выбор прошлой сцены - Showrunner не должен предлагать его снова
+export interface LockedChoice {
+  text: string;
+  reasons: string;
 }
 
 // Сцена - выход агента Showrunner
@@ -520,20 +782,280 @@ export interface Scene {
   tags?: string[];
 }
 
+// ============ NARRATIVE MEMORY ============
+// Всё, что произошло в игре, с тегами для поиска (src/services/narrativeMemory).
+// sceneHistory хранит только однострочные сводки и в промпт попадают последние - давние события теряются.
+
+export type MemoryKind = 'scene' | 'choice' | 'effect' | 'npc';
+
+export interface MemoryEntry {
+  id: string;
+  sceneNumber: number;
+  kind: MemoryKind;
+  text: string;                 // Факт одной строкой - так он и попадает в промпт
+  tags: {
+    locationId?: string;
+    location?: string;
+    npcs: string[];             // Имена упомянутых NPC
+    elements: string[];         // Элементы сценария: ружья Чехова, побочные конфликты, milestones
+  };
+  terms: string[];              // Основы слов текста для поиска по ключевым словам
+}
+
+export interface NarrativeMemory {
+  entries: MemoryEntry[];
+}
+
+// Найденный факт с оценкой релевантности
+export interface RecalledMemory {
+  sceneNumber: number;
+  kind: MemoryKind;
+  text: string;
+  score: number;
+}
+
+// ============ CRITIC ============
+// Проверка сцены на противоречия состоянию игры до показа игроку (src/services/sceneCritic)
+
+// off - без проверки, rules - только детерминированные правила, llm - правила + агент CRITIC
+export type CriticMode = 'off' | 'rules' | 'llm';
+
+export type CriticViolationKind =
+  | 'location'      // Сцена не там, где герой
+  | 'dead_npc'      // Погибший NPC говорит или с ним меняются отношения
+  | 'npc_early'     // NPC сценария появился раньше своего акта
+  | 'gold'          // Выбор тратит больше золота, чем есть
+  | 'requirements'  // Ни один выбор сцены герою недоступен
+  | 'story'         // Противоречит состоянию истории (новые сюжеты в эпилоге)
+  | 'other';
+
+export interface CriticViolation {
+  kind: CriticViolationKind;
+  message: string;            // Попадает в repair-промпт Showrunner
+  choiceId?: string;
+  source: 'rules' | 'llm';
+}
+
+export interface CriticVerdict {
+  ok: boolean;
+  violations: CriticViolation[];
+}
+
+// Контекст для CRITIC: сцена и факты, с которыми она должна сходиться
+export interface CriticContext {
+  scene: {
+    location: string;
+    locationId?: string;
+    description: string;
+    dialogue: string[];               // "Имя: реплика"
+    choices: { id: string; text: string; effects: string[] }[];
+  };
+  facts: {
+    currentLocation: string;
+    gold: number;
+    inventory: string[];
+    aliveNpcs: string[];
+    deadNpcs: string[];
+    currentAct?: number;
+    isEpilogue: boolean;
+  };
+}
+
+// ============ EPILOGUE ============
+// Финал истории: выбор концовки из WorldScenario.possibleEndings и хроника CHRONICLER (src/services/epilogue)
+
+export type EndingKind = 'triumph' | 'bittersweet' | 'tragic';
+
+// Итоги прохождения для экрана финала (считаются без LLM)
+export interface EpilogueStats {
+  scenes: number;
+  gold: number;
+  reputation: number;
+  influence: number;
+  health: number;
+  items: number;
+  allies: number;
+  enemies: number;
+  fallen: number;               // Погибшие NPC
+  locationsVisited: number;
+  questsCompleted: number;
+  milestonesReached: number;
+  milestonesTotal: number;
+  threadsPaidOff: number;       // Выстрелившие ружья и разрешённые конфликты
+  threadsTotal: number;
+}
+
+// Контекст для CHRONICLER
+export interface EpilogueContext {
+  ending: {
+    kind: EndingKind;
+    description: string;        // Текст концовки из сценария
+    endType?: DirectorDirective['endType'];
+  };
+  hero: {
+    name: string;
+    title: string;
+    ambition: string;
+  };
+  scenario: {
+    title: string;
+    centralConflict: string;
+    moralQuestion: string;
+  };
+  storySummary: string;
+  lastScene?: string;
+  death?: HeroDeath;            // Герой погиб - концовка всегда трагическая
+  npcs: { name: string; role: string; status: string }[];    // status: ally / enemy / dead / unknown
+  kingdoms: { id: number; name: string; ruler: string }[];
+  threads: { name: string; status: StoryThreadStatus }[];
+  stats: EpilogueStats;
+}
+
+// Ответ CHRONICLER: судьбы героя, NPC и королевств
+export interface EpilogueChronicle {
+  title: string;
+  hero: string;
+  npcs: { name: string; fate: string }[];
+  kingdoms: { id: number; name: string; fate: string }[];
+  closingLine: string;
+}
+
+export interface Epilogue {
+  ending: EndingKind;
+  endingText: string;
+  death?: HeroDeath;
+  chronicle: EpilogueChronicle;
+  stats: EpilogueStats;
+}
+
+// ============ MODEL COMPARISON ============
+// Повтор того же вызова агента на других моделях / температурах
+
+export interface ComparisonVariant {
+  provider: string;             // LLMProvider.id
+  model: string;
+  temperature: number;
+}
+
+export interface ComparisonResult {
+  variant: ComparisonVariant;
+  status: 'pending' | 'success' | 'error';
+  rawResponse?: string;
+  parsedResponse?: unknown;
+  validation?: ValidationReport;  // Та же схема, что у исходного вызова
+  durationMs?: number;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    estimated: boolean;
+  };
+  costUsd?: number;
+  error?: string;
+}
+
+export interface ModelComparison {
+  id: string;
+  logId: string;                // Исходный AgentCallLog
+  agent: AgentRole;
+  startedAt: number;
+  results: ComparisonResult[];
+  adoptedIndex?: number;        // Какая альтернатива принята как канонический результат
+}
+
 // ============ DEBUG STORE ============
 // Хранилище для всех логов агентов
 
+export type AgentDebugPhase = 'IDLE' | 'GENERATING_LORE' | 'GENERATING_CHARACTERS' | 'GENERATING_SCENARIO' | 'GENERATING_DIRECTIVE' | 'GENERATING_SCENE' | 'CRITIQUING_SCENE' | 'GENERATING_EPILOGUE';
+
+// Фаза, которая сейчас выполняется (их может быть несколько одновременно)
+export interface ActiveDebugPhase {
+  id: string;
+  phase: Exclude<AgentDebugPhase, 'IDLE'>;
+  startedAt: number;
+}
+
 export interface AgentDebugStore {
   logs: AgentCallLog[];
-  currentPhase: 'IDLE' | 'GENERATING_LORE' | 'GENERATING_CHARACTERS' | 'GENERATING_SCENARIO' | 'GENERATING_DIRECTIVE' | 'GENERATING_SCENE';
+  comparisons: ModelComparison[];
+  currentPhase: AgentDebugPhase;          // Последняя начатая из activePhases, IDLE если их нет
+  activePhases: ActiveDebugPhase[];
+  queue: ScheduledAgentCall[];            // Вызовы в очереди планировщика и выполняющиеся
   totalCalls: number;
   totalDurationMs: number;
 }
 
+// ============ AGENT SCHEDULER ============
+// Очередь вызовов LLM: приоритеты, лимит параллельных запросов, rate limit по провайдерам
+
+export type AgentPriority = 'high' | 'normal' | 'low';
+
+export interface ScheduledAgentCall {
+  id: string;
+  logId?: string;
+  agent?: AgentRole;
+  provider: string;
+  priority: AgentPriority;
+  status: 'queued' | 'running';
+  enqueuedAt: number;
+  startedAt?: number;
+  waitingFor?: 'concurrency' | 'rate_limit';   // Почему ещё в очереди
+}
+
+export interface SchedulerConfig {
+  maxConcurrency: number;                // Одновременных запросов на все провайдеры
+  rateLimits: Record<string, number>;    // provider id -> запросов в минуту (0 - без лимита)
+}
+
+// ============ USAGE & COST ============
+// Учёт токенов и стоимости: по агентам, сценам и играм за сессию
+
+export interface UsageEntry {
+  logId?: string;
+  timestamp: number;
+  agent?: AgentRole;
+  model: string;
+  gameId: string;
+  sceneNumber: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean;
+  costUsd: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  estimatedCalls: number;       // Вызовы без usage от провайдера
+}
+
+export interface UsageSummary {
+  session: UsageTotals;
+  currentGameId: string;
+  currentGame: UsageTotals;
+  byAgent: Partial<Record<AgentRole, UsageTotals>>;   // Текущая игра
+  byScene: Record<number, UsageTotals>;               // Текущая игра
+  byGame: Record<string, UsageTotals>;
+  spendingCapUsd: number | null;
+  isPaused: boolean;            // Лимит исчерпан - генерация остановлена
+}
+
+// Записанная сессия: seed мира + все вызовы агентов (для воспроизведения багов)
+export interface RecordedSession {
+  version: 1;
+  exportedAt: number;
+  worldSeed: number;
+  logs: AgentCallLog[];
+}
+
 // Создать пустое хранилище
 export const createEmptyDebugStore = (): AgentDebugStore => ({
   logs: [],
+  comparisons: [],
   currentPhase: 'IDLE',
+  activePhases: [],
+  queue: [],
   totalCalls: 0,
   totalDurationMs: 0
 });
@@ -0,0 +1,46 @@
+// ============ STORY CHECKPOINTS ============
+// Снимок игры после каждой сцены и дерево исследованных веток (src/services/storyCheckpoints)
+
+import type { Scene, PlayerState, StoryState, DirectorDirective, NarrativeMemory } from './agents';
+import type { TravelState, Quest } from './travel';
+import type { WorldState } from './simulation';
+
+// Всё, что нужно, чтобы вернуться в сцену и выбрать иначе
+export interface GameSnapshot {
+  scene: Scene;
+  sceneNumber: number;
+  sceneHistory: { summary: string; lastChoice?: string }[];
+  playerState: PlayerState;
+  travelState: TravelState;
+  quests: Quest[];
+  storyState: StoryState;
+  lastDirective: DirectorDirective | null;
+  narrativeMemory: NarrativeMemory;
+  worldState: WorldState;
+}
+
+export interface StoryCheckpoint {
+  id: string;
+  parentId: string | null;      // Сцена, из которой пришли (null - первая сцена)
+  choice?: {                    // Выбор в родительской сцене, который привёл сюда
+    id: string;
+    text: string;
+  };
+  reasoning?: string;           // Почему Director повёл историю так (для сценаристов)
+  createdAt: number;
+  snapshot: GameSnapshot;
+}
+
+export interface StoryTree {
+  checkpoints: Record<string, StoryCheckpoint>;
+  rootIds: string[];            // Первые сцены (перезапуск истории - новый корень)
+  currentId: string | null;     // Где игрок сейчас
+}
+
+// Узел дерева для браузера веток
+export interface StoryBranchNode {
+  checkpoint: StoryCheckpoint;
+  children: StoryBranchNode[];
+  isCurrent: boolean;
+  isOnCurrentPath: boolean;     // Предок текущей сцены
+}
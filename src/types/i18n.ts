@@ -0,0 +1,179 @@
+// ============ I18N TYPES ============
+// Язык игры и таблицы строк интерфейса (src/i18n)
+
+import type { ClimateZone } from './world';
+import type { TravelDanger } from './travel';
+import type { MarketCondition, TradeGoodId } from './trade';
+import type { EndingKind, EpilogueStats, SkillCheckModifierSource, ItemType, EquipSlot, PlayerState, InjurySeverity } from './agents';
+
+export type GameLanguage = 'ru' | 'en';
+
+export interface UIStrings {
+  status: {
+    year: string;
+    gold: string;
+    mana: string;
+    inventory: string;
+    quests: string;
+    settings: string;
+    language: string;
+  };
+
+  // Характеристики героя в строках эффектов ("Здоровье: -15")
+  stats: Record<keyof PlayerState['stats'], string>;
+
+  scene: {
+    continueStory: string;
+    untitled: string;            // Заголовок сцены без локации
+    writing: string;             // Showrunner стримит сцену
+    generating: string;
+    locked: string;              // Подсказка к недоступному выбору
+    requirements: {              // Причины блокировки (choiceRequirements)
+      gold: (required: number, current: number) => string;
+      reputation: (required: number, current: number) => string;
+      item: (name: string) => string;
+      flag: (flagId: string) => string;
+      location: (locationName: string) => string;
+    };
+    check: {                     // Проверка навыка (skillChecks)
+      hint: (skill: string, difficulty: number) => string;
+      title: (skill: string) => string;
+      versus: (difficulty: number) => string;
+      success: string;
+      failure: string;
+      criticalSuccess: string;
+      criticalFailure: string;
+      modifiers: Record<SkillCheckModifierSource, string>;
+    };
+  };
+
+  travel: {
+    title: string;
+    departFrom: (locationName: string) => string;
+    quest: (reason: string) => string;
+    questGoal: string;
+    untilScene: (sceneNumber: number) => string;
+    confirm: (locationName: string) => string;
+    cost: (gold: number) => string;
+    questTarget: string;
+    cancel: string;
+    travelling: string;
+    depart: string;
+    availableRoutes: string;
+    notEnoughGold: string;
+    lockedRoutes: string;
+    requiresQuest: string;
+    noRoutes: string;
+    hint: string;
+    stay: string;
+    days: (days: number) => string;
+    danger: Record<TravelDanger, string>;
+  };
+
+  location: {
+    emptyTitle: string;
+    emptyHint: string;
+    start: string;
+    knownFor: string;
+    ruler: string;
+    population: string;
+    defense: string;
+    defenseHigh: string;
+    defenseMedium: string;
+    biome: string;
+    climate: string;
+    enterCity: string;
+    startGameFirst: string;
+    rest: (cost: number) => string;          // Таверна: отдых за золото
+    healer: (cost: number) => string;
+    healthy: string;                         // Лекарь не нужен
+    rested: string;                          // Уже отдыхал здесь за этот визит
+    notEnoughGold: string;
+    placeholder: string;         // Подпись к картинке-заглушке
+    climateLands: Record<ClimateZone, string>;
+    fallbackDescription: (params: { isCapital: boolean; lands: string; kingdomName: string; biome: string }) => string;
+  };
+
+  // Ранения и лечение в строках эффектов (src/services/health)
+  health: {
+    severity: Record<InjurySeverity, string>;
+    injured: (severity: string, name: string) => string;
+    defaultInjury: string;       // Ранение без названия
+    treated: (name: string) => string;
+    healed: (name: string) => string;        // Лёгкое ранение зажило само
+    bleeding: (amount: number) => string;
+    hazards: {                   // Названия ранений в дороге и в схватке
+      bruises: string;
+      ambush: string;
+      combat: string;
+    };
+  };
+
+  // Стартовые milestones сценария (createInitialStoryState)
+  story: {
+    milestones: Record<string, string>;
+    openingFocus: string;
+  };
+
+  // Экран финала (EpilogueView)
+  epilogue: {
+    title: string;
+    endings: Record<EndingKind, string>;
+    hero: string;
+    npcs: string;
+    kingdoms: string;
+    statistics: string;
+    death: (cause: string, sceneNumber: number) => string;
+    stats: Record<keyof EpilogueStats, string>;
+    newGame: string;
+    newGameHint: string;
+  };
+
+  // Дерево веток истории (BranchBrowser)
+  branches: {
+    title: string;
+    summary: (scenes: number, leaves: number) => string;
+    scene: (sceneNumber: number) => string;
+    act: (act: number) => string;
+    current: string;
+    rewind: string;
+    rewindHint: string;
+    empty: string;
+  };
+
+  // Инвентарь героя (InventoryView)
+  inventory: {
+    title: string;
+    empty: string;
+    weight: (carried: number, max: number) => string;
+    overloaded: string;          // Перегруз - штраф к проверкам
+    value: (gold: number) => string;
+    use: string;
+    equip: string;
+    unequip: string;
+    equipped: string;
+    received: (name: string) => string;     // Строки эффектов: получен, потерян, использован
+    lost: (name: string) => string;
+    used: (name: string) => string;
+    types: Record<ItemType, string>;
+    slots: Record<EquipSlot, string>;
+  };
+
+  // Рынок в LocationCard (src/services/trade)
+  trade: {
+    title: string;
+    trader: string;              // Герой-торговец: скидка и лучший выкуп
+    buy: string;
+    sell: string;
+    local: string;
+    imported: string;
+    stock: (count: number) => string;
+    price: (gold: number) => string;
+    nothingToBuy: string;
+    nothingToSell: string;
+    bought: (name: string) => string;        // Строки эффектов сделки
+    sold: (name: string) => string;
+    goods: Record<TradeGoodId, string>;
+    conditions: Record<MarketCondition, string>;
+  };
+}
@@ -0,0 +1,96 @@
+// ============ LLM PROVIDER TYPES ============
+// Общий контракт для всех LLM-бэкендов (OpenAI-совместимые, локальные, in-process)
+
+import type { AgentRole } from './agents';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Запрос к провайдеру - уже без привязки к конкретному HTTP-формату
+export interface LLMRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  agent?: AgentRole;            // Какой агент делает вызов (для провайдеров, которым это важно)
+  context?: Record<string, unknown>;  // Структурированный контекст агента (тот же, что в AgentCallLog)
+  tools?: LLMToolDefinition[];  // Function calling (только провайдерам с supportsTools)
+}
+
+// Функция, которую модель может вызвать; parameters - JSON Schema аргументов
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// Реальный расход токенов, если провайдер его сообщает
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  usage?: TokenUsage;
+  toolCalls?: LLMToolCall[];
+}
+
+// Параметры вызова: onChunk включает стриминг (SSE / NDJSON), провайдер отдаёт дельты текста по мере генерации
+export interface LLMCompleteOptions {
+  onChunk?: (delta: string) => void;
+  signal?: AbortSignal;         // Отмена запроса (таймаут или новая игра)
+}
+
+// Поддерживаемые типы бэкендов
+export type LLMProviderKind =
+  | 'openai'    // Любой OpenAI-совместимый /chat/completions (MegaLLM, OpenRouter, llama-server)
+  | 'ollama'    // Локальный Ollama-style сервер (/api/chat)
+  | 'stub';     // In-process провайдер без сети
+
+export interface LLMProvider {
+  id: string;
+  kind: LLMProviderKind;
+  supportsTools?: boolean;      // Нативный function calling (tools в запросе, tool_calls в ответе)
+  complete(request: LLMRequest, options?: LLMCompleteOptions): Promise<LLMCompletion>;
+}
+
+// Конфигурация HTTP-провайдеров
+export interface HttpProviderConfig {
+  id: string;
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  supportsTools?: boolean;
+  streamUsage?: boolean;        // Просить usage в стриме (stream_options.include_usage) - принимают не все бэкенды
+}
+
+// Повторы и таймаут вызова агента
+export interface RetryPolicy {
+  maxRetries: number;           // Повторов после первой попытки (429, 5xx, таймаут, сеть)
+  baseDelayMs: number;          // Задержка перед первым повтором, дальше удваивается
+  maxDelayMs: number;
+  timeoutMs: number;            // Жёсткий таймаут одной попытки
+}
+
+// Какой провайдер и модель использует агент
+export interface AgentModelConfig {
+  provider: string;             // LLMProvider.id
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  retry?: Partial<RetryPolicy>;
+}
+
+// Цена модели в USD за 1M токенов
+export interface ModelPrice {
+  inputPer1M: number;
+  outputPer1M: number;
+}
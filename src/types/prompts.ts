@@ -0,0 +1,161 @@
+// ============ PROMPT TEMPLATE TYPES ============
+// Версионированные шаблоны промптов агентов (src/prompts) и их переменные
+
+import type { NarratorContext, ShowrunnerContext, DirectorContext, DirectorDirective, StoryState, StoryThreadStatus, CriticContext, EpilogueContext, EndingKind } from './agents';
+import type { PlayableCharacter, TravelContext } from '../services/llmService';
+import type { ClimateZone } from './world';
+import type { GameLanguage } from './i18n';
+
+// Флаги для выбора варианта текста в шаблоне: {{#sceneKind.travel}}...{{/sceneKind.travel}}
+export type PromptFlags<K extends string> = Partial<Record<K, true>>;
+
+// ============ TEMPLATE VARIABLES ============
+
+// Язык вывода - доступен во всех шаблонах как {{language.*}} (src/prompts/languages.ts)
+export interface PromptLanguage {
+  code: GameLanguage;
+  name: string;                                 // ЯЗЫК: {{language.name}}
+  prepositional: string;                        // НА {{language.prepositional}} ЯЗЫКЕ
+  outputRule: string;                           // Доп. правило для не-русского вывода ('' - нет)
+}
+
+export interface PromptCommonVars {
+  language: PromptLanguage;
+}
+
+export interface GolemPromptVars {
+  worldContext: string;                         // createWorldContext (JSON)
+  townImages: Record<ClimateZone, string[]>;    // "id: keywords" по климату
+}
+
+export interface CharactersPromptVars {
+  worldContext: Record<string, unknown>;        // Лор мира для персонажей
+  avatarsDescription: string;
+  avatarIds: {
+    power: string[];
+    shadow: string[];
+    outsider: string[];
+  };
+}
+
+export interface NarratorPromptVars extends NarratorContext {
+  heroProfile: Omit<PlayableCharacter, 'id' | 'avatarId'>;
+  worldOverview: Record<string, unknown>;
+  supportingCastProfiles: (Partial<PlayableCharacter> & { suggestedRole: string })[];
+}
+
+// Строка списка городов / маршрутов / сцен
+interface PromptKingdomCities {
+  id: number;
+  name: string;
+  capital: { id: string; name: string };
+  cities: { id: string; name: string }[];
+}
+
+// Незакрытая сюжетная линия (ружьё Чехова или побочный конфликт)
+interface PromptStoryThread {
+  id: string;
+  name: string;
+  status: StoryThreadStatus;
+  nextStep: string;                             // Завязка для pending, развязка для introduced
+  deadlineAct: number;                          // Акт, к которому нужен следующий шаг
+  overdue: boolean;
+}
+
+interface PromptSceneLine {
+  number: number;
+  summary: string;
+  lastChoice?: string;
+}
+
+export interface ShowrunnerPromptVars extends ShowrunnerContext {
+  // Ключи обязательны (пусть и undefined): слот без ключа - ошибка рендера
+  directive: DirectorDirective | undefined;
+  travelContext: TravelContext | undefined;
+  storySummary: string | undefined;
+  storySummaryShort: string | undefined;        // Сжатая сводка для бюджета
+
+  // Производные поля для выбора вариантов текста
+  pacingKind: PromptFlags<DirectorDirective['pacing']>;
+  taskKind: PromptFlags<'first' | 'climax' | 'final' | 'normal'>;
+  sceneKind: PromptFlags<NonNullable<ShowrunnerContext['sceneType']>>;
+
+  // Списки в виде, удобном шаблону
+  scenes: PromptSceneLine[];
+  recentScenes: PromptSceneLine[];
+  olderScenesCount: number;
+  olderScenesSummary: string;
+  worldKingdoms: PromptKingdomCities[];
+  relevantKingdoms: PromptKingdomCities[];
+  routes: {
+    locationId: string;
+    locationName: string;
+    distance: number;
+    cost: number;
+    danger: PromptFlags<'safe' | 'risky' | 'dangerous'>;
+  }[];
+
+  // Инструменты эффектов (v2+)
+  sceneTools: { name: string; signature: string; description: string }[];
+  npcs: { id: string; name: string }[];         // NPC, с которыми можно менять отношения
+  nativeTools: boolean;                         // Провайдер вызывает инструменты сам (function calling)
+  threads: PromptStoryThread[];                 // Незакрытые сюжетные линии (v7+)
+}
+
+type Milestone = StoryState['milestones'][number];
+
+export interface DirectorPromptVars extends DirectorContext {
+  reachedMilestones: Milestone[];
+  pendingMilestones: Milestone[];
+  upcomingMilestones: Milestone[];              // Недостигнутые в текущем и следующем акте
+  lastSceneShort: string;
+  isLongStory: boolean;                         // Пора задуматься о кульминации
+  threads: PromptStoryThread[];                 // Незакрытые ружья Чехова и побочные конфликты
+}
+
+export interface CriticPromptVars extends CriticContext {
+  rulesChecked: string[];                       // Что уже проверили правила (не дублировать)
+}
+
+export interface ChroniclerPromptVars extends EpilogueContext {
+  endingKind: PromptFlags<EndingKind>;
+}
+
+// id шаблона -> переменные, которыми он заполняется
+export interface PromptTemplateVars {
+  golem: GolemPromptVars;
+  characters: CharactersPromptVars;
+  narrator: NarratorPromptVars;
+  showrunner: ShowrunnerPromptVars;
+  director: DirectorPromptVars;
+  critic: CriticPromptVars;
+  chronicler: ChroniclerPromptVars;
+}
+
+export type PromptTemplateId = keyof PromptTemplateVars;
+
+// ============ TEMPLATES ============
+
+export interface PromptTemplate<Id extends PromptTemplateId = PromptTemplateId> {
+  id: Id;
+  version: number;
+  description: string;                          // Чем версия отличается от предыдущей
+  blocks: Record<string, string>;               // system, user или секции промпта
+}
+
+// Ссылка на шаблон - штампуется в AgentCallLog для сравнения вариантов
+export interface PromptTemplateRef {
+  id: PromptTemplateId;
+  version: number;
+  language: GameLanguage;
+}
+
+// Шаблон, привязанный к переменным вызова (bindPromptTemplate)
+export interface BoundPromptTemplate {
+  ref: PromptTemplateRef;
+  render: (block: string) => string;
+  renderOptional: (block: string) => string;   // Секция, которой нет в старых версиях: '' вместо ошибки
+  // Тот же шаблон и язык, поверх переменных - правленый контекст вызова (playground).
+  // Производные поля (списки, флаги вариантов) остаются от исходного вызова
+  withContext: (context: Record<string, unknown>) => BoundPromptTemplate;
+}
@@ -0,0 +1,68 @@
+// ============ TRADE ============
+// Рынки городов: товары по specialty/биому/климату, цены от казны, войны и сезона (src/services/trade)
+
+import type { ItemType } from './agents';
+import type { ClimateZone } from './world';
+import type { Season } from './simulation';
+
+export type TradeCategory = 'food' | 'materials' | 'arms' | 'luxury' | 'medicine';
+
+// Товары каталога торговцев; названия - в UIStrings.trade.goods
+export type TradeGoodId =
+  | 'grain'
+  | 'salted_fish'
+  | 'dried_meat'
+  | 'furs'
+  | 'timber'
+  | 'iron_ingot'
+  | 'forged_sword'
+  | 'chainmail'
+  | 'spices'
+  | 'silk'
+  | 'wine'
+  | 'healing_herbs'
+  | 'healing_potion'
+  | 'bandages';
+
+// Что сейчас двигает цены на рынке (показывается в LocationCard)
+export type MarketCondition =
+  | 'war'          // Королевство воюет: оружие и еда дороже
+  | 'siege'        // Город в осаде
+  | 'damaged'      // Город разорён
+  | 'famine'       // В казне мало еды
+  | 'rich'         // Богатая казна - покупатели платят больше
+  | 'poor'         // Пустая казна
+  | 'winter'       // Еда и меха дороже
+  | 'harvest';     // Осень: еда дешевле
+
+export interface MerchantOffer {
+  itemId: string;           // id предмета, который получит герой (items.itemIdFromName)
+  goodId: TradeGoodId;
+  type: ItemType;
+  category: TradeCategory;
+  price: number;            // Цена покупки за штуку
+  stock: number;
+  local: boolean;           // Местный товар (дёшево) или привозной
+}
+
+export interface Market {
+  locationId: string;
+  locationName: string;
+  climate: ClimateZone;
+  season: Season;
+  year: number;
+  conditions: MarketCondition[];
+  localGoods: string[];     // itemId товаров, которые здесь производят
+  offers: MerchantOffer[];
+  net: Record<string, number>;   // Сделки героя здесь в этом сезоне (TradeLedger.net)
+  sellRatio: number;        // Какую долю цены торговец платит герою
+  isTrader: boolean;        // Герой-торговец: скидка и лучший выкуп
+}
+
+// Сделки героя на рынке за сезон: скупленное дорожает, проданное дешевеет.
+// Новый сезон - торговец пополнил запасы, счёт обнуляется
+export interface TradeLedger {
+  season: Season;
+  year: number;
+  net: Record<string, number>;   // itemId -> куплено героем минус продано
+}
@@ -1,5 +1,6 @@
 import * as d3 from 'd3';
 import type { POI } from '../types/world';
+import type { GameLanguage } from '../types/i18n';
 
 // Типы районов
 export type DistrictType = 
@@ -30,8 +31,9 @@ export interface CityLayout {
   type: string;
 }
 
-// --- ГЕНЕРАТОР ИМЕН РАЙОНОВ (RUSSIAN) ---
-const DISTRICT_NAMES: Record<DistrictType, string[]> = {
+// --- ГЕНЕРАТОР ИМЕН РАЙОНОВ (по языку игры) ---
+const DISTRICT_NAMES: Record<GameLanguage, Record<DistrictType, string[]>> = {
+  ru: {
   CASTLE: ["Королевский Дворец", "Высокая Цитадель", "Драконий Пик", "Солнечный Замок", "Крепость Короны"],
   KEEP: ["Старый Донжон", "Башня Барона", "Железный Холд", "Каменный Бастион"],
   NOBLE: ["Золотой Квартал", "Серебряные Холмы", "Сады Знати", "Лазурный Район", "Венечный Холм"],
@@ -46,11 +48,28 @@ const DISTRICT_NAMES: Record<DistrictType, string[]> = {
   FIELDS: ["Южные Поля", "Зерновые Террасы", "Дальние Угодья", "Холм Ветряков"],
   GATE: ["Северные Ворота", "Королевские Ворота", "Железная Решетка"],
   RUINS: ["Разрушенная Башня", "Выжженный Квартал", "Старые Камни", "Забытые Подвалы"]
+  },
+  en: {
+  CASTLE: ["Royal Palace", "High Citadel", "Dragon's Peak", "Sun Castle", "Crown Fortress"],
+  KEEP: ["Old Keep", "Baron's Tower", "Iron Hold", "Stone Bastion"],
+  NOBLE: ["Golden Quarter", "Silver Hills", "Gardens of the Highborn", "Azure Ward", "Crown Hill"],
+  TEMPLE: ["Cathedral of Light", "Shrine of the Ancestors", "Mages' Circle", "Temple of Storms", "Sacred Grove"],
+  MARKET: ["Grand Bazaar", "Coin Alley", "Spice Market", "Fish Row", "Merchants' Way"],
+  PLAZA: ["Royal Square", "Heroes' Square", "Court of Fountains", "Execution Square"],
+  CRAFTSMAN: ["Smiths' Yard", "Potters' Quarter", "Tanners' Quarter", "Guild Row", "Iron Street"],
+  MILITARY: ["Guard Barracks", "Drill Yard", "Armory", "Bastion", "Siege Yard"],
+  SLUMS: ["The Warrens", "Shadow Alley", "Mudgate", "Rat's Corner", "Beggars' End"],
+  COTTAGES: ["Riverview", "East End", "Quiet Corner", "Shepherd's Hill", "Orchard Lane"],
+  FARM: ["Mill Farm", "Green Pastures", "Old Barn", "Wheatfields", "Apple Orchard"],
+  FIELDS: ["South Fields", "Grain Terraces", "Far Meadows", "Windmill Hill"],
+  GATE: ["North Gate", "King's Gate", "Iron Portcullis"],
+  RUINS: ["Fallen Tower", "Burnt Quarter", "Old Stones", "Forgotten Cellars"]
+  }
 };
 
 // Helper to get unique name
-const getUniqueName = (type: DistrictType, usedNames: Set<string>, rng: () => number): string => {
-  const pool = DISTRICT_NAMES[type] || [type];
+const getUniqueName = (type: DistrictType, usedNames: Set<string>, rng: () => number, language: GameLanguage): string => {
+  const pool = DISTRICT_NAMES[language][type] || [type];
   // Shuffle pool based on rng
   const shuffled = [...pool].sort(() => rng() - 0.5);
   
@@ -148,7 +167,8 @@ const DISTRICT_COLORS: Record<DistrictType, string> = {
 export function generateCityLayout(
   seed: number, 
   cityName: string, 
-  poiType: string = 'city'
+  poiType: string = 'city',
+  language: GameLanguage = 'ru'
 ): CityLayout {
   let configKey = 'city';
   if (poiType === 'capital') configKey = 'capital';
@@ -261,7 +281,7 @@ export function generateCityLayout(
         return [cx + dx * roadScale, cy + dy * roadScale] as [number, number];
     });
 
-    const districtName = getUniqueName(type, usedNames, rng);
+    const districtName = getUniqueName(type, usedNames, rng, language);
 
     districts.push({
       id: `district-${i}`,
@@ -0,0 +1,84 @@
+// Incremental JSON parsing for streamed LLM responses
+// Незаконченный JSON "закрывается" (строка + скобки), чтобы показать уже пришедшие поля
+
+interface CutPoint {
+  position: number;   // Длина префикса, после которого JSON можно закрыть
+  closers: string;    // Скобки, которые нужно дописать
+}
+
+const tryParse = (text: string): unknown | undefined => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Разобрать префикс JSON-документа, который ещё дописывается.
+ * Возвращает undefined, если из префикса пока ничего не извлечь.
+ *
+ * Сначала пробует закрыть текущую строку и все открытые скобки
+ * ({"description": "Туман над гав → {"description": "Туман над гав"}),
+ * затем откатывается к последнему завершённому значению.
+ */
+export const parsePartialJson = (text: string): unknown | undefined => {
+  // Пропускаем ```json и пояснения перед документом
+  const start = text.search(/[{[]/);
+  if (start === -1) return undefined;
+  const source = text.slice(start);
+
+  const stack: string[] = [];
+  const cutPoints: CutPoint[] = [];
+  let inString = false;
+  let escaped = false;
+
+  const closers = () => [...stack].reverse().join('');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+      cutPoints.push({ position: i + 1, closers: closers() });
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) {
+        // Документ завершён - хвост после него не нужен
+        return tryParse(source.slice(0, i + 1));
+      }
+      cutPoints.push({ position: i + 1, closers: closers() });
+    } else if (char === ',') {
+      cutPoints.push({ position: i, closers: closers() });
+    }
+  }
+
+  // 1. Закрываем оборванную строку (без незаконченной escape-последовательности)
+  let head = source;
+  if (inString) {
+    head = head.replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+    if (escaped) head = head.slice(0, -1);
+    head += '"';
+  }
+  head = head.replace(/[\s,]+$/, '');
+  const closed = tryParse(head + closers());
+  if (closed !== undefined) return closed;
+
+  // 2. Откатываемся к последнему месту, где значение точно завершено
+  for (let i = cutPoints.length - 1; i >= 0; i--) {
+    const { position, closers: tail } = cutPoints[i];
+    const parsed = tryParse(source.slice(0, position) + tail);
+    if (parsed !== undefined) return parsed;
+  }
+
+  return undefined;
+};
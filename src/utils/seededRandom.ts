@@ -0,0 +1,27 @@
+// Seeded random for deterministic mock answers and skill check rolls
+// FNV-1a хэш строки в seed и тот же LCG, что и в worldGenerator: один seed - одна последовательность
+
+export type Random = () => number;
+
+/**
+ * 32-битный FNV-1a хэш строки
+ */
+export const hashString = (str: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * LCG: числа в [0, 1)
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+};
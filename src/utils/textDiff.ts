@@ -0,0 +1,56 @@
+// Line diff for comparing agent responses (prompt playground)
+// LCS по строкам; ответы - десятки-сотни строк JSON, квадратичная таблица тут допустима
+
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Построчный diff: removed - только в before, added - только в after
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] - длина общей подпоследовательности a[i..] и b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ kind: 'removed', text: a[i++] });
+    } else {
+      result.push({ kind: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ kind: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ kind: 'added', text: b[j++] });
+  return result;
+};
+
+/**
+ * Ответ агента в виде для diff: JSON - с отступами и стабильным форматированием, остальное как есть
+ */
+export const formatResponseForDiff = (raw: string | undefined): string => {
+  if (!raw) return '';
+  const start = raw.search(/[{[]/);
+  const end = Math.max(raw.lastIndexOf('}'), raw.lastIndexOf(']'));
+  if (start === -1 || end < start) return raw;
+  try {
+    return JSON.stringify(JSON.parse(raw.slice(start, end + 1)), null, 2);
+  } catch {
+    return raw;
+  }
+};
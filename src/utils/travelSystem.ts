@@ -3,6 +3,8 @@
 
 import type { WorldData, POI, Kingdom, Point2D, BiomeType } from '../types/world';
 import type { TravelRoute, TravelState, TravelDanger, Quest, GameState } from '../types/travel';
+import type { GameLanguage } from '../types/i18n';
+import { getLanguage, getUIStrings } from '../i18n';
 
 // ============ РАСЧЁТ РАССТОЯНИЯ ============
 
@@ -440,21 +442,17 @@ export const updateQuestsOnArrival = (
 
 // ============ ОПИСАНИЯ ДЛЯ UI ============
 
-export const getDangerDescription = (danger: TravelDanger): string => {
-  switch (danger) {
-    case 'safe': return 'Безопасный путь';
-    case 'risky': return 'Рискованный путь';
-    case 'dangerous': return 'Опасный путь';
-  }
+// Тексты - из таблицы строк языка игры (src/i18n)
+export const getDangerDescription = (danger: TravelDanger, language: GameLanguage = getLanguage()): string => {
+  return getUIStrings(language).travel.danger[danger];
 };
 
-export const getDaysDescription = (days: number): string => {
-  if (days === 1) return '1 день пути';
-  if (days < 5) return `${days} дня пути`;
-  return `${days} дней пути`;
+export const getDaysDescription = (days: number, language: GameLanguage = getLanguage()): string => {
+  return getUIStrings(language).travel.days(days);
 };
 
-export const getTravelDescription = (route: TravelRoute): string => {
-  return `${getDaysDescription(route.distance)} • ${route.cost} золота • ${getDangerDescription(route.danger)}`;
+export const getTravelDescription = (route: TravelRoute, language: GameLanguage = getLanguage()): string => {
+  const strings = getUIStrings(language).travel;
+  return `${strings.days(route.distance)} • ${strings.cost(route.cost)} • ${strings.danger[route.danger]}`;
 };
 
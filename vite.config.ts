@@ -12,6 +12,12 @@ export default defineConfig({
         changeOrigin: true,
         rewrite: (path) => path.replace(/^\/api\/llm/, '/v1'),
         secure: true,
+      },
+      // Локальный Ollama-style сервер (провайдер 'local')
+      '/api/local-llm': {
+        target: 'http://localhost:11434',
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/api\/local-llm/, ''),
       }
     }
   }